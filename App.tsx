@@ -9,6 +9,9 @@ import ClientsPage from './pages/ClientsPage';
 import HomePage from './pages/HomePage';
 import AccountingPage from './pages/AccountingPage';
 import SettingsPage from './pages/SettingsPage';
+import ConflictsPage from './pages/ConflictsPage';
+import TrashPage from './pages/TrashPage';
+import ContactsPage from './pages/ContactsPage';
 import LoginPage from './pages/LoginPage';
 import AdminDashboard from './pages/AdminDashboard';
 import PendingApprovalPage from './pages/PendingApprovalPage';
@@ -17,22 +20,27 @@ import SubscriptionExpiredPage from './pages/SubscriptionExpiredPage';
 
 import ConfigurationModal from './components/ConfigurationModal';
 import { useSupabaseData, SyncStatus } from './hooks/useSupabaseData';
-import { UserIcon, CalculatorIcon, Cog6ToothIcon, NoSymbolIcon, PowerIcon, PrintIcon, ShareIcon, CalendarDaysIcon, ClipboardDocumentCheckIcon, ExclamationCircleIcon, ArrowPathIcon } from './components/icons';
+import { UserIcon, CalculatorIcon, Cog6ToothIcon, NoSymbolIcon, PowerIcon, PrintIcon, ShareIcon, CalendarDaysIcon, ClipboardDocumentCheckIcon, ExclamationCircleIcon, ArrowPathIcon, ExclamationTriangleIcon, TrashIcon, AddressBookIcon } from './components/icons';
 import ContextMenu, { MenuItem } from './components/ContextMenu';
-import AdminTaskModal from './components/AdminTaskModal';
+import AdminTaskModal, { AdminTaskSubmission } from './components/AdminTaskModal';
 import { AdminTask, Profile, Client, Appointment, AccountingEntry, Invoice, CaseDocument, AppData, SiteFinancialEntry, Permissions } from './types';
 import { getSupabaseClient } from './supabaseClient';
 import { useOnlineStatus } from './hooks/useOnlineStatus';
 import UnpostponedSessionsModal from './components/UnpostponedSessionsModal';
 import NotificationCenter, { RealtimeAlert } from './components/RealtimeNotifier';
+import DeadlineReminders from './components/DeadlineReminders';
 import { IDataContext, DataProvider } from './context/DataContext';
 import PrintableReport from './components/PrintableReport';
+import CalendarExportModal from './components/CalendarExportModal';
+import CalendarImportModal from './components/CalendarImportModal';
 import { printElement } from './utils/printUtils';
 import { formatDate, isSameDay } from './utils/dateUtils';
+import { applyOccurrenceEdit, expandAdminTasks, expandAppointments, parseOccurrenceId } from './utils/recurrence';
 import SyncStatusIndicator from './components/SyncStatusIndicator';
+import UndoToast from './components/UndoToast';
 
 
-type Page = 'home' | 'admin-tasks' | 'clients' | 'accounting' | 'settings';
+type Page = 'home' | 'admin-tasks' | 'clients' | 'contacts' | 'accounting' | 'settings' | 'conflicts' | 'trash';
 
 interface AppProps {
     onRefresh: () => void;
@@ -51,13 +59,16 @@ const Navbar: React.FC<{
     isAutoSyncEnabled: boolean;
     homePageActions?: React.ReactNode;
     permissions: Permissions;
-}> = ({ currentPage, onNavigate, onLogout, syncStatus, lastSyncError, isDirty, isOnline, onManualSync, profile, isAutoSyncEnabled, homePageActions, permissions }) => {
+    conflictCount: number;
+    trashCount: number;
+}> = ({ currentPage, onNavigate, onLogout, syncStatus, lastSyncError, isDirty, isOnline, onManualSync, profile, isAutoSyncEnabled, homePageActions, permissions, conflictCount, trashCount }) => {
     
     // Define all items, then filter based on permissions
     const allNavItems = [
         { id: 'home', label: 'المفكرة', icon: CalendarDaysIcon, visible: permissions.can_view_agenda }, // Changed to check permissions
         { id: 'admin-tasks', label: 'المهام الإدارية', icon: ClipboardDocumentCheckIcon, visible: permissions.can_view_admin_tasks },
         { id: 'clients', label: 'الموكلين', icon: UserIcon, visible: permissions.can_view_clients || permissions.can_view_cases },
+        { id: 'contacts', label: 'جهات الاتصال', icon: AddressBookIcon, visible: permissions.can_view_clients },
         { id: 'accounting', label: 'المحاسبة', icon: CalculatorIcon, visible: permissions.can_view_finance },
     ];
 
@@ -98,6 +109,26 @@ const Navbar: React.FC<{
                 {currentPage === 'home' && homePageActions}
             </nav>
             <div className="flex items-center gap-2 sm:gap-4">
+                {conflictCount > 0 && (
+                    <button
+                        onClick={() => onNavigate('conflicts')}
+                        className={`relative p-2 rounded-full transition-colors ${currentPage === 'conflicts' ? 'bg-amber-100 text-amber-700' : 'text-amber-500 hover:bg-amber-50'}`}
+                        title="تعارضات المزامنة"
+                    >
+                        <ExclamationTriangleIcon className="w-5 h-5" />
+                        <span className="absolute -top-1 -end-1 bg-red-600 text-white text-[10px] font-bold rounded-full min-w-[1.1rem] h-[1.1rem] flex items-center justify-center px-1">{conflictCount}</span>
+                    </button>
+                )}
+                {trashCount > 0 && (
+                    <button
+                        onClick={() => onNavigate('trash')}
+                        className={`relative p-2 rounded-full transition-colors ${currentPage === 'trash' ? 'bg-gray-200 text-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+                        title="سلة المحذوفات"
+                    >
+                        <TrashIcon className="w-5 h-5" />
+                        <span className="absolute -top-1 -end-1 bg-gray-600 text-white text-[10px] font-bold rounded-full min-w-[1.1rem] h-[1.1rem] flex items-center justify-center px-1">{trashCount}</span>
+                    </button>
+                )}
                 <SyncStatusIndicator 
                     status={syncStatus} 
                     lastError={lastSyncError} 
@@ -130,6 +161,7 @@ const MobileNavbar: React.FC<{
         { id: 'home', label: 'المفكرة', icon: CalendarDaysIcon, visible: permissions.can_view_agenda }, // Changed to check permissions
         { id: 'admin-tasks', label: 'المهام', icon: ClipboardDocumentCheckIcon, visible: permissions.can_view_admin_tasks },
         { id: 'clients', label: 'الموكلين', icon: UserIcon, visible: permissions.can_view_clients || permissions.can_view_cases },
+        { id: 'contacts', label: 'جهات الاتصال', icon: AddressBookIcon, visible: permissions.can_view_clients },
         { id: 'accounting', label: 'المحاسبة', icon: CalculatorIcon, visible: permissions.can_view_finance },
     ];
 
@@ -246,6 +278,8 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
     const [isPrintModalOpen, setIsPrintModalOpen] = React.useState(false);
     const [isPrintAssigneeModalOpen, setIsPrintAssigneeModalOpen] = React.useState(false);
     const [isShareAssigneeModalOpen, setIsShareAssigneeModalOpen] = React.useState(false);
+    const [isCalendarExportModalOpen, setIsCalendarExportModalOpen] = React.useState(false);
+    const [isCalendarImportModalOpen, setIsCalendarImportModalOpen] = React.useState(false);
     const [printableReportData, setPrintableReportData] = React.useState<any | null>(null);
     const [isActionsMenuOpen, setIsActionsMenuOpen] = React.useState(false);
     const [selectedDate, setSelectedDate] = React.useState(new Date());
@@ -363,6 +397,25 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
         }
     }, [data.addRealtimeAlert]);
 
+    // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) step through the edit history. Text fields keep their own undo.
+    // Physical key codes, so the shortcuts also work with an Arabic keyboard layout.
+    React.useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            if (event.code === 'KeyZ' && !event.shiftKey) {
+                event.preventDefault();
+                data.undo();
+            } else if (event.code === 'KeyY' || (event.code === 'KeyZ' && event.shiftKey)) {
+                event.preventDefault();
+                data.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [data.undo, data.redo]);
+
     // Close actions menu on outside click
     React.useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -408,9 +461,14 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
         setIsAdminTaskModalOpen(true);
     };
 
-    const handleSaveAdminTask = (taskData: Omit<AdminTask, 'completed'> & { id?: string }) => {
-        if (taskData.id) { // Editing
-            data.setAdminTasks(prev => prev.map(t => t.id === taskData.id ? { ...t, ...taskData, updated_at: new Date() } : t));
+    const handleSaveAdminTask = ({ editScope, ...taskData }: AdminTaskSubmission) => {
+        const occurrence = taskData.id ? parseOccurrenceId(taskData.id) : null;
+        if (occurrence) { // Editing one occurrence of a recurring task
+            data.setAdminTasks(prev => prev.flatMap(t => t.id === occurrence.seriesId
+                ? applyOccurrenceEdit(t, t.dueDate, occurrence.dateKey, editScope || 'single', { ...t, ...taskData, id: `task-${Date.now()}`, completed: false, updated_at: new Date() })
+                : [t]));
+        } else if (taskData.id) { // Editing
+            data.setAdminTasks(prev => prev.map(t => t.id === taskData.id ? { ...t, ...taskData, excludedDates: taskData.recurrence ? t.excludedDates : [], updated_at: new Date() } : t));
         } else { // Adding
             const { id, ...restOfTaskData } = taskData;
 
@@ -452,13 +510,13 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
     // --- Print/Share Logic (Lifted from HomePage) ---
     // ... (Report generation logic remains same)
     const handleGenerateAssigneeReport = (assignee: string | null) => {
-        const dailyAppointments = data.appointments
+        const dailyAppointments = expandAppointments(data.appointments, selectedDate, selectedDate)
             .filter(a => isSameDay(a.date, selectedDate))
             .sort((a, b) => a.time.localeCompare(b.time));
     
         const dailySessions = data.allSessions.filter(s => isSameDay(s.date, selectedDate));
     
-        const allUncompletedTasks = data.adminTasks.filter(t => !t.completed);
+        const allUncompletedTasks = expandAdminTasks(data.adminTasks, selectedDate).filter(t => !t.completed);
         const filteredForAssigneeTasks = assignee ? allUncompletedTasks.filter(t => t.assignee === assignee) : allUncompletedTasks;
     
         const groupedAndSortedTasks = filteredForAssigneeTasks.reduce((acc, task) => {
@@ -498,9 +556,9 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
     };
 
     const handleShareAssigneeReport = (assignee: string | null) => {
-        const dailyAppointments = data.appointments.filter(a => isSameDay(a.date, selectedDate)).sort((a, b) => a.time.localeCompare(b.time));
+        const dailyAppointments = expandAppointments(data.appointments, selectedDate, selectedDate).filter(a => isSameDay(a.date, selectedDate)).sort((a, b) => a.time.localeCompare(b.time));
         const dailySessions = data.allSessions.filter(s => isSameDay(s.date, selectedDate));
-        const allUncompletedTasks = data.adminTasks.filter(t => !t.completed);
+        const allUncompletedTasks = expandAdminTasks(data.adminTasks, selectedDate).filter(t => !t.completed);
         const filteredForAssigneeTasks = assignee ? allUncompletedTasks.filter(t => t.assignee === assignee) : allUncompletedTasks;
         const groupedAndSortedTasks = filteredForAssigneeTasks.reduce((acc, task) => {
             const location = task.location || 'غير محدد';
@@ -661,11 +719,18 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
             case 'clients':
                 if (!checkPermission(data.permissions.can_view_clients || data.permissions.can_view_cases)) return <HomePage onOpenAdminTaskModal={handleOpenAdminTaskModal} showContextMenu={showContextMenu} mainView="agenda" selectedDate={selectedDate} setSelectedDate={setSelectedDate} />;
                 return <ClientsPage showContextMenu={showContextMenu} onOpenAdminTaskModal={handleOpenAdminTaskModal} onCreateInvoice={handleCreateInvoice} />;
+            case 'contacts':
+                if (!checkPermission(data.permissions.can_view_clients)) return <HomePage onOpenAdminTaskModal={handleOpenAdminTaskModal} showContextMenu={showContextMenu} mainView="agenda" selectedDate={selectedDate} setSelectedDate={setSelectedDate} />;
+                return <ContactsPage />;
             case 'accounting':
                 if (!checkPermission(data.permissions.can_view_finance)) return <HomePage onOpenAdminTaskModal={handleOpenAdminTaskModal} showContextMenu={showContextMenu} mainView="agenda" selectedDate={selectedDate} setSelectedDate={setSelectedDate} />;
                 return <AccountingPage initialInvoiceData={initialInvoiceData} clearInitialInvoiceData={() => setInitialInvoiceData(undefined)} />;
             case 'settings':
                 return <SettingsPage />;
+            case 'conflicts':
+                return <ConflictsPage />;
+            case 'trash':
+                return <TrashPage />;
             case 'admin-tasks':
                 if (!checkPermission(data.permissions.can_view_admin_tasks)) return <HomePage onOpenAdminTaskModal={handleOpenAdminTaskModal} showContextMenu={showContextMenu} mainView="agenda" selectedDate={selectedDate} setSelectedDate={setSelectedDate} />;
                 return <HomePage onOpenAdminTaskModal={handleOpenAdminTaskModal} showContextMenu={showContextMenu} mainView="adminTasks" selectedDate={selectedDate} setSelectedDate={setSelectedDate} />;
@@ -706,6 +771,14 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
                             <ShareIcon className="w-5 h-5 text-gray-500" />
                             <span>إرسال عبر واتساب</span>
                         </button>
+                        <button onClick={() => { setIsCalendarExportModalOpen(true); setIsActionsMenuOpen(false); }} className="w-full text-right flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" role="menuitem">
+                            <CalendarDaysIcon className="w-5 h-5 text-gray-500" />
+                            <span>تصدير إلى التقويم (ics.)</span>
+                        </button>
+                        <button onClick={() => { setIsCalendarImportModalOpen(true); setIsActionsMenuOpen(false); }} className="w-full text-right flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" role="menuitem">
+                            <CalendarDaysIcon className="w-5 h-5 text-gray-500" />
+                            <span>استيراد مواعيد من تقويم (ics.)</span>
+                        </button>
                     </div>
                 </div>
             )}
@@ -728,6 +801,8 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
                     isAutoSyncEnabled={data.isAutoSyncEnabled}
                     homePageActions={homePageActions}
                     permissions={data.permissions}
+                    conflictCount={data.syncConflicts.length}
+                    trashCount={data.trashItems.length}
                 />
                 <OfflineBanner />
                 {/* Added padding-bottom to main content to prevent overlap with the mobile nav */}
@@ -768,6 +843,16 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
                     dismissRealtimeAlert={data.dismissRealtimeAlert}
                     dismissUserApprovalAlert={data.dismissUserApprovalAlert}
                 />
+                <DeadlineReminders />
+
+                {data.undoToast && (
+                    <UndoToast
+                        key={data.undoToast.id}
+                        label={data.undoToast.label}
+                        onUndo={() => { data.dismissUndoToast(); data.undo(); }}
+                        onDismiss={data.dismissUndoToast}
+                    />
+                )}
 
                  {/* Modals lifted from HomePage */}
                 {isPrintAssigneeModalOpen && (
@@ -825,6 +910,9 @@ const App: React.FC<AppProps> = ({ onRefresh }) => {
                     </div>
                 )}
 
+                {isCalendarExportModalOpen && <CalendarExportModal onClose={() => setIsCalendarExportModalOpen(false)} />}
+                {isCalendarImportModalOpen && <CalendarImportModal onClose={() => setIsCalendarImportModalOpen(false)} />}
+
                 {isPrintModalOpen && (
                     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={() => setIsPrintModalOpen(false)}>
                         <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
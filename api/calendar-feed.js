@@ -0,0 +1,35 @@
+// Serves a calendar subscription: GET /api/calendar-feed?token=...
+// Calendar apps can't send headers, so this asks the 'calendar_feed' database function on their behalf
+// and the subscription address carries the feed's token only, never the project's API key.
+// Needs the SUPABASE_URL and SUPABASE_ANON_KEY environment variables of the deployment.
+
+module.exports = async (req, res) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  const { SUPABASE_URL, SUPABASE_ANON_KEY } = process.env;
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    res.status(500).send('Calendar feeds are not configured.');
+    return;
+  }
+  if (!token) {
+    res.status(400).send('Missing feed token.');
+    return;
+  }
+
+  try {
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/calendar_feed?feed_token=${encodeURIComponent(token)}`, {
+      headers: { apikey: SUPABASE_ANON_KEY, Authorization: `Bearer ${SUPABASE_ANON_KEY}`, Accept: 'text/calendar' },
+    });
+    if (!response.ok) {
+      // An unknown or revoked token raises in the database function; don't tell the two apart from other errors.
+      console.warn('Calendar feed request failed:', response.status, await response.text());
+      res.status(404).send('Calendar feed not found.');
+      return;
+    }
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.status(200).send(await response.text());
+  } catch (error) {
+    console.error('Calendar feed request failed:', error);
+    res.status(502).send('Calendar feed unavailable.');
+  }
+};
@@ -1,23 +1,33 @@
 import * as React from 'react';
 import { AdminTask } from '../types';
 import { toInputDateString } from '../utils/dateUtils';
+import { useData } from '../context/DataContext';
+import RecurrenceFields, { RecurrenceScopeSelect, createRecurrenceForm, toRecurrenceRule } from './RecurrenceFields';
+import { RecurrenceEditScope, getRuleFromOccurrence, parseOccurrenceId } from '../utils/recurrence';
+
+export type AdminTaskSubmission = Omit<AdminTask, 'id' | 'completed'> & { id?: string; editScope?: RecurrenceEditScope };
 
 interface AdminTaskModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (taskData: Omit<AdminTask, 'id' | 'completed'> & { id?: string }) => void;
+    onSubmit: (taskData: AdminTaskSubmission) => void;
     initialData?: Partial<Omit<AdminTask, 'dueDate'>> & { dueDate?: string; id?: string };
     assistants: string[];
 }
 
 const AdminTaskModal: React.FC<AdminTaskModalProps> = ({ isOpen, onClose, onSubmit, initialData, assistants }) => {
+    const { clients, adminTasks } = useData();
     const [taskFormData, setTaskFormData] = React.useState({
         task: '',
         dueDate: toInputDateString(new Date()),
         importance: 'normal' as 'normal' | 'important' | 'urgent',
         assignee: 'بدون تخصيص',
         location: '',
+        caseId: null as string | null | undefined,
     });
+    const [recurrenceForm, setRecurrenceForm] = React.useState(createRecurrenceForm());
+    const [editScope, setEditScope] = React.useState<RecurrenceEditScope>('single');
+    const occurrence = initialData?.id ? parseOccurrenceId(initialData.id) : null;
     
     // Effect to reset and populate form state when the modal opens.
     React.useEffect(() => {
@@ -28,9 +38,17 @@ const AdminTaskModal: React.FC<AdminTaskModalProps> = ({ isOpen, onClose, onSubm
                 importance: 'normal' as const,
                 assignee: 'بدون تخصيص',
                 location: '',
+                caseId: null,
             };
             setTaskFormData({ ...defaultState, ...initialData });
+            const editedOccurrence = initialData?.id ? parseOccurrenceId(initialData.id) : null;
+            const series = editedOccurrence ? adminTasks.find(t => t.id === editedOccurrence.seriesId) : undefined;
+            setRecurrenceForm(createRecurrenceForm(series?.recurrence && editedOccurrence
+                ? getRuleFromOccurrence(series.recurrence, series.dueDate, editedOccurrence.dateKey)
+                : initialData?.recurrence));
+            setEditScope('single');
         }
+        // adminTasks is left out on purpose: a sync refreshing the list must not reset a form being filled in.
     }, [isOpen, initialData]);
 
     const handleTaskFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -52,7 +70,10 @@ const AdminTaskModal: React.FC<AdminTaskModalProps> = ({ isOpen, onClose, onSubm
             id: initialData?.id, // Override with id from initialData for editing
             dueDate: taskDate, // Use the parsed Date object
             location: taskFormData.location || 'غير محدد', // Ensure location has a default
-        } as Omit<AdminTask, 'completed'> & { id?: string });
+            caseId: taskFormData.caseId || null,
+            recurrence: toRecurrenceRule(recurrenceForm),
+            editScope: occurrence ? editScope : undefined,
+        } as AdminTaskSubmission);
     };
 
     if (!isOpen) return null;
@@ -105,6 +126,24 @@ const AdminTaskModal: React.FC<AdminTaskModalProps> = ({ isOpen, onClose, onSubm
                             {assistants.map(name => <option key={name} value={name}>{name}</option>)}
                         </select>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700">القضية المرتبطة</label>
+                        <select name="caseId" value={taskFormData.caseId || ''} onChange={handleTaskFormChange} className="w-full p-2 border rounded">
+                            <option value="">بدون قضية</option>
+                            {clients.filter(client => client.cases.length > 0).map(client => (
+                                <optgroup key={client.id} label={client.name}>
+                                    {client.cases.map(caseItem => <option key={caseItem.id} value={caseItem.id}>{caseItem.subject} - ضد {caseItem.opponentName}</option>)}
+                                </optgroup>
+                            ))}
+                        </select>
+                    </div>
+                    {occurrence && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">تطبيق التعديل على</label>
+                            <RecurrenceScopeSelect value={editScope} onChange={setEditScope} kind="task" />
+                        </div>
+                    )}
+                    {!(occurrence && editScope === 'single') && <RecurrenceFields value={recurrenceForm} onChange={setRecurrenceForm} />}
                     <div className="mt-6 flex justify-end gap-4">
                         <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">إلغاء</button>
                         <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">حفظ</button>
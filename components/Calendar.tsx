@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { getDaysInMonth, getFirstDayOfMonth, isSameDay, isToday, isWeekend, getPublicHoliday } from '../utils/dateUtils';
 import { Session, Appointment } from '../types';
+import { expandAppointments } from '../utils/recurrence';
 import { ChevronLeftIcon } from './icons';
 
 interface CalendarProps {
@@ -38,9 +39,15 @@ const Calendar: React.FC<CalendarProps> = ({ onDateSelect, selectedDate, session
         setCurrentDate(new Date(year, month + offset, 1));
     };
 
+    // Recurring appointments are only expanded for the month on display.
+    const monthAppointments = React.useMemo(
+        () => expandAppointments(appointments, new Date(year, month, 1), new Date(year, month + 1, 0)),
+        [appointments, year, month]
+    );
+
     const getEventsCountForDay = (day: Date) => {
         const sessionCount = sessions.filter(s => isSameDay(s.date, day)).length;
-        const appointmentCount = appointments.filter(a => isSameDay(a.date, day)).length;
+        const appointmentCount = monthAppointments.filter(a => isSameDay(a.date, day)).length;
         return { sessionCount, appointmentCount };
     };
 
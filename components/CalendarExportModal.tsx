@@ -0,0 +1,82 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { parseInputDateString } from '../utils/dateUtils';
+import { toDateKey } from '../utils/recurrence';
+import { buildCalendarExport } from '../utils/ical';
+import { ArrowDownTrayIcon } from './icons';
+
+interface CalendarExportModalProps {
+    onClose: () => void;
+}
+
+const DEFAULT_RANGE_DAYS = 90;
+
+const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ onClose }) => {
+    const { allSessions, appointments, adminTasks, assistants, permissions } = useData();
+    const today = new Date();
+    const [assignee, setAssignee] = React.useState('');
+    const [from, setFrom] = React.useState(toDateKey(today));
+    const [to, setTo] = React.useState(toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() + DEFAULT_RANGE_DAYS)));
+    const [includeSessions, setIncludeSessions] = React.useState(permissions.can_view_sessions);
+    const [includeAppointments, setIncludeAppointments] = React.useState(permissions.can_view_agenda);
+    const [includeTasks, setIncludeTasks] = React.useState(permissions.can_view_admin_tasks);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const handleExport = (e: React.FormEvent) => {
+        e.preventDefault();
+        const fromDate = parseInputDateString(from);
+        const toDate = parseInputDateString(to);
+        if (!fromDate || !toDate || fromDate > toDate) {
+            setError('حدد فترة صحيحة: تاريخ البداية قبل تاريخ النهاية.');
+            return;
+        }
+        if (!includeSessions && !includeAppointments && !includeTasks) {
+            setError('اختر نوعاً واحداً على الأقل.');
+            return;
+        }
+        const name = assignee ? `جدول أعمال ${assignee}` : 'جدول الأعمال';
+        const ics = buildCalendarExport(
+            { sessions: allSessions, appointments, adminTasks },
+            { assignee: assignee || null, from: fromDate, to: toDate, includeSessions, includeAppointments, includeTasks },
+            name
+        );
+        const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a'); a.href = url;
+        a.download = `lawyer_app_calendar_${from}_${to}.ics`;
+        document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={onClose}>
+            <form onSubmit={handleExport} className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg space-y-4" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold border-b pb-3">تصدير إلى التقويم (ics.)</h2>
+                <p className="text-sm text-gray-600">ملف يُفتح في تقويم Google أو Outlook أو تقويم الهاتف. الجلسات تظهر بالمحكمة ورقم الأساس والأطراف، والمواعيد بتذكيرها، والمهام في تاريخ استحقاقها.</p>
+                <div>
+                    <label className="block text-sm font-medium">الشخص</label>
+                    <select value={assignee} onChange={e => setAssignee(e.target.value)} className="w-full p-2 border rounded">
+                        <option value="">الجميع</option>
+                        {assistants.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div><label className="block text-sm font-medium">من</label><input type="date" value={from} onChange={e => setFrom(e.target.value)} className="w-full p-2 border rounded" required /></div>
+                    <div><label className="block text-sm font-medium">إلى</label><input type="date" value={to} onChange={e => setTo(e.target.value)} className="w-full p-2 border rounded" required /></div>
+                </div>
+                <div className="space-y-1 text-sm">
+                    {permissions.can_view_sessions && <label className="flex items-center gap-2"><input type="checkbox" checked={includeSessions} onChange={e => setIncludeSessions(e.target.checked)} />الجلسات</label>}
+                    {permissions.can_view_agenda && <label className="flex items-center gap-2"><input type="checkbox" checked={includeAppointments} onChange={e => setIncludeAppointments(e.target.checked)} />المواعيد</label>}
+                    {permissions.can_view_admin_tasks && <label className="flex items-center gap-2"><input type="checkbox" checked={includeTasks} onChange={e => setIncludeTasks(e.target.checked)} />المهام الإدارية غير المنجزة</label>}
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <div className="flex justify-end gap-3">
+                    <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 transition-colors">إغلاق</button>
+                    <button type="submit" className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><ArrowDownTrayIcon className="w-5 h-5" /><span>تنزيل الملف</span></button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default CalendarExportModal;
@@ -0,0 +1,132 @@
+import * as React from 'react';
+import { CalendarFeed } from '../types';
+import { useData } from '../context/DataContext';
+import { createCalendarFeed, deleteCalendarFeed, fetchCalendarFeeds, getCalendarFeedUrl } from '../hooks/useOnlineData';
+import { formatDate } from '../utils/dateUtils';
+import { ClipboardDocumentCheckIcon, ClipboardDocumentIcon, PlusIcon, TrashIcon } from './icons';
+
+interface CalendarFeedsManagerProps {
+    onClose: () => void;
+}
+
+const CalendarFeedsManager: React.FC<CalendarFeedsManagerProps> = ({ onClose }) => {
+    const { assistants, profiles, userId, effectiveUserId } = useData();
+    const [feeds, setFeeds] = React.useState<CalendarFeed[]>([]);
+    const [isLoading, setIsLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [form, setForm] = React.useState<{ name: string; assignee: string } | null>(null);
+    const [copiedId, setCopiedId] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        fetchCalendarFeeds()
+            .then(setFeeds)
+            .catch(err => setError('تعذر تحميل الاشتراكات: ' + err.message))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form || !effectiveUserId) return;
+        try {
+            const feed = await createCalendarFeed(effectiveUserId, form.name.trim() || 'جدول الأعمال', form.assignee || null);
+            setFeeds(prev => [...prev, feed]);
+            setForm(null);
+            setError(null);
+        } catch (err: any) {
+            setError('فشل إنشاء الاشتراك: ' + err.message);
+        }
+    };
+
+    const handleRevoke = async (feed: CalendarFeed) => {
+        if (!window.confirm(`إلغاء الاشتراك "${feed.name}"؟ سيتوقف التقويم المشترك به عن التحديث.`)) return;
+        try {
+            await deleteCalendarFeed(feed.id);
+            setFeeds(prev => prev.filter(f => f.id !== feed.id));
+        } catch (err: any) {
+            setError('فشل إلغاء الاشتراك: ' + err.message);
+        }
+    };
+
+    const handleCopy = (feed: CalendarFeed) => {
+        navigator.clipboard.writeText(getCalendarFeedUrl(feed.token)).then(() => {
+            setCopiedId(feed.id);
+            setTimeout(() => setCopiedId(null), 2000);
+        });
+    };
+
+    const getCreatorName = (feed: CalendarFeed) => feed.created_by === userId ? null : profiles.find(p => p.id === feed.created_by)?.full_name || 'مساعد';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">اشتراكات التقويم</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        انسخ الرابط وأضفه في تطبيق التقويم (في تقويم Google: إضافة تقويم ← من عنوان URL) ليعرض الجلسات والمواعيد والمهام غير المنجزة ويحدّثها تلقائياً. كل من يملك الرابط يستطيع قراءة الجدول، فألغِ الاشتراك إذا انتشر الرابط وأنشئ غيره.
+                    </p>
+                    {error && <p className="p-3 text-sm bg-red-50 text-red-700 rounded-lg">{error}</p>}
+
+                    {isLoading ? (
+                        <p className="text-sm text-center text-gray-500 py-4">جاري التحميل...</p>
+                    ) : feeds.length === 0 ? (
+                        <p className="text-sm text-center text-gray-500 py-4">لا توجد اشتراكات.</p>
+                    ) : (
+                        <ul className="divide-y border rounded-lg">
+                            {feeds.map(feed => {
+                                const creator = getCreatorName(feed);
+                                return (
+                                    <li key={feed.id} className="p-3 space-y-2">
+                                        <div className="flex justify-between items-center gap-2">
+                                            <div>
+                                                <span className="font-semibold text-gray-800">{feed.name}</span>
+                                                <span className="text-sm text-gray-600 ms-2">{feed.assignee ? `جدول ${feed.assignee}` : 'جدول الجميع'}</span>
+                                                <p className="text-xs text-gray-500">أُنشئ {formatDate(new Date(feed.created_at))}{creator && ` بواسطة ${creator}`}</p>
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <button onClick={() => handleCopy(feed)} className="p-1 text-gray-500 hover:text-blue-600" title="نسخ الرابط">
+                                                    {copiedId === feed.id ? <ClipboardDocumentCheckIcon className="w-4 h-4 text-green-600" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
+                                                </button>
+                                                <button onClick={() => handleRevoke(feed)} className="p-1 text-gray-500 hover:text-red-600" aria-label="إلغاء الاشتراك"><TrashIcon className="w-4 h-4" /></button>
+                                            </div>
+                                        </div>
+                                        <input type="text" readOnly value={getCalendarFeedUrl(feed.token)} onFocus={e => e.target.select()} className="w-full p-2 text-xs border rounded bg-gray-50 font-mono" dir="ltr" />
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {!form && (
+                        <button onClick={() => setForm({ name: '', assignee: '' })} disabled={isLoading} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400">
+                            <PlusIcon className="w-5 h-5" /><span>اشتراك جديد</span>
+                        </button>
+                    )}
+                    {form && (
+                        <form onSubmit={handleCreate} className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                            <div className="grid gap-3 md:grid-cols-2">
+                                <div><label className="block text-sm font-medium">الاسم</label><input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full p-2 border rounded" placeholder="مثال: هاتفي" /></div>
+                                <div>
+                                    <label className="block text-sm font-medium">يعرض</label>
+                                    <select value={form.assignee} onChange={e => setForm({ ...form, assignee: e.target.value })} className="w-full p-2 border rounded">
+                                        <option value="">جدول الجميع</option>
+                                        {assistants.map(name => <option key={name} value={name}>{name}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="flex justify-end gap-3">
+                                <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button>
+                                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">إنشاء</button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarFeedsManager;
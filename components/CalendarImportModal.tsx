@@ -0,0 +1,148 @@
+import * as React from 'react';
+import { Appointment } from '../types';
+import { useData } from '../context/DataContext';
+import { formatDate } from '../utils/dateUtils';
+import { describeRecurrence } from '../utils/recurrence';
+import { ALL_DAY_IMPORT_TIME, CalendarImportItem, isDuplicateAppointment, parseCalendarAppointments } from '../utils/ical';
+import { ArrowUpTrayIcon, ExclamationTriangleIcon } from './icons';
+
+interface CalendarImportModalProps {
+    onClose: () => void;
+}
+
+type PreviewRow = CalendarImportItem & { selected: boolean; duplicate: boolean };
+
+const IMPORTANCE_LABELS: Record<Appointment['importance'], string> = { normal: 'عادي', important: 'مهم', urgent: 'عاجل' };
+
+const CalendarImportModal: React.FC<CalendarImportModalProps> = ({ onClose }) => {
+    const { appointments, setAppointments, assistants } = useData();
+    const [rows, setRows] = React.useState<PreviewRow[] | null>(null);
+    const [fileName, setFileName] = React.useState('');
+    const [assignee, setAssignee] = React.useState('بدون تخصيص');
+    const [error, setError] = React.useState<string | null>(null);
+
+    const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const text = e.target?.result;
+            const items = typeof text === 'string' ? parseCalendarAppointments(text) : [];
+            if (items.length === 0) {
+                setError('لم يُعثر على مواعيد في الملف. تأكد من أنه ملف تقويم (ics.) مصدَّر من Google أو Outlook.');
+                setRows(null);
+                return;
+            }
+            // An event is a duplicate if it is already on the agenda or appears earlier in the same file.
+            const accepted: Appointment[] = [];
+            setRows(items.map(item => {
+                const duplicate = isDuplicateAppointment(item.appointment, appointments) || isDuplicateAppointment(item.appointment, accepted);
+                if (!duplicate) accepted.push(item.appointment);
+                return { ...item, selected: !duplicate, duplicate };
+            }));
+            setFileName(file.name);
+            setError(null);
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    const updateRow = (index: number, changes: Partial<PreviewRow>, appointmentChanges: Partial<Appointment> = {}) => {
+        setRows(prev => prev && prev.map((row, i) => i === index ? { ...row, ...changes, appointment: { ...row.appointment, ...appointmentChanges } } : row));
+    };
+
+    const selectedRows = rows?.filter(row => row.selected) || [];
+
+    const handleImport = () => {
+        if (selectedRows.length === 0) return;
+        setAppointments(prev => [...prev, ...selectedRows.map(row => ({ ...row.appointment, time: row.appointment.time || ALL_DAY_IMPORT_TIME, assignee, updated_at: new Date() }))]);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 no-print p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">استيراد مواعيد من تقويم (ics.)</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1 space-y-4">
+                    <p className="text-sm text-gray-600">اختر ملف تقويم مصدَّراً من Google أو Outlook أو غيرهما. تُحوَّل الأحداث إلى مواعيد بتكرارها وتذكيرها وأهميتها، وتُستبعد تلقائياً المواعيد الموجودة مسبقاً بنفس اليوم والوقت والعنوان.</p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded cursor-pointer hover:bg-gray-700">
+                            <ArrowUpTrayIcon className="w-5 h-5" />
+                            <span>اختيار ملف</span>
+                            <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFile} />
+                        </label>
+                        {fileName && <span className="text-sm text-gray-600" dir="ltr">{fileName}</span>}
+                    </div>
+                    {error && <p className="p-3 text-sm bg-red-50 text-red-700 rounded-lg">{error}</p>}
+
+                    {rows && (
+                        <>
+                            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                                <span>{rows.length} حدثاً، منها {rows.filter(r => r.duplicate).length} مكرر · المحدد للاستيراد: {selectedRows.length}</span>
+                                <label className="flex items-center gap-2">
+                                    <span>المكلف</span>
+                                    <select value={assignee} onChange={e => setAssignee(e.target.value)} className="p-2 border rounded">
+                                        {assistants.map(name => <option key={name} value={name}>{name}</option>)}
+                                    </select>
+                                </label>
+                            </div>
+                            <div className="overflow-x-auto border rounded-lg">
+                                <table className="w-full text-sm text-right">
+                                    <thead className="bg-gray-50 text-gray-700">
+                                        <tr>
+                                            <th className="p-2">
+                                                <input type="checkbox" checked={selectedRows.length === rows.length} onChange={e => setRows(rows.map(row => ({ ...row, selected: e.target.checked })))} aria-label="تحديد الكل" />
+                                            </th>
+                                            <th className="p-2">الموعد</th>
+                                            <th className="p-2">التاريخ</th>
+                                            <th className="p-2">الوقت</th>
+                                            <th className="p-2">الأهمية</th>
+                                            <th className="p-2">التذكير</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y">
+                                        {rows.map((row, index) => (
+                                            <tr key={row.appointment.id} className={row.duplicate ? 'bg-yellow-50' : ''}>
+                                                <td className="p-2"><input type="checkbox" checked={row.selected} onChange={e => updateRow(index, { selected: e.target.checked })} /></td>
+                                                <td className="p-2">
+                                                    <div className="font-medium text-gray-800">{row.appointment.title}</div>
+                                                    {row.appointment.recurrence && <div className="text-xs text-gray-500">{describeRecurrence(row.appointment.recurrence)}</div>}
+                                                    {row.unsupportedRecurrence && (
+                                                        <div className="text-xs text-amber-700 flex items-center gap-1"><ExclamationTriangleIcon className="w-3 h-3" />تكرار غير مدعوم، يُستورد الموعد الأول فقط</div>
+                                                    )}
+                                                    {row.duplicate && <span className="inline-block mt-1 px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs rounded-full">موجود مسبقاً</span>}
+                                                </td>
+                                                <td className="p-2 whitespace-nowrap">{formatDate(row.appointment.date)}</td>
+                                                <td className="p-2">
+                                                    <input type="time" value={row.appointment.time} onChange={e => updateRow(index, {}, { time: e.target.value })} className="p-1 border rounded" />
+                                                    {row.allDay && <div className="text-xs text-gray-500">طوال اليوم</div>}
+                                                </td>
+                                                <td className="p-2">
+                                                    <select value={row.appointment.importance} onChange={e => updateRow(index, {}, { importance: e.target.value as Appointment['importance'] })} className="p-1 border rounded">
+                                                        {(Object.keys(IMPORTANCE_LABELS) as Appointment['importance'][]).map(key => <option key={key} value={key}>{IMPORTANCE_LABELS[key]}</option>)}
+                                                    </select>
+                                                </td>
+                                                <td className="p-2 whitespace-nowrap">{row.appointment.reminderTimeInMinutes} دقيقة</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="mt-4 flex justify-end gap-3 pt-4 border-t">
+                    <button type="button" onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-semibold rounded-lg hover:bg-gray-300 transition-colors">إلغاء</button>
+                    <button type="button" onClick={handleImport} disabled={selectedRows.length === 0} className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400">استيراد {selectedRows.length > 0 ? selectedRows.length : ''}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarImportModal;
@@ -0,0 +1,141 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { AuditLogEntry, CaseType, CustomFieldDefinition, OutboxReason } from '../types';
+import { fetchCaseAuditLog } from '../hooks/useOnlineData';
+import { formatDate, formatDateTime } from '../utils/dateUtils';
+import { ArrowPathIcon, ClockIcon, ExclamationTriangleIcon } from './icons';
+import { CASE_PARTY_ROLE_LABELS } from '../utils/caseParties';
+import { getCaseTypeLabel } from '../utils/caseTypes';
+import { formatCustomFieldValue } from '../utils/customFields';
+import { CHALLENGE_KIND_LABELS, STAGE_OUTCOME_LABELS } from '../utils/stageChain';
+
+const TABLE_LABELS: Record<string, string> = {
+    cases: 'القضية',
+    case_parties: 'طرف',
+    stages: 'مرحلة',
+    sessions: 'جلسة',
+    case_documents: 'وثيقة',
+    accounting_entries: 'قيد محاسبي',
+    invoices: 'فاتورة',
+};
+
+const ACTION_LABELS: Record<OutboxReason, string> = {
+    create: 'إضافة',
+    update: 'تعديل',
+    delete: 'حذف',
+    postpone: 'ترحيل',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    subject: 'الموضوع', clientName: 'الموكل', opponentName: 'الخصم', feeAgreement: 'اتفاقية الأتعاب', status: 'الحالة', caseTypeId: 'نوع القضية', tags: 'الوسوم', customFields: 'الحقول المخصصة',
+    court: 'المحكمة', caseNumber: 'رقم الأساس', firstSessionDate: 'تاريخ أول جلسة', decisionDate: 'تاريخ الحسم',
+    decisionNumber: 'رقم القرار', decisionSummary: 'ملخص القرار', decisionNotes: 'ملاحظات القرار', decisionOutcome: 'نتيجة القرار', challengeKind: 'طريق الطعن', notificationDate: 'تاريخ التبليغ', filingDeadline: 'آخر موعد للطعن',
+    date: 'التاريخ', postponementReason: 'سبب التأجيل', nextPostponementReason: 'سبب التأجيل القادم', isPostponed: 'مُرحّلة',
+    nextSessionDate: 'تاريخ الجلسة القادمة', assignee: 'المكلف', role: 'الصفة', isClient: 'من موكلينا', representative: 'الوكيل', name: 'الاسم', type: 'النوع', amount: 'المبلغ',
+    description: 'البيان', issueDate: 'تاريخ الإصدار', dueDate: 'تاريخ الاستحقاق', taxRate: 'الضريبة', discount: 'الحسم', notes: 'ملاحظات',
+};
+
+const formatValue = (field: string, value: any, caseTypes: CaseType[], customFieldDefinitions: CustomFieldDefinition[]): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'caseTypeId') return getCaseTypeLabel(caseTypes, value) || String(value);
+    if (field === 'customFields') {
+        const items = customFieldDefinitions.filter(d => d.id in value).map(d => `${d.label}: ${formatCustomFieldValue(d, value[d.id])}`);
+        return items.length > 0 ? items.join('، ') : '—';
+    }
+    if (Array.isArray(value)) return value.length > 0 ? value.join('، ') : '—';
+    if (field === 'decisionOutcome') return (STAGE_OUTCOME_LABELS as Record<string, string>)[value] || String(value);
+    if (field === 'challengeKind') return (CHALLENGE_KIND_LABELS as Record<string, string>)[value] || String(value);
+    if (field === 'role') return (CASE_PARTY_ROLE_LABELS as Record<string, string>)[value] || String(value);
+    if (typeof value === 'boolean') return value ? 'نعم' : 'لا';
+    if (value instanceof Date) return formatDate(value);
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatDate(new Date(value));
+    return String(value);
+};
+
+// Who changed what in a case, read from the cloud audit log plus the local changes not pushed yet.
+const CaseAuditLog: React.FC<{ caseId: string }> = ({ caseId }) => {
+    const { profiles, pendingOperations, effectiveUserId, caseTypes, customFieldDefinitions } = useData();
+    const [entries, setEntries] = React.useState<AuditLogEntry[]>([]);
+    const [isLoading, setIsLoading] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const [actorFilter, setActorFilter] = React.useState('all');
+
+    const load = React.useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setEntries(await fetchCaseAuditLog(caseId));
+        } catch (e: any) {
+            setError(String(e.message).toLowerCase().includes('failed to fetch') ? 'تعذر الاتصال بالخادم.' : e.message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [caseId]);
+
+    React.useEffect(() => { load(); }, [load]);
+
+    const pendingEntries = React.useMemo(() => {
+        const loadedIds = new Set(entries.map(entry => entry.id));
+        return pendingOperations.filter(op => op.auditRow?.case_id === caseId && !loadedIds.has(op.opId)).map(op => op.auditRow!).reverse();
+    }, [pendingOperations, entries, caseId]);
+    const pendingIds = new Set(pendingEntries.map(entry => entry.id));
+
+    // The owner and their assistants, plus anyone already in the log (e.g. an assistant since removed).
+    const actorIds = [...new Set([
+        ...profiles.filter(p => p.id === effectiveUserId || p.lawyer_id === effectiveUserId).map(p => p.id),
+        ...entries.map(entry => entry.actor_id),
+    ])];
+    const getActorName = (actorId: string) => profiles.find(p => p.id === actorId)?.full_name || 'مستخدم محذوف';
+
+    const visibleEntries = [...pendingEntries, ...entries].filter(entry => actorFilter === 'all' || entry.actor_id === actorFilter);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className="p-2 text-sm border rounded-lg bg-white">
+                    <option value="all">كل المستخدمين</option>
+                    {actorIds.map(id => <option key={id} value={id}>{getActorName(id)}</option>)}
+                </select>
+                <button onClick={load} disabled={isLoading} className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50">
+                    <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    تحديث
+                </button>
+            </div>
+            {error && (
+                <div className="flex items-center gap-2 p-3 text-sm text-red-700 bg-red-50 rounded">
+                    <ExclamationTriangleIcon className="w-5 h-5" />
+                    <span>تعذر تحميل سجل التعديلات: {error}</span>
+                </div>
+            )}
+            {!isLoading && visibleEntries.length === 0 && !error && <p className="text-sm text-center text-gray-500 py-4">لا توجد تعديلات مسجلة.</p>}
+            <ul className="space-y-2">
+                {visibleEntries.map(entry => (
+                    <li key={entry.id} className="p-3 border rounded-lg text-sm">
+                        <div className="flex flex-wrap justify-between gap-2">
+                            <span className="font-semibold text-gray-800">
+                                {ACTION_LABELS[entry.action] || entry.action} {TABLE_LABELS[entry.table_name] || entry.table_name}
+                                {entry.record_label && entry.table_name !== 'cases' && <span className="font-normal text-gray-600"> «{entry.record_label}»</span>}
+                            </span>
+                            <span className="flex items-center gap-1 text-xs text-gray-500">
+                                <ClockIcon className="w-4 h-4" />
+                                {formatDateTime(new Date(entry.created_at))} · {getActorName(entry.actor_id)}
+                                {pendingIds.has(entry.id) && <span className="px-2 rounded-full bg-yellow-100 text-yellow-800">بانتظار المزامنة</span>}
+                            </span>
+                        </div>
+                        {entry.changes && (
+                            <ul className="mt-2 space-y-1 text-gray-700">
+                                {Object.entries(entry.changes).map(([field, change]) => (
+                                    <li key={field}>
+                                        <span className="text-gray-500">{FIELD_LABELS[field] || field}:</span> <span className="line-through text-red-600">{formatValue(field, change.from, caseTypes, customFieldDefinitions)}</span> ← <span className="text-green-700">{formatValue(field, change.to, caseTypes, customFieldDefinitions)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default CaseAuditLog;
@@ -0,0 +1,95 @@
+import * as React from 'react';
+import { Case, CaseType } from '../types';
+import { getCaseSubtypes, getCaseTypeLabel, getTopLevelCaseTypes, normalizeTags } from '../utils/caseTypes';
+
+// Top-level types followed by their subtypes, indented, for a plain <select>.
+export const CaseTypeOptions: React.FC<{ caseTypes: CaseType[] }> = ({ caseTypes }) => (
+    <>
+        {getTopLevelCaseTypes(caseTypes).map(root => (
+            <React.Fragment key={root.id}>
+                <option value={root.id}>{root.name}</option>
+                {getCaseSubtypes(caseTypes, root.id).map(sub => <option key={sub.id} value={sub.id}>{'   — '}{sub.name}</option>)}
+            </React.Fragment>
+        ))}
+    </>
+);
+
+// The type and tags shown next to a case's subject.
+export const CaseClassificationBadges: React.FC<{ caseItem: Case; caseTypes: CaseType[] }> = ({ caseItem, caseTypes }) => {
+    const typeLabel = getCaseTypeLabel(caseTypes, caseItem.caseTypeId);
+    if (!typeLabel && !caseItem.tags?.length) return null;
+    return (
+        <span className="flex flex-wrap items-center gap-1 font-normal">
+            {typeLabel && <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">{typeLabel}</span>}
+            {caseItem.tags?.map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-700">#{tag}</span>)}
+        </span>
+    );
+};
+
+interface CaseClassificationFieldsProps {
+    caseTypeId: string | null | undefined;
+    tags: string[];
+    onChange: (fields: { caseTypeId?: string | null; tags?: string[] }) => void;
+    caseTypes: CaseType[];
+    knownTags: string[];
+}
+
+// The case type and free tags, as edited in the case form.
+const CaseClassificationFields: React.FC<CaseClassificationFieldsProps> = ({ caseTypeId, tags, onChange, caseTypes, knownTags }) => {
+    const [tagInput, setTagInput] = React.useState('');
+    const listId = React.useId();
+
+    const addTags = (text: string) => {
+        const added = normalizeTags([...tags, ...text.split(/[,،]/)]);
+        if (added.length !== tags.length) onChange({ tags: added });
+        setTagInput('');
+    };
+
+    const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',' || e.key === '،') {
+            e.preventDefault();
+            addTags(tagInput);
+        } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+            onChange({ tags: tags.slice(0, -1) });
+        }
+    };
+
+    return (
+        <div className="grid gap-4 md:grid-cols-2">
+            <div>
+                <label className="block text-sm font-medium">نوع القضية</label>
+                <select value={caseTypeId || ''} onChange={e => onChange({ caseTypeId: e.target.value || null })} className="w-full p-2 border rounded">
+                    <option value="">بدون تصنيف</option>
+                    <CaseTypeOptions caseTypes={caseTypes} />
+                </select>
+                {caseTypes.length === 0 && <p className="mt-1 text-xs text-gray-400">يمكن تعريف أنواع القضايا من الإعدادات.</p>}
+            </div>
+            <div>
+                <label className="block text-sm font-medium">الوسوم</label>
+                <div className="flex flex-wrap items-center gap-1 p-1.5 border rounded bg-white">
+                    {tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                            {tag}
+                            <button type="button" onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="hover:text-blue-950" aria-label={`إزالة ${tag}`}>&times;</button>
+                        </span>
+                    ))}
+                    <input
+                        type="text"
+                        value={tagInput}
+                        onChange={e => setTagInput(e.target.value)}
+                        onKeyDown={handleTagKeyDown}
+                        onBlur={() => tagInput.trim() && addTags(tagInput)}
+                        list={listId}
+                        placeholder={tags.length === 0 ? 'مثال: استئناف عاجل' : ''}
+                        className="flex-grow min-w-[6rem] p-1 outline-none text-sm"
+                    />
+                    <datalist id={listId}>
+                        {knownTags.filter(t => !tags.includes(t)).map(t => <option key={t} value={t} />)}
+                    </datalist>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CaseClassificationFields;
@@ -0,0 +1,47 @@
+import * as React from 'react';
+import { CaseType } from '../types';
+import { CaseClassificationFilter, EMPTY_CASE_FILTER, isCaseFilterActive } from '../utils/caseTypes';
+import { CaseTypeOptions } from './CaseClassificationFields';
+
+interface CaseFilterBarProps {
+    filter: CaseClassificationFilter;
+    onChange: (filter: CaseClassificationFilter) => void;
+    caseTypes: CaseType[];
+    tags: string[];
+}
+
+// Narrows the clients views down to cases of a type and/or carrying given tags.
+const CaseFilterBar: React.FC<CaseFilterBarProps> = ({ filter, onChange, caseTypes, tags }) => {
+    if (caseTypes.length === 0 && tags.length === 0) return null;
+
+    const toggleTag = (tag: string) => onChange({
+        ...filter,
+        tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag],
+    });
+
+    return (
+        <div className="px-4 pt-4 flex flex-wrap items-center gap-2 text-sm">
+            {caseTypes.length > 0 && (
+                <select value={filter.caseTypeId} onChange={e => onChange({ ...filter, caseTypeId: e.target.value })} className="p-1.5 border rounded-lg bg-gray-50">
+                    <option value="all">كل أنواع القضايا</option>
+                    <CaseTypeOptions caseTypes={caseTypes} />
+                    <option value="none">بدون تصنيف</option>
+                </select>
+            )}
+            {tags.map(tag => (
+                <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-2 py-1 text-xs rounded-full border ${filter.tags.includes(tag) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                >
+                    #{tag}
+                </button>
+            ))}
+            {isCaseFilterActive(filter) && (
+                <button onClick={() => onChange(EMPTY_CASE_FILTER)} className="text-xs text-blue-600 hover:underline">إلغاء التصفية</button>
+            )}
+        </div>
+    );
+};
+
+export default CaseFilterBar;
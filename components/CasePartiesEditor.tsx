@@ -0,0 +1,72 @@
+import * as React from 'react';
+import { CaseParty, CasePartyRole, Client, Contact } from '../types';
+import { CASE_PARTY_ROLE_LABELS } from '../utils/caseParties';
+import { CONTACT_TYPE_LABELS, getPartyContact, normalizeArabicText } from '../utils/contacts';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface CasePartiesEditorProps {
+    parties: CaseParty[];
+    onChange: (parties: CaseParty[]) => void;
+    contacts: Contact[]; // Offered as names to pick; a party named like a contact is linked to it
+    clients: Client[]; // Resolves parties linked to a client before the contacts directory existed
+}
+
+const CasePartiesEditor: React.FC<CasePartiesEditorProps> = ({ parties, onChange, contacts, clients }) => {
+    const updateParty = (id: string, fields: Partial<CaseParty>) => {
+        onChange(parties.map(p => {
+            if (p.id !== id) return p;
+            const updated = { ...p, ...fields };
+            if (fields.name !== undefined) {
+                const name = normalizeArabicText(fields.name);
+                updated.contactId = contacts.find(c => normalizeArabicText(c.name) === name)?.id || null;
+            }
+            return updated;
+        }));
+    };
+
+    const addParty = (isClient: boolean) => {
+        onChange([...parties, { id: `party-${Date.now()}`, name: '', role: isClient ? 'plaintiff' : 'defendant', isClient, contactId: null }]);
+    };
+
+    return (
+        <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+            <h3 className="font-semibold text-gray-700">أطراف الدعوى</h3>
+            <datalist id="case-party-contact-names">
+                {contacts.map(c => <option key={c.id} value={c.name}>{CONTACT_TYPE_LABELS[c.type]}</option>)}
+            </datalist>
+            {parties.length === 0 && <p className="text-sm text-gray-500">لم يُضف أي طرف بعد.</p>}
+            {parties.map(party => {
+                const contact = getPartyContact(party, contacts, clients);
+                return (
+                <div key={party.id} className={`p-3 border rounded space-y-2 ${party.isClient ? 'bg-blue-50 border-blue-200' : 'bg-white'}`}>
+                    <div className="flex gap-2">
+                        <input type="text" value={party.name} onChange={e => updateParty(party.id, { name: e.target.value })} list="case-party-contact-names" placeholder="اسم الطرف" className="flex-grow p-2 border rounded" required />
+                        <button type="button" onClick={() => onChange(parties.filter(p => p.id !== party.id))} className="p-2 text-gray-500 hover:text-red-600" aria-label="حذف الطرف"><TrashIcon className="w-4 h-4" /></button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <select value={party.role} onChange={e => updateParty(party.id, { role: e.target.value as CasePartyRole })} className="p-2 border rounded text-sm">
+                            {(Object.keys(CASE_PARTY_ROLE_LABELS) as CasePartyRole[]).map(role => <option key={role} value={role}>{CASE_PARTY_ROLE_LABELS[role]}</option>)}
+                        </select>
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={party.isClient} onChange={e => updateParty(party.id, { isClient: e.target.checked })} />
+                            من موكلينا
+                        </label>
+                    </div>
+                    <input type="text" value={party.representative || ''} onChange={e => updateParty(party.id, { representative: e.target.value || undefined })} placeholder={party.isClient ? 'المحامي الوكيل (اختياري)' : 'محامي الخصم (اختياري)'} className="w-full p-2 border rounded text-sm" />
+                    {party.name.trim() && (
+                        <p className="text-xs text-gray-500">
+                            {contact ? `من دليل جهات الاتصال${contact.phones.length > 0 ? `: ${contact.phones.join('، ')}` : ''}` : 'سيُضاف إلى دليل جهات الاتصال عند الحفظ'}
+                        </p>
+                    )}
+                </div>
+                );
+            })}
+            <div className="flex gap-2">
+                <button type="button" onClick={() => addParty(true)} className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-200 rounded-md hover:bg-gray-300"><PlusIcon className="w-4 h-4" />موكل</button>
+                <button type="button" onClick={() => addParty(false)} className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-200 rounded-md hover:bg-gray-300"><PlusIcon className="w-4 h-4" />خصم أو طرف آخر</button>
+            </div>
+        </div>
+    );
+};
+
+export default CasePartiesEditor;
@@ -0,0 +1,94 @@
+import * as React from 'react';
+import { Case, Client } from '../types';
+import { useData } from '../context/DataContext';
+import { formatDate } from '../utils/dateUtils';
+import { printElement } from '../utils/printUtils';
+import { CASE_TIMELINE_EVENT_LABELS, CaseTimelineEventType, buildCaseTimeline } from '../utils/caseTimeline';
+import { BuildingLibraryIcon, CalendarDaysIcon, ClockIcon, CurrencyDollarIcon, DocumentTextIcon, GavelIcon, PrintIcon } from './icons';
+
+const EVENT_STYLES: Record<CaseTimelineEventType, { icon: React.FC<{ className?: string }>; className: string }> = {
+    session: { icon: CalendarDaysIcon, className: 'bg-blue-100 text-blue-700' },
+    decision: { icon: GavelIcon, className: 'bg-purple-100 text-purple-700' },
+    deadline: { icon: ClockIcon, className: 'bg-amber-100 text-amber-700' },
+    document: { icon: DocumentTextIcon, className: 'bg-gray-100 text-gray-700' },
+    accounting: { icon: CurrencyDollarIcon, className: 'bg-green-100 text-green-700' },
+    invoice: { icon: CurrencyDollarIcon, className: 'bg-teal-100 text-teal-700' },
+    task: { icon: BuildingLibraryIcon, className: 'bg-rose-100 text-rose-700' },
+};
+
+const ALL_TYPES = Object.keys(CASE_TIMELINE_EVENT_LABELS) as CaseTimelineEventType[];
+
+// The whole life of a case on one line: sessions, decisions, deadlines, documents, money and the tasks linked to it.
+const CaseTimeline: React.FC<{ caseItem: Case; client: Client }> = ({ caseItem, client }) => {
+    const { accountingEntries, invoices, documents, adminTasks, deadlines } = useData();
+    const [visibleTypes, setVisibleTypes] = React.useState<Set<CaseTimelineEventType>>(() => new Set(ALL_TYPES));
+    const printRef = React.useRef<HTMLDivElement>(null);
+
+    const events = React.useMemo(
+        () => buildCaseTimeline(caseItem, { accountingEntries, invoices, documents, adminTasks, deadlines }),
+        [caseItem, accountingEntries, invoices, documents, adminTasks, deadlines]
+    );
+    const countByType = events.reduce((counts, event) => ({ ...counts, [event.type]: (counts[event.type] || 0) + 1 }), {} as Partial<Record<CaseTimelineEventType, number>>);
+    const visibleEvents = events.filter(event => visibleTypes.has(event.type));
+
+    const toggleType = (type: CaseTimelineEventType) => setVisibleTypes(prev => {
+        const next = new Set(prev);
+        if (next.has(type)) next.delete(type); else next.add(type);
+        return next;
+    });
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <div className="flex flex-wrap gap-1">
+                    {ALL_TYPES.map(type => (
+                        <button
+                            key={type}
+                            onClick={() => toggleType(type)}
+                            disabled={!countByType[type]}
+                            className={`px-3 py-1 text-xs rounded-full border disabled:opacity-40 ${visibleTypes.has(type) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600'}`}
+                        >
+                            {CASE_TIMELINE_EVENT_LABELS[type]} ({countByType[type] || 0})
+                        </button>
+                    ))}
+                </div>
+                <button onClick={() => printElement(printRef.current)} disabled={visibleEvents.length === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50">
+                    <PrintIcon className="w-4 h-4" />
+                    طباعة
+                </button>
+            </div>
+
+            <div ref={printRef}>
+                <div className="hidden print:block mb-6 border-b pb-4">
+                    <h1 className="text-2xl font-bold">التسلسل الزمني للقضية</h1>
+                    <p className="text-gray-700">{client.name} ضد {caseItem.opponentName} — {caseItem.subject}</p>
+                    <p className="text-sm text-gray-500">تاريخ الطباعة: {formatDate(new Date())}</p>
+                </div>
+                {visibleEvents.length === 0 ? (
+                    <p className="text-sm text-center text-gray-500 py-4">لا توجد أحداث لعرضها.</p>
+                ) : (
+                    <ol className="relative border-s-2 border-gray-200 ms-3 space-y-4">
+                        {visibleEvents.map(event => {
+                            const { icon: Icon, className } = EVENT_STYLES[event.type];
+                            return (
+                                <li key={event.id} className="ms-6" style={{ breakInside: 'avoid' }}>
+                                    <span className={`absolute -start-[13px] flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${className}`}>
+                                        <Icon className="w-3.5 h-3.5" />
+                                    </span>
+                                    <div className="flex flex-wrap items-baseline gap-2">
+                                        <time className="text-xs font-semibold text-gray-500">{formatDate(event.date)}</time>
+                                        <span className="text-xs text-gray-400">{CASE_TIMELINE_EVENT_LABELS[event.type]}</span>
+                                    </div>
+                                    <p className="text-sm font-medium text-gray-800 whitespace-pre-wrap">{event.title}</p>
+                                    {event.details.map((detail, i) => <p key={i} className="text-xs text-gray-600 whitespace-pre-wrap">{detail}</p>)}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CaseTimeline;
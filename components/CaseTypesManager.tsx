@@ -0,0 +1,145 @@
+import * as React from 'react';
+import { CaseType } from '../types';
+import { useData } from '../context/DataContext';
+import { createDefaultCaseTypes, getCaseSubtypes, getRootCaseType, getTopLevelCaseTypes } from '../utils/caseTypes';
+import { PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface CaseTypesManagerProps {
+    onClose: () => void;
+}
+
+const CaseTypesManager: React.FC<CaseTypesManagerProps> = ({ onClose }) => {
+    const { caseTypes, setCaseTypes, clients, setClients, permissions } = useData();
+    const [newTypeName, setNewTypeName] = React.useState('');
+    const [newSubtypeNames, setNewSubtypeNames] = React.useState<Record<string, string>>({});
+    const [editing, setEditing] = React.useState<{ id: string; name: string } | null>(null);
+    const canEdit = permissions.can_edit_case;
+
+    // Cases filed under each type, counting a top-level type's subtypes with it.
+    const usage = React.useMemo(() => {
+        const counts = new Map<string, number>();
+        clients.forEach(client => client.cases.forEach(cs => {
+            if (!cs.caseTypeId) return;
+            counts.set(cs.caseTypeId, (counts.get(cs.caseTypeId) || 0) + 1);
+            const root = getRootCaseType(caseTypes, cs.caseTypeId);
+            if (root && root.id !== cs.caseTypeId) counts.set(root.id, (counts.get(root.id) || 0) + 1);
+        }));
+        return counts;
+    }, [clients, caseTypes]);
+
+    const isNameTaken = (name: string, parentId: string | null, exceptId?: string) =>
+        caseTypes.some(t => t.id !== exceptId && (t.parentId || null) === parentId && t.name.trim() === name);
+
+    const addType = (name: string, parentId: string | null) => {
+        const trimmed = name.trim();
+        if (!trimmed || isNameTaken(trimmed, parentId)) return;
+        setCaseTypes(prev => [...prev, { id: `casetype-${Date.now()}`, name: trimmed, parentId, updated_at: new Date() }]);
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        const type = caseTypes.find(t => t.id === editing.id);
+        const name = editing.name.trim();
+        if (type && name && !isNameTaken(name, type.parentId || null, type.id)) {
+            setCaseTypes(prev => prev.map(t => t.id === type.id ? { ...t, name, updated_at: new Date() } : t));
+        }
+        setEditing(null);
+    };
+
+    // Cases of a deleted subtype stay under its parent type; those of a deleted top-level type become unclassified.
+    const handleDelete = (type: CaseType) => {
+        const subtypes = getCaseSubtypes(caseTypes, type.id);
+        const count = usage.get(type.id) || 0;
+        const message = [
+            `حذف النوع "${type.name}"${subtypes.length > 0 ? ` مع أنواعه الفرعية (${subtypes.length})` : ''}؟`,
+            count > 0 && (type.parentId ? `ستُنقل ${count} قضية إلى النوع الأعلى.` : `ستصبح ${count} قضية بدون تصنيف.`),
+        ].filter(Boolean).join('\n');
+        if (!window.confirm(message)) return;
+
+        const removed = new Set([type.id, ...subtypes.map(t => t.id)]);
+        const replacement = type.parentId || null;
+        if (count > 0) {
+            setClients(prev => prev.map(client => client.cases.some(cs => cs.caseTypeId && removed.has(cs.caseTypeId)) ? {
+                ...client,
+                updated_at: new Date(),
+                cases: client.cases.map(cs => cs.caseTypeId && removed.has(cs.caseTypeId) ? { ...cs, caseTypeId: replacement, updated_at: new Date() } : cs),
+            } : client));
+        }
+        setCaseTypes(prev => prev.filter(t => !removed.has(t.id)));
+    };
+
+    const renderTypeRow = (type: CaseType) => (
+        <div className="flex justify-between items-center gap-2">
+            {editing?.id === type.id ? (
+                <form onSubmit={handleRename} className="flex flex-grow gap-2">
+                    <input type="text" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className="flex-grow p-1 border rounded" autoFocus />
+                    <button type="submit" className="px-3 py-1 text-sm bg-blue-600 text-white rounded">حفظ</button>
+                    <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 text-sm bg-gray-200 rounded">إلغاء</button>
+                </form>
+            ) : (
+                <span>{type.name} <span className="text-xs text-gray-400">({usage.get(type.id) || 0} قضية)</span></span>
+            )}
+            {canEdit && editing?.id !== type.id && (
+                <div className="flex gap-1">
+                    <button onClick={() => setEditing({ id: type.id, name: type.name })} className="p-1 text-gray-500 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                    <button onClick={() => handleDelete(type)} className="p-1 text-gray-500 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+            )}
+        </div>
+    );
+
+    const topLevelTypes = getTopLevelCaseTypes(caseTypes);
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">أنواع القضايا</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1 space-y-4">
+                    {canEdit && (
+                        <form onSubmit={e => { e.preventDefault(); addType(newTypeName, null); setNewTypeName(''); }} className="flex gap-2">
+                            <input type="text" value={newTypeName} onChange={e => setNewTypeName(e.target.value)} className="flex-grow p-2 border rounded" placeholder="نوع جديد، مثال: مدني" />
+                            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">إضافة</button>
+                        </form>
+                    )}
+                    {topLevelTypes.length === 0 ? (
+                        <div className="text-center text-gray-500 py-6 space-y-3">
+                            <p>لم تُعرّف أنواع قضايا بعد.</p>
+                            {canEdit && (
+                                <button onClick={() => setCaseTypes(prev => [...prev, ...createDefaultCaseTypes()])} className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300">
+                                    إضافة الأنواع الشائعة (مدني، جزائي، شرعي، عمل...)
+                                </button>
+                            )}
+                        </div>
+                    ) : (
+                        <ul className="space-y-3">
+                            {topLevelTypes.map(type => (
+                                <li key={type.id} className="p-3 border rounded-lg space-y-2">
+                                    <div className="font-semibold text-gray-800">{renderTypeRow(type)}</div>
+                                    <ul className="ms-6 space-y-1 text-sm">
+                                        {getCaseSubtypes(caseTypes, type.id).map(sub => <li key={sub.id}>{renderTypeRow(sub)}</li>)}
+                                    </ul>
+                                    {canEdit && (
+                                        <form
+                                            onSubmit={e => { e.preventDefault(); addType(newSubtypeNames[type.id] || '', type.id); setNewSubtypeNames(prev => ({ ...prev, [type.id]: '' })); }}
+                                            className="ms-6 flex gap-2"
+                                        >
+                                            <input type="text" value={newSubtypeNames[type.id] || ''} onChange={e => setNewSubtypeNames(prev => ({ ...prev, [type.id]: e.target.value }))} className="flex-grow p-1 text-sm border rounded" placeholder="نوع فرعي" />
+                                            <button type="submit" className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300"><PlusIcon className="w-4 h-4" />إضافة</button>
+                                        </form>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CaseTypesManager;
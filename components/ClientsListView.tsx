@@ -1,15 +1,24 @@
 
 import * as React from 'react';
-import { Client, Case, Stage, Session, AccountingEntry, CaseDocument, Permissions } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, PrintIcon, ChevronLeftIcon, UserIcon, FolderIcon, ClipboardDocumentIcon, CalendarDaysIcon, GavelIcon, BuildingLibraryIcon, ShareIcon, DocumentTextIcon, DocumentDuplicateIcon } from './icons';
+import { Client, Contact, Case, CaseType, Stage, Session, AccountingEntry, CaseDocument, Permissions } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, PrintIcon, ChevronLeftIcon, UserIcon, FolderIcon, ClipboardDocumentIcon, CalendarDaysIcon, GavelIcon, BuildingLibraryIcon, DocumentTextIcon, DocumentDuplicateIcon, ChatBubbleLeftRightIcon } from './icons';
 import SessionsTable from './SessionsTable';
 import CaseAccounting from './CaseAccounting';
 import { formatDate } from '../utils/dateUtils';
-import { MenuItem } from './ContextMenu';
+import { MenuItem, createWhatsAppMenuItems } from './ContextMenu';
+import { getWhatsAppRecipients } from '../utils/contacts';
 import CaseDocuments from './CaseDocuments';
+import CaseAuditLog from './CaseAuditLog';
+import CaseTimeline from './CaseTimeline';
+import NotesPanel from './NotesPanel';
+import CaseFilterBar from './CaseFilterBar';
+import { CaseClassificationBadges } from './CaseClassificationFields';
+import StageChain, { StageLinkBadges } from './StageChain';
+import { CaseClassificationFilter, filterClientsByCase, isCaseFilterActive } from '../utils/caseTypes';
 
 interface ClientsListViewProps {
     clients: Client[];
+    contacts: Contact[];
     setClients: (updater: (prevClients: Client[]) => Client[]) => void;
     accountingEntries: AccountingEntry[];
     setAccountingEntries: (updater: (prev: AccountingEntry[]) => AccountingEntry[]) => void;
@@ -33,11 +42,16 @@ interface ClientsListViewProps {
     onOpenAdminTaskModal: (initialData?: any) => void;
     onCreateInvoice: (clientId: string, caseId?: string) => void;
     permissions?: Permissions;
+    caseTypes: CaseType[];
+    caseTags: string[];
+    caseFilter: CaseClassificationFilter;
+    onCaseFilterChange: (filter: CaseClassificationFilter) => void;
 }
 
 const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expanded: boolean; onToggle: () => void; }> = ({ client, props, expanded, onToggle }) => {
     const [expandedCaseId, setExpandedCaseId] = React.useState<string | null>(null);
-    const [activeTab, setActiveTab] = React.useState<'stages' | 'accounting' | 'documents'>('stages');
+    const [activeTab, setActiveTab] = React.useState<'stages' | 'timeline' | 'notes' | 'accounting' | 'documents' | 'history'>('stages');
+    const [showClientNotes, setShowClientNotes] = React.useState(false);
     const clientLongPressTimer = React.useRef<number | null>(null);
     const caseLongPressTimer = React.useRef<number | null>(null);
     const stageLongPressTimer = React.useRef<number | null>(null);
@@ -61,20 +75,12 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                 props.onOpenAdminTaskModal({ task: description });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const message = [
-                    `*ملف موكل:*`,
-                    `*الاسم:* ${client.name}`,
-                    `*معلومات الاتصال:* ${client.contactInfo || 'لا يوجد'}`,
-                    `*عدد القضايا:* ${client.cases.length}`
-                ].join('\n');
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems([
+            `*ملف موكل:*`,
+            `*الاسم:* ${client.name}`,
+            `*معلومات الاتصال:* ${client.contactInfo || 'لا يوجد'}`,
+            `*عدد القضايا:* ${client.cases.length}`
+        ].join('\n'), getWhatsAppRecipients(client, undefined, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
 
@@ -129,17 +135,10 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
             label: 'إرسال إلى المهام الإدارية',
             icon: <BuildingLibraryIcon className="w-4 h-4" />,
             onClick: () => {
-                 props.onOpenAdminTaskModal({ task: description });
+                 props.onOpenAdminTaskModal({ task: description, caseId: caseItem.id });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
 
@@ -173,17 +172,10 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
             label: 'إرسال إلى المهام الإدارية',
             icon: <BuildingLibraryIcon className="w-4 h-4" />,
             onClick: () => {
-                props.onOpenAdminTaskModal({ task: description });
+                props.onOpenAdminTaskModal({ task: description, caseId: caseItem.id });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
 
@@ -217,17 +209,11 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                 props.onOpenAdminTaskModal({ 
                     task: description,
                     assignee: session.assignee,
+                    caseId: caseItem.id,
                 });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
     
@@ -278,6 +264,10 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                     <div className="flex justify-between items-center">
                         <h4 className="font-semibold text-gray-800">قضايا الموكل</h4>
                         <div className="flex items-center gap-2">
+                            <button onClick={() => setShowClientNotes(!showClientNotes)} className={`flex items-center gap-2 text-sm px-3 py-1 rounded-lg ${showClientNotes ? 'bg-yellow-200 text-yellow-900' : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'}`}>
+                                <ChatBubbleLeftRightIcon className="w-4 h-4" />
+                                <span>ملاحظات الموكل</span>
+                            </button>
                             {permissions?.can_add_case && (
                                 <button onClick={() => props.onAddCase(client.id)} className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-100 text-blue-800 rounded-lg hover:bg-blue-200">
                                     <PlusIcon className="w-4 h-4" />
@@ -290,6 +280,11 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                             </button>
                         </div>
                     </div>
+                    {showClientNotes && (
+                        <div className="p-3 border rounded-md bg-yellow-50/50">
+                            <NotesPanel clientId={client.id} />
+                        </div>
+                    )}
                     {client.cases.length > 0 ? (
                         client.cases.map(caseItem => (
                             <div key={caseItem.id} className="border rounded-md bg-indigo-50 overflow-hidden">
@@ -309,6 +304,7 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                         <FolderIcon className="w-5 h-5 text-indigo-600" />
                                         <span>{caseItem.subject}</span>
                                         <span className="text-xs text-gray-500 font-normal">(ضد: {caseItem.opponentName})</span>
+                                        <CaseClassificationBadges caseItem={caseItem} caseTypes={props.caseTypes} />
                                     </div>
                                     <div className="flex items-center gap-1">
                                         {permissions?.can_manage_invoices && <button onClick={(e) => { e.stopPropagation(); props.onCreateInvoice(client.id, caseItem.id); }} className="p-1 text-gray-500 hover:text-green-600" title="إنشاء فاتورة"><DocumentTextIcon className="w-4 h-4" /></button>}
@@ -319,10 +315,13 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                 </div>
                                 {expandedCaseId === caseItem.id && (
                                      <div className="p-3 bg-white">
-                                        <div className="flex border-b mb-3">
+                                        <div className="flex border-b mb-3 overflow-x-auto whitespace-nowrap">
                                             <button onClick={() => setActiveTab('stages')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'stages' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>المراحل والجلسات</button>
+                                            <button onClick={() => setActiveTab('timeline')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'timeline' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>التسلسل الزمني</button>
+                                            <button onClick={() => setActiveTab('notes')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'notes' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>الملاحظات</button>
                                             <button onClick={() => setActiveTab('accounting')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'accounting' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>المحاسبة</button>
                                             <button onClick={() => setActiveTab('documents')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'documents' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>الوثائق</button>
+                                            <button onClick={() => setActiveTab('history')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'history' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>سجل التعديلات</button>
                                         </div>
                                         {activeTab === 'stages' && (
                                             <div>
@@ -332,6 +331,7 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                                         إضافة مرحلة
                                                     </button>
                                                 )}
+                                                <StageChain stages={caseItem.stages} />
                                                 {caseItem.stages.map(stage => (
                                                     <div key={stage.id} className="mt-2 border rounded bg-yellow-50 overflow-hidden">
                                                         <div 
@@ -350,6 +350,7 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                                                     <ClipboardDocumentIcon className="w-4 h-4 text-yellow-600" />
                                                                     {stage.court} - {stage.caseNumber}
                                                                 </p>
+                                                                <StageLinkBadges stage={stage} />
                                                             </div>
                                                             <div>
                                                                 {permissions?.can_add_session && <button onClick={(e) => { e.stopPropagation(); props.onAddSession(client.id, caseItem.id, stage.id); }} className="p-1 text-gray-500 hover:text-blue-600"><PlusIcon className="w-4 h-4" /></button>}
@@ -408,6 +409,12 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                                 ))}
                                             </div>
                                         )}
+                                        {activeTab === 'timeline' && (
+                                            <CaseTimeline caseItem={caseItem} client={client} />
+                                        )}
+                                        {activeTab === 'notes' && (
+                                            <NotesPanel clientId={client.id} caseItem={caseItem} />
+                                        )}
                                         {activeTab === 'accounting' && (
                                             <CaseAccounting
                                                 caseData={caseItem}
@@ -420,6 +427,9 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
                                         {activeTab === 'documents' && (
                                             <CaseDocuments caseId={caseItem.id} />
                                         )}
+                                        {activeTab === 'history' && (
+                                            <CaseAuditLog caseId={caseItem.id} />
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -435,6 +445,7 @@ const ClientCard: React.FC<{ client: Client; props: ClientsListViewProps; expand
 
 const ClientsListView: React.FC<ClientsListViewProps> = (props) => {
     const [expandedClientId, setExpandedClientId] = React.useState<string | null>(null);
+    const visibleClients = React.useMemo(() => filterClientsByCase(props.clients, props.caseFilter, props.caseTypes), [props.clients, props.caseFilter, props.caseTypes]);
 
     const handleToggleClient = (clientId: string) => {
         setExpandedClientId(prevId => (prevId === clientId ? null : clientId));
@@ -445,16 +456,20 @@ const ClientsListView: React.FC<ClientsListViewProps> = (props) => {
     }
 
     return (
-        <div className="p-4 space-y-4">
-            {props.clients.map(client => (
-                <ClientCard 
-                    key={client.id} 
-                    client={client} 
-                    props={props} 
-                    expanded={expandedClientId === client.id}
-                    onToggle={() => handleToggleClient(client.id)}
-                />
-            ))}
+        <div>
+            <CaseFilterBar filter={props.caseFilter} onChange={props.onCaseFilterChange} caseTypes={props.caseTypes} tags={props.caseTags} />
+            <div className="p-4 space-y-4">
+                {visibleClients.length === 0 && isCaseFilterActive(props.caseFilter) && <p className="text-center text-gray-500 py-3">لا توجد قضايا مطابقة للتصفية.</p>}
+                {visibleClients.map(client => (
+                    <ClientCard 
+                        key={client.id} 
+                        client={client} 
+                        props={props} 
+                        expanded={expandedClientId === client.id}
+                        onToggle={() => handleToggleClient(client.id)}
+                    />
+                ))}
+            </div>
         </div>
     );
 };
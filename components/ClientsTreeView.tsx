@@ -1,17 +1,24 @@
 
 import * as React from 'react';
-import { Client, Case, Stage, Session, AccountingEntry, CaseDocument, Permissions } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, PrintIcon, ChevronLeftIcon, UserIcon, FolderIcon, ClipboardDocumentIcon, CalendarDaysIcon, GavelIcon, BuildingLibraryIcon, ShareIcon, DocumentTextIcon, DocumentDuplicateIcon } from './icons';
+import { Client, Contact, Case, CaseType, Stage, Session, AccountingEntry, CaseDocument, Permissions } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, PrintIcon, ChevronLeftIcon, UserIcon, FolderIcon, ClipboardDocumentIcon, CalendarDaysIcon, GavelIcon, BuildingLibraryIcon, DocumentTextIcon, DocumentDuplicateIcon } from './icons';
 import SessionsTable from './SessionsTable';
 import CaseAccounting from './CaseAccounting';
 import { formatDate } from '../utils/dateUtils';
-import { MenuItem } from './ContextMenu';
+import { MenuItem, createWhatsAppMenuItems } from './ContextMenu';
+import { getWhatsAppRecipients } from '../utils/contacts';
 import CaseDocuments from './CaseDocuments';
+import CaseAuditLog from './CaseAuditLog';
+import CaseFilterBar from './CaseFilterBar';
+import { CaseClassificationBadges } from './CaseClassificationFields';
+import StageChain, { StageLinkBadges } from './StageChain';
+import { CaseClassificationFilter, filterClientsByCase, isCaseFilterActive } from '../utils/caseTypes';
 
 type ExpandedState = { [key: string]: boolean };
 
 interface ClientsTreeViewProps {
     clients: Client[];
+    contacts: Contact[];
     setClients: (updater: (prevClients: Client[]) => Client[]) => void;
     accountingEntries: AccountingEntry[];
     setAccountingEntries: (updater: (prev: AccountingEntry[]) => AccountingEntry[]) => void;
@@ -35,6 +42,10 @@ interface ClientsTreeViewProps {
     onOpenAdminTaskModal: (initialData?: any) => void;
     onCreateInvoice: (clientId: string, caseId?: string) => void;
     permissions?: Permissions;
+    caseTypes: CaseType[];
+    caseTags: string[];
+    caseFilter: CaseClassificationFilter;
+    onCaseFilterChange: (filter: CaseClassificationFilter) => void;
 }
 
 const StageItem: React.FC<{ stage: Stage; caseItem: Case; client: Client; props: ClientsTreeViewProps; expanded: boolean; onToggle: () => void }> = ({ stage, caseItem, client, props, expanded, onToggle }) => {
@@ -71,17 +82,10 @@ const StageItem: React.FC<{ stage: Stage; caseItem: Case; client: Client; props:
             label: 'إرسال إلى المهام الإدارية',
             icon: <BuildingLibraryIcon className="w-4 h-4" />,
             onClick: () => {
-                props.onOpenAdminTaskModal({ task: description });
+                props.onOpenAdminTaskModal({ task: description, caseId: caseItem.id });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
     
@@ -131,17 +135,11 @@ const StageItem: React.FC<{ stage: Stage; caseItem: Case; client: Client; props:
                 props.onOpenAdminTaskModal({ 
                     task: description,
                     assignee: session.assignee,
+                    caseId: caseItem.id,
                 });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
     
@@ -162,6 +160,7 @@ const StageItem: React.FC<{ stage: Stage; caseItem: Case; client: Client; props:
                             <span>{stage.court}</span>
                             <span className="text-gray-600 font-normal">({stage.caseNumber})</span>
                         </div>
+                        <StageLinkBadges stage={stage} />
                     </div>
                      {stage.decisionDate && (
                         <div className="mt-3 ps-8 animate-fade-in text-sm font-normal text-gray-700">
@@ -231,7 +230,7 @@ const StageItemContainer: React.FC<{ stage: Stage; caseItem: Case; client: Clien
 }
 
 const CaseItem: React.FC<{ caseItem: Case; client: Client; props: ClientsTreeViewProps; expanded: boolean; onToggle: () => void }> = ({ caseItem, client, props, expanded, onToggle }) => {
-    const [activeTab, setActiveTab] = React.useState<'stages' | 'accounting' | 'documents'>('stages');
+    const [activeTab, setActiveTab] = React.useState<'stages' | 'accounting' | 'documents' | 'history'>('stages');
     const caseAccountingEntries = props.accountingEntries.filter(e => e.caseId === caseItem.id);
     const longPressTimer = React.useRef<number | null>(null);
     const { permissions } = props;
@@ -295,17 +294,10 @@ const CaseItem: React.FC<{ caseItem: Case; client: Client; props: ClientsTreeVie
             label: 'إرسال إلى المهام الإدارية',
             icon: <BuildingLibraryIcon className="w-4 h-4" />,
             onClick: () => {
-                props.onOpenAdminTaskModal({ task: description });
+                props.onOpenAdminTaskModal({ task: description, caseId: caseItem.id });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems(message, getWhatsAppRecipients(client, caseItem, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
     
@@ -339,6 +331,7 @@ const CaseItem: React.FC<{ caseItem: Case; client: Client; props: ClientsTreeVie
                     <FolderIcon className="w-5 h-5 text-indigo-600" />
                     <span>{caseItem.subject}</span>
                     <span className="text-gray-600 font-normal">(ضد: {caseItem.opponentName})</span>
+                    <CaseClassificationBadges caseItem={caseItem} caseTypes={props.caseTypes} />
                     <span className={`px-2 py-1 text-xs rounded-full ${caseItem.status === 'active' ? 'bg-green-200 text-green-800' : 'bg-gray-200 text-gray-800'}`}>{caseItem.status === 'active' ? 'نشطة' : (caseItem.status === 'closed' ? 'مغلقة' : 'معلقة')}</span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -354,9 +347,11 @@ const CaseItem: React.FC<{ caseItem: Case; client: Client; props: ClientsTreeVie
                         <button onClick={() => setActiveTab('stages')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'stages' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>المراحل والجلسات</button>
                         <button onClick={() => setActiveTab('accounting')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'accounting' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>المحاسبة</button>
                         <button onClick={() => setActiveTab('documents')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'documents' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>الوثائق</button>
+                        <button onClick={() => setActiveTab('history')} className={`px-4 py-2 text-sm font-medium ${activeTab === 'history' ? 'border-b-2 border-blue-500 text-blue-600' : 'text-gray-500'}`}>سجل التعديلات</button>
                     </div>
                     {activeTab === 'stages' && (
                         <div>
+                            <StageChain stages={caseItem.stages} />
                             {caseItem.stages.map(stage => (
                                 <StageItemContainer key={stage.id} stage={stage} caseItem={caseItem} client={client} props={props} />
                             ))}
@@ -374,6 +369,9 @@ const CaseItem: React.FC<{ caseItem: Case; client: Client; props: ClientsTreeVie
                     {activeTab === 'documents' && (
                         <CaseDocuments caseId={caseItem.id} />
                     )}
+                    {activeTab === 'history' && (
+                        <CaseAuditLog caseId={caseItem.id} />
+                    )}
                 </div>
             )}
         </div>
@@ -398,20 +396,12 @@ const ClientItem: React.FC<{ client: Client; props: ClientsTreeViewProps; expand
                 props.onOpenAdminTaskModal({ task: description });
             }
         },
-        {
-            label: 'مشاركة عبر واتساب',
-            icon: <ShareIcon className="w-4 h-4" />,
-            onClick: () => {
-                const message = [
-                    `*ملف موكل:*`,
-                    `*الاسم:* ${client.name}`,
-                    `*معلومات الاتصال:* ${client.contactInfo || 'لا يوجد'}`,
-                    `*عدد القضايا:* ${client.cases.length}`
-                ].join('\n');
-                const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`;
-                window.open(whatsappUrl, '_blank');
-            }
-        }];
+        ...createWhatsAppMenuItems([
+            `*ملف موكل:*`,
+            `*الاسم:* ${client.name}`,
+            `*معلومات الاتصال:* ${client.contactInfo || 'لا يوجد'}`,
+            `*عدد القضايا:* ${client.cases.length}`
+        ].join('\n'), getWhatsAppRecipients(client, undefined, props.contacts, props.clients))];
         props.showContextMenu(event, menuItems);
     };
 
@@ -473,6 +463,7 @@ const ClientItem: React.FC<{ client: Client; props: ClientsTreeViewProps; expand
 
 const ClientsTreeView: React.FC<ClientsTreeViewProps> = (props) => {
     const [expanded, setExpanded] = React.useState<ExpandedState>({});
+    const visibleClients = React.useMemo(() => filterClientsByCase(props.clients, props.caseFilter, props.caseTypes), [props.clients, props.caseFilter, props.caseTypes]);
 
     const toggle = (id: string) => {
         setExpanded(prev => ({ ...prev, [id]: !prev[id] }));
@@ -483,16 +474,20 @@ const ClientsTreeView: React.FC<ClientsTreeViewProps> = (props) => {
     }
 
     return (
-        <div className="p-4 space-y-4">
-            {props.clients.map(client => (
-                <ClientItem 
-                    key={client.id} 
-                    client={client} 
-                    props={props} 
-                    expanded={!!expanded[client.id]} 
-                    onToggle={() => toggle(client.id)}
-                />
-            ))}
+        <div>
+            <CaseFilterBar filter={props.caseFilter} onChange={props.onCaseFilterChange} caseTypes={props.caseTypes} tags={props.caseTags} />
+            <div className="p-4 space-y-4">
+                {visibleClients.length === 0 && isCaseFilterActive(props.caseFilter) && <p className="text-center text-gray-500 py-3">لا توجد قضايا مطابقة للتصفية.</p>}
+                {visibleClients.map(client => (
+                    <ClientItem 
+                        key={client.id} 
+                        client={client} 
+                        props={props} 
+                        expanded={!!expanded[client.id]} 
+                        onToggle={() => toggle(client.id)}
+                    />
+                ))}
+            </div>
         </div>
     );
 };
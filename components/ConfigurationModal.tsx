@@ -176,12 +176,36 @@ CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users FOR EACH ROW EXEC
 
 -- 3. إنشاء الجداول
 CREATE TABLE IF NOT EXISTS public.assistants (id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL);
-CREATE TABLE IF NOT EXISTS public.clients (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, contact_info text, updated_at timestamptz DEFAULT now());
-CREATE TABLE IF NOT EXISTS public.cases (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, client_id text NOT NULL, subject text NOT NULL, client_name text, opponent_name text, fee_agreement text, status text DEFAULT 'active', updated_at timestamptz DEFAULT now());
-CREATE TABLE IF NOT EXISTS public.stages (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, case_id text NOT NULL, court text NOT NULL, case_number text, first_session_date timestamptz, decision_date timestamptz, decision_number text, decision_summary text, decision_notes text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.contacts (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, type text DEFAULT 'other', phones text[] DEFAULT '{}', address text, national_id text, notes text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.courts (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, city text, court_type text, level text DEFAULT 'other', address text, working_days integer[] DEFAULT '{}', hall text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.custom_field_definitions (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, entity text NOT NULL, label text NOT NULL, type text DEFAULT 'text', options text[], required boolean DEFAULT false, sort_order integer DEFAULT 0, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.deadline_rules (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, case_type_id text, stage_level text, challenge_kind text, days integer NOT NULL DEFAULT 15, "trigger" text DEFAULT 'notification', updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.clients (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, contact_info text, contact_id text, custom_fields jsonb, updated_at timestamptz DEFAULT now());
+ALTER TABLE public.clients ADD COLUMN IF NOT EXISTS contact_id text;
+ALTER TABLE public.clients ADD COLUMN IF NOT EXISTS custom_fields jsonb;
+CREATE TABLE IF NOT EXISTS public.case_types (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, name text NOT NULL, parent_id text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.cases (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, client_id text NOT NULL, subject text NOT NULL, client_name text, opponent_name text, fee_agreement text, status text DEFAULT 'active', case_type_id text, tags text[] DEFAULT '{}', custom_fields jsonb, updated_at timestamptz DEFAULT now());
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS case_type_id text;
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}';
+ALTER TABLE public.cases ADD COLUMN IF NOT EXISTS custom_fields jsonb;
+CREATE TABLE IF NOT EXISTS public.case_parties (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, case_id text NOT NULL, name text NOT NULL, role text DEFAULT 'other', is_client boolean DEFAULT false, contact_id text, representative text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.stages (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, case_id text NOT NULL, court text NOT NULL, case_number text, first_session_date timestamptz, decision_date timestamptz, decision_number text, decision_summary text, decision_notes text, decision_outcome text, notification_date timestamptz, parent_stage_id text, challenge_kind text, filing_deadline timestamptz, custom_fields jsonb, updated_at timestamptz DEFAULT now());
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS custom_fields jsonb;
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS decision_outcome text;
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS parent_stage_id text;
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS challenge_kind text;
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS filing_deadline timestamptz;
+ALTER TABLE public.stages ADD COLUMN IF NOT EXISTS notification_date timestamptz;
 CREATE TABLE IF NOT EXISTS public.sessions (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, stage_id text NOT NULL, court text, case_number text, date timestamptz NOT NULL, client_name text, opponent_name text, postponement_reason text, next_postponement_reason text, is_postponed boolean DEFAULT false, next_session_date timestamptz, assignee text, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.deadlines (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, title text NOT NULL, due_date timestamptz NOT NULL, "trigger" text DEFAULT 'decision', rule_id text, client_id text, case_id text, stage_id text NOT NULL, completed boolean DEFAULT false, updated_at timestamptz DEFAULT now());
+CREATE TABLE IF NOT EXISTS public.notes (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, client_id text NOT NULL, case_id text, stage_id text, body text NOT NULL DEFAULT '', author_id uuid, author_name text, pinned boolean DEFAULT false, mentions text[] DEFAULT '{}', created_at timestamptz DEFAULT now(), updated_at timestamptz DEFAULT now());
 CREATE TABLE IF NOT EXISTS public.admin_tasks (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, task text NOT NULL, due_date timestamptz NOT NULL, completed boolean DEFAULT false, importance text DEFAULT 'normal', assignee text, location text, order_index integer, updated_at timestamptz DEFAULT now());
+ALTER TABLE public.admin_tasks ADD COLUMN IF NOT EXISTS case_id text;
+ALTER TABLE public.admin_tasks ADD COLUMN IF NOT EXISTS recurrence jsonb;
+ALTER TABLE public.admin_tasks ADD COLUMN IF NOT EXISTS excluded_dates text[] DEFAULT '{}';
 CREATE TABLE IF NOT EXISTS public.appointments (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, title text NOT NULL, "time" text, date timestamptz NOT NULL, importance text, notified boolean, reminder_time_in_minutes integer, assignee text, completed boolean DEFAULT false, updated_at timestamptz DEFAULT now());
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS recurrence jsonb;
+ALTER TABLE public.appointments ADD COLUMN IF NOT EXISTS excluded_dates text[] DEFAULT '{}';
 CREATE TABLE IF NOT EXISTS public.accounting_entries (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, type text NOT NULL, amount real NOT NULL, date timestamptz NOT NULL, description text, client_id text, case_id text, client_name text, updated_at timestamptz DEFAULT now());
 CREATE TABLE IF NOT EXISTS public.invoices (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, client_id text NOT NULL, client_name text, case_id text, case_subject text, issue_date timestamptz NOT NULL, due_date timestamptz NOT NULL, tax_rate real DEFAULT 0, discount real DEFAULT 0, status text DEFAULT 'draft', notes text, updated_at timestamptz DEFAULT now());
 CREATE TABLE IF NOT EXISTS public.invoice_items (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, invoice_id text NOT NULL, description text NOT NULL, amount real NOT NULL, updated_at timestamptz DEFAULT now());
@@ -196,6 +220,192 @@ CREATE TABLE IF NOT EXISTS public.sync_deletions (
     user_id uuid NOT NULL,
     deleted_at timestamptz DEFAULT now()
 );
+-- منفذ الحذف، لعرض اسمه في إشعارات التحديث المباشر
+ALTER TABLE public.sync_deletions ADD COLUMN IF NOT EXISTS deleted_by uuid DEFAULT auth.uid();
+
+-- سجل التعديلات على القضايا: من غيّر ماذا ومتى، يكتبه التطبيق بعد رفع كل تعديل
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id text NOT NULL PRIMARY KEY,
+    user_id uuid NOT NULL,
+    actor_id uuid NOT NULL DEFAULT auth.uid(),
+    table_name text NOT NULL,
+    record_id text NOT NULL,
+    case_id text NOT NULL,
+    action text NOT NULL,
+    record_label text,
+    changes jsonb,
+    created_at timestamptz DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS audit_log_case_id_created_at_idx ON public.audit_log (case_id, created_at);
+
+-- اشتراك التقويم (iCalendar): رابط برمز سري لكل مستخدم يضيفه إلى تطبيق التقويم لمتابعة الجلسات والمواعيد والمهام
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (id text NOT NULL PRIMARY KEY, user_id uuid NOT NULL, created_by uuid NOT NULL DEFAULT auth.uid(), token text NOT NULL UNIQUE, name text, assignee text, time_zone text NOT NULL DEFAULT 'UTC', created_at timestamptz DEFAULT now());
+
+-- تخدم الدالة api/calendar-feed في التطبيق الاشتراك بطلب /rest/v1/rpc/calendar_feed?feed_token=... من الخادم، فلا يحمل رابط المستخدم إلا رمزه
+-- إرجاع نطاق باسم text/calendar يجعل PostgREST يرسل الرد بهذا النوع بدل JSON
+DO $$ BEGIN CREATE DOMAIN "text/calendar" AS text; EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE OR REPLACE FUNCTION public.ical_text(value text)
+RETURNS text AS $$
+    SELECT replace(replace(replace(replace(replace(coalesce(value, ''), chr(92), chr(92) || chr(92)), ';', chr(92) || ';'), ',', chr(92) || ','), chr(13), ''), chr(10), chr(92) || 'n');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- الأسطر الأطول من 75 بايت تُكمل في سطر يبدأ بمسافة، دون قطع حرف عربي في منتصفه
+CREATE OR REPLACE FUNCTION public.ical_fold(line text)
+RETURNS text AS $$
+DECLARE
+    result text := '';
+    chunk text := '';
+    ch text;
+    max_octets int := 75;
+BEGIN
+    IF octet_length(line) <= 75 THEN RETURN line; END IF;
+    FOREACH ch IN ARRAY regexp_split_to_array(line, '') LOOP
+        IF octet_length(chunk) + octet_length(ch) > max_octets THEN
+            result := result || chunk || chr(13) || chr(10) || ' ';
+            chunk := '';
+            max_octets := 74;
+        END IF;
+        chunk := chunk || ch;
+    END LOOP;
+    RETURN result || chunk;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- قاعدة التكرار بصيغة RRULE مع الأيام المستثناة. ترحيل المواعيد عن العطل الرسمية لا يُعبّر عنه هنا، فيبقى التطبيق هو المرجع
+CREATE OR REPLACE FUNCTION public.ical_recurrence(rule jsonb, excluded text[], start_time time, tz text)
+RETURNS text[] AS $$
+DECLARE
+    utc_format constant text := 'YYYYMMDD"T"HH24MISS"Z"';
+    rrule text;
+    weekdays text;
+    lines text[];
+BEGIN
+    rrule := 'RRULE:FREQ=' || upper(rule->>'frequency') || ';INTERVAL=' || greatest(1, coalesce((rule->>'interval')::int, 1));
+    IF rule->>'frequency' = 'weekly' AND jsonb_typeof(rule->'weekdays') = 'array' THEN
+        SELECT string_agg((ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'])[w.weekday::int + 1], ',' ORDER BY w.weekday::int) INTO weekdays
+        FROM jsonb_array_elements_text(rule->'weekdays') AS w(weekday);
+        IF weekdays IS NOT NULL THEN rrule := rrule || ';BYDAY=' || weekdays; END IF;
+    END IF;
+    IF nullif(rule->>'until', '') IS NOT NULL THEN
+        rrule := rrule || ';UNTIL=' || CASE WHEN start_time IS NULL THEN replace(rule->>'until', '-', '')
+            ELSE to_char((((rule->>'until')::date + start_time) AT TIME ZONE tz) AT TIME ZONE 'UTC', utc_format) END;
+    ELSIF (rule->>'count')::int > 0 THEN
+        rrule := rrule || ';COUNT=' || (rule->>'count')::int;
+    END IF;
+    lines := ARRAY[rrule];
+    IF coalesce(array_length(excluded, 1), 0) > 0 THEN
+        lines := lines || CASE WHEN start_time IS NULL
+            THEN 'EXDATE;VALUE=DATE:' || (SELECT string_agg(replace(e.excluded_day, '-', ''), ',') FROM unnest(excluded) AS e(excluded_day))
+            ELSE 'EXDATE:' || (SELECT string_agg(to_char(((e.excluded_day::date + start_time) AT TIME ZONE tz) AT TIME ZONE 'UTC', utc_format), ',') FROM unnest(excluded) AS e(excluded_day)) END;
+    END IF;
+    RETURN lines;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- حدث واحد بأسطره المطوية، منتهياً بفاصل سطر. بلا وقت يكون حدثاً ليوم كامل، وبوقت يستمر ساعة
+CREATE OR REPLACE FUNCTION public.ical_event(uid text, summary text, on_day date, start_time time, tz text, location text, description text, alarm_minutes integer, rule jsonb, excluded text[])
+RETURNS text AS $$
+DECLARE
+    utc_format constant text := 'YYYYMMDD"T"HH24MISS"Z"';
+    starts_at timestamp;
+    lines text[];
+    line text;
+    result text := '';
+BEGIN
+    lines := ARRAY['BEGIN:VEVENT', 'UID:' || uid || '@lawyer-app', 'DTSTAMP:' || to_char(now() AT TIME ZONE 'UTC', utc_format)];
+    IF start_time IS NULL THEN
+        lines := lines || ARRAY['DTSTART;VALUE=DATE:' || to_char(on_day, 'YYYYMMDD'), 'DTEND;VALUE=DATE:' || to_char(on_day + 1, 'YYYYMMDD')];
+    ELSE
+        starts_at := ((on_day + start_time) AT TIME ZONE tz) AT TIME ZONE 'UTC';
+        lines := lines || ARRAY['DTSTART:' || to_char(starts_at, utc_format), 'DTEND:' || to_char(starts_at + interval '1 hour', utc_format)];
+    END IF;
+    IF rule IS NOT NULL AND rule->>'frequency' IN ('daily', 'weekly', 'monthly', 'yearly') THEN
+        lines := lines || public.ical_recurrence(rule, excluded, start_time, tz);
+    END IF;
+    lines := lines || ('SUMMARY:' || public.ical_text(summary));
+    IF nullif(location, '') IS NOT NULL THEN lines := lines || ('LOCATION:' || public.ical_text(location)); END IF;
+    IF nullif(description, '') IS NOT NULL THEN lines := lines || ('DESCRIPTION:' || public.ical_text(description)); END IF;
+    IF start_time IS NOT NULL AND alarm_minutes > 0 THEN
+        lines := lines || ARRAY['BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:' || public.ical_text(summary), 'TRIGGER:-PT' || alarm_minutes || 'M', 'END:VALARM'];
+    END IF;
+    lines := lines || 'END:VEVENT'::text;
+    FOREACH line IN ARRAY lines LOOP
+        result := result || public.ical_fold(line) || chr(13) || chr(10);
+    END LOOP;
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- جلسات آخر 90 يوماً وما بعدها، والمواعيد، والمهام غير المنجزة، لمالك البيانات وللمساعد المحدد في الاشتراك إن وُجد
+CREATE OR REPLACE FUNCTION public.calendar_feed(feed_token text)
+RETURNS "text/calendar" AS $$
+DECLARE
+    feed public.calendar_feeds;
+    crlf constant text := chr(13) || chr(10);
+    since constant timestamptz := now() - interval '90 days';
+BEGIN
+    SELECT * INTO feed FROM public.calendar_feeds WHERE token = feed_token;
+    IF NOT FOUND THEN RAISE EXCEPTION 'Unknown calendar feed'; END IF;
+    RETURN 'BEGIN:VCALENDAR' || crlf || 'VERSION:2.0' || crlf || 'PRODID:-//Lawyer Office//Agenda//AR' || crlf
+        || 'CALSCALE:GREGORIAN' || crlf || 'METHOD:PUBLISH' || crlf
+        || public.ical_fold('X-WR-CALNAME:' || public.ical_text(coalesce(nullif(feed.name, ''), 'جدول الأعمال'))) || crlf
+        || 'X-WR-TIMEZONE:' || feed.time_zone || crlf
+        || 'REFRESH-INTERVAL;VALUE=DURATION:PT1H' || crlf
+        || coalesce((
+            SELECT string_agg(public.ical_event(
+                s.id,
+                'جلسة: ' || coalesce(s.client_name, '') || coalesce(' ضد ' || nullif(s.opponent_name, ''), ''),
+                (s.date AT TIME ZONE feed.time_zone)::date, NULL, feed.time_zone, s.court,
+                concat_ws(chr(10), 'المحكمة: ' || nullif(s.court, ''), 'رقم الأساس: ' || nullif(s.case_number, ''), 'الموكل: ' || nullif(s.client_name, ''),
+                    'الخصم: ' || nullif(s.opponent_name, ''), 'سبب التأجيل: ' || nullif(s.postponement_reason, ''), 'المكلف بالحضور: ' || nullif(s.assignee, '')),
+                NULL, NULL, NULL), '' ORDER BY s.date)
+            FROM public.sessions s
+            WHERE s.user_id = feed.user_id AND s.date >= since AND (feed.assignee IS NULL OR s.assignee = feed.assignee)
+        ), '')
+        || coalesce((
+            SELECT string_agg(public.ical_event(
+                a.id, a.title, (a.date AT TIME ZONE feed.time_zone)::date,
+                substring(a."time" from '^[0-9]{1,2}:[0-9]{2}')::time, feed.time_zone, NULL,
+                'المكلف: ' || nullif(a.assignee, ''), a.reminder_time_in_minutes, a.recurrence, a.excluded_dates), '' ORDER BY a.date)
+            FROM public.appointments a
+            WHERE a.user_id = feed.user_id AND (a.recurrence IS NOT NULL OR a.date >= since) AND (feed.assignee IS NULL OR a.assignee = feed.assignee)
+        ), '')
+        || coalesce((
+            SELECT string_agg(public.ical_event(
+                t.id, 'مهمة: ' || t.task, (t.due_date AT TIME ZONE feed.time_zone)::date, NULL, feed.time_zone, t.location,
+                'المكلف: ' || nullif(t.assignee, ''), NULL, t.recurrence, t.excluded_dates), '' ORDER BY t.due_date)
+            FROM public.admin_tasks t
+            WHERE t.user_id = feed.user_id AND NOT t.completed AND (feed.assignee IS NULL OR t.assignee = feed.assignee)
+        ), '')
+        || 'END:VCALENDAR' || crlf;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+GRANT EXECUTE ON FUNCTION public.calendar_feed(text) TO anon, authenticated;
+
+-- المزامنة التزايدية: يُضبط updated_at من ساعة الخادم، مع فهرس (updated_at, id) لجلب التغييرات فقط
+-- ويُسجل updated_by (منفذ آخر تعديل) لعرضه في إشعارات التحديث المباشر
+CREATE OR REPLACE FUNCTION public.set_updated_at()
+RETURNS trigger AS $$
+BEGIN
+    new.updated_at := now();
+    new.updated_by := auth.uid();
+    RETURN new;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE t text;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['profiles', 'contacts', 'courts', 'case_types', 'custom_field_definitions', 'deadline_rules', 'clients', 'cases', 'case_parties', 'stages', 'sessions', 'deadlines', 'notes', 'admin_tasks', 'appointments', 'accounting_entries', 'invoices', 'invoice_items', 'case_documents', 'site_finances'] LOOP
+        EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS updated_by uuid', t);
+        EXECUTE format('UPDATE public.%I SET updated_at = now() WHERE updated_at IS NULL', t);
+        EXECUTE format('DROP TRIGGER IF EXISTS set_updated_at ON public.%I', t);
+        EXECUTE format('CREATE TRIGGER set_updated_at BEFORE INSERT OR UPDATE ON public.%I FOR EACH ROW EXECUTE PROCEDURE public.set_updated_at()', t);
+        EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (updated_at, id)', t || '_updated_at_id_idx', t);
+    END LOOP;
+END $$;
+CREATE INDEX IF NOT EXISTS sync_deletions_deleted_at_idx ON public.sync_deletions (deleted_at);
 
 -- 4. سياسات الأمان (RLS) للبيانات
 DO $$
@@ -212,8 +422,16 @@ CREATE POLICY "Profiles Update" ON public.profiles FOR UPDATE USING (auth.uid()
 
 -- تحديث السياسات للسماح للمدير والمساعدين برؤية جميع البيانات الخاصة بالمالك
 CREATE POLICY "Access Own Data" ON public.assistants FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.contacts FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.courts FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.case_types FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.custom_field_definitions FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.deadline_rules FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.deadlines FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.notes FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 CREATE POLICY "Access Own Data" ON public.clients FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 CREATE POLICY "Access Own Data" ON public.cases FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Access Own Data" ON public.case_parties FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 CREATE POLICY "Access Own Data" ON public.stages FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 CREATE POLICY "Access Own Data" ON public.sessions FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 CREATE POLICY "Access Own Data" ON public.admin_tasks FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
@@ -227,9 +445,26 @@ CREATE POLICY "Access Own Data" ON public.case_documents FOR ALL USING (user_id
 ALTER TABLE public.sync_deletions ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Access Own Deletions" ON public.sync_deletions FOR ALL USING (user_id = public.get_data_owner_id() OR public.is_admin());
 
+-- سياسة سجل التعديلات: قراءة وإضافة فقط، ولا يُسجل أحد تعديلاً باسم غيره
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Read Own Audit Log" ON public.audit_log FOR SELECT USING (user_id = public.get_data_owner_id() OR public.is_admin());
+CREATE POLICY "Insert Own Audit Log" ON public.audit_log FOR INSERT WITH CHECK (user_id = public.get_data_owner_id() AND actor_id = auth.uid());
+
+-- سياسة اشتراكات التقويم: الرمز سري، فلا يراه إلا من أنشأه ومالك البيانات
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Access Own Calendar Feeds" ON public.calendar_feeds FOR ALL USING (user_id = public.get_data_owner_id() AND (created_by = auth.uid() OR user_id = auth.uid())) WITH CHECK (user_id = public.get_data_owner_id() AND created_by = auth.uid());
+
 ALTER TABLE public.assistants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.courts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deadline_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deadlines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_parties ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.stages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.admin_tasks ENABLE ROW LEVEL SECURITY;
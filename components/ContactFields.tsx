@@ -0,0 +1,68 @@
+import * as React from 'react';
+import { Contact, ContactType } from '../types';
+import { CONTACT_TYPE_LABELS } from '../utils/contacts';
+import { PlusIcon, TrashIcon, ExclamationTriangleIcon } from './icons';
+
+export type ContactFieldValues = Pick<Contact, 'phones'> & Partial<Pick<Contact, 'type' | 'address' | 'nationalId' | 'notes'>>;
+
+interface ContactFieldsProps {
+    value: ContactFieldValues;
+    onChange: (fields: Partial<ContactFieldValues>) => void;
+    showType?: boolean;
+}
+
+// The structured contact details, edited the same way from the contacts directory and the client form.
+const ContactFields: React.FC<ContactFieldsProps> = ({ value, onChange, showType = false }) => {
+    const phones = value.phones.length > 0 ? value.phones : [''];
+    const setPhone = (index: number, phone: string) => onChange({ phones: phones.map((p, i) => i === index ? phone : p) });
+
+    return (
+        <div className="space-y-3">
+            {showType && (
+                <div>
+                    <label className="block text-sm font-medium">النوع</label>
+                    <select value={value.type || 'other'} onChange={e => onChange({ type: e.target.value as ContactType })} className="w-full p-2 border rounded">
+                        {(Object.keys(CONTACT_TYPE_LABELS) as ContactType[]).map(type => <option key={type} value={type}>{CONTACT_TYPE_LABELS[type]}</option>)}
+                    </select>
+                </div>
+            )}
+            <div>
+                <label className="block text-sm font-medium">أرقام الهاتف</label>
+                <div className="space-y-2 mt-1">
+                    {phones.map((phone, index) => (
+                        <div key={index} className="flex gap-2">
+                            <input type="tel" dir="ltr" value={phone} onChange={e => setPhone(index, e.target.value)} placeholder="09xx xxx xxx" className="flex-grow p-2 border rounded text-right" />
+                            {phones.length > 1 && (
+                                <button type="button" onClick={() => onChange({ phones: phones.filter((_, i) => i !== index) })} className="p-2 text-gray-500 hover:text-red-600" aria-label="حذف الرقم"><TrashIcon className="w-4 h-4" /></button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                <button type="button" onClick={() => onChange({ phones: [...phones, ''] })} className="mt-2 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"><PlusIcon className="w-4 h-4" />رقم آخر</button>
+            </div>
+            <div><label className="block text-sm font-medium">العنوان</label><input type="text" value={value.address || ''} onChange={e => onChange({ address: e.target.value })} className="w-full p-2 border rounded" /></div>
+            <div><label className="block text-sm font-medium">الرقم الوطني</label><input type="text" dir="ltr" value={value.nationalId || ''} onChange={e => onChange({ nationalId: e.target.value })} className="w-full p-2 border rounded text-right" /></div>
+            <div><label className="block text-sm font-medium">ملاحظات</label><textarea value={value.notes || ''} onChange={e => onChange({ notes: e.target.value })} className="w-full p-2 border rounded" rows={2}></textarea></div>
+        </div>
+    );
+};
+
+// Shown while a name or phone being entered matches contacts already in the directory.
+export const DuplicateContactsWarning: React.FC<{ duplicates: Contact[]; actionLabel: string; onPick: (contact: Contact) => void }> = ({ duplicates, actionLabel, onPick }) => {
+    if (duplicates.length === 0) return null;
+    return (
+        <div className="p-3 text-sm bg-yellow-50 border border-yellow-200 rounded space-y-2">
+            <p className="flex items-center gap-2 font-semibold text-yellow-800"><ExclamationTriangleIcon className="w-5 h-5" />جهات اتصال مشابهة موجودة مسبقاً:</p>
+            <ul className="space-y-1">
+                {duplicates.map(contact => (
+                    <li key={contact.id} className="flex justify-between items-center gap-2">
+                        <span>{contact.name} <span className="text-gray-500">({CONTACT_TYPE_LABELS[contact.type]}{contact.phones.length > 0 && ` · ${contact.phones.join('، ')}`})</span></span>
+                        <button type="button" onClick={() => onPick(contact)} className="px-2 py-1 text-xs bg-yellow-200 text-yellow-900 rounded hover:bg-yellow-300">{actionLabel}</button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ContactFields;
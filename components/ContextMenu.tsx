@@ -1,4 +1,6 @@
 import * as React from 'react';
+import { ShareIcon } from './icons';
+import { getWhatsAppUrl, WhatsAppRecipient } from '../utils/contacts';
 
 export interface MenuItem {
     label: string;
@@ -6,6 +8,20 @@ export interface MenuItem {
     icon?: React.ReactNode;
 }
 
+// The generic share action, followed by one per known recipient so their chat opens directly.
+export const createWhatsAppMenuItems = (message: string, recipients: WhatsAppRecipient[] = []): MenuItem[] => [
+    {
+        label: 'مشاركة عبر واتساب',
+        icon: <ShareIcon className="w-4 h-4" />,
+        onClick: () => window.open(getWhatsAppUrl(message), '_blank'),
+    },
+    ...recipients.map(recipient => ({
+        label: `واتساب إلى ${recipient.name} (${recipient.phone})`,
+        icon: <ShareIcon className="w-4 h-4" />,
+        onClick: () => window.open(getWhatsAppUrl(message, recipient.phone), '_blank'),
+    })),
+];
+
 interface ContextMenuProps {
     isOpen: boolean;
     position: { x: number; y: number };
@@ -0,0 +1,43 @@
+import * as React from 'react';
+import { Court } from '../types';
+import { describeCourt, findSimilarCourts } from '../utils/courts';
+
+interface CourtInputProps {
+    value: string;
+    onChange: (court: string) => void;
+    courts: Court[];
+    required?: boolean;
+    placeholder?: string;
+    className?: string;
+}
+
+// A court name with suggestions from the courts registry, and a nudge towards the registry's spelling for names it does not know.
+const CourtInput: React.FC<CourtInputProps> = ({ value, onChange, courts, required, placeholder, className = 'w-full p-2 border rounded' }) => {
+    const listId = React.useId();
+    const trimmed = value.trim();
+    const court = courts.find(c => c.name === trimmed);
+    const similar = court || !trimmed ? [] : findSimilarCourts(courts, trimmed);
+
+    return (
+        <div>
+            <input type="text" value={value} onChange={e => onChange(e.target.value)} list={listId} required={required} placeholder={placeholder} className={className} />
+            <datalist id={listId}>
+                {courts.map(c => <option key={c.id} value={c.name}>{c.city}</option>)}
+            </datalist>
+            {court && describeCourt(court) && <p className="mt-1 text-xs text-gray-500">{describeCourt(court)}</p>}
+            {similar.length > 0 && (
+                <p className="mt-1 text-xs text-amber-700">
+                    هل تقصد: {similar.map((c, i) => (
+                        <React.Fragment key={c.id}>
+                            {i > 0 && '، '}
+                            <button type="button" onClick={() => onChange(c.name)} className="underline hover:text-amber-900">{c.name}</button>
+                        </React.Fragment>
+                    ))}؟
+                </p>
+            )}
+            {!court && similar.length === 0 && trimmed && courts.length > 0 && <p className="mt-1 text-xs text-gray-400">غير موجودة في سجل المحاكم.</p>}
+        </div>
+    );
+};
+
+export default CourtInput;
@@ -0,0 +1,217 @@
+import * as React from 'react';
+import { Court, CourtLevel } from '../types';
+import { useData } from '../context/DataContext';
+import { COURT_LEVEL_LABELS, DEFAULT_WORKING_DAYS, WEEKDAY_LABELS, clusterCourtNames, collectCourtUsage, createCourt, describeCourt, getCourtNameKey, mergeCourtEntries, renameCourts } from '../utils/courts';
+import { PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface CourtsManagerProps {
+    onClose: () => void;
+}
+
+type CourtForm = Omit<Court, 'id' | 'updated_at' | 'user_id'> & { id?: string };
+
+const COURT_TYPE_SUGGESTIONS = ['مدنية', 'جزائية', 'شرعية', 'تجارية', 'عمل', 'إدارية', 'عسكرية'];
+
+const emptyForm = (): CourtForm => ({ name: '', level: 'first_instance', workingDays: [...DEFAULT_WORKING_DAYS] });
+
+const CourtsManager: React.FC<CourtsManagerProps> = ({ onClose }) => {
+    const { courts, setCourts, deleteCourt, clients, setClients, permissions } = useData();
+    const [tab, setTab] = React.useState<'registry' | 'normalize'>('registry');
+    const [form, setForm] = React.useState<CourtForm | null>(null);
+    const [chosenNames, setChosenNames] = React.useState<Record<number, string>>({});
+    const canEdit = permissions.can_edit_case;
+
+    const usage = React.useMemo(() => collectCourtUsage(clients), [clients]);
+    const clusters = React.useMemo(() => clusterCourtNames(usage, courts), [usage, courts]);
+    const unregistered = React.useMemo(() => {
+        const keys = new Set(courts.map(c => getCourtNameKey(c.name)));
+        return [...usage.keys()].filter(name => !keys.has(getCourtNameKey(name)));
+    }, [usage, courts]);
+    const sortedCourts = React.useMemo(() => [...courts].sort((a, b) => a.name.localeCompare(b.name, 'ar')), [courts]);
+
+    React.useEffect(() => setChosenNames({}), [clusters]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const name = form.name.trim();
+        if (!name) return;
+        const existing = form.id ? courts.find(c => c.id === form.id) : undefined;
+        const court: Court = {
+            ...existing,
+            ...form,
+            id: form.id || `court-${Date.now()}`,
+            name,
+            city: form.city?.trim() || undefined,
+            courtType: form.courtType?.trim() || undefined,
+            address: form.address?.trim() || undefined,
+            hall: form.hall?.trim() || undefined,
+            updated_at: new Date(),
+        };
+        setCourts(prev => existing ? prev.map(c => c.id === court.id ? court : c) : [...prev, court]);
+        // Stages and sessions refer to courts by name, so a renamed court takes its cases along.
+        if (existing && existing.name !== name && usage.has(existing.name)) {
+            setClients(prev => renameCourts(prev, new Set([existing.name]), name));
+        }
+        setForm(null);
+    };
+
+    const toggleWorkingDay = (day: number) => {
+        if (!form) return;
+        const workingDays = form.workingDays.includes(day) ? form.workingDays.filter(d => d !== day) : [...form.workingDays, day].sort((a, b) => a - b);
+        setForm({ ...form, workingDays });
+    };
+
+    const mergeClusters = (merges: { variants: string[]; canonical: string }[]) => {
+        if (merges.length === 0) return;
+        setClients(prev => merges.reduce((list, m) => renameCourts(list, new Set(m.variants), m.canonical), prev));
+        setCourts(prev => merges.reduce((list, m) => mergeCourtEntries(list, m.variants, m.canonical), prev));
+    };
+
+    const getMerge = (index: number) => ({
+        variants: clusters[index].variants.map(v => v.name),
+        canonical: chosenNames[index] || clusters[index].suggested,
+    });
+
+    const handleRegisterUnregistered = () => {
+        setCourts(prev => [...prev, ...unregistered.map((name, i) => createCourt(name, i))]);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">سجل المحاكم</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+                <div className="flex gap-2 mb-4">
+                    <button onClick={() => setTab('registry')} className={`px-4 py-2 rounded ${tab === 'registry' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}>المحاكم ({courts.length})</button>
+                    <button onClick={() => setTab('normalize')} className={`px-4 py-2 rounded ${tab === 'normalize' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}>توحيد أسماء المحاكم ({clusters.length})</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1">
+                    {tab === 'registry' && (
+                        <div className="space-y-4">
+                            {canEdit && !form && (
+                                <button onClick={() => setForm(emptyForm())} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors">
+                                    <PlusIcon className="w-5 h-5" /><span>إضافة محكمة</span>
+                                </button>
+                            )}
+                            {form && (
+                                <form onSubmit={handleSubmit} className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                                    <div className="grid gap-3 md:grid-cols-2">
+                                        <div className="md:col-span-2">
+                                            <label className="block text-sm font-medium">اسم المحكمة</label>
+                                            <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full p-2 border rounded" required />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium">الدرجة</label>
+                                            <select value={form.level} onChange={e => setForm({ ...form, level: e.target.value as CourtLevel })} className="w-full p-2 border rounded">
+                                                {(Object.keys(COURT_LEVEL_LABELS) as CourtLevel[]).map(level => <option key={level} value={level}>{COURT_LEVEL_LABELS[level]}</option>)}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium">نوع المحكمة</label>
+                                            <input type="text" value={form.courtType || ''} onChange={e => setForm({ ...form, courtType: e.target.value })} list="court-type-suggestions" className="w-full p-2 border rounded" />
+                                            <datalist id="court-type-suggestions">{COURT_TYPE_SUGGESTIONS.map(t => <option key={t} value={t} />)}</datalist>
+                                        </div>
+                                        <div><label className="block text-sm font-medium">المدينة</label><input type="text" value={form.city || ''} onChange={e => setForm({ ...form, city: e.target.value })} className="w-full p-2 border rounded" /></div>
+                                        <div><label className="block text-sm font-medium">الطابق / القاعة</label><input type="text" value={form.hall || ''} onChange={e => setForm({ ...form, hall: e.target.value })} className="w-full p-2 border rounded" /></div>
+                                        <div className="md:col-span-2"><label className="block text-sm font-medium">العنوان</label><input type="text" value={form.address || ''} onChange={e => setForm({ ...form, address: e.target.value })} className="w-full p-2 border rounded" /></div>
+                                    </div>
+                                    <div>
+                                        <span className="block text-sm font-medium mb-1">أيام الدوام</span>
+                                        <div className="flex flex-wrap gap-3">
+                                            {WEEKDAY_LABELS.map((label, day) => (
+                                                <label key={day} className="flex items-center gap-1 text-sm">
+                                                    <input type="checkbox" checked={form.workingDays.includes(day)} onChange={() => toggleWorkingDay(day)} />{label}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    {form.id && courts.find(c => c.id === form.id)?.name !== form.name.trim() && usage.has(courts.find(c => c.id === form.id)!.name) && (
+                                        <p className="text-xs text-amber-700">سيتم تغيير اسم المحكمة في كل المراحل والجلسات التي تستخدم الاسم القديم.</p>
+                                    )}
+                                    <div className="flex justify-end gap-3">
+                                        <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button>
+                                        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">حفظ</button>
+                                    </div>
+                                </form>
+                            )}
+                            {sortedCourts.length === 0 ? (
+                                <p className="text-center text-gray-500 py-6">لا توجد محاكم في السجل بعد. يمكنك إضافتها يدوياً أو من تبويب توحيد الأسماء.</p>
+                            ) : (
+                                <ul className="divide-y border rounded-lg">
+                                    {sortedCourts.map(court => (
+                                        <li key={court.id} className="flex justify-between items-start gap-2 p-3">
+                                            <div>
+                                                <p className="font-semibold text-gray-800">{court.name}</p>
+                                                <p className="text-xs text-gray-500">{describeCourt(court)}</p>
+                                                {court.address && <p className="text-xs text-gray-500">العنوان: {court.address}</p>}
+                                                <p className="text-xs text-gray-400">{usage.get(court.name) || 0} مرحلة وجلسة</p>
+                                            </div>
+                                            {canEdit && (
+                                                <div className="flex gap-1">
+                                                    <button onClick={() => setForm({ ...court })} className="p-2 text-gray-500 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                                                    <button onClick={() => deleteCourt(court.id)} className="p-2 text-gray-500 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                                                </div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
+                    {tab === 'normalize' && (
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                هذه أسماء كُتبت بأكثر من طريقة لما يبدو أنها المحكمة نفسها. اختر الاسم المعتمد لكل مجموعة، ثم وحّدها ليُستبدل في كل المراحل والجلسات ويُضاف إلى السجل.
+                            </p>
+                            {clusters.length === 0 ? (
+                                <p className="text-center text-gray-500 py-6">لا توجد أسماء متشابهة بحاجة إلى توحيد.</p>
+                            ) : (
+                                <>
+                                    {canEdit && (
+                                        <button onClick={() => mergeClusters(clusters.map((_, i) => getMerge(i)))} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors">
+                                            توحيد الكل ({clusters.length})
+                                        </button>
+                                    )}
+                                    <ul className="space-y-3">
+                                        {clusters.map((cluster, index) => (
+                                            <li key={cluster.variants.map(v => v.name).join('|')} className="p-3 border rounded-lg space-y-2">
+                                                {cluster.variants.map(variant => (
+                                                    <label key={variant.name} className="flex items-center gap-2 text-sm">
+                                                        <input type="radio" name={`court-cluster-${index}`} checked={getMerge(index).canonical === variant.name} onChange={() => setChosenNames(prev => ({ ...prev, [index]: variant.name }))} />
+                                                        <span className="font-medium">{variant.name}</span>
+                                                        <span className="text-xs text-gray-500">({variant.count} مرحلة وجلسة)</span>
+                                                        {variant.court && <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">في السجل</span>}
+                                                    </label>
+                                                ))}
+                                                {canEdit && (
+                                                    <div className="flex justify-end">
+                                                        <button onClick={() => mergeClusters([getMerge(index)])} className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300">توحيد</button>
+                                                    </div>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+                            {unregistered.length > 0 && (
+                                <div className="p-3 bg-gray-50 border rounded-lg space-y-2">
+                                    <p className="text-sm text-gray-700">أسماء مستخدمة في القضايا وغير موجودة في السجل: {unregistered.join('، ')}</p>
+                                    {canEdit && (
+                                        <button onClick={handleRegisterUnregistered} className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300">إضافتها إلى السجل ({unregistered.length})</button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CourtsManager;
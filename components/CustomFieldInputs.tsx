@@ -0,0 +1,61 @@
+import * as React from 'react';
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldValues } from '../types';
+import { getEntityFields } from '../utils/customFields';
+
+interface CustomFieldInputsProps {
+    definitions: CustomFieldDefinition[];
+    entity: CustomFieldEntity;
+    values: CustomFieldValues | undefined;
+    errors?: Record<string, string>;
+    onChange: (values: CustomFieldValues) => void;
+}
+
+// The office's own fields for a client, case or stage, rendered after the built-in ones in the edit modals.
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ definitions, entity, values, errors = {}, onChange }) => {
+    const fields = getEntityFields(definitions, entity);
+    if (fields.length === 0) return null;
+
+    const setValue = (id: string, value: string | boolean) => onChange({ ...values, [id]: value });
+    const inputClass = (id: string) => `w-full p-2 border rounded ${errors[id] ? 'border-red-500' : ''}`;
+
+    return (
+        <div className="grid gap-4 md:grid-cols-2">
+            {fields.map(field => {
+                const value = values?.[field.id];
+                const label = <label className="block text-sm font-medium">{field.label}{field.required && field.type !== 'boolean' && <span className="text-red-500"> *</span>}</label>;
+                return (
+                    <div key={field.id}>
+                        {field.type === 'boolean' ? (
+                            <label className="flex items-center gap-2 text-sm font-medium pt-6">
+                                <input type="checkbox" checked={value === true} onChange={e => setValue(field.id, e.target.checked)} />
+                                {field.label}
+                            </label>
+                        ) : field.type === 'select' ? (
+                            <>
+                                {label}
+                                <select value={String(value ?? '')} onChange={e => setValue(field.id, e.target.value)} className={inputClass(field.id)}>
+                                    <option value="">—</option>
+                                    {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </>
+                        ) : (
+                            <>
+                                {label}
+                                <input
+                                    type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                                    step={field.type === 'number' ? 'any' : undefined}
+                                    value={String(value ?? '')}
+                                    onChange={e => setValue(field.id, e.target.value)}
+                                    className={inputClass(field.id)}
+                                />
+                            </>
+                        )}
+                        {errors[field.id] && <p className="mt-1 text-xs text-red-600">{errors[field.id]}</p>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default CustomFieldInputs;
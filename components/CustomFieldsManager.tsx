@@ -0,0 +1,140 @@
+import * as React from 'react';
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType } from '../types';
+import { useData } from '../context/DataContext';
+import { CUSTOM_FIELD_ENTITY_LABELS, CUSTOM_FIELD_TYPE_LABELS, getEntityFields } from '../utils/customFields';
+import { ChevronLeftIcon, PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface CustomFieldsManagerProps {
+    onClose: () => void;
+}
+
+type FieldForm = { id?: string; label: string; type: CustomFieldType; options: string; required: boolean };
+
+const emptyForm = (): FieldForm => ({ label: '', type: 'text', options: '', required: false });
+
+const CustomFieldsManager: React.FC<CustomFieldsManagerProps> = ({ onClose }) => {
+    const { customFieldDefinitions, setCustomFieldDefinitions, permissions } = useData();
+    const [entity, setEntity] = React.useState<CustomFieldEntity>('case');
+    const [form, setForm] = React.useState<FieldForm | null>(null);
+    const [formError, setFormError] = React.useState<string | null>(null);
+    const canEdit = permissions.can_edit_case;
+    const fields = getEntityFields(customFieldDefinitions, entity);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const label = form.label.trim();
+        const options = [...new Set(form.options.split(/[,،\n]/).map(o => o.trim()).filter(Boolean))];
+        if (!label) return;
+        if (fields.some(f => f.id !== form.id && f.label.trim() === label)) {
+            setFormError('يوجد حقل بهذا الاسم.');
+            return;
+        }
+        if (form.type === 'select' && options.length === 0) {
+            setFormError('أدخل خيارات القائمة مفصولة بفواصل.');
+            return;
+        }
+        const fieldData = { label, type: form.type, options: form.type === 'select' ? options : undefined, required: form.required, updated_at: new Date() };
+        if (form.id) {
+            setCustomFieldDefinitions(prev => prev.map(f => f.id === form.id ? { ...f, ...fieldData } : f));
+        } else {
+            const order = fields.reduce((max, f) => Math.max(max, f.order), -1) + 1;
+            setCustomFieldDefinitions(prev => [...prev, { id: `field-${Date.now()}`, entity, order, ...fieldData }]);
+        }
+        setForm(null);
+        setFormError(null);
+    };
+
+    const moveField = (index: number, offset: number) => {
+        const other = fields[index + offset];
+        const field = fields[index];
+        if (!other) return;
+        setCustomFieldDefinitions(prev => prev.map(f =>
+            f.id === field.id ? { ...f, order: other.order, updated_at: new Date() }
+                : f.id === other.id ? { ...f, order: field.order, updated_at: new Date() }
+                    : f));
+    };
+
+    // Values already entered stay on the records, hidden, so re-creating a field by mistake loses nothing.
+    const handleDelete = (field: CustomFieldDefinition) => {
+        if (window.confirm(`حذف الحقل "${field.label}"؟ لن يظهر بعد الآن في النوافذ والتقارير.`)) {
+            setCustomFieldDefinitions(prev => prev.filter(f => f.id !== field.id));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">الحقول المخصصة</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+                <div className="flex gap-2 mb-4">
+                    {(Object.keys(CUSTOM_FIELD_ENTITY_LABELS) as CustomFieldEntity[]).map(key => (
+                        <button key={key} onClick={() => { setEntity(key); setForm(null); }} className={`px-4 py-2 rounded ${entity === key ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}>
+                            {CUSTOM_FIELD_ENTITY_LABELS[key]} ({getEntityFields(customFieldDefinitions, key).length})
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1 space-y-4">
+                    {fields.length === 0 ? (
+                        <p className="text-center text-gray-500 py-4">لا توجد حقول مخصصة لـ{CUSTOM_FIELD_ENTITY_LABELS[entity]}. مثال: رقم الوكالة، رقم الإضبارة.</p>
+                    ) : (
+                        <ul className="divide-y border rounded-lg">
+                            {fields.map((field, index) => (
+                                <li key={field.id} className="flex justify-between items-center gap-2 p-3">
+                                    <div>
+                                        <span className="font-semibold text-gray-800">{field.label}</span>
+                                        <span className="text-xs text-gray-500 ms-2">{CUSTOM_FIELD_TYPE_LABELS[field.type]}{field.required && ' · مطلوب'}</span>
+                                        {field.type === 'select' && <p className="text-xs text-gray-400">{(field.options || []).join('، ')}</p>}
+                                    </div>
+                                    {canEdit && (
+                                        <div className="flex gap-1">
+                                            <button onClick={() => moveField(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" aria-label="تقديم"><ChevronLeftIcon className="w-4 h-4 rotate-90" /></button>
+                                            <button onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30" aria-label="تأخير"><ChevronLeftIcon className="w-4 h-4 -rotate-90" /></button>
+                                            <button onClick={() => { setForm({ id: field.id, label: field.label, type: field.type, options: (field.options || []).join('، '), required: !!field.required }); setFormError(null); }} className="p-1 text-gray-500 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                                            <button onClick={() => handleDelete(field)} className="p-1 text-gray-500 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {canEdit && !form && (
+                        <button onClick={() => { setForm(emptyForm()); setFormError(null); }} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors">
+                            <PlusIcon className="w-5 h-5" /><span>إضافة حقل</span>
+                        </button>
+                    )}
+                    {form && (
+                        <form onSubmit={handleSubmit} className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                            <div className="grid gap-3 md:grid-cols-2">
+                                <div><label className="block text-sm font-medium">اسم الحقل</label><input type="text" value={form.label} onChange={e => setForm({ ...form, label: e.target.value })} className="w-full p-2 border rounded" required /></div>
+                                <div>
+                                    <label className="block text-sm font-medium">النوع</label>
+                                    <select value={form.type} onChange={e => setForm({ ...form, type: e.target.value as CustomFieldType })} className="w-full p-2 border rounded">
+                                        {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            {form.type === 'select' && (
+                                <div><label className="block text-sm font-medium">الخيارات (مفصولة بفواصل)</label><input type="text" value={form.options} onChange={e => setForm({ ...form, options: e.target.value })} className="w-full p-2 border rounded" /></div>
+                            )}
+                            {form.type !== 'boolean' && (
+                                <label className="flex items-center gap-2 text-sm"><input type="checkbox" checked={form.required} onChange={e => setForm({ ...form, required: e.target.checked })} />حقل مطلوب</label>
+                            )}
+                            {formError && <p className="text-sm text-red-600">{formError}</p>}
+                            <div className="flex justify-end gap-3">
+                                <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button>
+                                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">حفظ</button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CustomFieldsManager;
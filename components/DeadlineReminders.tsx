@@ -0,0 +1,60 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { formatDate } from '../utils/dateUtils';
+import { DeadlineEntry, getDeadlineEntries, getReminderStep } from '../utils/deadlines';
+
+const REMINDER_STEPS_KEY = 'deadlineReminderSteps';
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const describeStep = (step: number): string => {
+    if (step === -1) return 'فاتت المهلة';
+    if (step === 0) return 'تنتهي اليوم';
+    if (step === 1) return 'تنتهي غداً';
+    return `باقي ${step} أيام`;
+};
+
+const describeEntry = ({ deadline, client, caseItem }: DeadlineEntry, step: number) =>
+    `${deadline.title} - ${client.name} ضد ${caseItem.opponentName} (${formatDate(new Date(deadline.dueDate))}): ${describeStep(step)}`;
+
+/**
+ * Reminds about pending statutory deadlines as they near: a week before, three days before, the day before, on the
+ * day, and once more when one is missed. The step each deadline last reminded at is kept per device, so a reload
+ * does not repeat it. Renders nothing.
+ */
+const DeadlineReminders: React.FC = () => {
+    const { deadlines, clients, isDataLoading, addRealtimeAlert } = useData();
+    const [remindedSteps, setRemindedSteps] = useLocalStorage<Record<string, number>>(REMINDER_STEPS_KEY, {});
+    const [now, setNow] = React.useState(() => new Date());
+
+    React.useEffect(() => {
+        const timer = window.setInterval(() => setNow(new Date()), CHECK_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    React.useEffect(() => {
+        if (isDataLoading) return;
+        const due = getDeadlineEntries(deadlines, clients).flatMap(entry => {
+            const step = getReminderStep(entry.deadline, now);
+            return step !== null && remindedSteps[entry.deadline.id] !== step ? [{ entry, step }] : [];
+        });
+        if (due.length === 0) return;
+
+        // One alert per check: alerts are keyed by their timestamp.
+        addRealtimeAlert(due.length === 1
+            ? describeEntry(due[0].entry, due[0].step)
+            : `${due.length} مهل قانونية تحتاج المتابعة: ${due.map(({ entry, step }) => describeEntry(entry, step)).join('؛ ')}`, 'deadline');
+        setRemindedSteps(prev => {
+            const next = { ...prev };
+            for (const { entry, step } of due) next[entry.deadline.id] = step;
+            // Completed or deleted deadlines need no record.
+            const pendingIds = new Set(deadlines.filter(d => !d.completed).map(d => d.id));
+            for (const id of Object.keys(next)) if (!pendingIds.has(id)) delete next[id];
+            return next;
+        });
+    }, [deadlines, clients, isDataLoading, now, remindedSteps, addRealtimeAlert]);
+
+    return null;
+};
+
+export default DeadlineReminders;
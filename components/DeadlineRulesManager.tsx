@@ -0,0 +1,172 @@
+import * as React from 'react';
+import { ChallengeKind, CourtLevel, DeadlineRule, DeadlineTrigger } from '../types';
+import { useData } from '../context/DataContext';
+import { COURT_LEVEL_LABELS } from '../utils/courts';
+import { getCaseSubtypes, getCaseTypeLabel, getTopLevelCaseTypes } from '../utils/caseTypes';
+import { CHALLENGE_KIND_LABELS } from '../utils/stageChain';
+import { DEADLINE_TRIGGER_LABELS, DEFAULT_DEADLINE_RULES } from '../utils/deadlines';
+import { PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface DeadlineRulesManagerProps {
+    onClose: () => void;
+}
+
+type RuleForm = { id?: string; name: string; caseTypeId: string; stageLevel: CourtLevel | ''; challengeKind: ChallengeKind | ''; days: string; trigger: DeadlineTrigger };
+
+const emptyForm = (): RuleForm => ({ name: '', caseTypeId: '', stageLevel: '', challengeKind: '', days: '15', trigger: 'notification' });
+
+const toForm = (rule: DeadlineRule): RuleForm => ({
+    id: rule.id,
+    name: rule.name,
+    caseTypeId: rule.caseTypeId || '',
+    stageLevel: rule.stageLevel || '',
+    challengeKind: rule.challengeKind || '',
+    days: String(rule.days),
+    trigger: rule.trigger,
+});
+
+const DeadlineRulesManager: React.FC<DeadlineRulesManagerProps> = ({ onClose }) => {
+    const { deadlineRules, setDeadlineRules, caseTypes, permissions } = useData();
+    const [form, setForm] = React.useState<RuleForm | null>(null);
+    const [formError, setFormError] = React.useState<string | null>(null);
+    const canEdit = permissions.can_edit_case;
+    const usingDefaults = deadlineRules.length === 0;
+    const rules = usingDefaults ? DEFAULT_DEADLINE_RULES : deadlineRules;
+
+    // The built-in rules only apply while the office has none of its own, so the first change starts from a copy of them.
+    const withOwnRules = (prev: DeadlineRule[]) => prev.length > 0 ? prev : DEFAULT_DEADLINE_RULES.map(rule => ({ ...rule, updated_at: new Date() }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const name = form.name.trim();
+        const days = parseInt(form.days, 10);
+        if (!name) return;
+        if (!Number.isInteger(days) || days <= 0) {
+            setFormError('أدخل عدد أيام المهلة.');
+            return;
+        }
+        const ruleData = {
+            name,
+            caseTypeId: form.caseTypeId || null,
+            stageLevel: form.stageLevel || null,
+            challengeKind: form.challengeKind || null,
+            days,
+            trigger: form.trigger,
+            updated_at: new Date(),
+        };
+        if (form.id) {
+            setDeadlineRules(prev => withOwnRules(prev).map(r => r.id === form.id ? { ...r, ...ruleData } : r));
+        } else {
+            setDeadlineRules(prev => [...withOwnRules(prev), { id: `deadline-rule-${Date.now()}`, ...ruleData }]);
+        }
+        setForm(null);
+        setFormError(null);
+    };
+
+    // Deadlines already on the agenda stay as they are; only decisions recorded from now on use the change.
+    const handleDelete = (rule: DeadlineRule) => {
+        if (window.confirm(`حذف قاعدة "${rule.name}"؟ لن تُنشأ مهل بها للقرارات القادمة.`)) {
+            setDeadlineRules(prev => withOwnRules(prev).filter(r => r.id !== rule.id));
+        }
+    };
+
+    const describeScope = (rule: DeadlineRule) => [
+        rule.caseTypeId ? getCaseTypeLabel(caseTypes, rule.caseTypeId) || 'نوع محذوف' : 'كل أنواع القضايا',
+        rule.stageLevel ? `قرارات ${COURT_LEVEL_LABELS[rule.stageLevel]}` : 'كل الدرجات',
+    ].join(' · ');
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[95vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 border-b pb-4">
+                    <h2 className="text-xl font-bold text-gray-800">قواعد المهل القانونية</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-gray-700 font-bold text-xl">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-1 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        عند تسجيل قرار الحسم تُنشأ مهلة على جدول الأعمال لكل قاعدة تنطبق على نوع القضية ودرجة المحكمة، وتُحسب بالأيام التقويمية ثم تُرحّل إلى أول يوم عمل إذا صادف آخرها عطلة. إذا انطبقت قاعدتان بالاسم نفسه تُعتمد الأدق منهما.
+                    </p>
+                    {usingDefaults && <p className="p-3 text-sm bg-blue-50 text-blue-800 rounded-lg">تُطبّق حالياً القواعد الافتراضية أدناه. أي تعديل أو إضافة يجعلها قواعد مكتبك الخاصة.</p>}
+
+                    <ul className="divide-y border rounded-lg">
+                        {rules.map(rule => (
+                            <li key={rule.id} className="flex justify-between items-center gap-2 p-3">
+                                <div>
+                                    <span className="font-semibold text-gray-800">{rule.name}</span>
+                                    <span className="text-sm text-gray-600 ms-2">{rule.days} يوماً {DEADLINE_TRIGGER_LABELS[rule.trigger]}</span>
+                                    <p className="text-xs text-gray-500">
+                                        {describeScope(rule)}
+                                        {rule.challengeKind && ` · يفتح مرحلة ${CHALLENGE_KIND_LABELS[rule.challengeKind]}`}
+                                    </p>
+                                </div>
+                                {canEdit && (
+                                    <div className="flex gap-1">
+                                        <button onClick={() => { setForm(toForm(rule)); setFormError(null); }} className="p-1 text-gray-500 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                                        <button onClick={() => handleDelete(rule)} className="p-1 text-gray-500 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {canEdit && !form && (
+                        <button onClick={() => { setForm(emptyForm()); setFormError(null); }} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors">
+                            <PlusIcon className="w-5 h-5" /><span>إضافة قاعدة</span>
+                        </button>
+                    )}
+                    {form && (
+                        <form onSubmit={handleSubmit} className="p-4 border rounded-lg bg-gray-50 space-y-3">
+                            <div className="grid gap-3 md:grid-cols-2">
+                                <div><label className="block text-sm font-medium">اسم المهلة</label><input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full p-2 border rounded" placeholder="مثال: استئناف، اعتراض" required /></div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div><label className="block text-sm font-medium">المدة (أيام)</label><input type="number" min="1" value={form.days} onChange={e => setForm({ ...form, days: e.target.value })} className="w-full p-2 border rounded" required /></div>
+                                    <div>
+                                        <label className="block text-sm font-medium">تبدأ</label>
+                                        <select value={form.trigger} onChange={e => setForm({ ...form, trigger: e.target.value as DeadlineTrigger })} className="w-full p-2 border rounded">
+                                            {(Object.keys(DEADLINE_TRIGGER_LABELS) as DeadlineTrigger[]).map(trigger => <option key={trigger} value={trigger}>{DEADLINE_TRIGGER_LABELS[trigger]}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium">نوع القضية</label>
+                                    <select value={form.caseTypeId} onChange={e => setForm({ ...form, caseTypeId: e.target.value })} className="w-full p-2 border rounded">
+                                        <option value="">كل الأنواع</option>
+                                        {getTopLevelCaseTypes(caseTypes).map(type => (
+                                            <React.Fragment key={type.id}>
+                                                <option value={type.id}>{type.name}</option>
+                                                {getCaseSubtypes(caseTypes, type.id).map(sub => <option key={sub.id} value={sub.id}>{getCaseTypeLabel(caseTypes, sub.id)}</option>)}
+                                            </React.Fragment>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium">قرارات محكمة</label>
+                                    <select value={form.stageLevel} onChange={e => setForm({ ...form, stageLevel: e.target.value as CourtLevel | '' })} className="w-full p-2 border rounded">
+                                        <option value="">كل الدرجات</option>
+                                        {(Object.keys(COURT_LEVEL_LABELS) as CourtLevel[]).map(level => <option key={level} value={level}>{COURT_LEVEL_LABELS[level]}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium">طريق الطعن الذي تفتحه</label>
+                                    <select value={form.challengeKind} onChange={e => setForm({ ...form, challengeKind: e.target.value as ChallengeKind | '' })} className="w-full p-2 border rounded">
+                                        <option value="">لا شيء (مهلة إجرائية)</option>
+                                        {(Object.keys(CHALLENGE_KIND_LABELS) as ChallengeKind[]).map(kind => <option key={kind} value={kind}>{CHALLENGE_KIND_LABELS[kind]}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            {formError && <p className="text-sm text-red-600">{formError}</p>}
+                            <div className="flex justify-end gap-3">
+                                <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button>
+                                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">حفظ</button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DeadlineRulesManager;
@@ -0,0 +1,78 @@
+import * as React from 'react';
+import { formatDate } from '../utils/dateUtils';
+import { DEADLINE_TRIGGER_LABELS, DeadlineEntry, DeadlineStatus, getDaysLeft, getDeadlineStatus } from '../utils/deadlines';
+
+const STATUS_STYLES: Record<DeadlineStatus, { text: string; className: string }> = {
+    done: { text: 'منجزة', className: 'bg-green-100 text-green-800' },
+    missed: { text: 'فائتة', className: 'bg-red-600 text-white' },
+    urgent: { text: 'عاجلة', className: 'bg-red-100 text-red-800' },
+    soon: { text: 'قريبة', className: 'bg-amber-100 text-amber-800' },
+    upcoming: { text: 'قادمة', className: 'bg-blue-100 text-blue-800' },
+};
+
+const describeDaysLeft = (entry: DeadlineEntry): string => {
+    if (entry.deadline.completed) return '';
+    const days = getDaysLeft(entry.deadline);
+    if (days < 0) return `فاتت منذ ${-days} يوم`;
+    if (days === 0) return 'تنتهي اليوم';
+    return `باقي ${days} يوم`;
+};
+
+interface DeadlinesTableProps {
+    entries: DeadlineEntry[];
+    onToggleComplete?: (id: string) => void;
+    emptyMessage?: string;
+    title?: string;
+}
+
+const DeadlinesTable: React.FC<DeadlinesTableProps> = ({ entries, onToggleComplete, emptyMessage, title }) => (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+        {title && <h3 className="text-lg font-bold p-4 bg-gray-50 border-b">{title}</h3>}
+        {entries.length > 0 ? (
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-right text-gray-600">
+                    <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                        <tr>
+                            <th className="px-6 py-3">تم</th>
+                            <th className="px-6 py-3">المهلة</th>
+                            <th className="px-6 py-3">القضية</th>
+                            <th className="px-6 py-3">المحكمة</th>
+                            <th className="px-6 py-3">آخر موعد</th>
+                            <th className="px-6 py-3">الحالة</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map(entry => {
+                            const { deadline } = entry;
+                            const status = STATUS_STYLES[getDeadlineStatus(deadline)];
+                            return (
+                                <tr key={deadline.id} className={`border-b transition-colors ${deadline.completed ? 'bg-green-50 text-gray-500 hover:bg-green-100' : 'bg-white hover:bg-gray-50'}`}>
+                                    <td className="px-6 py-4">
+                                        <input
+                                            type="checkbox"
+                                            checked={deadline.completed}
+                                            disabled={!onToggleComplete}
+                                            onChange={() => onToggleComplete?.(deadline.id)}
+                                            className="w-5 h-5 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                                            aria-label={`تم تقديم ${deadline.title}`}
+                                        />
+                                    </td>
+                                    <td className={`px-6 py-4 ${deadline.completed ? 'line-through' : ''}`}>
+                                        <span className="font-medium text-gray-800">{deadline.title}</span>
+                                        <span className="block text-xs text-gray-500">{DEADLINE_TRIGGER_LABELS[deadline.trigger]}</span>
+                                    </td>
+                                    <td className="px-6 py-4">{entry.client.name} ضد {entry.caseItem.opponentName}<span className="block text-xs text-gray-500">{entry.caseItem.subject}</span></td>
+                                    <td className="px-6 py-4">{entry.stage.court}{entry.stage.caseNumber && <span className="block text-xs text-gray-500">أساس: {entry.stage.caseNumber}</span>}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap">{formatDate(new Date(deadline.dueDate))}<span className="block text-xs text-gray-500">{describeDaysLeft(entry)}</span></td>
+                                    <td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>{status.text}</span></td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        ) : <p className="p-4 text-gray-500">{emptyMessage}</p>}
+    </div>
+);
+
+export default DeadlinesTable;
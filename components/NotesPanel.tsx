@@ -0,0 +1,230 @@
+import * as React from 'react';
+import { AdminTask, Case, Note } from '../types';
+import { useData } from '../context/DataContext';
+import { formatDateTime } from '../utils/dateUtils';
+import { UNASSIGNED_ASSISTANT, compareNotes, extractMentions } from '../utils/notes';
+import { BookmarkIcon, PencilIcon, PlusIcon, TrashIcon } from './icons';
+
+interface NotesPanelProps {
+    clientId: string;
+    // Without a case the panel holds the client's own notes; with one it holds the case's notes and those of its stages.
+    caseItem?: Case;
+}
+
+type NoteForm = { id?: string; body: string; stageId: string };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// **bold**, *italic* and @mentions within a line. Everything else stays plain text, so nothing typed becomes markup.
+const renderInline = (text: string, mentions: string[]): React.ReactNode[] => {
+    const mentionPattern = mentions.length > 0 ? `|@(?:${[...mentions].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})` : '';
+    const pattern = new RegExp(`\\*\\*(.+?)\\*\\*|\\*(.+?)\\*${mentionPattern}`, 'gu');
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        if (start > last) nodes.push(text.slice(last, start));
+        if (match[1] !== undefined) nodes.push(<strong key={start}>{match[1]}</strong>);
+        else if (match[2] !== undefined) nodes.push(<em key={start}>{match[2]}</em>);
+        else nodes.push(<span key={start} className="px-1 rounded bg-blue-100 text-blue-800 font-medium">{match[0]}</span>);
+        last = start + match[0].length;
+    }
+    if (last < text.length) nodes.push(text.slice(last));
+    return nodes;
+};
+
+// Lines starting with "- " are gathered into a bulleted list; every other line is its own paragraph.
+const NoteBody: React.FC<{ body: string; mentions: string[] }> = ({ body, mentions }) => {
+    const blocks: React.ReactNode[] = [];
+    let listItems: React.ReactNode[] = [];
+    const flushList = () => {
+        if (listItems.length > 0) blocks.push(<ul key={`ul-${blocks.length}`} className="list-disc ps-5">{listItems}</ul>);
+        listItems = [];
+    };
+    body.split('\n').forEach((line, i) => {
+        const item = line.match(/^\s*[-•]\s+(.*)$/);
+        if (item) {
+            listItems.push(<li key={i}>{renderInline(item[1], mentions)}</li>);
+            return;
+        }
+        flushList();
+        blocks.push(<p key={i} className="min-h-[1em]">{renderInline(line, mentions)}</p>);
+    });
+    flushList();
+    return <div className="text-sm text-gray-800 break-words">{blocks}</div>;
+};
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ clientId, caseItem }) => {
+    const { notes, setNotes, clients, adminTasks, setAdminTasks, assistants, profiles, userId, effectiveUserId, permissions } = useData();
+    const [form, setForm] = React.useState<NoteForm | null>(null);
+    const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+    const caseId = caseItem?.id || null;
+    const canWrite = caseItem ? permissions.can_edit_case : permissions.can_edit_client;
+    const isOwner = !!userId && userId === effectiveUserId;
+    const mentionable = assistants.filter(name => name !== UNASSIGNED_ASSISTANT);
+
+    const scopeNotes = React.useMemo(
+        () => notes.filter(note => note.clientId === clientId && (note.caseId || null) === caseId).sort(compareNotes),
+        [notes, clientId, caseId]
+    );
+    const getStageLabel = (stageId?: string | null) => {
+        const stage = stageId ? caseItem?.stages.find(st => st.id === stageId) : undefined;
+        return stage ? `${stage.court}${stage.caseNumber ? ` (أساس ${stage.caseNumber})` : ''}` : null;
+    };
+    const canModify = (note: Note) => canWrite && (isOwner || note.authorId === userId);
+
+    // Each newly mentioned assistant gets an admin task pointing back to the note; editing a note doesn't re-notify.
+    const createMentionTasks = (body: string, newMentions: string[], authorName: string) => {
+        if (newMentions.length === 0) return;
+        const client = clients.find(c => c.id === clientId);
+        const where = caseItem ? `قضية ${caseItem.subject}` : `الموكل ${client?.name || ''}`;
+        const excerpt = body.length > 120 ? `${body.slice(0, 120)}…` : body;
+        const location = 'غير محدد';
+        let orderIndex = adminTasks
+            .filter(t => (t.location || 'غير محدد') === location)
+            .reduce((max, t) => Math.max(max, t.orderIndex || 0), -1);
+        const tasks: AdminTask[] = newMentions.map((assignee, i) => ({
+            id: `task-${Date.now()}-${i}`,
+            task: `ذكرك ${authorName} في ملاحظة على ${where}: ${excerpt}`,
+            dueDate: new Date(),
+            completed: false,
+            importance: 'normal',
+            assignee,
+            location,
+            caseId,
+            orderIndex: ++orderIndex,
+            updated_at: new Date(),
+        }));
+        setAdminTasks(prev => [...prev, ...tasks]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const body = form.body.trim();
+        if (!body) return;
+        const mentions = extractMentions(body, assistants);
+        const stageId = form.stageId || null;
+        const existing = form.id ? notes.find(n => n.id === form.id) : undefined;
+
+        if (existing) {
+            setNotes(prev => prev.map(n => n.id === existing.id ? { ...n, body, stageId, mentions, updated_at: new Date() } : n));
+            createMentionTasks(body, mentions.filter(m => !existing.mentions.includes(m)), existing.authorName);
+        } else {
+            const authorName = profiles.find(p => p.id === userId)?.full_name || 'مستخدم';
+            const note: Note = {
+                id: `note-${Date.now()}`,
+                clientId,
+                caseId,
+                stageId,
+                body,
+                authorId: userId || null,
+                authorName,
+                pinned: false,
+                mentions,
+                createdAt: new Date(),
+                updated_at: new Date(),
+            };
+            setNotes(prev => [...prev, note]);
+            createMentionTasks(body, mentions, authorName);
+        }
+        setForm(null);
+    };
+
+    const togglePin = (note: Note) => {
+        setNotes(prev => prev.map(n => n.id === note.id ? { ...n, pinned: !n.pinned, updated_at: new Date() } : n));
+    };
+
+    const handleDelete = (note: Note) => {
+        if (window.confirm('حذف هذه الملاحظة؟')) {
+            setNotes(prev => prev.filter(n => n.id !== note.id));
+        }
+    };
+
+    const insertMention = (name: string) => {
+        if (!form) return;
+        const textarea = textareaRef.current;
+        const at = textarea ? textarea.selectionStart : form.body.length;
+        const before = form.body.slice(0, at);
+        const insertion = `${before && !/\s$/.test(before) ? ' ' : ''}@${name} `;
+        setForm({ ...form, body: before + insertion + form.body.slice(at) });
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(at + insertion.length, at + insertion.length);
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            {canWrite && !form && (
+                <button onClick={() => setForm({ body: '', stageId: '' })} className="text-sm flex items-center gap-1 px-2 py-1 bg-gray-200 rounded-md hover:bg-gray-300">
+                    <PlusIcon className="w-4 h-4" />
+                    إضافة ملاحظة
+                </button>
+            )}
+            {form && (
+                <form onSubmit={handleSubmit} className="p-3 border rounded-lg bg-gray-50 space-y-2">
+                    {caseItem && caseItem.stages.length > 0 && (
+                        <select value={form.stageId} onChange={e => setForm({ ...form, stageId: e.target.value })} className="w-full p-2 text-sm border rounded bg-white">
+                            <option value="">على القضية كاملة</option>
+                            {caseItem.stages.map(stage => <option key={stage.id} value={stage.id}>مرحلة: {getStageLabel(stage.id)}</option>)}
+                        </select>
+                    )}
+                    <textarea ref={textareaRef} value={form.body} onChange={e => setForm({ ...form, body: e.target.value })} className="w-full p-2 text-sm border rounded" rows={5} autoFocus required />
+                    <p className="text-xs text-gray-500">التنسيق: **عريض**، *مائل*، وسطر يبدأ بـ "- " لعنصر في قائمة. الإشارة بـ @ إلى مساعد تُنشئ له مهمة إدارية.</p>
+                    {mentionable.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1 text-xs">
+                            <span className="text-gray-500">إشارة إلى:</span>
+                            {mentionable.map(name => (
+                                <button key={name} type="button" onClick={() => insertMention(name)} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100">@{name}</button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setForm(null)} className="px-3 py-1.5 text-sm bg-gray-200 rounded">إلغاء</button>
+                        <button type="submit" className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded">حفظ</button>
+                    </div>
+                </form>
+            )}
+
+            {scopeNotes.length === 0 ? (
+                <p className="text-sm text-center text-gray-500 py-4">لا توجد ملاحظات.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {scopeNotes.map(note => {
+                        const stageLabel = getStageLabel(note.stageId);
+                        return (
+                            <li key={note.id} className={`p-3 border rounded-lg ${note.pinned ? 'bg-yellow-50 border-yellow-300' : 'bg-white'}`}>
+                                <div className="flex justify-between items-start gap-2 mb-1">
+                                    <div className="flex flex-wrap items-baseline gap-2 text-xs text-gray-500">
+                                        <span className="font-semibold text-gray-700">{note.authorName}</span>
+                                        <time>{formatDateTime(new Date(note.createdAt))}</time>
+                                        {note.updated_at && new Date(note.updated_at).getTime() - new Date(note.createdAt).getTime() > 60000 && <span>(معدّلة)</span>}
+                                        {stageLabel && <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700">{stageLabel}</span>}
+                                    </div>
+                                    <div className="flex gap-1 shrink-0">
+                                        {canWrite && (
+                                            <button onClick={() => togglePin(note)} className={`p-1 ${note.pinned ? 'text-yellow-600' : 'text-gray-400 hover:text-yellow-600'}`} title={note.pinned ? 'إلغاء التثبيت' : 'تثبيت'}>
+                                                <BookmarkIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {canModify(note) && (
+                                            <>
+                                                <button onClick={() => setForm({ id: note.id, body: note.body, stageId: note.stageId || '' })} className="p-1 text-gray-400 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                                                <button onClick={() => handleDelete(note)} className="p-1 text-gray-400 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                                <NoteBody body={note.body} mentions={note.mentions} />
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default NotesPanel;
@@ -1,15 +1,27 @@
 import * as React from 'react';
-import { Client, AccountingEntry, Case } from '../types';
+import { Client, AccountingEntry, Case, CustomFieldDefinition } from '../types';
 import { formatDate } from '../utils/dateUtils';
+import { formatPartySide } from '../utils/caseParties';
+import { describeCustomFields } from '../utils/customFields';
 
 interface PrintableClientReportProps {
     client: Client;
     caseData?: Case;
     entries: AccountingEntry[];
     totals: { income: number; expense: number; balance: number };
+    customFieldDefinitions?: CustomFieldDefinition[];
 }
 
-const PrintableClientReport: React.FC<PrintableClientReportProps> = ({ client, caseData, entries, totals }) => {
+const PrintableClientReport: React.FC<PrintableClientReportProps> = ({ client, caseData, entries, totals, customFieldDefinitions = [] }) => {
+    // The office's custom fields of what the report is about: the case and its stages, or the client.
+    const customFieldGroups = (caseData
+        ? [
+            { title: '', items: describeCustomFields(customFieldDefinitions, 'case', caseData.customFields) },
+            ...caseData.stages.map(stage => ({ title: `${stage.court}${stage.caseNumber ? ` (${stage.caseNumber})` : ''}`, items: describeCustomFields(customFieldDefinitions, 'stage', stage.customFields) })),
+        ]
+        : [{ title: '', items: describeCustomFields(customFieldDefinitions, 'client', client.customFields) }]
+    ).filter(group => group.items.length > 0);
+
     return (
         <div className="p-4">
             <header className="text-center border-b pb-4 mb-6">
@@ -20,10 +32,31 @@ const PrintableClientReport: React.FC<PrintableClientReportProps> = ({ client, c
                     {caseData ? caseData.subject : client.name}
                 </h2>
                 {caseData && <p className="text-md text-gray-600 mt-1">الموكل: {client.name}</p>}
+                {caseData?.parties && caseData.parties.length > 0 && (
+                    <div className="text-sm text-gray-600 mt-2 space-y-1">
+                        <p>أطراف الدعوى: {formatPartySide(caseData.parties, true)}</p>
+                        {caseData.parties.some(p => !p.isClient) && <p>ضد: {formatPartySide(caseData.parties, false)}</p>}
+                    </div>
+                )}
                 {!caseData && <p className="text-sm text-gray-500">{client.contactInfo}</p>}
             </header>
 
             <main className="space-y-8">
+                {customFieldGroups.length > 0 && (
+                    <section>
+                        <h3 className="text-xl font-bold text-gray-800 border-b-2 border-gray-400 pb-2 mb-4">بيانات إضافية</h3>
+                        {customFieldGroups.map((group, index) => (
+                            <div key={index} className="mb-3">
+                                {group.title && <h4 className="font-semibold text-gray-700 mb-1">{group.title}</h4>}
+                                <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                                    {group.items.map(item => (
+                                        <div key={item.label} className="flex gap-2"><dt className="text-gray-500">{item.label}:</dt><dd className="text-gray-800">{item.value}</dd></div>
+                                    ))}
+                                </dl>
+                            </div>
+                        ))}
+                    </section>
+                )}
                 <section>
                     <h3 className="text-xl font-bold text-gray-800 border-b-2 border-blue-600 pb-2 mb-4">ملخص مالي</h3>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { Session, Appointment, AdminTask } from '../types';
 import { formatDate } from '../utils/dateUtils';
+import { useData } from '../context/DataContext';
+import { buildPartiesByStageId, formatPartySide } from '../utils/caseParties';
 
 interface PrintableReportProps {
     reportData: {
@@ -31,6 +33,9 @@ const formatTime = (time: string) => {
 
 
 const PrintableReport: React.FC<PrintableReportProps> = ({ reportData }) => {
+    const { clients } = useData();
+    const partiesByStageId = React.useMemo(() => buildPartiesByStageId(clients), [clients]);
+
     if (!reportData) {
         return <div className="p-4 text-center">لا توجد بيانات للطباعة.</div>;
     }
@@ -93,15 +98,18 @@ const PrintableReport: React.FC<PrintableReportProps> = ({ reportData }) => {
                                             </tr>
                                         </thead>
                                         <tbody>
-                                            {sessions.map((item) => (
+                                            {sessions.map((item) => {
+                                                const parties = item.stageId ? partiesByStageId.get(item.stageId) : undefined;
+                                                return (
                                                 <tr key={item.id} className="bg-white border-b">
                                                     <td className="px-2 py-3 align-top">{item.court} / {item.caseNumber}</td>
-                                                    <td className="px-2 py-3 align-top">{item.clientName} ضد {item.opponentName}</td>
+                                                    <td className="px-2 py-3 align-top">{parties ? `${formatPartySide(parties, true)} ضد ${formatPartySide(parties, false)}` : `${item.clientName} ضد ${item.opponentName}`}</td>
                                                     <td className="px-2 py-3 align-top">{item.assignee}</td>
                                                     <td className="px-2 py-3 align-top">{item.postponementReason || '-'}</td>
                                                     <td className="px-2 py-3 h-16 align-top"></td>
                                                 </tr>
-                                            ))}
+                                                );
+                                            })}
                                         </tbody>
                                     </table>
                                 </div>
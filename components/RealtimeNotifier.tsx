@@ -7,7 +7,7 @@ import { Appointment } from '../types';
 export interface RealtimeAlert {
     id: number;
     message: string;
-    type?: 'sync' | 'userApproval';
+    type?: 'sync' | 'userApproval' | 'deadline';
 }
 
 // Valid short notification sound (Glass/Ping)
@@ -169,9 +169,9 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ appointmentAler
         const realtime: NotificationType[] = realtimeAlerts.map(alert => ({
             id: alert.id,
             type: 'sync',
-            title: 'تحديث مباشر',
+            title: alert.type === 'deadline' ? 'تذكير بمهلة قانونية' : 'تحديث مباشر',
             message: alert.message,
-            duration: 5000
+            duration: alert.type === 'deadline' ? 15000 : 5000
         }));
         const userApprovals: NotificationType[] = userApprovalAlerts.map(alert => ({
             id: alert.id,
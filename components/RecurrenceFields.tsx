@@ -0,0 +1,125 @@
+import * as React from 'react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { WEEKDAY_LABELS } from '../utils/courts';
+import { RECURRENCE_FREQUENCY_LABELS, RecurrenceEditScope } from '../utils/recurrence';
+
+export interface RecurrenceForm {
+    enabled: boolean;
+    frequency: RecurrenceFrequency;
+    interval: string;
+    weekdays: number[];
+    end: 'never' | 'until' | 'count';
+    until: string;
+    count: string;
+    skipHolidays: boolean;
+}
+
+export const createRecurrenceForm = (rule?: RecurrenceRule | null): RecurrenceForm => ({
+    enabled: !!rule,
+    frequency: rule?.frequency || 'weekly',
+    interval: String(rule?.interval || 1),
+    weekdays: rule?.weekdays || [],
+    end: rule?.until ? 'until' : rule?.count ? 'count' : 'never',
+    until: rule?.until || '',
+    count: String(rule?.count || 10),
+    skipHolidays: rule ? rule.skipHolidays : true,
+});
+
+export const toRecurrenceRule = (form: RecurrenceForm): RecurrenceRule | null => {
+    if (!form.enabled) return null;
+    const count = parseInt(form.count, 10);
+    return {
+        frequency: form.frequency,
+        interval: Math.max(1, parseInt(form.interval, 10) || 1),
+        weekdays: form.frequency === 'weekly' ? form.weekdays : [],
+        until: form.end === 'until' && form.until ? form.until : null,
+        count: form.end === 'count' && count > 0 ? count : null,
+        skipHolidays: form.skipHolidays,
+    };
+};
+
+const RecurrenceFields: React.FC<{ value: RecurrenceForm; onChange: (value: RecurrenceForm) => void }> = ({ value, onChange }) => {
+    const toggleWeekday = (day: number) => onChange({
+        ...value,
+        weekdays: value.weekdays.includes(day) ? value.weekdays.filter(d => d !== day) : [...value.weekdays, day],
+    });
+
+    return (
+        <div className="p-3 bg-gray-50 border rounded-lg space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium">
+                <input type="checkbox" checked={value.enabled} onChange={e => onChange({ ...value, enabled: e.target.checked })} />
+                تكرار
+            </label>
+            {value.enabled && (
+                <>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className="block text-sm font-medium">يتكرر</label>
+                            <select value={value.frequency} onChange={e => onChange({ ...value, frequency: e.target.value as RecurrenceFrequency })} className="w-full p-2 border rounded">
+                                {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => <option key={f} value={f}>{RECURRENCE_FREQUENCY_LABELS[f]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium">كل</label>
+                            <input type="number" min="1" value={value.interval} onChange={e => onChange({ ...value, interval: e.target.value })} className="w-full p-2 border rounded" />
+                        </div>
+                    </div>
+                    {value.frequency === 'weekly' && (
+                        <div>
+                            <label className="block text-sm font-medium mb-1">في أيام</label>
+                            <div className="flex flex-wrap gap-1">
+                                {WEEKDAY_LABELS.map((label, day) => (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        onClick={() => toggleWeekday(day)}
+                                        className={`px-2 py-1 text-xs rounded-full border ${value.weekdays.includes(day) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {value.weekdays.length === 0 && <p className="mt-1 text-xs text-gray-500">بدون اختيار يتكرر في يوم التاريخ الأول نفسه.</p>}
+                        </div>
+                    )}
+                    <div>
+                        <label className="block text-sm font-medium">ينتهي</label>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <select value={value.end} onChange={e => onChange({ ...value, end: e.target.value as RecurrenceForm['end'] })} className="p-2 border rounded">
+                                <option value="never">بلا نهاية</option>
+                                <option value="until">في تاريخ</option>
+                                <option value="count">بعد عدد مرات</option>
+                            </select>
+                            {value.end === 'until' && <input type="date" value={value.until} onChange={e => onChange({ ...value, until: e.target.value })} className="p-2 border rounded" required />}
+                            {value.end === 'count' && <input type="number" min="1" value={value.count} onChange={e => onChange({ ...value, count: e.target.value })} className="w-24 p-2 border rounded" required />}
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={value.skipHolidays} onChange={e => onChange({ ...value, skipHolidays: e.target.checked })} />
+                        تجاوز العطل الرسمية
+                    </label>
+                    {value.skipHolidays && <p className="text-xs text-gray-500">التكرار اليومي والأسبوعي يُسقط يوم العطلة، والشهري والسنوي يُرحّل إلى أول يوم عمل بعدها.</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+const SCOPE_LABELS: Record<'appointment' | 'task', Record<RecurrenceEditScope, string>> = {
+    appointment: { single: 'هذا الموعد فقط', future: 'هذا الموعد وكل المواعيد التالية' },
+    task: { single: 'هذه المهمة فقط', future: 'هذه المهمة وكل ما يليها من تكرارها' },
+};
+
+// Asked when editing or deleting one occurrence of a series.
+export const RecurrenceScopeSelect: React.FC<{ value: RecurrenceEditScope; onChange: (value: RecurrenceEditScope) => void; kind: 'appointment' | 'task' }> = ({ value, onChange, kind }) => (
+    <div className="flex flex-col gap-1 text-sm">
+        {(['single', 'future'] as RecurrenceEditScope[]).map(scope => (
+            <label key={scope} className="flex items-center gap-2">
+                <input type="radio" checked={value === scope} onChange={() => onChange(scope)} />
+                {SCOPE_LABELS[kind][scope]}
+            </label>
+        ))}
+    </div>
+);
+
+export default RecurrenceFields;
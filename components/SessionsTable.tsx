@@ -1,8 +1,10 @@
 
 import * as React from 'react';
-import { Session, Stage } from '../types';
+import { Session, Stage, CaseParty } from '../types';
 import { formatDate, isBeforeToday, isWeekend, getPublicHoliday, parseInputDateString } from '../utils/dateUtils';
 import { PencilIcon, TrashIcon, ScaleIcon, GavelIcon } from './icons';
+import { useData } from '../context/DataContext';
+import { buildPartiesByStageId, CASE_PARTY_ROLE_LABELS } from '../utils/caseParties';
 
 interface SessionsTableProps {
     sessions: Session[];
@@ -18,12 +20,26 @@ interface SessionsTableProps {
     onContextMenu?: (event: React.MouseEvent, session: Session) => void;
 }
 
+// One side of a case's parties, with each party's role and lawyer.
+const PartyList: React.FC<{ parties: CaseParty[]; isClient: boolean }> = ({ parties, isClient }) => (
+    <ul className="space-y-1">
+        {parties.filter(p => p.isClient === isClient).map(p => (
+            <li key={p.id}>
+                {p.name}
+                <span className="block text-xs text-gray-500">{CASE_PARTY_ROLE_LABELS[p.role]}{p.representative && ` · وكيله: ${p.representative}`}</span>
+            </li>
+        ))}
+    </ul>
+);
+
 const SessionsTable: React.FC<SessionsTableProps> = ({ sessions, onPostpone, onEdit, onDelete, onDecide, showSessionDate = false, onUpdate, assistants, allowPostponingPastSessions = false, stage, onContextMenu }) => {
     const [postponeData, setPostponeData] = React.useState<Record<string, { date: string; reason: string }>>({});
     const [errors, setErrors] = React.useState<Record<string, string>>({});
     const [editingCell, setEditingCell] = React.useState<{ sessionId: string; field: keyof Session } | null>(null);
     const [editValue, setEditValue] = React.useState<string | number | undefined>('');
     const longPressTimer = React.useRef<number | null>(null);
+    const { clients } = useData();
+    const partiesByStageId = React.useMemo(() => buildPartiesByStageId(clients), [clients]);
 
     const handleTouchStart = (e: React.TouchEvent, session: Session) => {
         if (!onContextMenu) return;
@@ -186,6 +202,8 @@ const SessionsTable: React.FC<SessionsTableProps> = ({ sessions, onPostpone, onE
                         const showPostponeFields = !!onPostpone && !s.isPostponed && !isStageDecided && (!isBeforeToday(s.date) || allowPostponingPastSessions);
                         const isEditing = (field: keyof Session) => onUpdate && editingCell?.sessionId === s.id && editingCell?.field === field;
                         const cellClasses = onUpdate ? "cursor-pointer hover:bg-blue-50 transition-colors duration-150" : "";
+                        // Cases with parties show them instead of the session's copied names, which are then not edited here.
+                        const parties = partiesByStageId.get(stage?.id ?? s.stageId ?? '');
                         const nextReasonCellClasses = (onUpdate && s.isPostponed) ? "cursor-pointer hover:bg-blue-50 transition-colors duration-150" : "";
 
                         return (
@@ -204,12 +222,21 @@ const SessionsTable: React.FC<SessionsTableProps> = ({ sessions, onPostpone, onE
                                 {isEditing('caseNumber') ? <input type="text" value={editValue || ''} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus /> : s.caseNumber}
                             </td>
                             {showSessionDate && <td className="px-2 sm:px-6 py-4">{formatDate(s.date)}</td>}
-                            <td className={`px-2 sm:px-6 py-4 ${cellClasses}`} onClick={() => !isEditing('clientName') && handleCellClick(s, 'clientName')}>
-                                {isEditing('clientName') ? <input type="text" value={editValue || ''} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus /> : s.clientName}
-                            </td>
-                            <td className={`px-2 sm:px-6 py-4 ${cellClasses}`} onClick={() => !isEditing('opponentName') && handleCellClick(s, 'opponentName')}>
-                                {isEditing('opponentName') ? <input type="text" value={editValue || ''} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus /> : s.opponentName}
-                            </td>
+                            {parties ? (
+                                <>
+                                    <td className="px-2 sm:px-6 py-4"><PartyList parties={parties} isClient={true} /></td>
+                                    <td className="px-2 sm:px-6 py-4"><PartyList parties={parties} isClient={false} /></td>
+                                </>
+                            ) : (
+                                <>
+                                    <td className={`px-2 sm:px-6 py-4 ${cellClasses}`} onClick={() => !isEditing('clientName') && handleCellClick(s, 'clientName')}>
+                                        {isEditing('clientName') ? <input type="text" value={editValue || ''} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus /> : s.clientName}
+                                    </td>
+                                    <td className={`px-2 sm:px-6 py-4 ${cellClasses}`} onClick={() => !isEditing('opponentName') && handleCellClick(s, 'opponentName')}>
+                                        {isEditing('opponentName') ? <input type="text" value={editValue || ''} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus /> : s.opponentName}
+                                    </td>
+                                </>
+                            )}
                             <td className={`px-2 sm:px-6 py-4 ${cellClasses}`} onClick={() => !isEditing('assignee') && handleCellClick(s, 'assignee')}>
                                 {isEditing('assignee') ? <select value={editValue || 'بدون تخصيص'} onChange={e => setEditValue(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleInputKeyDown} className="p-1 border rounded bg-white w-full" autoFocus>{assistants?.map(a => <option key={a} value={a}>{a}</option>)}</select> : (s.assignee || '-')}
                             </td>
@@ -0,0 +1,72 @@
+import * as React from 'react';
+import { Stage } from '../types';
+import { useData } from '../context/DataContext';
+import { COURT_LEVEL_LABELS } from '../utils/courts';
+import { formatDate, isBeforeToday } from '../utils/dateUtils';
+import { CHALLENGE_KIND_LABELS, STAGE_OUTCOME_LABELS, getStageChains, getStageLevel } from '../utils/stageChain';
+
+const OUTCOME_STYLES: Record<string, string> = {
+    won: 'bg-green-100 text-green-800',
+    lost: 'bg-red-100 text-red-800',
+    partial: 'bg-amber-100 text-amber-800',
+};
+
+const getOutcomeBadge = (stage: Stage): { label: string; className: string } => {
+    if (stage.decisionOutcome) return { label: STAGE_OUTCOME_LABELS[stage.decisionOutcome], className: OUTCOME_STYLES[stage.decisionOutcome] };
+    if (stage.decisionDate) return { label: 'محسومة', className: 'bg-gray-200 text-gray-800' };
+    return { label: 'قيد النظر', className: 'bg-blue-50 text-blue-700' };
+};
+
+// What a stage challenges, how it ended, and the filing deadline while it is still pending; shown next to the court name.
+export const StageLinkBadges: React.FC<{ stage: Stage }> = ({ stage }) => {
+    const showDeadline = stage.filingDeadline && !stage.decisionDate && stage.sessions.length === 0;
+    if (!stage.challengeKind && !stage.decisionOutcome && !showDeadline) return null;
+    return (
+        <span className="flex flex-wrap items-center gap-1 text-xs font-normal">
+            {stage.challengeKind && <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">{CHALLENGE_KIND_LABELS[stage.challengeKind]}</span>}
+            {stage.decisionOutcome && <span className={`px-2 py-0.5 rounded-full ${OUTCOME_STYLES[stage.decisionOutcome]}`}>{STAGE_OUTCOME_LABELS[stage.decisionOutcome]}</span>}
+            {showDeadline && (
+                <span className={`px-2 py-0.5 rounded-full ${isBeforeToday(new Date(stage.filingDeadline!)) ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'}`}>
+                    آخر موعد للطعن: {formatDate(new Date(stage.filingDeadline!))}
+                </span>
+            )}
+        </span>
+    );
+};
+
+// The litigation path of a case, first instance → appeal → cassation, with each stage's outcome. Hidden until a stage is challenged.
+const StageChain: React.FC<{ stages: Stage[] }> = ({ stages }) => {
+    const { courts } = useData();
+    if (!stages.some(st => st.parentStageId && stages.some(parent => parent.id === st.parentStageId))) return null;
+    const chains = getStageChains(stages).filter(chain => chain.length > 1);
+
+    return (
+        <div className="mb-3 p-3 border rounded-lg bg-slate-50 space-y-2">
+            <h5 className="text-sm font-semibold text-gray-700">مسار التقاضي</h5>
+            {chains.map(chain => (
+                <div key={chain.map(st => st.id).join('>')} className="flex flex-wrap items-center gap-2">
+                    {chain.map((stage, index) => {
+                        const outcome = getOutcomeBadge(stage);
+                        return (
+                            <React.Fragment key={stage.id}>
+                                {index > 0 && <span className="text-gray-400" aria-hidden="true">←</span>}
+                                <div className="p-2 bg-white border rounded text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-semibold text-gray-800">{COURT_LEVEL_LABELS[getStageLevel(stage, courts)]}</span>
+                                        <span className={`px-2 py-0.5 text-xs rounded-full ${outcome.className}`}>{outcome.label}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {stage.court}{stage.caseNumber && ` (${stage.caseNumber})`}
+                                        {stage.decisionDate && ` · ${formatDate(new Date(stage.decisionDate))}`}
+                                    </div>
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default StageChain;
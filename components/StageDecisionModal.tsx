@@ -0,0 +1,100 @@
+import * as React from 'react';
+import { Session, Stage, StageOutcome } from '../types';
+import { useData } from '../context/DataContext';
+import { GavelIcon } from './icons';
+import StageFollowUpFields, { ChallengeDeadlineFor, FollowUpForm, StageOutcomeSelect, createFollowUpForm, refreshFollowUpDeadline, toFollowUpStageInput } from './StageFollowUpFields';
+import { formatDate, parseInputDateString, toInputDateString } from '../utils/dateUtils';
+import { applyStageDecision } from '../utils/stageChain';
+import { DEADLINE_TRIGGER_LABELS, StageRef, findStageRef, getChallengeDeadline, getStageDeadlines, reconcileStageDeadlines } from '../utils/deadlines';
+
+interface StageDecisionModalProps {
+    session: Session;
+    stage: Stage;
+    onClose: () => void;
+}
+
+/**
+ * Records the decision a session settles. The appeal or objection deadlines the decision opens are put on the
+ * agenda from the deadline rules, counted from the notification date once it is entered.
+ */
+const StageDecisionModal: React.FC<StageDecisionModalProps> = ({ session, stage, onClose }) => {
+    const { clients, setClients, courts, caseTypes, deadlineRules, setDeadlines } = useData();
+    const [formData, setFormData] = React.useState({
+        decisionNumber: stage.decisionNumber || '',
+        decisionSummary: stage.decisionSummary || '',
+        decisionNotes: stage.decisionNotes || '',
+        decisionOutcome: (stage.decisionOutcome || '') as StageOutcome | '',
+        notificationDate: stage.notificationDate ? toInputDateString(new Date(stage.notificationDate)) : '',
+    });
+
+    const stageRef = React.useMemo(() => findStageRef(clients, stage.id), [clients, stage.id]);
+    // The stage as it will be once decided, which is what the deadlines are counted from.
+    const decidedRef: StageRef | null = stageRef && {
+        ...stageRef,
+        stage: { ...stageRef.stage, decisionDate: session.date, notificationDate: parseInputDateString(formData.notificationDate) || undefined },
+    };
+    const deadlineFor: ChallengeDeadlineFor = kind => decidedRef ? getChallengeDeadline(deadlineRules, caseTypes, courts, decidedRef, kind) : undefined;
+    const [followUpForm, setFollowUpForm] = React.useState<FollowUpForm>(() => createFollowUpForm(stage, courts, deadlineFor));
+    const previewDeadlines = decidedRef ? getStageDeadlines(deadlineRules, caseTypes, courts, decidedRef) : [];
+
+    const handleNotificationDateChange = (notificationDate: string) => {
+        setFormData(p => ({ ...p, notificationDate }));
+        const notified = parseInputDateString(notificationDate) || undefined;
+        setFollowUpForm(prev => refreshFollowUpDeadline(prev, kind => decidedRef
+            ? getChallengeDeadline(deadlineRules, caseTypes, courts, { ...decidedRef, stage: { ...decidedRef.stage, notificationDate: notified } }, kind)
+            : undefined));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const decision = {
+            decisionDate: session.date,
+            decisionNumber: formData.decisionNumber,
+            decisionSummary: formData.decisionSummary,
+            decisionNotes: formData.decisionNotes,
+            decisionOutcome: formData.decisionOutcome || null,
+            notificationDate: parseInputDateString(formData.notificationDate) || undefined,
+        };
+        setClients(currentClients => applyStageDecision(currentClients, stage.id, decision, toFollowUpStageInput(followUpForm)));
+        if (decidedRef) {
+            setDeadlines(prev => reconcileStageDeadlines(prev, deadlineRules, caseTypes, courts, decidedRef));
+        }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={onClose}>
+            <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                <h2 className="text-xl font-bold mb-4 flex items-center gap-2"><GavelIcon className="w-6 h-6"/> تسجيل قرار الحسم</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div><label className="block text-sm font-medium">تاريخ الحسم</label><input type="date" value={toInputDateString(session.date)} readOnly className="w-full p-2 border rounded bg-gray-100" /></div>
+                        <div><label className="block text-sm font-medium">تاريخ التبليغ</label><input type="date" value={formData.notificationDate} onChange={e => handleNotificationDateChange(e.target.value)} className="w-full p-2 border rounded" /></div>
+                    </div>
+                    <div><label className="block text-sm font-medium">رقم القرار</label><input type="text" value={formData.decisionNumber} onChange={e => setFormData(p => ({ ...p, decisionNumber: e.target.value }))} className="w-full p-2 border rounded" /></div>
+                    <div><label className="block text-sm font-medium">ملخص القرار</label><textarea value={formData.decisionSummary} onChange={e => setFormData(p => ({ ...p, decisionSummary: e.target.value }))} className="w-full p-2 border rounded" rows={3}></textarea></div>
+                    <div><label className="block text-sm font-medium">ملاحظات</label><textarea value={formData.decisionNotes} onChange={e => setFormData(p => ({ ...p, decisionNotes: e.target.value }))} className="w-full p-2 border rounded" rows={2}></textarea></div>
+                    <StageOutcomeSelect value={formData.decisionOutcome} onChange={decisionOutcome => setFormData(p => ({ ...p, decisionOutcome }))} />
+                    {previewDeadlines.length > 0 && (
+                        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm space-y-1">
+                            <p className="font-semibold text-amber-800">المهل التي ستضاف إلى جدول الأعمال</p>
+                            {previewDeadlines.map(deadline => (
+                                <p key={deadline.id} className="text-amber-900">
+                                    {deadline.title}: حتى {formatDate(deadline.dueDate)} <span className="text-xs text-amber-700">({DEADLINE_TRIGGER_LABELS[deadline.trigger]})</span>
+                                </p>
+                            ))}
+                            {!formData.notificationDate && <p className="text-xs text-amber-700">تُحسب مؤقتاً من تاريخ الحسم، وتُعاد حسابها عند إدخال تاريخ التبليغ.</p>}
+                        </div>
+                    )}
+                    <StageFollowUpFields stage={stage} courts={courts} deadlineFor={deadlineFor} value={followUpForm} onChange={setFollowUpForm} />
+                    <div className="mt-6 flex justify-end gap-4">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">إلغاء</button>
+                        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">حفظ القرار</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default StageDecisionModal;
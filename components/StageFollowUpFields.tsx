@@ -0,0 +1,90 @@
+import * as React from 'react';
+import { ChallengeKind, Court, Stage, StageOutcome } from '../types';
+import CourtInput from './CourtInput';
+import { COURT_LEVEL_LABELS } from '../utils/courts';
+import { parseInputDateString, toInputDateString } from '../utils/dateUtils';
+import { CHALLENGE_KIND_LABELS, FollowUpStageInput, STAGE_OUTCOME_LABELS, getStageLevel, suggestChallengeKind } from '../utils/stageChain';
+
+export interface FollowUpForm {
+    enabled: boolean;
+    kind: ChallengeKind;
+    court: string;
+    filingDeadline: string;
+}
+
+// The deadline to file a challenge of the given kind, as the deadline rules compute it; undefined when no rule covers it.
+export type ChallengeDeadlineFor = (kind: ChallengeKind) => Date | undefined;
+
+const toDeadlineInput = (date: Date | undefined) => date ? toInputDateString(date) : '';
+
+export const createFollowUpForm = (stage: Stage, courts: Court[], deadlineFor: ChallengeDeadlineFor): FollowUpForm => {
+    const kind = suggestChallengeKind(getStageLevel(stage, courts)) || 'appeal';
+    return { enabled: false, kind, court: '', filingDeadline: toDeadlineInput(deadlineFor(kind)) };
+};
+
+// Keeps the filing deadline in step with the decision or notification date it is counted from.
+export const refreshFollowUpDeadline = (form: FollowUpForm, deadlineFor: ChallengeDeadlineFor): FollowUpForm =>
+    ({ ...form, filingDeadline: toDeadlineInput(deadlineFor(form.kind)) });
+
+export const toFollowUpStageInput = (form: FollowUpForm): FollowUpStageInput | undefined =>
+    form.enabled ? { kind: form.kind, court: form.court, filingDeadline: parseInputDateString(form.filingDeadline) || undefined } : undefined;
+
+export const StageOutcomeSelect: React.FC<{ value: StageOutcome | '' | null | undefined; onChange: (outcome: StageOutcome | '') => void }> = ({ value, onChange }) => (
+    <div>
+        <label className="block text-sm font-medium">نتيجة القرار</label>
+        <select value={value || ''} onChange={e => onChange(e.target.value as StageOutcome | '')} className="w-full p-2 border rounded">
+            <option value="">غير محددة</option>
+            {(Object.keys(STAGE_OUTCOME_LABELS) as StageOutcome[]).map(outcome => <option key={outcome} value={outcome}>{STAGE_OUTCOME_LABELS[outcome]}</option>)}
+        </select>
+    </div>
+);
+
+interface StageFollowUpFieldsProps {
+    stage: Stage;
+    courts: Court[];
+    deadlineFor: ChallengeDeadlineFor;
+    value: FollowUpForm;
+    onChange: (value: FollowUpForm) => void;
+}
+
+// Offered when a stage is decided: open the appeal or cassation stage against the decision, with its filing deadline.
+const StageFollowUpFields: React.FC<StageFollowUpFieldsProps> = ({ stage, courts, deadlineFor, value, onChange }) => {
+    const level = getStageLevel(stage, courts);
+    if (!suggestChallengeKind(level)) {
+        return <p className="text-xs text-gray-500">قرار محكمة {COURT_LEVEL_LABELS[level]} مبرم، لا يُفتح بعده طريق طعن.</p>;
+    }
+
+    const setKind = (kind: ChallengeKind) => onChange(refreshFollowUpDeadline({ ...value, kind }, deadlineFor));
+
+    return (
+        <div className="p-3 bg-gray-50 border rounded-lg space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium">
+                <input type="checkbox" checked={value.enabled} onChange={e => onChange({ ...value, enabled: e.target.checked })} />
+                فتح مرحلة طعن في هذا القرار
+            </label>
+            {value.enabled && (
+                <>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-medium">طريق الطعن</label>
+                            <select value={value.kind} onChange={e => setKind(e.target.value as ChallengeKind)} className="w-full p-2 border rounded">
+                                {(Object.keys(CHALLENGE_KIND_LABELS) as ChallengeKind[]).map(kind => <option key={kind} value={kind}>{CHALLENGE_KIND_LABELS[kind]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium">آخر موعد لتقديم الطعن</label>
+                            <input type="date" value={value.filingDeadline} onChange={e => onChange({ ...value, filingDeadline: e.target.value })} className="w-full p-2 border rounded" />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">يُحسب الموعد من قواعد المهل القانونية مع ترحيله عن العطل الرسمية، ويمكن تعديله يدوياً.</p>
+                    <div>
+                        <label className="block text-xs font-medium">محكمة الطعن</label>
+                        <CourtInput value={value.court} onChange={court => onChange({ ...value, court })} courts={courts.filter(c => c.level === value.kind || c.level === 'other')} placeholder="يمكن تحديدها لاحقاً" />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default StageFollowUpFields;
@@ -0,0 +1,126 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { SyncJournalEntry, SyncRunKind } from '../types';
+import { loadSyncJournal, clearSyncJournal } from '../utils/syncJournal';
+import { DB_VERSION } from '../utils/localDb';
+import { formatDateTime } from '../utils/dateUtils';
+import { ArrowPathIcon, ArrowDownTrayIcon, TrashIcon } from './icons';
+
+const KIND_LABELS: Record<SyncRunKind, string> = {
+    sync: 'مزامنة',
+    refresh: 'تحديث',
+    realtime: 'تغييرات فورية',
+    documents: 'وثائق',
+    background: 'مزامنة في الخلفية',
+};
+
+const STATUS_STYLES: Record<SyncJournalEntry['status'], { label: string; className: string }> = {
+    success: { label: 'ناجحة', className: 'bg-green-100 text-green-800' },
+    partial: { label: 'جزئية', className: 'bg-amber-100 text-amber-800' },
+    failed: { label: 'فاشلة', className: 'bg-red-100 text-red-800' },
+};
+
+const sumCounts = (counts: Record<string, number>) => Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+const formatCounts = (counts: Record<string, number>) => Object.entries(counts).map(([table, n]) => `${table}: ${n}`).join('، ');
+
+const JournalEntryRow: React.FC<{ entry: SyncJournalEntry }> = ({ entry }) => {
+    const [isExpanded, setIsExpanded] = React.useState(false);
+    const status = STATUS_STYLES[entry.status];
+    const durationSeconds = entry.finishedAt ? Math.max(0, (Date.parse(entry.finishedAt) - Date.parse(entry.startedAt)) / 1000) : null;
+    const { uploaded, downloaded, filesDeleted } = entry.documents;
+
+    return (
+        <li className="p-2 bg-gray-50 border rounded text-sm">
+            <button type="button" onClick={() => setIsExpanded(v => !v)} className="w-full flex flex-wrap justify-between items-center gap-2 text-start">
+                <span className="flex items-center gap-2">
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                    <span className="font-semibold">{KIND_LABELS[entry.kind]}{entry.mode ? ` (${entry.mode === 'full' ? 'كاملة' : 'تزايدية'})` : ''}</span>
+                </span>
+                <span className="text-xs text-gray-500">{formatDateTime(new Date(entry.startedAt))}{durationSeconds !== null && ` - ${durationSeconds.toFixed(1)} ث`}</span>
+            </button>
+            <p className="text-xs text-gray-600 mt-1">
+                سحب {sumCounts(entry.pulled)} · رفع {sumCounts(entry.pushed)} · حذف محلي {sumCounts(entry.deletionsApplied)} · حذف سحابي {sumCounts(entry.deletionsPushed)} · وثائق ↑{uploaded} ↓{downloaded}{filesDeleted > 0 && ` ✕${filesDeleted}`}
+            </p>
+            {entry.errors.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                    {entry.errors.map((error, i) => <li key={i} className="text-xs text-red-600 break-all">{error.table && `[جدول: ${error.table}] `}{error.message}</li>)}
+                </ul>
+            )}
+            {isExpanded && (
+                <dl className="mt-2 text-xs text-gray-600 space-y-0.5 break-all">
+                    {Object.keys(entry.pulled).length > 0 && <div><dt className="inline font-semibold">السحب: </dt><dd className="inline">{formatCounts(entry.pulled)}</dd></div>}
+                    {Object.keys(entry.pushed).length > 0 && <div><dt className="inline font-semibold">الرفع: </dt><dd className="inline">{formatCounts(entry.pushed)}</dd></div>}
+                    {Object.keys(entry.deletionsApplied).length > 0 && <div><dt className="inline font-semibold">المحذوف محلياً: </dt><dd className="inline">{formatCounts(entry.deletionsApplied)}</dd></div>}
+                    {Object.keys(entry.deletionsPushed).length > 0 && <div><dt className="inline font-semibold">المحذوف من السحابة: </dt><dd className="inline">{formatCounts(entry.deletionsPushed)}</dd></div>}
+                </dl>
+            )}
+        </li>
+    );
+};
+
+const SyncDiagnosticsPanel: React.FC = () => {
+    const { effectiveUserId, syncStatus, lastSyncError, pendingOperations, syncConflicts } = useData();
+    const [entries, setEntries] = React.useState<SyncJournalEntry[]>([]);
+    const [isLoading, setIsLoading] = React.useState(false);
+
+    const refresh = React.useCallback(async () => {
+        if (!effectiveUserId) return;
+        setIsLoading(true);
+        try {
+            setEntries(await loadSyncJournal(effectiveUserId));
+        } catch (e) {
+            console.error('Failed to load the sync journal:', e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [effectiveUserId]);
+
+    React.useEffect(() => { refresh(); }, [refresh]);
+
+    const handleExport = () => {
+        const report = {
+            exportedAt: new Date().toISOString(),
+            ownerId: effectiveUserId,
+            userAgent: navigator.userAgent,
+            isOnline: navigator.onLine,
+            dbVersion: DB_VERSION,
+            syncStatus,
+            lastSyncError,
+            conflictsCount: syncConflicts.length,
+            // Row contents stay out of the report; only what is needed to trace the operation.
+            pendingOperations: pendingOperations.map(({ payload, remoteRow, ...op }) => op),
+            journal: entries,
+        };
+        const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a'); a.href = url;
+        a.download = `lawyer_app_sync_journal_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+    };
+
+    const handleClear = async () => {
+        if (!effectiveUserId || !window.confirm('هل تريد مسح سجل المزامنة؟')) return;
+        await clearSyncJournal(effectiveUserId);
+        setEntries([]);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+                <button onClick={refresh} disabled={isLoading} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"><ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />تحديث</button>
+                <button onClick={handleExport} disabled={entries.length === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"><ArrowDownTrayIcon className="w-4 h-4" />تصدير JSON للدعم الفني</button>
+                <button onClick={handleClear} disabled={entries.length === 0} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-50"><TrashIcon className="w-4 h-4" />مسح السجل</button>
+            </div>
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-500">لا توجد عمليات مزامنة مسجلة بعد.</p>
+            ) : (
+                <ul className="space-y-2 max-h-96 overflow-y-auto">
+                    {entries.map(entry => <JournalEntryRow key={entry.id} entry={entry} />)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default SyncDiagnosticsPanel;
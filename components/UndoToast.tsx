@@ -0,0 +1,35 @@
+import * as React from 'react';
+import { XMarkIcon, ArrowPathIcon } from './icons';
+
+const UNDO_TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+    label: string;
+    onUndo: () => void;
+    onDismiss: () => void;
+}
+
+// Offered right after a deletion or a stage decision; Ctrl+Z does the same while it is shown and after.
+const UndoToast: React.FC<UndoToastProps> = ({ label, onUndo, onDismiss }) => {
+    React.useEffect(() => {
+        const timeoutId = window.setTimeout(onDismiss, UNDO_TOAST_DURATION_MS);
+        return () => clearTimeout(timeoutId);
+    }, [onDismiss]);
+
+    return (
+        <div role="status" className="fixed bottom-20 sm:bottom-6 inset-x-0 flex justify-center px-4 z-[100] pointer-events-none no-print">
+            <div className="flex items-center gap-4 bg-gray-800 text-white text-sm rounded-lg shadow-lg px-4 py-3 pointer-events-auto">
+                <span>تم: {label}</span>
+                <button onClick={onUndo} className="flex items-center gap-1 font-semibold text-blue-300 hover:text-blue-200">
+                    <ArrowPathIcon className="w-4 h-4" />
+                    تراجع
+                </button>
+                <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200" aria-label="إغلاق">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UndoToast;
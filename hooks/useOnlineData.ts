@@ -1,12 +1,20 @@
 import { getSupabaseClient } from '../supabaseClient';
-import { Client, AdminTask, Appointment, AccountingEntry, Invoice, InvoiceItem, CaseDocument, Profile, SiteFinancialEntry, SyncDeletion } from '../types';
+import { Client, Contact, Court, CaseType, CustomFieldDefinition, DeadlineRule, Deadline, Note, AdminTask, Appointment, AccountingEntry, Invoice, InvoiceItem, CaseDocument, Profile, SiteFinancialEntry, SyncDeletion, SyncCursor, AppData, DeletedIds, OutboxOperation, OutboxReason, OutboxAuditInfo, AuditChanges, AuditLogEntry, CalendarFeed } from '../types';
 // Fix: Use `import type` for User as it is used as a type, not a value. This resolves module resolution errors in some environments.
 import type { User } from '@supabase/supabase-js';
 
 // This file defines the shape of data when flattened for sync operations.
 export type FlatData = {
     clients: Omit<Client, 'cases'>[];
+    contacts: Contact[];
+    courts: Court[];
+    case_types: CaseType[];
+    custom_field_definitions: CustomFieldDefinition[];
+    deadline_rules: DeadlineRule[];
+    deadlines: Deadline[];
+    notes: Note[];
     cases: any[];
+    case_parties: any[];
     stages: any[];
     sessions: any[];
     admin_tasks: AdminTask[];
@@ -20,6 +28,223 @@ export type FlatData = {
     site_finances: SiteFinancialEntry[];
 };
 
+export const flattenData = (data: AppData): FlatData => {
+    const cases = data.clients.flatMap(c => c.cases.map(cs => ({ ...cs, client_id: c.id })));
+    const case_parties = cases.flatMap(cs => (cs.parties || []).map(party => ({ ...party, case_id: cs.id })));
+    const stages = cases.flatMap(cs => cs.stages.map(st => ({ ...st, case_id: cs.id })));
+    const sessions = stages.flatMap(st => st.sessions.map(s => ({ ...s, stage_id: st.id })));
+    const invoice_items = data.invoices.flatMap(inv => inv.items.map(item => ({ ...item, invoice_id: inv.id })));
+
+    return {
+        clients: data.clients.map(({ cases, ...client }) => client),
+        contacts: data.contacts,
+        courts: data.courts,
+        case_types: data.caseTypes,
+        custom_field_definitions: data.customFieldDefinitions,
+        deadline_rules: data.deadlineRules,
+        deadlines: data.deadlines,
+        notes: data.notes,
+        cases: cases.map(({ stages, parties, ...caseItem }) => caseItem),
+        case_parties,
+        stages: stages.map(({ sessions, ...stage }) => stage),
+        sessions,
+        admin_tasks: data.adminTasks,
+        appointments: data.appointments,
+        accounting_entries: data.accountingEntries,
+        assistants: data.assistants.map(name => ({ name })),
+        invoices: data.invoices.map(({ items, ...inv }) => inv),
+        invoice_items,
+        case_documents: data.documents,
+        profiles: data.profiles,
+        site_finances: data.siteFinances,
+    };
+};
+
+// Dates are Date objects locally but ISO strings remotely, and empty values come back as null, '', [] or {}.
+export const normalizeFieldValue = (value: any): any => {
+    if (value === undefined || value === null || value === '' || (typeof value === 'object' && !(value instanceof Date) && Object.keys(value).length === 0)) return null;
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        const time = Date.parse(value);
+        return isNaN(time) ? value : time;
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return value;
+};
+
+// Parents before children for upserts; deletes replay in the reverse order.
+export const OUTBOX_UPSERT_ORDER: (keyof FlatData)[] = [
+    'profiles', 'assistants', 'contacts', 'courts', 'case_types', 'custom_field_definitions', 'deadline_rules', 'clients', 'cases', 'case_parties', 'stages', 'sessions', 'deadlines', 'notes', 'invoices', 'invoice_items',
+    'case_documents', 'admin_tasks', 'appointments', 'accounting_entries', 'site_finances',
+];
+
+// Local bookkeeping that never makes a row worth pushing on its own.
+const OUTBOX_IGNORED_FIELDS = new Set(['updated_at', 'updated_by', 'localState', 'isLocalOnly', 'stageId', 'stageDecisionDate']);
+
+export const getRowKey = (row: any) => String(row.id ?? row.name);
+
+export const hasRowChanged = (prev: any, next: any) => {
+    if (prev === next) return false;
+    const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+    for (const field of fields) {
+        if (OUTBOX_IGNORED_FIELDS.has(field)) continue;
+        if (normalizeFieldValue(prev[field]) !== normalizeFieldValue(next[field])) return true;
+    }
+    return false;
+};
+
+// Links and bookkeeping that say nothing about what a user changed.
+const AUDIT_IGNORED_FIELDS = new Set(['id', 'user_id', 'client_id', 'case_id', 'stage_id', 'parentStageId', 'caseId', 'clientId', 'userId', 'storagePath', 'addedAt']);
+
+const diffRowFields = (prev: any, next: any): AuditChanges | null => {
+    const changes: AuditChanges = {};
+    for (const field of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+        if (OUTBOX_IGNORED_FIELDS.has(field) || AUDIT_IGNORED_FIELDS.has(field)) continue;
+        if (normalizeFieldValue(prev[field]) !== normalizeFieldValue(next[field])) changes[field] = { from: prev[field] ?? null, to: next[field] ?? null };
+    }
+    return Object.keys(changes).length > 0 ? changes : null;
+};
+
+// Combines the diffs of coalesced edits: the oldest value before them, the newest after them.
+export const mergeAuditChanges = (earlier: AuditChanges | null, later: AuditChanges | null): AuditChanges | null => {
+    if (!earlier) return later;
+    if (!later) return earlier;
+    const merged: AuditChanges = { ...earlier };
+    for (const [field, change] of Object.entries(later)) {
+        const from = earlier[field] ? earlier[field].from : change.from;
+        if (normalizeFieldValue(from) === normalizeFieldValue(change.to)) delete merged[field];
+        else merged[field] = { from, to: change.to };
+    }
+    return Object.keys(merged).length > 0 ? merged : null;
+};
+
+// Columns that say nothing about an edit; the server sets updated_at and updated_by itself.
+const REMOTE_BOOKKEEPING_COLUMNS = new Set(['id', 'user_id', 'updated_at', 'updated_by']);
+
+// The database columns an update changes, compared in their remote form.
+const diffRemoteColumns = (table: keyof FlatData, prev: any, next: any): string[] => {
+    const prevRemote = (toRemoteRows({ [table]: [prev] }, '') as any)[table]?.[0];
+    const nextRemote = (toRemoteRows({ [table]: [next] }, '') as any)[table]?.[0];
+    if (!prevRemote || !nextRemote) return [];
+    return Array.from(new Set([...Object.keys(prevRemote), ...Object.keys(nextRemote)]))
+        .filter(column => !REMOTE_BOOKKEEPING_COLUMNS.has(column) && normalizeFieldValue(prevRemote[column]) !== normalizeFieldValue(nextRemote[column]));
+};
+
+const toTimestamp = (value: any): string | undefined => {
+    const time = value ? new Date(value).getTime() : NaN;
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+const getAuditLabel = (table: keyof FlatData, row: any): string | null => {
+    if (table === 'sessions') return row.date ? new Date(row.date).toISOString().slice(0, 10) : null;
+    if (table === 'stages') return [row.court, row.caseNumber].filter(Boolean).join(' - ') || null;
+    return row.subject || row.name || row.description || (table === 'invoices' ? row.id : null) || null;
+};
+
+/**
+ * Diffs two snapshots of the app data into the outbox operations that bring the cloud from `prev` to `next`.
+ * Only tables whose arrays changed identity are compared. Profiles are never deleted from here: removing one
+ * locally only hides it, the account itself is managed server side.
+ */
+export const buildOutboxOperations = (prev: AppData, next: AppData, reason?: OutboxReason): Omit<OutboxOperation, 'ownerId'>[] => {
+    const changedTables = new Set<keyof FlatData>();
+    if (prev.clients !== next.clients) ['clients', 'cases', 'case_parties', 'stages', 'sessions'].forEach(t => changedTables.add(t as keyof FlatData));
+    if (prev.contacts !== next.contacts) changedTables.add('contacts');
+    if (prev.courts !== next.courts) changedTables.add('courts');
+    if (prev.caseTypes !== next.caseTypes) changedTables.add('case_types');
+    if (prev.customFieldDefinitions !== next.customFieldDefinitions) changedTables.add('custom_field_definitions');
+    if (prev.deadlineRules !== next.deadlineRules) changedTables.add('deadline_rules');
+    if (prev.deadlines !== next.deadlines) changedTables.add('deadlines');
+    if (prev.notes !== next.notes) changedTables.add('notes');
+    if (prev.invoices !== next.invoices) { changedTables.add('invoices'); changedTables.add('invoice_items'); }
+    if (prev.adminTasks !== next.adminTasks) changedTables.add('admin_tasks');
+    if (prev.appointments !== next.appointments) changedTables.add('appointments');
+    if (prev.accountingEntries !== next.accountingEntries) changedTables.add('accounting_entries');
+    if (prev.assistants !== next.assistants) changedTables.add('assistants');
+    if (prev.documents !== next.documents) changedTables.add('case_documents');
+    if (prev.profiles !== next.profiles) changedTables.add('profiles');
+    if (prev.siteFinances !== next.siteFinances) changedTables.add('site_finances');
+    if (changedTables.size === 0) return [];
+
+    const prevFlat = flattenData(prev);
+    const nextFlat = flattenData(next);
+    const createdAt = new Date().toISOString();
+    const makeOp = (table: string, recordId: string, type: OutboxOperation['type'], opReason: OutboxReason, payload?: any, audit?: OutboxAuditInfo) => ({
+        opId: `op-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        table, recordId, type, reason: opReason, payload, audit, createdAt, attempts: 0, lastError: null,
+    });
+
+    // Changes are logged against the case a row belongs to; sessions reach it through their stage.
+    const stageCaseIds = new Map<string, string>([...prevFlat.stages, ...nextFlat.stages].map(st => [st.id, st.case_id]));
+    const getCaseId = (table: keyof FlatData, row: any): string | null => {
+        switch (table) {
+            case 'cases': return row.id;
+            case 'case_parties': case 'stages': return row.case_id;
+            case 'sessions': return stageCaseIds.get(row.stage_id) || null;
+            case 'case_documents': case 'accounting_entries': case 'invoices': return row.caseId || null;
+            default: return null;
+        }
+    };
+    const getAudit = (table: keyof FlatData, row: any, changes: AuditChanges | null): OutboxAuditInfo | undefined => {
+        const caseId = getCaseId(table, row);
+        return caseId ? { caseId, label: getAuditLabel(table, row), changes } : undefined;
+    };
+
+    const upserts: Omit<OutboxOperation, 'ownerId'>[] = [];
+    const deletes: Omit<OutboxOperation, 'ownerId'>[] = [];
+    for (const table of OUTBOX_UPSERT_ORDER) {
+        if (!changedTables.has(table)) continue;
+        const prevRows = new Map(((prevFlat as any)[table] as any[]).map(row => [getRowKey(row), row]));
+        const nextRows = new Map(((nextFlat as any)[table] as any[]).map(row => [getRowKey(row), row]));
+
+        for (const [key, row] of nextRows) {
+            const prevRow = prevRows.get(key);
+            if (!prevRow) upserts.push(makeOp(table, key, 'upsert', 'create', row, getAudit(table, row, null)));
+            else if (hasRowChanged(prevRow, row)) upserts.push({
+                ...makeOp(table, key, 'upsert', reason || 'update', row, getAudit(table, row, diffRowFields(prevRow, row))),
+                changedColumns: diffRemoteColumns(table, prevRow, row),
+                baseUpdatedAt: toTimestamp(prevRow.updated_at),
+            });
+        }
+        if (table === 'profiles') continue;
+        for (const [key, row] of prevRows) {
+            if (nextRows.has(key)) continue;
+            deletes.unshift(makeOp(table, key, 'delete', 'delete', undefined, getAudit(table, row, null)));
+            if (table === 'case_documents' && row.storagePath) deletes.unshift(makeOp('storage', row.storagePath, 'delete_file', 'delete'));
+        }
+    }
+    return [...upserts, ...deletes];
+};
+
+// Removes stored document files whose rows are already gone, e.g. once trashed documents are purged.
+export const buildFileDeleteOperations = (storagePaths: string[]): Omit<OutboxOperation, 'ownerId'>[] => {
+    const createdAt = new Date().toISOString();
+    return storagePaths.map((path, i) => ({
+        opId: `op-${Date.now()}-${i}`, table: 'storage', recordId: path, type: 'delete_file' as const, reason: 'delete' as const, createdAt, attempts: 0, lastError: null,
+    }));
+};
+
+const LEGACY_DELETED_IDS_TABLES: Record<keyof Omit<DeletedIds, 'documentPaths'>, keyof FlatData> = {
+    clients: 'clients', cases: 'cases', stages: 'stages', sessions: 'sessions', adminTasks: 'admin_tasks',
+    appointments: 'appointments', accountingEntries: 'accounting_entries', invoices: 'invoices',
+    invoiceItems: 'invoice_items', assistants: 'assistants', documents: 'case_documents',
+    profiles: 'profiles', siteFinances: 'site_finances',
+};
+
+// Converts the pending deletions kept by older versions into outbox operations.
+export const deletedIdsToOutboxOperations = (deletedIds: Partial<DeletedIds>): Omit<OutboxOperation, 'ownerId'>[] => {
+    const createdAt = new Date().toISOString();
+    const ops: Omit<OutboxOperation, 'ownerId'>[] = [];
+    const push = (table: string, recordId: string, type: OutboxOperation['type']) => ops.push({
+        opId: `op-${Date.now()}-${ops.length}`, table, recordId, type, reason: 'delete', createdAt, attempts: 0, lastError: null,
+    });
+    (deletedIds.documentPaths || []).forEach(path => push('storage', path, 'delete_file'));
+    for (const [key, table] of Object.entries(LEGACY_DELETED_IDS_TABLES)) {
+        ((deletedIds as any)[key] || []).forEach((id: any) => push(table, String(id), 'delete'));
+    }
+    return ops;
+};
+
 
 /**
  * Checks if the Supabase database is accessible and initialized.
@@ -67,72 +292,98 @@ export const checkSupabaseSchema = async () => {
 };
 
 
+// 'assistants' has no updated_at column, and 'case_documents' rows are pruned from the cloud after 48h
+// without a sync_deletions entry, so both are always fetched in full (they stay small).
+const FULL_FETCH_TABLES: (keyof FlatData)[] = ['assistants', 'case_documents'];
+const SYNC_TABLES: (keyof FlatData)[] = [
+    'clients', 'contacts', 'courts', 'case_types', 'custom_field_definitions', 'deadline_rules', 'cases', 'case_parties', 'stages', 'sessions', 'deadlines', 'notes', 'admin_tasks', 'appointments', 'accounting_entries',
+    'assistants', 'invoices', 'invoice_items', 'case_documents', 'profiles', 'site_finances',
+];
+const DELTA_PAGE_SIZE = 1000;
+// updated_at and deleted_at are stamped with the start of their transaction, so a row committed after a pull can
+// carry a time before that pull's cursor. Every pull reads this far behind the cursors again; rows seen twice merge
+// to the same result. Only a write whose transaction stayed open longer than this can still be missed.
+const SYNC_CURSOR_OVERLAP_MS = 2 * 60 * 1000;
+// Cursors further ahead than this are treated as corrupt (e.g. written by a device with a wrong clock).
+const MAX_CURSOR_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+export const isValidSyncCursor = (cursor: SyncCursor | undefined): cursor is SyncCursor => {
+    if (!cursor || typeof cursor !== 'object') return false;
+    if (cursor.id === undefined || cursor.id === null || String(cursor.id) === '') return false;
+    const time = Date.parse(cursor.updated_at);
+    return !isNaN(time) && time <= Date.now() + MAX_CURSOR_CLOCK_SKEW_MS;
+};
+
+export interface RemoteChanges {
+    data: Partial<FlatData>;
+    cursors: Record<string, SyncCursor>;
+    fullTables: Set<keyof FlatData>; // Tables that were fetched in full instead of incrementally
+}
+
 /**
- * Fetches the entire dataset for the current user from Supabase.
+ * Fetches the rows changed since the given cursors, using (updated_at, id) as a keyset so rows
+ * sharing the same timestamp are neither skipped nor fetched twice.
+ * Tables without a valid cursor (or whose delta query fails) fall back to a full fetch.
  */
-export const fetchDataFromSupabase = async (): Promise<Partial<FlatData>> => {
+export const fetchChangesFromSupabase = async (cursors: Record<string, SyncCursor> | null): Promise<RemoteChanges> => {
     const supabase = getSupabaseClient();
     if (!supabase) throw new Error('Supabase client not available.');
 
-    // We still fetch all data in parallel here, but this is usually handled better by the browser
-    // than the pre-flight OPTIONS requests of the schema check.
-    const [
-        clientsRes, adminTasksRes, appointmentsRes, accountingEntriesRes,
-        assistantsRes, invoicesRes, casesRes, stagesRes, sessionsRes, invoiceItemsRes,
-        caseDocumentsRes, profilesRes, siteFinancesRes
-    ] = await Promise.all([
-        supabase.from('clients').select('*'),
-        supabase.from('admin_tasks').select('*'),
-        supabase.from('appointments').select('*'),
-        supabase.from('accounting_entries').select('*'),
-        supabase.from('assistants').select('name'),
-        supabase.from('invoices').select('*'),
-        supabase.from('cases').select('*'),
-        supabase.from('stages').select('*'),
-        supabase.from('sessions').select('*'),
-        supabase.from('invoice_items').select('*'),
-        supabase.from('case_documents').select('*'),
-        supabase.from('profiles').select('*'),
-        supabase.from('site_finances').select('*'),
-    ]);
+    const fetchFull = async (table: keyof FlatData) => {
+        if (table === 'assistants') return supabase.from('assistants').select('name');
+        return supabase.from(table).select('*').order('updated_at', { ascending: true, nullsFirst: true }).order('id', { ascending: true });
+    };
 
-    const results = [
-        { res: clientsRes, name: 'clients' },
-        { res: adminTasksRes, name: 'admin_tasks' },
-        { res: appointmentsRes, name: 'appointments' },
-        { res: accountingEntriesRes, name: 'accounting_entries' },
-        { res: assistantsRes, name: 'assistants' },
-        { res: invoicesRes, name: 'invoices' },
-        { res: casesRes, name: 'cases' },
-        { res: stagesRes, name: 'stages' },
-        { res: sessionsRes, name: 'sessions' },
-        { res: invoiceItemsRes, name: 'invoice_items' },
-        { res: caseDocumentsRes, name: 'case_documents' },
-        { res: profilesRes, name: 'profiles' },
-        { res: siteFinancesRes, name: 'site_finances' },
-    ];
+    const fetchDelta = async (table: keyof FlatData, cursor: SyncCursor) => {
+        const rows: any[] = [];
+        // Every id sorts after the empty string, so the first page starts at the overlap time itself.
+        let after: SyncCursor = { updated_at: new Date(Date.parse(cursor.updated_at) - SYNC_CURSOR_OVERLAP_MS).toISOString(), id: '' };
+        while (true) {
+            const { data, error } = await supabase
+                .from(table)
+                .select('*')
+                .or(`updated_at.gt."${after.updated_at}",and(updated_at.eq."${after.updated_at}",id.gt."${after.id}")`)
+                .order('updated_at', { ascending: true })
+                .order('id', { ascending: true })
+                .limit(DELTA_PAGE_SIZE);
+            if (error) return { data: null, error };
+            rows.push(...(data || []));
+            if (!data || data.length < DELTA_PAGE_SIZE) break;
+            const last = data[data.length - 1];
+            after = { updated_at: last.updated_at, id: last.id };
+        }
+        return { data: rows, error: null };
+    };
 
-    for (const { res, name } of results) {
+    const fullTables = new Set<keyof FlatData>();
+    const results = await Promise.all(SYNC_TABLES.map(async table => {
+        const cursor = cursors?.[table];
+        if (!FULL_FETCH_TABLES.includes(table) && isValidSyncCursor(cursor)) {
+            const res = await fetchDelta(table, cursor);
+            if (!res.error) return { table, res, cursor };
+            console.warn(`Incremental fetch of ${table} failed, falling back to a full fetch:`, res.error.message);
+        }
+        fullTables.add(table);
+        return { table, res: await fetchFull(table), cursor: undefined };
+    }));
+
+    const data: Partial<FlatData> = {};
+    const nextCursors: Record<string, SyncCursor> = {};
+    for (const { table, res, cursor } of results) {
         if (res.error) {
-            throw new Error(`Failed to fetch ${name}: ${res.error.message}`);
+            throw new Error(`Failed to fetch ${table}: ${res.error.message}`);
         }
+        const rows = res.data || [];
+        (data as any)[table] = rows;
+
+        // Rows arrive ordered by (updated_at, id), so the last one with a timestamp is the new high-water mark,
+        // unless only rows of the overlap came back.
+        const last = [...rows].reverse().find((row: any) => row.updated_at);
+        if (last && !(cursor && Date.parse(last.updated_at) <= Date.parse(cursor.updated_at))) nextCursors[table] = { updated_at: last.updated_at, id: last.id };
+        else if (cursor) nextCursors[table] = cursor;
     }
 
-    return {
-        clients: clientsRes.data || [],
-        cases: casesRes.data || [],
-        stages: stagesRes.data || [],
-        sessions: sessionsRes.data || [],
-        admin_tasks: adminTasksRes.data || [],
-        appointments: appointmentsRes.data || [],
-        accounting_entries: accountingEntriesRes.data || [],
-        assistants: assistantsRes.data || [],
-        invoices: invoicesRes.data || [],
-        invoice_items: invoiceItemsRes.data || [],
-        case_documents: caseDocumentsRes.data || [],
-        profiles: profilesRes.data || [],
-        site_finances: siteFinancesRes.data || [],
-    };
+    return { data, cursors: nextCursors, fullTables };
 };
 
 /**
@@ -146,10 +397,18 @@ export const fetchFullDatabaseBackup = async () => {
     const tables = [
         'profiles',
         'assistants',
+        'contacts',
+        'courts',
+        'case_types',
+        'custom_field_definitions',
+        'deadline_rules',
         'clients',
         'cases',
+        'case_parties',
         'stages',
         'sessions',
+        'deadlines',
+        'notes',
         'admin_tasks',
         'appointments',
         'accounting_entries',
@@ -185,10 +444,18 @@ export const restoreFullDatabaseBackup = async (backupData: Record<string, any[]
     const tableOrder = [
         'profiles',
         'assistants',
+        'contacts',
+        'courts',
+        'case_types',
+        'custom_field_definitions',
+        'deadline_rules',
         'clients',
         'cases',
+        'case_parties',
         'stages',
         'sessions',
+        'deadlines',
+        'notes',
         'case_documents',
         'invoices',
         'invoice_items',
@@ -275,19 +542,21 @@ export const cleanupExpiredCloudDocuments = async () => {
     }
 };
 
-export const fetchDeletionsFromSupabase = async (): Promise<SyncDeletion[]> => {
+export const fetchDeletionsFromSupabase = async (since?: string | null): Promise<SyncDeletion[]> => {
     const supabase = getSupabaseClient();
     if (!supabase) return [];
     
-    // Fetch deletions from the last 30 days to keep payload small but effective
+    // Without a cursor, fetch deletions from the last 30 days to keep payload small but effective.
+    // With one, re-fetch the overlap behind it (see SYNC_CURSOR_OVERLAP_MS); applying deletions twice is harmless.
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const sinceTime = since ? Date.parse(since) : NaN;
 
     try {
         const { data, error } = await supabase
             .from('sync_deletions')
             .select('*')
-            .gte('deleted_at', thirtyDaysAgo.toISOString());
+            .gte('deleted_at', !isNaN(sinceTime) ? new Date(sinceTime - SYNC_CURSOR_OVERLAP_MS).toISOString() : thirtyDaysAgo.toISOString());
 
         if (error) {
             // Robust error stringification to avoid [object Object]
@@ -314,8 +583,8 @@ export const deleteDataFromSupabase = async (deletions: Partial<FlatData>, user:
     if (!supabase) throw new Error('Supabase client not available.');
 
     const deletionOrder: (keyof FlatData)[] = [
-        'case_documents', 'invoice_items', 'sessions', 'stages', 'cases', 'invoices', 
-        'admin_tasks', 'appointments', 'accounting_entries', 'assistants', 'clients',
+        'case_documents', 'invoice_items', 'notes', 'deadlines', 'sessions', 'stages', 'case_parties', 'cases', 'invoices', 
+        'admin_tasks', 'appointments', 'accounting_entries', 'assistants', 'clients', 'contacts', 'courts', 'case_types', 'custom_field_definitions', 'deadline_rules',
         'site_finances',
         'profiles',
     ];
@@ -334,7 +603,7 @@ export const deleteDataFromSupabase = async (deletions: Partial<FlatData>, user:
                     user_id: user.id
                 }));
                 
-                const { error: logError } = await supabase.from('sync_deletions').insert(deletionsLog).select();
+                const { error: logError } = await withRetry(() => supabase.from('sync_deletions').insert(deletionsLog).select());
                 
                 if (logError) {
                     console.warn("Could not log deletion (safe to ignore if DB not updated):", logError.message || JSON.stringify(logError));
@@ -342,7 +611,7 @@ export const deleteDataFromSupabase = async (deletions: Partial<FlatData>, user:
             }
 
             // 2. Perform the hard delete
-            const { error } = await supabase.from(table).delete().in(primaryKeyColumn, ids);
+            const { error } = await withRetry(() => supabase.from(table).delete().in(primaryKeyColumn, ids));
             if (error) {
                 console.error(`Error deleting from ${table}:`, error);
                 const msg = error.message || JSON.stringify(error);
@@ -354,40 +623,44 @@ export const deleteDataFromSupabase = async (deletions: Partial<FlatData>, user:
     }
 };
 
-export const upsertDataToSupabase = async (data: Partial<FlatData>, user: User) => {
-    const supabase = getSupabaseClient();
-    if (!supabase) throw new Error('Supabase client not available.');
-
-    // IMPORTANT: 'user' passed here might be a constructed object with 'effectiveUserId' as 'id'.
-    // We use this ID to assign ownership of new records.
-    const userId = user.id;
-
+// Maps application data (camelCase) to database rows (snake_case) owned by `userId`.
+// Also used when recording outbox operations, so the service worker can push them as they are.
+export const toRemoteRows = (data: Partial<FlatData>, userId: string) => {
     // Filter out Local-Only documents before upserting
     const documentsToUpsert = data.case_documents?.filter(doc => !doc.isLocalOnly);
 
     // Map application data (camelCase) to database schema (snake_case)
     const dataToUpsert = {
-        clients: data.clients?.map(({ contactInfo, ...rest }) => ({ ...rest, user_id: userId, contact_info: contactInfo })),
-        cases: data.cases?.map(({ clientName, opponentName, feeAgreement, ...rest }) => ({ ...rest, user_id: userId, client_name: clientName, opponent_name: opponentName, fee_agreement: feeAgreement })),
-        stages: data.stages?.map(({ caseNumber, firstSessionDate, decisionDate, decisionNumber, decisionSummary, decisionNotes, ...rest }) => ({ ...rest, user_id: userId, case_number: caseNumber, first_session_date: firstSessionDate, decision_date: decisionDate, decision_number: decisionNumber, decision_summary: decisionSummary, decision_notes: decisionNotes })),
+        clients: data.clients?.map(({ contactInfo, contactId, customFields, ...rest }) => ({ ...rest, user_id: userId, contact_info: contactInfo, contact_id: contactId, custom_fields: customFields || null })),
+        contacts: data.contacts?.map(({ nationalId, ...rest }) => ({ ...rest, user_id: userId, national_id: nationalId })),
+        courts: data.courts?.map(({ courtType, workingDays, ...rest }) => ({ ...rest, user_id: userId, court_type: courtType, working_days: workingDays })),
+        case_types: data.case_types?.map(({ parentId, ...rest }) => ({ ...rest, user_id: userId, parent_id: parentId || null })),
+        custom_field_definitions: data.custom_field_definitions?.map(({ order, ...rest }) => ({ ...rest, user_id: userId, sort_order: order })),
+        deadline_rules: data.deadline_rules?.map(({ caseTypeId, stageLevel, challengeKind, ...rest }) => ({ ...rest, user_id: userId, case_type_id: caseTypeId || null, stage_level: stageLevel || null, challenge_kind: challengeKind || null })),
+        deadlines: data.deadlines?.map(({ dueDate, ruleId, clientId, caseId, stageId, ...rest }) => ({ ...rest, user_id: userId, due_date: dueDate, rule_id: ruleId, client_id: clientId, case_id: caseId, stage_id: stageId })),
+        cases: data.cases?.map(({ clientName, opponentName, feeAgreement, caseTypeId, customFields, ...rest }) => ({ ...rest, user_id: userId, client_name: clientName, opponent_name: opponentName, fee_agreement: feeAgreement, case_type_id: caseTypeId || null, custom_fields: customFields || null })),
+        case_parties: data.case_parties?.map(({ isClient, contactId, ...rest }) => ({ ...rest, user_id: userId, is_client: isClient, contact_id: contactId })),
+        stages: data.stages?.map(({ caseNumber, firstSessionDate, decisionDate, decisionNumber, decisionSummary, decisionNotes, decisionOutcome, notificationDate, parentStageId, challengeKind, filingDeadline, customFields, ...rest }) => ({ ...rest, user_id: userId, case_number: caseNumber, first_session_date: firstSessionDate, decision_date: decisionDate, decision_number: decisionNumber, decision_summary: decisionSummary, decision_notes: decisionNotes, decision_outcome: decisionOutcome || null, notification_date: notificationDate || null, parent_stage_id: parentStageId || null, challenge_kind: challengeKind || null, filing_deadline: filingDeadline || null, custom_fields: customFields || null })),
+        // Listed column by column: flat sessions also carry fields for display (stageId, stageDecisionDate) that aren't columns.
         sessions: data.sessions?.map((s: any) => ({
             id: s.id,
             user_id: userId,
             stage_id: s.stage_id,
             court: s.court,
-            case_number: s.case_number,
+            case_number: s.caseNumber,
             date: s.date,
-            client_name: s.client_name,
-            opponent_name: s.opponent_name,
-            postponement_reason: s.postponement_reason || s.postponement_reason, // Handle both cases
-            next_postponement_reason: s.next_postponement_reason || s.next_postponement_reason,
-            is_postponed: s.is_postponed,
-            next_session_date: s.next_session_date,
+            client_name: s.clientName,
+            opponent_name: s.opponentName,
+            postponement_reason: s.postponementReason,
+            next_postponement_reason: s.nextPostponementReason,
+            is_postponed: s.isPostponed,
+            next_session_date: s.nextSessionDate,
             assignee: s.assignee,
             updated_at: s.updated_at
         })),
-        admin_tasks: data.admin_tasks?.map(({ dueDate, orderIndex, ...rest }) => ({ ...rest, user_id: userId, due_date: dueDate, order_index: orderIndex })),
-        appointments: data.appointments?.map(({ reminderTimeInMinutes, ...rest }) => ({ ...rest, user_id: userId, reminder_time_in_minutes: reminderTimeInMinutes })),
+        notes: data.notes?.map(({ clientId, caseId, stageId, authorId, authorName, createdAt, ...rest }) => ({ ...rest, user_id: userId, client_id: clientId, case_id: caseId || null, stage_id: stageId || null, author_id: authorId || null, author_name: authorName, created_at: createdAt })),
+        admin_tasks: data.admin_tasks?.map(({ dueDate, orderIndex, caseId, recurrence, excludedDates, ...rest }) => ({ ...rest, user_id: userId, due_date: dueDate, order_index: orderIndex, case_id: caseId || null, recurrence: recurrence || null, excluded_dates: excludedDates || [] })),
+        appointments: data.appointments?.map(({ reminderTimeInMinutes, recurrence, excludedDates, ...rest }) => ({ ...rest, user_id: userId, reminder_time_in_minutes: reminderTimeInMinutes, recurrence: recurrence || null, excluded_dates: excludedDates || [] })),
         accounting_entries: data.accounting_entries?.map(({ clientId, caseId, clientName, ...rest }) => ({ ...rest, user_id: userId, client_id: clientId, case_id: caseId, client_name: clientName })),
         assistants: data.assistants?.map(item => ({ ...item, user_id: userId })),
         invoices: data.invoices?.map(({ clientId, clientName, caseId, caseSubject, issueDate, dueDate, taxRate, ...rest }) => ({ ...rest, user_id: userId, client_id: clientId, client_name: clientName, case_id: caseId, case_subject: caseSubject, issue_date: issueDate, due_date: dueDate, tax_rate: taxRate })),
@@ -396,20 +669,82 @@ export const upsertDataToSupabase = async (data: Partial<FlatData>, user: User)
         profiles: data.profiles?.map(({ full_name, mobile_number, is_approved, is_active, subscription_start_date, subscription_end_date, lawyer_id, permissions, ...rest }) => ({ ...rest, full_name, mobile_number, is_approved, is_active, subscription_start_date, subscription_end_date, lawyer_id, permissions })),
         site_finances: data.site_finances?.map(({ user_id, payment_date, ...rest }) => ({ ...rest, user_id, payment_date })),
     };
+    return dataToUpsert;
+};
+
+// The audit log row for an operation, recorded when it is queued so the service worker can write it as well.
+export const toAuditRow = (op: OutboxOperation, ownerId: string, actorId: string): AuditLogEntry | undefined => {
+    if (!op.audit) return undefined;
+    return {
+        id: op.opId, user_id: ownerId, actor_id: actorId, table_name: op.table, record_id: op.recordId,
+        case_id: op.audit.caseId, action: op.reason, record_label: op.audit.label, changes: op.audit.changes, created_at: op.createdAt,
+    };
+};
+
+// Rows per upsert request, to stay well below the request size limit on large first syncs.
+const UPSERT_CHUNK_SIZE = 200;
+const MAX_REQUEST_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// postgrest-js reports a failed fetch as status 0. Only those and server errors can succeed on a retry.
+const isRetryableStatus = (status: number) => status === 0 || status >= 500;
+
+// "Full jitter": a random delay up to the exponential cap, so devices coming back online together spread out.
+const getBackoffDelay = (attempt: number) => Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+/**
+ * Runs a Supabase request, retrying network failures and 5xx responses with exponential backoff.
+ * Resolves with the last response; like the request itself, it never throws for a failed call.
+ */
+export const withRetry = async <T extends { error: any; status: number }>(request: () => PromiseLike<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        let response: T;
+        try {
+            response = await request();
+        } catch (e: any) {
+            response = { data: null, error: { message: e?.message || String(e) }, status: 0 } as unknown as T;
+        }
+        if (!response.error || !isRetryableStatus(response.status) || attempt >= MAX_REQUEST_ATTEMPTS - 1) return response;
+        await new Promise(resolve => setTimeout(resolve, getBackoffDelay(attempt)));
+    }
+};
+
+export interface UpsertResult {
+    results: Partial<Record<keyof FlatData, any[]>>; // Rows as stored, including the chunks of a table that went through before it failed
+    failures: { table: keyof FlatData; message: string }[];
+}
+
+/**
+ * Upserts every table present in `data`, parents first. A table that fails does not stop the others:
+ * whatever was stored is returned in `results` and the failed tables in `failures`, so callers can
+ * keep what succeeded and retry only the rest.
+ */
+export const upsertDataToSupabase = async (data: Partial<FlatData>, user: User): Promise<UpsertResult> => {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error('Supabase client not available.');
+
+    // IMPORTANT: 'user' passed here might be a constructed object with 'effectiveUserId' as 'id'.
+    // We use this ID to assign ownership of new records.
+    const dataToUpsert = toRemoteRows(data, user.id);
+    const failures: UpsertResult['failures'] = [];
     
-    const upsertTable = async (table: string, records: any[] | undefined, options: { onConflict?: string } = {}) => {
-        if (!records || records.length === 0) return [];
-        const { data: responseData, error } = await supabase.from(table).upsert(records, options).select();
-        if (error) {
-            console.error(`Error upserting to ${table}:`, error);
-            // Fix: properly extract error message to prevent [object Object]
-            const errorDetails = error.message || JSON.stringify(error);
-            const msg = `Error upserting to ${table}: ${errorDetails}`;
-            const newError = new Error(msg);
-            (newError as any).table = table;
-            throw newError;
+    const upsertTable = async (table: keyof FlatData, records: any[] | undefined, options: { onConflict?: string } = {}) => {
+        const stored: any[] = [];
+        if (!records || records.length === 0) return stored;
+        for (let start = 0; start < records.length; start += UPSERT_CHUNK_SIZE) {
+            const chunk = records.slice(start, start + UPSERT_CHUNK_SIZE);
+            const { data: responseData, error } = await withRetry(() => supabase.from(table).upsert(chunk, options).select());
+            if (error) {
+                console.error(`Error upserting to ${table}:`, error);
+                // Fix: properly extract error message to prevent [object Object]
+                const errorDetails = error.message || JSON.stringify(error);
+                failures.push({ table, message: `Error upserting to ${table}: ${errorDetails}` });
+                break;
+            }
+            stored.push(...(responseData || []));
         }
-        return responseData || [];
+        return stored;
     };
     
     const results: Partial<Record<keyof FlatData, any[]>> = {};
@@ -417,28 +752,19 @@ export const upsertDataToSupabase = async (data: Partial<FlatData>, user: User)
     results.profiles = await upsertTable('profiles', dataToUpsert.profiles);
     results.assistants = await upsertTable('assistants', dataToUpsert.assistants, { onConflict: 'user_id,name' });
     
+    results.contacts = await upsertTable('contacts', dataToUpsert.contacts);
+    results.courts = await upsertTable('courts', dataToUpsert.courts);
+    results.case_types = await upsertTable('case_types', dataToUpsert.case_types);
+    results.custom_field_definitions = await upsertTable('custom_field_definitions', dataToUpsert.custom_field_definitions);
+    results.deadline_rules = await upsertTable('deadline_rules', dataToUpsert.deadline_rules);
     // Core Hierarchy: Clients -> Cases -> Stages -> Sessions
     results.clients = await upsertTable('clients', dataToUpsert.clients);
     results.cases = await upsertTable('cases', dataToUpsert.cases);
+    results.case_parties = await upsertTable('case_parties', dataToUpsert.case_parties);
     results.stages = await upsertTable('stages', dataToUpsert.stages);
-    // Fix: Ensure session objects are mapped correctly before upserting to avoid missing fields if source structure slightly differs
-    const mappedSessions = dataToUpsert.sessions?.map((s: any) => ({
-         id: s.id,
-         user_id: s.user_id,
-         stage_id: s.stage_id,
-         court: s.court,
-         case_number: s.case_number,
-         date: s.date,
-         client_name: s.client_name,
-         opponent_name: s.opponent_name,
-         postponement_reason: s.postponement_reason, // Handle both cases
-         next_postponement_reason: s.next_postponement_reason,
-         is_postponed: s.is_postponed,
-         next_session_date: s.next_session_date,
-         assignee: s.assignee,
-         updated_at: s.updated_at
-    }));
-    results.sessions = await upsertTable('sessions', mappedSessions);
+    results.sessions = await upsertTable('sessions', dataToUpsert.sessions);
+    results.deadlines = await upsertTable('deadlines', dataToUpsert.deadlines);
+    results.notes = await upsertTable('notes', dataToUpsert.notes);
     
     // Dependencies on Core
     results.invoices = await upsertTable('invoices', dataToUpsert.invoices);
@@ -457,19 +783,90 @@ export const upsertDataToSupabase = async (data: Partial<FlatData>, user: User)
     results.accounting_entries = accountingEntries;
     results.site_finances = site_finances;
     
-    return results;
+    return { results, failures };
 };
 
+/**
+ * Logs pushed operations in the audit log. Ids are the operation ids, so rows written before by the
+ * service worker or an interrupted sync are skipped. Throws on failure; callers treat it as non-fatal.
+ */
+export const writeAuditLog = async (rows: AuditLogEntry[]) => {
+    const supabase = getSupabaseClient();
+    if (!supabase || rows.length === 0) return;
+    for (let start = 0; start < rows.length; start += UPSERT_CHUNK_SIZE) {
+        const chunk = rows.slice(start, start + UPSERT_CHUNK_SIZE);
+        const { error } = await withRetry(() => supabase.from('audit_log').upsert(chunk, { onConflict: 'id', ignoreDuplicates: true }));
+        if (error) throw new Error(error.message || JSON.stringify(error));
+    }
+};
+
+// Newest first. Row level security limits the log to the data owner's records.
+export const fetchCaseAuditLog = async (caseId: string): Promise<AuditLogEntry[]> => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return [];
+    const { data, error } = await supabase.from('audit_log').select('*').eq('case_id', caseId).order('created_at', { ascending: false });
+    if (error) throw new Error(error.message || JSON.stringify(error));
+    return data || [];
+};
+
+// Row level security returns only the feeds this user created, or all of them for the data owner.
+export const fetchCalendarFeeds = async (): Promise<CalendarFeed[]> => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return [];
+    const { data, error } = await supabase.from('calendar_feeds').select('*').order('created_at');
+    if (error) throw new Error(error.message || JSON.stringify(error));
+    return data || [];
+};
+
+export const createCalendarFeed = async (ownerId: string, name: string, assignee: string | null): Promise<CalendarFeed> => {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error('Supabase client not available.');
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    const token = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    const { data, error } = await supabase.from('calendar_feeds').insert({
+        id: `feed-${Date.now()}`,
+        user_id: ownerId,
+        token,
+        name,
+        assignee,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    }).select().single();
+    if (error) throw new Error(error.message || JSON.stringify(error));
+    return data;
+};
+
+export const deleteCalendarFeed = async (id: string) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error('Supabase client not available.');
+    const { error } = await supabase.from('calendar_feeds').delete().eq('id', id);
+    if (error) throw new Error(error.message || JSON.stringify(error));
+};
+
+/**
+ * The address a calendar app subscribes to. It is the app's own /api/calendar-feed function, which calls the
+ * 'calendar_feed' database function server-side, so the address holds the feed's token and nothing else.
+ */
+export const getCalendarFeedUrl = (token: string) =>
+    `${window.location.origin}/api/calendar-feed?token=${encodeURIComponent(token)}`;
+
 // Helper to transform remote snake_case data to local camelCase format
 export const transformRemoteToLocal = (remote: any): Partial<FlatData> => {
     if (!remote) return {};
     return {
-        clients: remote.clients?.map(({ contact_info, ...r }: any) => ({ ...r, contactInfo: contact_info })),
-        cases: remote.cases?.map(({ client_name, opponent_name, fee_agreement, ...r }: any) => ({ ...r, clientName: client_name, opponentName: opponent_name, feeAgreement: fee_agreement })),
-        stages: remote.stages?.map(({ case_number, first_session_date, decision_date, decision_number, decision_summary, decision_notes, ...r }: any) => ({ ...r, caseNumber: case_number, firstSessionDate: first_session_date, decisionDate: decision_date, decisionNumber: decision_number, decisionSummary: decision_summary, decisionNotes: decision_notes })),
+        clients: remote.clients?.map(({ contact_info, contact_id, custom_fields, ...r }: any) => ({ ...r, contactInfo: contact_info, contactId: contact_id, customFields: custom_fields || undefined })),
+        contacts: remote.contacts?.map(({ national_id, phones, ...r }: any) => ({ ...r, nationalId: national_id, phones: phones || [] })),
+        courts: remote.courts?.map(({ court_type, working_days, ...r }: any) => ({ ...r, courtType: court_type, workingDays: working_days || [] })),
+        case_types: remote.case_types?.map(({ parent_id, ...r }: any) => ({ ...r, parentId: parent_id })),
+        custom_field_definitions: remote.custom_field_definitions?.map(({ sort_order, ...r }: any) => ({ ...r, order: sort_order ?? 0, options: r.options || undefined })),
+        deadline_rules: remote.deadline_rules?.map(({ case_type_id, stage_level, challenge_kind, ...r }: any) => ({ ...r, caseTypeId: case_type_id, stageLevel: stage_level, challengeKind: challenge_kind })),
+        deadlines: remote.deadlines?.map(({ due_date, rule_id, client_id, case_id, stage_id, ...r }: any) => ({ ...r, dueDate: due_date, ruleId: rule_id, clientId: client_id, caseId: case_id, stageId: stage_id })),
+        cases: remote.cases?.map(({ client_name, opponent_name, fee_agreement, case_type_id, custom_fields, ...r }: any) => ({ ...r, clientName: client_name, opponentName: opponent_name, feeAgreement: fee_agreement, caseTypeId: case_type_id, tags: r.tags || [], customFields: custom_fields || undefined })),
+        case_parties: remote.case_parties?.map(({ is_client, contact_id, ...r }: any) => ({ ...r, isClient: is_client, contactId: contact_id })),
+        stages: remote.stages?.map(({ case_number, first_session_date, decision_date, decision_number, decision_summary, decision_notes, decision_outcome, notification_date, parent_stage_id, challenge_kind, filing_deadline, custom_fields, ...r }: any) => ({ ...r, caseNumber: case_number, firstSessionDate: first_session_date, decisionDate: decision_date, decisionNumber: decision_number, decisionSummary: decision_summary, decisionNotes: decision_notes, decisionOutcome: decision_outcome || null, notificationDate: notification_date || undefined, parentStageId: parent_stage_id || null, challengeKind: challenge_kind || null, filingDeadline: filing_deadline || undefined, customFields: custom_fields || undefined })),
         sessions: remote.sessions?.map(({ case_number, client_name, opponent_name, postponement_reason, next_postponement_reason, is_postponed, next_session_date, ...r }: any) => ({ ...r, caseNumber: case_number, clientName: client_name, opponentName: opponent_name, postponementReason: postponement_reason, nextPostponementReason: next_postponement_reason, isPostponed: is_postponed, nextSessionDate: next_session_date })),
-        admin_tasks: remote.admin_tasks?.map(({ due_date, order_index, ...r }: any) => ({ ...r, dueDate: due_date, orderIndex: order_index })),
-        appointments: remote.appointments?.map(({ reminder_time_in_minutes, ...r }: any) => ({ ...r, reminderTimeInMinutes: reminder_time_in_minutes })),
+        notes: remote.notes?.map(({ client_id, case_id, stage_id, author_id, author_name, created_at, ...r }: any) => ({ ...r, clientId: client_id, caseId: case_id, stageId: stage_id, authorId: author_id, authorName: author_name, createdAt: created_at })),
+        admin_tasks: remote.admin_tasks?.map(({ due_date, order_index, case_id, excluded_dates, ...r }: any) => ({ ...r, dueDate: due_date, orderIndex: order_index, caseId: case_id, excludedDates: excluded_dates || [] })),
+        appointments: remote.appointments?.map(({ reminder_time_in_minutes, excluded_dates, ...r }: any) => ({ ...r, reminderTimeInMinutes: reminder_time_in_minutes, excludedDates: excluded_dates || [] })),
         accounting_entries: remote.accounting_entries?.map(({ client_id, case_id, client_name, ...r }: any) => ({ ...r, clientId: client_id, caseId: case_id, clientName: client_name })),
         assistants: remote.assistants?.map((a: any) => ({ name: a.name })),
         invoices: remote.invoices?.map(({ client_id, client_name, case_id, case_subject, issue_date, due_date, tax_rate, ...r }: any) => ({ ...r, clientId: client_id, clientName: client_name, caseId: case_id, caseSubject: case_subject, issueDate: issue_date, dueDate: due_date, taxRate: tax_rate })),
@@ -0,0 +1,126 @@
+import * as React from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { getSupabaseClient } from '../supabaseClient';
+import { Profile } from '../types';
+import { FlatData } from './useOnlineData';
+
+// A row changed by another user or device, as delivered by Supabase Realtime.
+export interface RealtimeChange {
+    table: string;
+    eventType: 'INSERT' | 'UPDATE';
+    row: any; // Raw snake_case row, or a sync_deletions entry for deletions
+    actorId: string | null; // Profile id of whoever made the change (updated_by / deleted_by)
+}
+
+// postgres_changes cannot filter DELETE events, so deletions arrive as inserts into sync_deletions instead.
+const REALTIME_TABLES = ['clients', 'cases', 'stages', 'sessions', 'admin_tasks', 'appointments', 'case_documents', 'sync_deletions'];
+// Changes arriving together (e.g. a postponement touching a session and the new one) are applied as one batch.
+const REALTIME_BATCH_DELAY_MS = 500;
+// How long the version of a pushed row waits for its echo before it is forgotten.
+const PUSHED_VERSION_TTL_MS = 5 * 60 * 1000;
+
+// Row versions this device pushed itself, keyed by getChangeVersionKey, with the time they were pushed.
+export type PushedVersions = Map<string, number>;
+
+// One version of a row: the id and the updated_at the server gave it, or the deleted record for a deletion.
+export const getChangeVersionKey = (table: string, row: any): string => table === 'sync_deletions'
+    ? `sync_deletions:${row.table_name}:${row.record_id}`
+    : `${table}:${row.id ?? row.name}@${Date.parse(row.updated_at)}`;
+
+export const rememberPushedVersions = (pushed: PushedVersions, keys: string[]) => {
+    const now = Date.now();
+    for (const [key, pushedAt] of pushed) {
+        if (now - pushedAt > PUSHED_VERSION_TTL_MS) pushed.delete(key);
+    }
+    keys.forEach(key => pushed.set(key, now));
+};
+
+const TABLE_LABELS: Record<string, string> = {
+    clients: 'الموكل',
+    cases: 'القضية',
+    stages: 'المرحلة',
+    sessions: 'الجلسة',
+    admin_tasks: 'المهمة',
+    appointments: 'الموعد',
+    case_documents: 'الوثيقة',
+};
+
+// Local rows are camelCase while realtime rows are snake_case, so both spellings are read.
+const getRowLabel = (table: string, row: any): string => {
+    switch (table) {
+        case 'clients': return row.name || '';
+        case 'cases': return row.subject || '';
+        case 'stages': return [row.court, row.case_number ?? row.caseNumber].filter(Boolean).join(' - ');
+        case 'sessions': return `${row.client_name ?? row.clientName ?? ''} ضد ${row.opponent_name ?? row.opponentName ?? ''}`;
+        case 'admin_tasks': return row.task || '';
+        case 'appointments': return row.title || '';
+        case 'case_documents': return row.name || '';
+        default: return '';
+    }
+};
+
+export const describeRealtimeChange = (change: RealtimeChange, profiles: Profile[], localFlatData: FlatData): string => {
+    const actor = profiles.find(p => p.id === change.actorId)?.full_name || 'مستخدم آخر';
+    if (change.table === 'sync_deletions') {
+        const { table_name, record_id } = change.row;
+        const localRow = ((localFlatData as any)[table_name] as any[] | undefined)?.find(r => String(r.id ?? r.name) === String(record_id));
+        const label = localRow ? getRowLabel(table_name, localRow) : '';
+        return `تم حذف ${TABLE_LABELS[table_name] || 'سجل'}${label ? `: ${label}` : ''} بواسطة ${actor}`;
+    }
+    const label = getRowLabel(change.table, change.row);
+    const action = change.eventType === 'INSERT' ? 'تمت إضافة' : 'تم تعديل';
+    return `${action} ${TABLE_LABELS[change.table]}${label ? `: ${label}` : ''} بواسطة ${actor}`;
+};
+
+interface UseRealtimeSyncProps {
+    ownerId: string | null; // get_data_owner_id() of the current user
+    pushedVersions: PushedVersions; // Filled by the sync with the rows it pushed
+    isEnabled: boolean;
+    isPaused: boolean; // Changes are buffered while a sync is running and applied afterwards
+    onChanges: (changes: RealtimeChange[]) => void;
+}
+
+/**
+ * Subscribes to the data owner's rows and hands changes made elsewhere to `onChanges` in small batches.
+ * Changes pushed from this device echo back from the server too. They are recognised by their row version
+ * rather than by user, since the same user's edits on another device must still come through, and dropped.
+ */
+export const useRealtimeSync = ({ ownerId, pushedVersions, isEnabled, isPaused, onChanges }: UseRealtimeSyncProps) => {
+    const bufferRef = React.useRef<RealtimeChange[]>([]);
+    const [bufferedCount, setBufferedCount] = React.useState(0);
+    const onChangesRef = React.useRef(onChanges);
+    onChangesRef.current = onChanges;
+
+    React.useEffect(() => {
+        const supabase = getSupabaseClient();
+        if (!supabase || !isEnabled || !ownerId) return;
+
+        const channel: RealtimeChannel = supabase.channel(`owner-changes-${ownerId}`);
+        for (const table of REALTIME_TABLES) {
+            channel.on('postgres_changes', { event: '*', schema: 'public', table, filter: `user_id=eq.${ownerId}` }, (payload: any) => {
+                if (payload.eventType !== 'INSERT' && payload.eventType !== 'UPDATE') return;
+                if (table === 'sync_deletions' && payload.eventType !== 'INSERT') return;
+                const row = payload.new;
+                const actorId = (table === 'sync_deletions' ? row.deleted_by : row.updated_by) || null;
+                bufferRef.current.push({ table, eventType: payload.eventType, row, actorId });
+                setBufferedCount(bufferRef.current.length);
+            });
+        }
+        channel.subscribe((status, err) => {
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') console.warn(`Realtime subscription ${status}:`, err?.message);
+        });
+
+        return () => { supabase.removeChannel(channel); };
+    }, [ownerId, isEnabled]);
+
+    React.useEffect(() => {
+        if (bufferedCount === 0 || isPaused) return;
+        // Echoes are filtered when the batch is applied: the sync that pushed them has finished by then.
+        const handler = setTimeout(() => {
+            const batch = bufferRef.current.splice(0).filter(change => !pushedVersions.delete(getChangeVersionKey(change.table, change.row)));
+            setBufferedCount(0);
+            if (batch.length > 0) onChangesRef.current(batch);
+        }, REALTIME_BATCH_DELAY_MS);
+        return () => clearTimeout(handler);
+    }, [bufferedCount, isPaused, pushedVersions]);
+};
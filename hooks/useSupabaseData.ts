@@ -1,25 +1,31 @@
 import * as React from 'react';
-import { Client, Session, AdminTask, Appointment, AccountingEntry, Case, Stage, Invoice, InvoiceItem, CaseDocument, AppData, DeletedIds, getInitialDeletedIds, Profile, SiteFinancialEntry, Permissions, defaultPermissions } from '../types';
+import { Client, Contact, Court, CaseType, CustomFieldDefinition, DeadlineRule, Deadline, Note, Session, AdminTask, Appointment, AccountingEntry, Case, Stage, Invoice, InvoiceItem, CaseDocument, AppData, Profile, SiteFinancialEntry, Permissions, defaultPermissions, SyncState, getInitialSyncState, SyncBase, SyncConflict, ConflictTable, OutboxOperation, OutboxReason, SyncJournalEntry, createSyncJournalEntry, TrashItem } from '../types';
 import { useOnlineStatus } from './useOnlineStatus';
 // Fix: Use `import type` for User and RealtimeChannel as they are used as types, not a value.
-import type { User, RealtimeChannel } from '@supabase/supabase-js';
-import { useSync, SyncStatus as SyncStatusType } from './useSync';
-import { getSupabaseClient } from '../supabaseClient';
+import type { User, RealtimeChannel, Session as AuthSession } from '@supabase/supabase-js';
+import { useSync, SyncStatus as SyncStatusType, rebaseLocalEdits } from './useSync';
+import { getSupabaseClient, supabaseUrl, supabaseAnonKey } from '../supabaseClient';
 import { isBeforeToday, toInputDateString } from '../utils/dateUtils';
-import { openDB, IDBPDatabase } from 'idb';
+import type { IDBPDatabase } from 'idb';
+import { appendSyncJournalEntry } from '../utils/syncJournal';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { createHistoryEntry, applyHistoryEntry, HistoryEntry, MAX_HISTORY_ENTRIES } from '../utils/undoHistory';
+import { loadTrash, putTrashItem, deleteTrashItems, moveToTrash, restoreFromTrash, getTrashExpiry, TrashTarget, DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trash';
+import { getDb, DATA_STORE_NAME, DOCS_FILES_STORE_NAME, DOCS_METADATA_STORE_NAME, OUTBOX_STORE_NAME, MIGRATION_FAILURE_KEY, BACKGROUND_SYNC_SESSION_KEY, MigrationFailure } from '../utils/localDb';
 import { RealtimeAlert } from '../components/RealtimeNotifier';
-import { cleanupExpiredCloudDocuments } from './useOnlineData';
+import { cleanupExpiredCloudDocuments, buildOutboxOperations, buildFileDeleteOperations, flattenData, toRemoteRows, toAuditRow, mergeAuditChanges } from './useOnlineData';
+import { useRealtimeSync, describeRealtimeChange, RealtimeChange, PushedVersions, rememberPushedVersions } from './useRealtimeSync';
+import { useTabCoordination, TabMessage, SharedStateKey } from './useTabCoordination';
 
 // ... (existing constants)
 export const APP_DATA_KEY = 'lawyerBusinessManagementData';
 export type SyncStatus = SyncStatusType;
 const defaultAssistants = ['أحمد', 'فاطمة', 'سارة', 'بدون تخصيص'];
-const DB_NAME = 'LawyerAppData';
-const DB_VERSION = 11;
-const DATA_STORE_NAME = 'appData';
-const DOCS_FILES_STORE_NAME = 'caseDocumentFiles';
-const DOCS_METADATA_STORE_NAME = 'caseDocumentMetadata';
 const LOCALLY_DELETED_DOCS_KEY = 'lawyer_app_locally_deleted_docs';
+// Shared with sw.js, which pushes the outbox in the background with the session mirrored under this key.
+const BACKGROUND_SYNC_TAG = 'sync-outbox';
+// Larger realtime batches are announced with a single summary alert.
+const MAX_REALTIME_ALERTS_PER_BATCH = 3;
 
 // --- User Settings Management ---
 interface UserSettings {
@@ -27,6 +33,17 @@ interface UserSettings {
     isAutoBackupEnabled: boolean;
     adminTasksLayout: 'horizontal' | 'vertical';
     locationOrder?: string[];
+    trashRetentionDays?: number;
+}
+
+interface UpdateDataOptions {
+    reason?: OutboxReason; // Recorded on the update operations, e.g. 'postpone'
+    localOnly?: boolean; // Change this device only, nothing goes to the outbox
+    skipDeletes?: boolean; // Rows missing from the new data are not deleted from the cloud
+    keepFiles?: boolean; // Removed documents keep their stored files, deleted when they leave the trash
+    skipHistory?: boolean; // Not recorded as an undo step, e.g. an undo itself
+    trashAdded?: TrashItem[]; // Trash items that come with the change, for undo and redo
+    trashRemoved?: TrashItem[];
 }
 
 const defaultSettings: UserSettings = {
@@ -34,10 +51,18 @@ const defaultSettings: UserSettings = {
     isAutoBackupEnabled: true,
     adminTasksLayout: 'horizontal',
     locationOrder: [],
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
 };
 
 const getInitialData = (): AppData => ({
     clients: [] as Client[],
+    contacts: [] as Contact[],
+    courts: [] as Court[],
+    caseTypes: [] as CaseType[],
+    customFieldDefinitions: [] as CustomFieldDefinition[],
+    deadlineRules: [] as DeadlineRule[],
+    deadlines: [] as Deadline[],
+    notes: [] as Note[],
     adminTasks: [] as AdminTask[],
     appointments: [] as Appointment[],
     accountingEntries: [] as AccountingEntry[],
@@ -48,20 +73,59 @@ const getInitialData = (): AppData => ({
     siteFinances: [] as SiteFinancialEntry[],
 });
 
-// ... (getDb function same as before)
-async function getDb(): Promise<IDBPDatabase> {
-  return openDB(DB_NAME, DB_VERSION, {
-    upgrade(db, oldVersion, newVersion, tx) {
-        if (oldVersion < 11) {
-            if (db.objectStoreNames.contains(DOCS_METADATA_STORE_NAME)) db.deleteObjectStore(DOCS_METADATA_STORE_NAME);
-            db.createObjectStore(DOCS_METADATA_STORE_NAME);
-        }
-        if (!db.objectStoreNames.contains(DATA_STORE_NAME)) db.createObjectStore(DATA_STORE_NAME);
-        if (!db.objectStoreNames.contains(DOCS_FILES_STORE_NAME)) db.createObjectStore(DOCS_FILES_STORE_NAME);
-    },
-  });
+// Pending operations of one data owner, in the order they were recorded.
+async function loadOutbox(db: IDBPDatabase, ownerId: string): Promise<OutboxOperation[]> {
+    const all = await db.getAll(OUTBOX_STORE_NAME) as OutboxOperation[];
+    return all.filter(op => op.ownerId === ownerId);
+}
+
+// Asks the service worker to push the outbox once the device is online. It stands back while a tab leads
+// the syncing, so this mostly matters when the app is closed before its own sync ran.
+function requestBackgroundSync() {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.ready
+        .then(registration => (registration as any).sync?.register(BACKGROUND_SYNC_TAG))
+        .catch(e => console.warn('Background sync registration failed:', e));
 }
 
+// The service worker cannot read the auth session from localStorage, so the current tokens are kept in IndexedDB.
+async function persistBackgroundSyncSession(session: AuthSession | null) {
+    const db = await getDb();
+    if (!session) {
+        await db.delete(DATA_STORE_NAME, BACKGROUND_SYNC_SESSION_KEY);
+        return;
+    }
+    await db.put(DATA_STORE_NAME, {
+        url: supabaseUrl,
+        anonKey: supabaseAnonKey,
+        userId: session.user.id,
+        accessToken: session.access_token,
+        refreshToken: session.refresh_token, // For the worker to renew an access token that expired while offline
+        expiresAt: session.expires_at ?? null, // Seconds since epoch
+    }, BACKGROUND_SYNC_SESSION_KEY);
+}
+
+const CONFLICT_DATE_FIELDS = new Set(['date', 'nextSessionDate', 'firstSessionDate', 'decisionDate']);
+
+// Sets a single field on a client, case, stage or session, bumping updated_at so it is pushed on the next sync.
+const updateRecordField = (data: AppData, table: ConflictTable, recordId: string, field: string, value: any): AppData => {
+    const now = new Date();
+    const patch = (item: any) => item.id === recordId ? { ...item, [field]: value, updated_at: now } : item;
+    return {
+        ...data,
+        clients: data.clients.map(client => {
+            if (table === 'clients') return patch(client);
+            return { ...client, cases: client.cases.map(caseItem => {
+                if (table === 'cases') return patch(caseItem);
+                return { ...caseItem, stages: caseItem.stages.map(stage => {
+                    if (table === 'stages') return patch(stage);
+                    return { ...stage, sessions: stage.sessions.map(patch) };
+                }) };
+            }) };
+        }),
+    };
+};
+
 const validateAssistantsList = (list: any): string[] => {
     if (!Array.isArray(list)) return [...defaultAssistants];
     const uniqueAssistants = new Set(list.filter(item => typeof item === 'string' && item.trim() !== ''));
@@ -117,6 +181,8 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                  id: String(client.id),
                  name: String(client.name),
                  contactInfo: String(client.contactInfo || ''),
+                 contactId: client.contactId ? String(client.contactId) : null,
+                 customFields: isValidObject(client.customFields) ? client.customFields : undefined,
                  updated_at: reviveDate(client.updated_at),
                  user_id: clientUserId,
                  cases: safeArray(client.cases, (caseItem) => {
@@ -128,8 +194,24 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                          opponentName: String(caseItem.opponentName || ''),
                          feeAgreement: String(caseItem.feeAgreement || ''),
                          status: ['active', 'closed', 'on_hold'].includes(caseItem.status) ? caseItem.status : 'active',
+                         caseTypeId: caseItem.caseTypeId ? String(caseItem.caseTypeId) : null,
+                         tags: Array.isArray(caseItem.tags) ? caseItem.tags.filter(Boolean).map(String) : [],
+                         customFields: isValidObject(caseItem.customFields) ? caseItem.customFields : undefined,
                          updated_at: reviveDate(caseItem.updated_at),
                          user_id: clientUserId,
+                         parties: safeArray(caseItem.parties, (party) => {
+                             if (!isValidObject(party) || !party.id || !party.name) return undefined;
+                             return {
+                                 id: String(party.id),
+                                 name: String(party.name),
+                                 role: ['plaintiff', 'defendant', 'intervener', 'other'].includes(party.role) ? party.role : 'other',
+                                 isClient: !!party.isClient,
+                                 contactId: party.contactId ? String(party.contactId) : null,
+                                 representative: party.representative ? String(party.representative) : undefined,
+                                 updated_at: reviveDate(party.updated_at),
+                                 user_id: clientUserId,
+                             };
+                         }),
                          stages: safeArray(caseItem.stages, (stage) => {
                              if (!isValidObject(stage) || !stage.id) return undefined;
                              return {
@@ -141,6 +223,12 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                                  decisionNumber: String(stage.decisionNumber || ''),
                                  decisionSummary: String(stage.decisionSummary || ''),
                                  decisionNotes: String(stage.decisionNotes || ''),
+                                 decisionOutcome: ['won', 'lost', 'partial'].includes(stage.decisionOutcome) ? stage.decisionOutcome : null,
+                                 notificationDate: stage.notificationDate ? reviveDate(stage.notificationDate) : undefined,
+                                 parentStageId: stage.parentStageId ? String(stage.parentStageId) : null,
+                                 challengeKind: ['appeal', 'cassation'].includes(stage.challengeKind) ? stage.challengeKind : null,
+                                 filingDeadline: stage.filingDeadline ? reviveDate(stage.filingDeadline) : undefined,
+                                 customFields: isValidObject(stage.customFields) ? stage.customFields : undefined,
                                  updated_at: reviveDate(stage.updated_at),
                                  user_id: clientUserId,
                                  sessions: safeArray(stage.sessions, (session) => {
@@ -169,6 +257,106 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                  }),
              };
         }),
+        contacts: safeArray(loadedData.contacts, (contact) => {
+            if (!isValidObject(contact) || !contact.id || !contact.name) return undefined;
+            return {
+                id: String(contact.id),
+                name: String(contact.name),
+                type: ['client', 'opponent', 'judge', 'expert', 'clerk', 'lawyer', 'other'].includes(contact.type) ? contact.type : 'other',
+                phones: Array.isArray(contact.phones) ? contact.phones.filter(Boolean).map(String) : [],
+                address: contact.address || undefined,
+                nationalId: contact.nationalId || undefined,
+                notes: contact.notes || undefined,
+                updated_at: reviveDate(contact.updated_at),
+                user_id: contact.user_id,
+            };
+        }),
+        courts: safeArray(loadedData.courts, (court) => {
+            if (!isValidObject(court) || !court.id || !court.name) return undefined;
+            return {
+                id: String(court.id),
+                name: String(court.name),
+                city: court.city || undefined,
+                courtType: court.courtType || undefined,
+                level: ['magistrate', 'first_instance', 'appeal', 'cassation', 'other'].includes(court.level) ? court.level : 'other',
+                address: court.address || undefined,
+                workingDays: Array.isArray(court.workingDays) ? court.workingDays.map(Number).filter((d: number) => d >= 0 && d <= 6) : [],
+                hall: court.hall || undefined,
+                updated_at: reviveDate(court.updated_at),
+                user_id: court.user_id,
+            };
+        }),
+        caseTypes: safeArray(loadedData.caseTypes, (caseType) => {
+            if (!isValidObject(caseType) || !caseType.id || !caseType.name) return undefined;
+            return {
+                id: String(caseType.id),
+                name: String(caseType.name),
+                parentId: caseType.parentId ? String(caseType.parentId) : null,
+                updated_at: reviveDate(caseType.updated_at),
+                user_id: caseType.user_id,
+            };
+        }),
+        customFieldDefinitions: safeArray(loadedData.customFieldDefinitions, (field, index) => {
+            if (!isValidObject(field) || !field.id || !field.label) return undefined;
+            return {
+                id: String(field.id),
+                entity: ['client', 'case', 'stage'].includes(field.entity) ? field.entity : 'case',
+                label: String(field.label),
+                type: ['text', 'number', 'date', 'select', 'boolean'].includes(field.type) ? field.type : 'text',
+                options: Array.isArray(field.options) ? field.options.filter(Boolean).map(String) : undefined,
+                required: !!field.required,
+                order: typeof field.order === 'number' ? field.order : index,
+                updated_at: reviveDate(field.updated_at),
+                user_id: field.user_id,
+            };
+        }),
+        deadlineRules: safeArray(loadedData.deadlineRules, (rule) => {
+            if (!isValidObject(rule) || !rule.id || !rule.name) return undefined;
+            return {
+                id: String(rule.id),
+                name: String(rule.name),
+                caseTypeId: rule.caseTypeId ? String(rule.caseTypeId) : null,
+                stageLevel: ['magistrate', 'first_instance', 'appeal', 'cassation', 'other'].includes(rule.stageLevel) ? rule.stageLevel : null,
+                challengeKind: ['appeal', 'cassation'].includes(rule.challengeKind) ? rule.challengeKind : null,
+                days: Math.max(0, Number(rule.days) || 0),
+                trigger: rule.trigger === 'decision' ? 'decision' : 'notification',
+                updated_at: reviveDate(rule.updated_at),
+                user_id: rule.user_id,
+            };
+        }),
+        deadlines: safeArray(loadedData.deadlines, (deadline) => {
+            if (!isValidObject(deadline) || !deadline.id || !deadline.stageId) return undefined;
+            return {
+                id: String(deadline.id),
+                title: String(deadline.title || ''),
+                dueDate: reviveDate(deadline.dueDate),
+                trigger: deadline.trigger === 'notification' ? 'notification' : 'decision',
+                ruleId: String(deadline.ruleId || ''),
+                clientId: String(deadline.clientId || ''),
+                caseId: String(deadline.caseId || ''),
+                stageId: String(deadline.stageId),
+                completed: !!deadline.completed,
+                updated_at: reviveDate(deadline.updated_at),
+                user_id: deadline.user_id,
+            };
+        }),
+        notes: safeArray(loadedData.notes, (note) => {
+            if (!isValidObject(note) || !note.id || !note.clientId) return undefined;
+            return {
+                id: String(note.id),
+                clientId: String(note.clientId),
+                caseId: note.caseId ? String(note.caseId) : null,
+                stageId: note.stageId ? String(note.stageId) : null,
+                body: String(note.body || ''),
+                authorId: note.authorId ? String(note.authorId) : null,
+                authorName: String(note.authorName || ''),
+                pinned: !!note.pinned,
+                mentions: Array.isArray(note.mentions) ? note.mentions.filter(Boolean).map(String) : [],
+                createdAt: reviveDate(note.createdAt || note.updated_at),
+                updated_at: reviveDate(note.updated_at),
+                user_id: note.user_id,
+            };
+        }),
         adminTasks: safeArray(loadedData.adminTasks, (task, index) => {
             if (!isValidObject(task) || !task.id) return undefined;
             return {
@@ -179,6 +367,9 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                 importance: ['normal', 'important', 'urgent'].includes(task.importance) ? task.importance : 'normal',
                 assignee: task.assignee,
                 location: task.location,
+                caseId: task.caseId || null,
+                recurrence: normalizeRecurrenceRule(task.recurrence),
+                excludedDates: Array.isArray(task.excludedDates) ? task.excludedDates.map(String) : [],
                 updated_at: reviveDate(task.updated_at),
                 orderIndex: typeof task.orderIndex === 'number' ? task.orderIndex : index,
             };
@@ -195,6 +386,8 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
                 notified: !!apt.notified,
                 reminderTimeInMinutes: Number(apt.reminderTimeInMinutes || 15),
                 assignee: apt.assignee,
+                recurrence: normalizeRecurrenceRule(apt.recurrence),
+                excludedDates: Array.isArray(apt.excludedDates) ? apt.excludedDates.map(String) : [],
                 updated_at: reviveDate(apt.updated_at),
             };
         }),
@@ -278,11 +471,48 @@ const validateAndFixData = (loadedData: any, user: User | null): AppData => {
     };
 };
 
+const readLocallyDeletedDocIds = (): Set<string> => {
+    if (typeof localStorage === 'undefined') return new Set();
+    try {
+        const stored = localStorage.getItem(LOCALLY_DELETED_DOCS_KEY);
+        return stored ? new Set(JSON.parse(stored)) : new Set();
+    } catch { return new Set(); }
+};
+
+// Reads the owner's data from IndexedDB, with each document's local file state and without locally deleted documents.
+async function readStoredData(db: IDBPDatabase, ownerId: string, user: User | null): Promise<AppData> {
+    const [storedData, localDocsMetadata] = await Promise.all([
+        db.get(DATA_STORE_NAME, ownerId),
+        db.getAll(DOCS_METADATA_STORE_NAME)
+    ]);
+    const blockedDocIds = readLocallyDeletedDocIds();
+    const validatedData = validateAndFixData(storedData, user);
+    const localDocsMetadataMap = new Map((localDocsMetadata as any[]).map((meta: any) => [meta.id, meta]));
+    const finalDocs = validatedData.documents.map(doc => {
+        const localMeta: any = localDocsMetadataMap.get(doc.id);
+        return { 
+            ...doc, 
+            localState: localMeta?.localState || doc.localState || 'pending_download',
+            isLocalOnly: localMeta?.isLocalOnly || doc.isLocalOnly 
+        };
+    })
+    .filter(doc => !!doc && !blockedDocIds.has(doc.id)) as CaseDocument[];
+    return { ...validatedData, documents: finalDocs };
+}
+
 export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
     const [data, setData] = React.useState<AppData>(getInitialData);
-    const [deletedIds, setDeletedIds] = React.useState<DeletedIds>(getInitialDeletedIds);
+    // The latest data, ahead of the next render, so edits are computed once and their side effects run once.
+    const dataRef = React.useRef(data);
+    const [outbox, setOutbox] = React.useState<OutboxOperation[]>([]);
+    const [syncState, setSyncState] = React.useState<SyncState>(getInitialSyncState);
+    const [syncBase, setSyncBase] = React.useState<SyncBase>({});
+    const [syncConflicts, setSyncConflicts] = React.useState<SyncConflict[]>([]);
+    const [migrationFailure, setMigrationFailure] = React.useState<MigrationFailure | null>(null);
+    const [trashItems, setTrashItems] = React.useState<TrashItem[]>([]);
+    const [isInitialSyncPending, setInitialSyncPending] = React.useState(false);
     // ... (state vars same as before)
-    const [isDirty, setDirty] = React.useState(false);
+    const isDirty = outbox.length > 0;
     const [syncStatus, setSyncStatus] = React.useState<SyncStatus>('loading');
     const [lastSyncError, setLastSyncError] = React.useState<string | null>(null);
     const [isDataLoading, setIsDataLoading] = React.useState(true);
@@ -294,17 +524,20 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
     const isOnline = useOnlineStatus();
     
     // Track locally deleted documents to prevent resurrection
-    const [locallyDeletedDocIds, setLocallyDeletedDocIds] = React.useState<Set<string>>(() => {
-        if (typeof localStorage === 'undefined') return new Set();
-        try {
-            const stored = localStorage.getItem(LOCALLY_DELETED_DOCS_KEY);
-            return stored ? new Set(JSON.parse(stored)) : new Set();
-        } catch { return new Set(); }
-    });
+    const [locallyDeletedDocIds, setLocallyDeletedDocIds] = React.useState<Set<string>>(readLocallyDeletedDocIds);
     
     const userRef = React.useRef(user);
     userRef.current = user;
     const prevProfilesRef = React.useRef<Profile[]>([]);
+    // Outbox writes are chained so enqueues and acknowledgements never interleave.
+    const outboxQueueRef = React.useRef<Promise<void>>(Promise.resolve());
+    // Undo and redo stacks of this session, most recent last.
+    const historyRef = React.useRef<{ undo: HistoryEntry[]; redo: HistoryEntry[] }>({ undo: [], redo: [] });
+    const historyIdRef = React.useRef(0);
+    const [historyState, setHistoryState] = React.useState({ canUndo: false, canRedo: false });
+    const [undoToast, setUndoToast] = React.useState<HistoryEntry | null>(null);
+    // Rows this device pushed, so their realtime echo is not applied again.
+    const pushedVersionsRef = React.useRef<PushedVersions>(new Map());
 
     // --- EFFECTIVE USER ID LOGIC ---
     // If the current user is an assistant, their data operations should technically belong 
@@ -362,24 +595,110 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
         };
     }, [user, data?.profiles]);
 
+    // Other tabs of the same owner: the handler is assigned further down, once the sync functions exist.
+    const tabMessageHandlerRef = React.useRef<(message: TabMessage) => void>(() => {});
+    const { isLeader, broadcast } = useTabCoordination({ ownerId: effectiveUserId, onMessage: message => tabMessageHandlerRef.current(message) });
+    const notifyTabs = React.useCallback((...keys: SharedStateKey[]) => broadcast({ type: 'state-changed', keys }), [broadcast]);
+
+    const runOutboxTask = React.useCallback((task: (db: IDBPDatabase) => Promise<void>) => {
+        outboxQueueRef.current = outboxQueueRef.current
+            .then(async () => task(await getDb()))
+            .catch(e => console.error('Outbox update failed:', e));
+    }, []);
+
+    // Appends operations to the outbox. A pending operation on the same record is replaced rather than
+    // updated in place, so an acknowledgement for the old one can never drop the newer change.
+    const enqueueOperations = React.useCallback((ops: Omit<OutboxOperation, 'ownerId'>[]) => {
+        if (!effectiveUserId || ops.length === 0) return;
+        const ownerId = effectiveUserId;
+        runOutboxTask(async db => {
+            const tx = db.transaction(OUTBOX_STORE_NAME, 'readwrite');
+            let pending = (await tx.store.getAll() as OutboxOperation[]).filter(op => op.ownerId === ownerId);
+            for (const op of ops) {
+                const previous = pending.filter(p => p.table === op.table && p.recordId === op.recordId);
+                // A record created and then edited before it reached the cloud is still a creation.
+                const wasCreated = previous.some(p => p.type === 'upsert' && p.reason === 'create');
+                for (const p of previous) await tx.store.delete(p.seq!);
+                const remoteRow = op.type === 'upsert' ? (toRemoteRows({ [op.table]: [op.payload] }, ownerId) as any)[op.table]?.[0] : undefined;
+                const reason = wasCreated && op.type === 'upsert' ? 'create' : op.reason;
+                // The replaced edits are logged as one: a creation stays a creation, edits merge their field diffs.
+                const audit = op.audit && {
+                    ...op.audit,
+                    changes: reason === 'create' || op.type !== 'upsert' ? null : previous.reduceRight((changes, p) => mergeAuditChanges(p.audit?.changes || null, changes), op.audit.changes),
+                };
+                const record: OutboxOperation = { ...op, ownerId, remoteRow, audit, reason };
+                // Coalesced updates carry the columns of all of them and the row version the first one was made on.
+                const earlierUpdate = previous.find(p => p.type === 'upsert' && p.reason !== 'create');
+                if (earlierUpdate && op.type === 'upsert' && reason !== 'create') {
+                    record.changedColumns = earlierUpdate.changedColumns && op.changedColumns && Array.from(new Set([...earlierUpdate.changedColumns, ...op.changedColumns]));
+                    record.baseUpdatedAt = earlierUpdate.baseUpdatedAt;
+                }
+                if (userRef.current) record.auditRow = toAuditRow(record, ownerId, userRef.current.id);
+                const seq = await tx.store.add(record) as number;
+                pending = [...pending.filter(p => !previous.includes(p)), { ...record, seq }];
+            }
+            await tx.done;
+            setOutbox(await loadOutbox(db, ownerId));
+            notifyTabs('outbox');
+            requestBackgroundSync();
+        });
+    }, [effectiveUserId, runOutboxTask, notifyTabs]);
+
+    const publishHistory = React.useCallback((toast?: HistoryEntry | null) => {
+        const { undo, redo } = historyRef.current;
+        setHistoryState({ canUndo: undo.length > 0, canRedo: redo.length > 0 });
+        if (toast !== undefined) setUndoToast(toast);
+    }, []);
+
+    const recordHistory = React.useCallback((entry: HistoryEntry) => {
+        const stacks = historyRef.current;
+        stacks.undo = [...stacks.undo, entry].slice(-MAX_HISTORY_ENTRIES);
+        stacks.redo = [];
+        // The toast undoes the latest step, so any newer edit takes it down.
+        publishHistory(entry.isDestructive ? entry : null);
+    }, [publishHistory]);
+
+    const clearHistory = React.useCallback(() => {
+        historyRef.current = { undo: [], redo: [] };
+        publishHistory(null);
+    }, [publishHistory]);
+
+    // Every replacement of the data goes through here, so dataRef never falls behind the state.
+    const replaceData = React.useCallback((newData: AppData) => {
+        dataRef.current = newData;
+        setData(newData);
+    }, []);
+
     // Update Data: Use effectiveUserId for IDB key
-    const updateData = React.useCallback((updater: React.SetStateAction<AppData>) => {
+    const updateData = React.useCallback((updater: React.SetStateAction<AppData>, options: UpdateDataOptions = {}) => {
         if (!userRef.current || !effectiveUserId) return;
-        
-        setData(currentData => {
-            const newData = typeof updater === 'function' ? (updater as (prevState: AppData) => AppData)(currentData) : updater;
-            getDb().then(db => {
-                // IMPORTANT: We store data under the OWNER's ID so that assistants and lawyers see the same bucket locally
-                db.put(DATA_STORE_NAME, newData, effectiveUserId);
-            });
-            setDirty(true);
-            return newData;
-        });
-    }, [effectiveUserId]); 
+        const currentData = dataRef.current;
+        const newData = typeof updater === 'function' ? (updater as (prevState: AppData) => AppData)(currentData) : updater;
+        if (newData === currentData) return;
+        replaceData(newData);
 
+        getDb().then(async db => {
+            // IMPORTANT: We store data under the OWNER's ID so that assistants and lawyers see the same bucket locally
+            await db.put(DATA_STORE_NAME, newData, effectiveUserId);
+            notifyTabs('data');
+        }).catch(e => console.error('Failed to store data:', e));
+        if (options.localOnly) return;
+        let ops = buildOutboxOperations(currentData, newData, options.reason);
+        if (options.skipDeletes) ops = ops.filter(op => op.type === 'upsert');
+        if (options.keepFiles) ops = ops.filter(op => op.type !== 'delete_file');
+        enqueueOperations(ops);
+        // Undoing past a bulk replacement would delete what it brought in, so the history starts over.
+        if (options.skipDeletes) clearHistory();
+        else if (!options.skipHistory) {
+            const entry = createHistoryEntry(++historyIdRef.current, currentData, newData, ops, options);
+            if (entry) recordHistory(entry);
+        }
+    }, [effectiveUserId, replaceData, enqueueOperations, notifyTabs, clearHistory, recordHistory]);
+
+    // Clearing or importing data replaces the local copy only; cloud rows missing from it are kept.
     const setFullData = React.useCallback(async (newData: any) => {
         const validated = validateAndFixData(newData, userRef.current);
-        updateData(validated);
+        updateData(validated, { skipDeletes: true });
     }, [updateData]);
 
     React.useEffect(() => {
@@ -425,43 +744,35 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
 
                 // Now load actual app data using the ownerId
                 const db = await getDb();
-                const [storedData, storedDeletedIds, localDocsMetadata] = await Promise.all([
-                    db.get(DATA_STORE_NAME, ownerId),
-                    db.get(DATA_STORE_NAME, `deletedIds_${ownerId}`),
-                    db.getAll(DOCS_METADATA_STORE_NAME)
+                const [finalData, storedOutbox, storedSyncState, storedSyncBase, storedConflicts, storedMigrationFailure, storedTrash] = await Promise.all([
+                    readStoredData(db, ownerId, user),
+                    loadOutbox(db, ownerId),
+                    db.get(DATA_STORE_NAME, `syncState_${ownerId}`),
+                    db.get(DATA_STORE_NAME, `syncBase_${ownerId}`),
+                    db.get(DATA_STORE_NAME, `syncConflicts_${ownerId}`),
+                    db.get(DATA_STORE_NAME, MIGRATION_FAILURE_KEY),
+                    loadTrash(ownerId),
                 ]);
                 
                 if (cancelled) return;
 
-                // Load locally deleted IDs to filter them out immediately
-                let blockedDocIds = new Set<string>();
-                try {
-                    const storedBlocked = localStorage.getItem(LOCALLY_DELETED_DOCS_KEY);
-                    if (storedBlocked) blockedDocIds = new Set(JSON.parse(storedBlocked));
-                } catch {}
-
-                const validatedData = validateAndFixData(storedData, user);
-                const localDocsMetadataMap = new Map((localDocsMetadata as any[]).map((meta: any) => [meta.id, meta]));
-                const finalDocs = validatedData.documents.map(doc => {
-                    const localMeta: any = localDocsMetadataMap.get(doc.id);
-                    return { 
-                        ...doc, 
-                        localState: localMeta?.localState || doc.localState || 'pending_download',
-                        isLocalOnly: localMeta?.isLocalOnly || doc.isLocalOnly 
-                    };
-                })
-                .filter(doc => !!doc && !blockedDocIds.has(doc.id)) as CaseDocument[];
-                
-                const finalData = { ...validatedData, documents: finalDocs };
-                
-                setData(finalData);
-                setDeletedIds(storedDeletedIds || getInitialDeletedIds());
+                if (storedMigrationFailure) {
+                    setMigrationFailure(storedMigrationFailure);
+                    setRealtimeAlerts(prev => [...prev, { id: Date.now(), message: 'تعذر تحديث قاعدة البيانات المحلية إلى الإصدار الجديد، وتمت استعادة بياناتك كما كانت قبل التحديث. راجع الإعدادات للتفاصيل.' }]);
+                }
+
+                replaceData(finalData);
+                setOutbox(storedOutbox);
+                setSyncState(storedSyncState || getInitialSyncState());
+                setSyncBase(storedSyncBase || {});
+                setSyncConflicts(Array.isArray(storedConflicts) ? storedConflicts : []);
+                setTrashItems(storedTrash);
                 setIsDataLoading(false);
 
                 if (isOnline) {
-                    manualSync().catch(console.error);
-                    // Run the 48h cleanup process
-                    cleanupExpiredCloudDocuments().catch(console.error);
+                    // Deferred until the loaded data and cursors are committed to state and this tab
+                    // leads the others (see effect below), otherwise the sync would run against the empty initial data.
+                    setInitialSyncPending(true);
                 } else {
                     setSyncStatus('synced');
                 }
@@ -474,7 +785,7 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
         };
         loadData();
         return () => { cancelled = true; };
-    }, [user, isAuthLoading]);
+    }, [user, isAuthLoading, replaceData]);
 
     // ... (Middle sync logic hooks remain mostly unchanged, just using new effectiveUserId)
     
@@ -482,9 +793,10 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
     const handleSyncStatusChange = React.useCallback((status: SyncStatus, error: string | null) => {
         setSyncStatus(status);
         setLastSyncError(error);
-    }, []);
+        broadcast({ type: 'sync-status', status, error });
+    }, [broadcast]);
 
-    const handleDataSynced = React.useCallback(async (mergedData: AppData) => {
+    const handleDataSynced = React.useCallback(async (mergedData: AppData, syncedFrom: AppData) => {
         if (!effectiveUserId) return;
         try {
             const validatedMergedData = validateAndFixData(mergedData, userRef.current);
@@ -509,47 +821,186 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
                 }
             }
 
-            const finalData = { ...validatedMergedData, documents: finalDocs };
+            const syncedData = { ...validatedMergedData, documents: finalDocs };
 
-            await db.put(DATA_STORE_NAME, finalData, effectiveUserId);
-            setData(finalData);
-            setDirty(false);
+            // The sync worked on a snapshot: edits made since then are kept rather than overwritten.
+            const finalData = rebaseLocalEdits(syncedData, syncedFrom, dataRef.current);
+            replaceData(finalData);
+            db.put(DATA_STORE_NAME, finalData, effectiveUserId)
+                .then(() => notifyTabs('data'))
+                .catch(e => console.error('Failed to store synced data:', e));
         } catch (e) {
             console.error("Critical error in handleDataSynced:", e);
             handleSyncStatusChange('error', 'فشل تحديث البيانات المحلية بعد المزامنة.');
         }
-    }, [userRef, effectiveUserId, handleSyncStatusChange]);
+    }, [userRef, effectiveUserId, replaceData, handleSyncStatusChange, notifyTabs]);
     
-    const handleDeletionsSynced = React.useCallback(async (syncedDeletions: Partial<DeletedIds>) => {
+    const handleOperationsSynced = React.useCallback((ackedSeqs: number[], failures: { seq: number; error: string }[]) => {
         if (!effectiveUserId) return;
-        const newDeletedIds = { ...deletedIds };
-        let changed = false;
-        for (const key of Object.keys(syncedDeletions) as Array<keyof DeletedIds>) {
-            const synced = new Set((syncedDeletions[key] || []) as any[]);
-            if (synced.size > 0) {
-                newDeletedIds[key] = newDeletedIds[key].filter(id => !synced.has(id as any));
-                changed = true;
+        const ownerId = effectiveUserId;
+        runOutboxTask(async db => {
+            const tx = db.transaction(OUTBOX_STORE_NAME, 'readwrite');
+            for (const seq of ackedSeqs) await tx.store.delete(seq);
+            for (const { seq, error } of failures) {
+                // The operation may have been replaced by a newer one while the sync was running.
+                const op = await tx.store.get(seq) as OutboxOperation | undefined;
+                if (op) await tx.store.put({ ...op, attempts: op.attempts + 1, lastError: error });
             }
-        }
-        if (changed) {
-            setDeletedIds(newDeletedIds);
-            const db = await getDb();
-            await db.put(DATA_STORE_NAME, newDeletedIds, `deletedIds_${effectiveUserId}`);
-        }
-    }, [deletedIds, effectiveUserId]);
+            await tx.done;
+            setOutbox(await loadOutbox(db, ownerId));
+            notifyTabs('outbox');
+        });
+    }, [effectiveUserId, runOutboxTask, notifyTabs]);
+
+    const handleSyncStateChange = React.useCallback(async (newSyncState: SyncState) => {
+        if (!effectiveUserId) return;
+        setSyncState(newSyncState);
+        const db = await getDb();
+        await db.put(DATA_STORE_NAME, newSyncState, `syncState_${effectiveUserId}`);
+        notifyTabs('syncState');
+    }, [effectiveUserId, notifyTabs]);
+
+    const handleSyncBaseChange = React.useCallback(async (newSyncBase: SyncBase) => {
+        if (!effectiveUserId) return;
+        setSyncBase(newSyncBase);
+        const db = await getDb();
+        await db.put(DATA_STORE_NAME, newSyncBase, `syncBase_${effectiveUserId}`);
+        notifyTabs('syncBase');
+    }, [effectiveUserId, notifyTabs]);
+
+    const persistConflicts = React.useCallback(async (conflicts: SyncConflict[]) => {
+        if (!effectiveUserId) return;
+        const db = await getDb();
+        await db.put(DATA_STORE_NAME, conflicts, `syncConflicts_${effectiveUserId}`);
+        notifyTabs('conflicts');
+    }, [effectiveUserId, notifyTabs]);
+
+    const handleConflictsDetected = React.useCallback((detected: SyncConflict[]) => {
+        setSyncConflicts(prev => {
+            // A newer detection of the same field replaces the pending one.
+            const detectedIds = new Set(detected.map(c => c.id));
+            const next = [...prev.filter(c => !detectedIds.has(c.id)), ...detected];
+            persistConflicts(next);
+            return next;
+        });
+        setRealtimeAlerts(prev => [...prev, { id: Date.now(), message: `تم اكتشاف ${detected.length} تعارض في البيانات أثناء المزامنة. يرجى مراجعتها.`, type: 'sync' }]);
+    }, [persistConflicts]);
+
+    const handleSyncRunRecorded = React.useCallback((entry: SyncJournalEntry) => {
+        if (!effectiveUserId) return;
+        appendSyncJournalEntry(effectiveUserId, entry).catch(e => console.error('Failed to record sync run:', e));
+    }, [effectiveUserId]);
+
+    const handleRowsPushed = React.useCallback((versionKeys: string[]) => {
+        rememberPushedVersions(pushedVersionsRef.current, versionKeys);
+    }, []);
 
     // Use Sync Hook
     const { manualSync, fetchAndRefresh } = useSync({
         user: userRef.current ? { ...userRef.current, id: effectiveUserId || userRef.current.id } as User : null, // Pass effective ID to sync
         localData: data, 
-        deletedIds,
+        outbox,
+        syncState,
+        syncBase,
         onDataSynced: handleDataSynced,
-        onDeletionsSynced: handleDeletionsSynced,
+        onOperationsSynced: handleOperationsSynced,
+        onSyncStateChange: handleSyncStateChange,
+        onSyncBaseChange: handleSyncBaseChange,
+        onConflictsDetected: handleConflictsDetected,
         onSyncStatusChange: handleSyncStatusChange,
+        onSyncRunRecorded: handleSyncRunRecorded,
+        onRowsPushed: handleRowsPushed,
         isOnline, isAuthLoading, syncStatus,
         locallyDeletedDocIds // Pass local deletion list
     });
 
+    const handleRealtimeChanges = React.useCallback((changes: RealtimeChange[]) => {
+        let messages: string[];
+        if (changes.length <= MAX_REALTIME_ALERTS_PER_BATCH) {
+            const localFlatData = flattenData(data);
+            messages = changes.map(change => describeRealtimeChange(change, data.profiles, localFlatData));
+        } else {
+            const actors = Array.from(new Set(changes.map(c => data.profiles.find(p => p.id === c.actorId)?.full_name || 'مستخدم آخر')));
+            messages = [`وصلت ${changes.length} تغييرات جديدة بواسطة ${actors.join('، ')}`];
+        }
+        const now = Date.now();
+        setRealtimeAlerts(prev => [...prev, ...messages.map((message, i) => ({ id: now + i, message, type: 'sync' as const }))]);
+        fetchAndRefresh(changes).catch(console.error);
+    }, [data, fetchAndRefresh]);
+
+    useRealtimeSync({
+        ownerId: effectiveUserId,
+        pushedVersions: pushedVersionsRef.current,
+        isEnabled: isLeader && isOnline && !isDataLoading && !!user,
+        isPaused: syncStatus === 'syncing',
+        onChanges: handleRealtimeChanges,
+    });
+
+    // Initial sync after local data has been loaded. A follower tab keeps it pending and runs it if it takes over.
+    React.useEffect(() => {
+        if (isInitialSyncPending && !isDataLoading && isLeader) {
+            setInitialSyncPending(false);
+            manualSync().catch(console.error);
+            // Run the 48h cleanup process
+            cleanupExpiredCloudDocuments().catch(console.error);
+        }
+    }, [isInitialSyncPending, isDataLoading, isLeader, manualSync]);
+
+    // Re-reads what another tab changed; nothing here is broadcast again or recorded in the outbox.
+    const reloadSharedState = React.useCallback(async (keys: SharedStateKey[]) => {
+        if (!effectiveUserId) return;
+        const db = await getDb();
+        if (keys.includes('data')) {
+            setLocallyDeletedDocIds(readLocallyDeletedDocIds());
+            replaceData(await readStoredData(db, effectiveUserId, userRef.current));
+        }
+        if (keys.includes('outbox')) setOutbox(await loadOutbox(db, effectiveUserId));
+        if (keys.includes('syncState')) setSyncState((await db.get(DATA_STORE_NAME, `syncState_${effectiveUserId}`)) || getInitialSyncState());
+        if (keys.includes('syncBase')) setSyncBase((await db.get(DATA_STORE_NAME, `syncBase_${effectiveUserId}`)) || {});
+        if (keys.includes('conflicts')) {
+            const storedConflicts = await db.get(DATA_STORE_NAME, `syncConflicts_${effectiveUserId}`);
+            setSyncConflicts(Array.isArray(storedConflicts) ? storedConflicts : []);
+        }
+        if (keys.includes('trash')) setTrashItems(await loadTrash(effectiveUserId));
+    }, [effectiveUserId, replaceData]);
+
+    tabMessageHandlerRef.current = (message: TabMessage) => {
+        switch (message.type) {
+            case 'state-changed':
+                reloadSharedState(message.keys).catch(e => console.error('Failed to reload state from another tab:', e));
+                break;
+            case 'sync-status':
+                setSyncStatus(message.status);
+                setLastSyncError(message.error);
+                break;
+            case 'request-status':
+                if (isLeader) broadcast({ type: 'sync-status', status: syncStatus, error: lastSyncError });
+                break;
+            case 'request-sync':
+                if (isLeader) manualSync().catch(console.error);
+                break;
+            case 'request-refresh':
+                if (isLeader) fetchAndRefresh().catch(console.error);
+                break;
+        }
+    };
+
+    // A follower shows the leader's sync status rather than its own.
+    React.useEffect(() => {
+        if (!isLeader && !isDataLoading && effectiveUserId) broadcast({ type: 'request-status' });
+    }, [isLeader, isDataLoading, effectiveUserId, broadcast]);
+
+    // Follower tabs hand sync requests over to the leader.
+    const coordinatedManualSync = React.useCallback(async () => {
+        if (isLeader) return manualSync();
+        broadcast({ type: 'request-sync' });
+    }, [isLeader, manualSync, broadcast]);
+
+    const coordinatedFetchAndRefresh = React.useCallback(async () => {
+        if (isLeader) return fetchAndRefresh();
+        broadcast({ type: 'request-refresh' });
+    }, [isLeader, fetchAndRefresh, broadcast]);
+
     // Process Upload Queue
     const processUploadQueue = React.useCallback(async () => {
         if (!isOnline) return;
@@ -566,6 +1017,7 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
         if (!supabase) return;
 
         console.log(`Processing ${pendingUploads.length} file uploads...`);
+        const journalEntry = createSyncJournalEntry('documents');
 
         for (const doc of pendingUploads) {
             try {
@@ -594,13 +1046,18 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
                     ...prev,
                     documents: prev.documents.map(d => d.id === doc.id ? { ...d, localState: 'synced' } : d)
                 }));
+                journalEntry.documents.uploaded++;
 
-            } catch (err) {
+            } catch (err: any) {
                 console.error(`Upload failed for ${doc.name}:`, err);
+                journalEntry.errors.push({ table: 'case_documents', message: `${doc.name}: ${err?.message || err}` });
                 // Leave as pending to retry automatically next time
             }
         }
-    }, [isOnline, updateData]);
+        if (journalEntry.documents.uploaded === 0 && journalEntry.errors.length === 0) return;
+        journalEntry.status = journalEntry.errors.length === 0 ? 'success' : journalEntry.documents.uploaded > 0 ? 'partial' : 'failed';
+        handleSyncRunRecorded(journalEntry);
+    }, [isOnline, updateData, handleSyncRunRecorded]);
 
     // Process Download Queue (Automatically download new files)
     const processDownloadQueue = React.useCallback(async () => {
@@ -616,6 +1073,7 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
 
         const supabase = getSupabaseClient();
         if (!supabase) return;
+        const journalEntry = createSyncJournalEntry('documents');
 
         for (const doc of pendingDownloads) {
             // Guard: Do not download if locally deleted
@@ -640,50 +1098,179 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
                     await db.put(DOCS_METADATA_STORE_NAME, updatedDoc, doc.id);
                     // Update UI
                     updateData(p => ({...p, documents: p.documents.map(d => d.id === doc.id ? {...d, localState: 'synced'} : d)}));
+                    journalEntry.documents.downloaded++;
                 }
-            } catch (e) {
+            } catch (e: any) {
                 console.error("Auto-download failed", e);
+                journalEntry.errors.push({ table: 'case_documents', message: `${doc.name}: ${e?.message || e}` });
                 // If failed, mark as error or leave pending? 
                 // Using 'error' alerts the user in the UI
                 updateData(p => ({...p, documents: p.documents.map(d => d.id === doc.id ? {...d, localState: 'error'} : d)}));
             }
         }
-    }, [isOnline, data.documents, updateData, locallyDeletedDocIds]);
+        if (journalEntry.documents.downloaded === 0 && journalEntry.errors.length === 0) return;
+        journalEntry.status = journalEntry.errors.length === 0 ? 'success' : journalEntry.documents.downloaded > 0 ? 'partial' : 'failed';
+        handleSyncRunRecorded(journalEntry);
+    }, [isOnline, data.documents, updateData, locallyDeletedDocIds, handleSyncRunRecorded]);
 
     // Trigger queues
     React.useEffect(() => {
-        if (isOnline) {
+        if (isOnline && isLeader) {
             processUploadQueue();
             processDownloadQueue();
         }
-    }, [isOnline, processUploadQueue, processDownloadQueue, data.documents]);
+    }, [isOnline, isLeader, processUploadQueue, processDownloadQueue, data.documents]);
 
     // Auto Sync
     React.useEffect(() => {
-        if (isOnline && isDirty && userSettings.isAutoSyncEnabled && syncStatus !== 'syncing') {
+        if (isLeader && isOnline && isDirty && userSettings.isAutoSyncEnabled && syncStatus !== 'syncing') {
             const handler = setTimeout(() => { manualSync(); }, 3000);
             return () => clearTimeout(handler);
         }
-    }, [isOnline, isDirty, userSettings.isAutoSyncEnabled, syncStatus, manualSync]);
+    }, [isLeader, isOnline, isDirty, userSettings.isAutoSyncEnabled, syncStatus, manualSync]);
+
+    // --- Trash ---
+    const trashRetentionDays: number = userSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+    const reloadTrash = React.useCallback(async (ownerId: string) => {
+        setTrashItems(await loadTrash(ownerId));
+        notifyTabs('trash');
+    }, [notifyTabs]);
+
+    // The entity and its subtree leave the data as before, so the deletion is pushed and reaches the other devices.
+    // Only the document files stay in the cloud until the trash item is purged, so a restore can bring them back.
+    const trashEntity = React.useCallback((target: TrashTarget) => {
+        if (!effectiveUserId) return;
+        const ownerId = effectiveUserId;
+        const removal = moveToTrash(data, target, userRef.current?.id || null);
+        if (!removal) return;
+        putTrashItem(ownerId, removal.item)
+            .then(() => reloadTrash(ownerId))
+            .catch(e => console.error('Failed to record the trash item:', e));
+        updateData(prev => moveToTrash(prev, target, removal.item.deletedBy)?.data ?? prev, { keepFiles: true, trashAdded: [removal.item] });
+    }, [effectiveUserId, data, updateData, reloadTrash]);
+
+    // Returns false when the item's parent is gone too and has to be restored first.
+    const restoreTrashItem = React.useCallback((itemId: string): boolean => {
+        const item = trashItems.find(i => i.id === itemId);
+        if (!item || !effectiveUserId || !restoreFromTrash(data, item)) return false;
+        const ownerId = effectiveUserId;
+        updateData(prev => restoreFromTrash(prev, item) || prev, { trashRemoved: [item] });
+        deleteTrashItems([itemId])
+            .then(() => reloadTrash(ownerId))
+            .catch(e => console.error('Failed to remove the restored trash item:', e));
+        return true;
+    }, [trashItems, effectiveUserId, data, updateData, reloadTrash]);
+
+    // Deletes trash items for good, with the local copies and the stored files of their documents.
+    const purgeTrashItems = React.useCallback(async (itemIds: string[]) => {
+        if (!effectiveUserId) return;
+        const ownerId = effectiveUserId;
+        const items = trashItems.filter(i => itemIds.includes(i.id));
+        if (items.length === 0) return;
+        const liveDocIds = new Set(data.documents.map(d => d.id));
+        const documents = items.flatMap(i => i.documents).filter(doc => !liveDocIds.has(doc.id));
+        const db = await getDb();
+        const tx = db.transaction([DOCS_FILES_STORE_NAME, DOCS_METADATA_STORE_NAME], 'readwrite');
+        for (const doc of documents) {
+            await tx.objectStore(DOCS_FILES_STORE_NAME).delete(doc.id);
+            await tx.objectStore(DOCS_METADATA_STORE_NAME).delete(doc.id);
+        }
+        await tx.done;
+        enqueueOperations(buildFileDeleteOperations(documents.filter(doc => !doc.isLocalOnly && doc.storagePath).map(doc => doc.storagePath)));
+        await deleteTrashItems(items.map(i => i.id));
+        await reloadTrash(ownerId);
+    }, [effectiveUserId, trashItems, data.documents, enqueueOperations, reloadTrash]);
 
-    const addRealtimeAlert = React.useCallback((message: string, type: 'sync' | 'userApproval' = 'sync') => {
+    // Items past the retention period are purged by the leading tab.
+    React.useEffect(() => {
+        if (!isLeader || isDataLoading) return;
+        const now = Date.now();
+        const expiredIds = trashItems.filter(item => getTrashExpiry(item, trashRetentionDays).getTime() <= now).map(item => item.id);
+        if (expiredIds.length > 0) purgeTrashItems(expiredIds).catch(e => console.error('Failed to purge expired trash items:', e));
+    }, [isLeader, isDataLoading, trashItems, trashRetentionDays, purgeTrashItems]);
+
+    const addRealtimeAlert = React.useCallback((message: string, type: RealtimeAlert['type'] = 'sync') => {
         setRealtimeAlerts(prev => [...prev, { id: Date.now(), message, type }]);
     }, []);
 
-    // Helper to persist deleted IDs using effective ID
-    const createDeleteFunction = <T extends keyof DeletedIds>(entity: T) => async (id: DeletedIds[T][number]) => {
+    // --- Undo / Redo ---
+    // Steps go through updateData like any edit, so they are pushed and reach the other devices as new changes.
+    const stepHistory = React.useCallback((direction: 'undo' | 'redo') => {
         if (!effectiveUserId) return;
-        const db = await getDb();
-        const newDeletedIds = { ...deletedIds, [entity]: [...deletedIds[entity], id] };
-        setDeletedIds(newDeletedIds);
-        await db.put(DATA_STORE_NAME, newDeletedIds, `deletedIds_${effectiveUserId}`);
-        setDirty(true);
-    };
+        const ownerId = effectiveUserId;
+        const { undo, redo } = historyRef.current;
+        const entry = direction === 'undo' ? undo[undo.length - 1] : redo[redo.length - 1];
+        if (!entry) return;
+        historyRef.current = direction === 'undo'
+            ? { undo: undo.slice(0, -1), redo: [...redo, entry] }
+            : { undo: [...undo, entry], redo: redo.slice(0, -1) };
+        const putBack = direction === 'undo' ? entry.trashRemoved : entry.trashAdded;
+        const takeOut = direction === 'undo' ? entry.trashAdded : entry.trashRemoved;
+        // Rows going back to the trash keep their document files, as when they were first deleted.
+        updateData(prev => applyHistoryEntry(prev, entry, direction), { skipHistory: true, keepFiles: putBack.length > 0 });
+        if (putBack.length > 0 || takeOut.length > 0) {
+            Promise.all(putBack.map(item => putTrashItem(ownerId, item)))
+                .then(() => deleteTrashItems(takeOut.map(item => item.id)))
+                .then(() => reloadTrash(ownerId))
+                .catch(e => console.error('Failed to update the trash after undo/redo:', e));
+        }
+        publishHistory(null);
+        addRealtimeAlert(`${direction === 'undo' ? 'تم التراجع عن' : 'تمت إعادة'}: ${entry.label}`);
+    }, [effectiveUserId, updateData, reloadTrash, publishHistory, addRealtimeAlert]);
+
+    // The history belongs to one data owner.
+    React.useEffect(() => { clearHistory(); }, [effectiveUserId, clearHistory]);
+
+    // Keep the service worker's copy of the session current, including refreshed tokens.
+    React.useEffect(() => {
+        const supabase = getSupabaseClient();
+        if (!supabase) return;
+        if (!user) {
+            // Signed out: the service worker must not push anything on its own anymore.
+            if (!isAuthLoading) persistBackgroundSyncSession(null).catch(e => console.warn('Failed to clear the background sync session:', e));
+            return;
+        }
+        supabase.auth.getSession()
+            .then(({ data: { session } }) => { if (session) return persistBackgroundSyncSession(session); })
+            .catch(e => console.warn('Failed to store the background sync session:', e));
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+            if (event === 'SIGNED_OUT' || session) {
+                persistBackgroundSyncSession(event === 'SIGNED_OUT' ? null : session).catch(e => console.warn('Failed to store the background sync session:', e));
+            }
+        });
+        return () => subscription.unsubscribe();
+    }, [user?.id, isAuthLoading]);
+
+    // Results of a background sync the service worker ran while no tab was syncing.
+    React.useEffect(() => {
+        if (typeof navigator === 'undefined' || !('serviceWorker' in navigator) || !effectiveUserId) return;
+        const handleMessage = (event: MessageEvent) => {
+            const result = event.data;
+            if (result?.type !== 'BACKGROUND_SYNC_RESULT' || result.ownerId !== effectiveUserId) return;
+            reloadSharedState(['outbox', 'data']).catch(e => console.error('Failed to reload state after background sync:', e));
+            if (result.pushed > 0 || result.uploaded > 0) {
+                addRealtimeAlert(`تم رفع ${result.pushed} تغيير و${result.uploaded} وثيقة في الخلفية`);
+            }
+            if (result.failed > 0) {
+                addRealtimeAlert(`تعذر رفع ${result.failed} تغيير في الخلفية، ستتم إعادة المحاولة عند المزامنة التالية`);
+            }
+        };
+        navigator.serviceWorker.addEventListener('message', handleMessage);
+        return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+    }, [effectiveUserId, reloadSharedState, addRealtimeAlert]);
 
     // ... Return all the same properties + permissions
     return {
         ...data,
         setClients: (updater) => updateData(prev => ({ ...prev, clients: updater(prev.clients) })),
+        setContacts: (updater) => updateData(prev => ({ ...prev, contacts: updater(prev.contacts) })),
+        setCourts: (updater) => updateData(prev => ({ ...prev, courts: updater(prev.courts) })),
+        setCaseTypes: (updater) => updateData(prev => ({ ...prev, caseTypes: updater(prev.caseTypes) })),
+        setCustomFieldDefinitions: (updater) => updateData(prev => ({ ...prev, customFieldDefinitions: updater(prev.customFieldDefinitions) })),
+        setDeadlineRules: (updater) => updateData(prev => ({ ...prev, deadlineRules: updater(prev.deadlineRules) })),
+        setDeadlines: (updater) => updateData(prev => ({ ...prev, deadlines: updater(prev.deadlines) })),
+        setNotes: (updater) => updateData(prev => ({ ...prev, notes: updater(prev.notes) })),
         setAdminTasks: (updater) => updateData(prev => ({ ...prev, adminTasks: updater(prev.adminTasks) })),
         setAppointments: (updater) => updateData(prev => ({ ...prev, appointments: updater(prev.appointments) })),
         setAccountingEntries: (updater) => updateData(prev => ({ ...prev, accountingEntries: updater(prev.accountingEntries) })),
@@ -697,13 +1284,15 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
         unpostponedSessions: React.useMemo(() => {
             return data.clients.flatMap(c => c.cases.flatMap(cs => cs.stages.flatMap(st => st.sessions.filter(s => !s.isPostponed && isBeforeToday(s.date) && !st.decisionDate).map(s => ({...s, stageId: st.id, stageDecisionDate: st.decisionDate})))));
         }, [data.clients]),
-        syncStatus, manualSync, lastSyncError, isDirty, userId: user?.id, isDataLoading,
+        syncStatus, manualSync: coordinatedManualSync, lastSyncError, isDirty, userId: user?.id, isDataLoading,
+        pendingOperations: outbox,
         effectiveUserId, // Exported
         permissions: currentUserPermissions, // Exported
         isAutoSyncEnabled: userSettings.isAutoSyncEnabled, setAutoSyncEnabled: (v: boolean) => updateSettings(p => ({...p, isAutoSyncEnabled: v})),
         isAutoBackupEnabled: userSettings.isAutoBackupEnabled, setAutoBackupEnabled: (v: boolean) => updateSettings(p => ({...p, isAutoBackupEnabled: v})),
         adminTasksLayout: userSettings.adminTasksLayout, setAdminTasksLayout: (v: any) => updateSettings(p => ({...p, adminTasksLayout: v})),
         locationOrder: userSettings.locationOrder, setLocationOrder: (v: any) => updateSettings(p => ({...p, locationOrder: v})),
+        trashRetentionDays, setTrashRetentionDays: (v: number) => updateSettings(p => ({...p, trashRetentionDays: v})),
         exportData: React.useCallback(() => {
              // ... existing export logic ...
              try {
@@ -722,33 +1311,44 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
         addRealtimeAlert, // Exported function
         userApprovalAlerts, dismissUserApprovalAlert: (id: number) => setUserApprovalAlerts(p => p.filter(a => a.id !== id)),
         showUnpostponedSessionsModal, setShowUnpostponedSessionsModal,
-        fetchAndRefresh,
-        // Delete functions using createDeleteFunction
-        deleteClient: (id: string) => { updateData(p => ({ ...p, clients: p.clients.filter(c => c.id !== id) })); createDeleteFunction('clients')(id); },
-        deleteCase: async (caseId: string, clientId: string) => {
-             // ... (existing deleteCase logic but using effectiveUserId for IDB)
-             const docsToDelete = data.documents.filter(doc => doc.caseId === caseId);
-             const docIdsToDelete = docsToDelete.map(doc => doc.id);
-             const docPathsToDelete = docsToDelete.map(doc => doc.storagePath).filter(Boolean);
-             updateData(p => {
-                const updatedClients = p.clients.map(c => c.id === clientId ? { ...c, cases: c.cases.filter(cs => cs.id !== caseId) } : c);
-                return { ...p, clients: updatedClients, documents: p.documents.filter(doc => doc.caseId !== caseId) };
-             });
-             if (effectiveUserId) {
-                 const db = await getDb();
-                 const newDeletedIds = { ...deletedIds, cases: [...deletedIds.cases, caseId], documents: [...deletedIds.documents, ...docIdsToDelete], documentPaths: [...deletedIds.documentPaths, ...docPathsToDelete] };
-                 setDeletedIds(newDeletedIds);
-                 await db.put(DATA_STORE_NAME, newDeletedIds, `deletedIds_${effectiveUserId}`);
-                 setDirty(true);
-             }
+        fetchAndRefresh: coordinatedFetchAndRefresh,
+        syncConflicts,
+        migrationFailure,
+        dismissMigrationFailure: React.useCallback(async () => {
+            setMigrationFailure(null);
+            const db = await getDb();
+            await db.delete(DATA_STORE_NAME, MIGRATION_FAILURE_KEY);
+        }, []),
+        trashItems, restoreTrashItem, purgeTrashItems,
+        canUndo: historyState.canUndo, canRedo: historyState.canRedo,
+        undo: React.useCallback(() => stepHistory('undo'), [stepHistory]),
+        redo: React.useCallback(() => stepHistory('redo'), [stepHistory]),
+        undoToast, dismissUndoToast: React.useCallback(() => setUndoToast(null), []),
+        // 'remote' keeps the value already applied by the sync; 'local' or a hand-edited value is written back and pushed next sync.
+        resolveSyncConflict: (conflictId: string, resolution: 'local' | 'remote' | { value: any }) => {
+            const conflict = syncConflicts.find(c => c.id === conflictId);
+            if (!conflict) return;
+            if (resolution !== 'remote') {
+                let value = resolution === 'local' ? conflict.localValue : resolution.value;
+                if (CONFLICT_DATE_FIELDS.has(conflict.field) && value) value = new Date(value);
+                updateData(prev => updateRecordField(prev, conflict.table, conflict.recordId, conflict.field, value));
+            }
+            const remaining = syncConflicts.filter(c => c.id !== conflictId);
+            setSyncConflicts(remaining);
+            persistConflicts(remaining);
         },
-        deleteStage: (sid: string, cid: string, clid: string) => { updateData(p => ({ ...p, clients: p.clients.map(c => c.id === clid ? { ...c, cases: c.cases.map(cs => cs.id === cid ? { ...cs, stages: cs.stages.filter(st => st.id !== sid) } : cs) } : c) })); createDeleteFunction('stages')(sid); },
-        deleteSession: (sessId: string, stId: string, cid: string, clid: string) => { updateData(p => ({ ...p, clients: p.clients.map(c => c.id === clid ? { ...c, cases: c.cases.map(cs => cs.id === cid ? { ...cs, stages: cs.stages.map(st => st.id === stId ? { ...st, sessions: st.sessions.filter(s => s.id !== sessId) } : st) } : cs) } : c) })); createDeleteFunction('sessions')(sessId); },
-        deleteAdminTask: (id: string) => { updateData(p => ({...p, adminTasks: p.adminTasks.filter(t => t.id !== id)})); createDeleteFunction('adminTasks')(id); },
-        deleteAppointment: (id: string) => { updateData(p => ({...p, appointments: p.appointments.filter(a => a.id !== id)})); createDeleteFunction('appointments')(id); },
-        deleteAccountingEntry: (id: string) => { updateData(p => ({...p, accountingEntries: p.accountingEntries.filter(e => e.id !== id)})); createDeleteFunction('accountingEntries')(id); },
-        deleteInvoice: (id: string) => { updateData(p => ({...p, invoices: p.invoices.filter(i => i.id !== id)})); createDeleteFunction('invoices')(id); },
-        deleteAssistant: (name: string) => { updateData(p => ({...p, assistants: p.assistants.filter(a => a !== name)})); createDeleteFunction('assistants')(name); },
+        // Clients, cases, stages and sessions go to the trash along with their documents and accounting entries.
+        deleteClient: (id: string) => trashEntity({ entityType: 'client', entityId: id }),
+        deleteCase: (caseId: string, clientId: string) => trashEntity({ entityType: 'case', entityId: caseId, clientId }),
+        deleteStage: (sid: string, cid: string, clid: string) => trashEntity({ entityType: 'stage', entityId: sid, caseId: cid, clientId: clid }),
+        deleteSession: (sessId: string, stId: string, cid: string, clid: string) => trashEntity({ entityType: 'session', entityId: sessId, stageId: stId, caseId: cid, clientId: clid }),
+        deleteContact: (id: string) => updateData(p => ({...p, contacts: p.contacts.filter(c => c.id !== id)})),
+        deleteCourt: (id: string) => updateData(p => ({...p, courts: p.courts.filter(c => c.id !== id)})),
+        deleteAdminTask: (id: string) => updateData(p => ({...p, adminTasks: p.adminTasks.filter(t => t.id !== id)})),
+        deleteAppointment: (id: string) => updateData(p => ({...p, appointments: p.appointments.filter(a => a.id !== id)})),
+        deleteAccountingEntry: (id: string) => updateData(p => ({...p, accountingEntries: p.accountingEntries.filter(e => e.id !== id)})),
+        deleteInvoice: (id: string) => updateData(p => ({...p, invoices: p.invoices.filter(i => i.id !== id)})),
+        deleteAssistant: (name: string) => updateData(p => ({...p, assistants: p.assistants.filter(a => a !== name)})),
         
         // MODIFIED: Local Only Delete
         deleteDocument: async (doc: CaseDocument) => {
@@ -757,8 +1357,8 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
             await db.delete(DOCS_FILES_STORE_NAME, doc.id);
             await db.delete(DOCS_METADATA_STORE_NAME, doc.id);
             
-            // 2. Remove from React State
-            updateData(p => ({ ...p, documents: p.documents.filter(d => d.id !== doc.id) }));
+            // 2. Remove from React State, without recording a deletion in the outbox
+            updateData(p => ({ ...p, documents: p.documents.filter(d => d.id !== doc.id) }), { localOnly: true });
             
             // 3. Mark as locally deleted to prevent sync resurrection
             const newSet = new Set(locallyDeletedDocIds);
@@ -766,7 +1366,7 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
             setLocallyDeletedDocIds(newSet);
             localStorage.setItem(LOCALLY_DELETED_DOCS_KEY, JSON.stringify(Array.from(newSet)));
             
-            // 4. DO NOT send to global delete list (deletedIds)
+            // 4. DO NOT send a delete operation to the outbox
             // This ensures other devices keep their copy
         },
         
@@ -848,7 +1448,7 @@ export const useSupabaseData = (user: User | null, isAuthLoading: boolean) => {
                     return client;
                 });
                 return newClients.some((c, i) => c !== prev.clients[i]) ? { ...prev, clients: newClients } : prev;
-             });
+             }, { reason: 'postpone' });
         }
     };
 };
\ No newline at end of file
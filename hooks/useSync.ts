@@ -1,9 +1,11 @@
 import * as React from 'react';
 // Fix: Use `import type` for User as it is used as a type, not a value. This resolves module resolution errors in some environments.
 import type { User } from '@supabase/supabase-js';
-import { checkSupabaseSchema, fetchDataFromSupabase, upsertDataToSupabase, FlatData, deleteDataFromSupabase, transformRemoteToLocal, fetchDeletionsFromSupabase } from './useOnlineData';
+import { checkSupabaseSchema, fetchChangesFromSupabase, upsertDataToSupabase, FlatData, deleteDataFromSupabase, transformRemoteToLocal, fetchDeletionsFromSupabase, flattenData, normalizeFieldValue, OUTBOX_UPSERT_ORDER, writeAuditLog, getRowKey, hasRowChanged } from './useOnlineData';
 import { getSupabaseClient } from '../supabaseClient';
-import { Client, Case, Stage, Session, CaseDocument, AppData, DeletedIds, getInitialDeletedIds, SyncDeletion } from '../types';
+import { Client, Case, CaseParty, Stage, Session, CaseDocument, AppData, SyncDeletion, OutboxOperation, SyncState, SyncBase, SyncConflict, ConflictTable, SYNC_STATE_VERSION, SyncJournalEntry, createSyncJournalEntry } from '../types';
+import { formatDate } from '../utils/dateUtils';
+import { RealtimeChange, getChangeVersionKey } from './useRealtimeSync';
 
 export type SyncStatus = 'loading' | 'syncing' | 'synced' | 'error' | 'unconfigured' | 'uninitialized';
 
@@ -11,40 +13,24 @@ export type SyncStatus = 'loading' | 'syncing' | 'synced' | 'error' | 'unconfigu
 interface UseSyncProps {
     user: User | null;
     localData: AppData;
-    deletedIds: DeletedIds;
-    onDataSynced: (mergedData: AppData) => void;
-    onDeletionsSynced: (syncedDeletions: Partial<DeletedIds>) => void;
+    outbox: OutboxOperation[];
+    syncState: SyncState;
+    syncBase: SyncBase;
+    onDataSynced: (mergedData: AppData, syncedFrom: AppData) => void;
+    onOperationsSynced: (ackedSeqs: number[], failures: { seq: number; error: string }[]) => void;
+    onSyncStateChange: (syncState: SyncState) => void;
+    onSyncBaseChange: (syncBase: SyncBase) => void;
+    onConflictsDetected: (conflicts: SyncConflict[]) => void;
     onSyncStatusChange: (status: SyncStatus, error: string | null) => void;
+    onSyncRunRecorded: (entry: SyncJournalEntry) => void;
+    onRowsPushed: (versionKeys: string[]) => void; // So realtime can tell the echo of these rows from edits made elsewhere
     isOnline: boolean;
     isAuthLoading: boolean;
     syncStatus: SyncStatus;
     locallyDeletedDocIds: Set<string>; // New prop to track locally deleted docs
 }
 
-const flattenData = (data: AppData): FlatData => {
-    const cases = data.clients.flatMap(c => c.cases.map(cs => ({ ...cs, client_id: c.id })));
-    const stages = cases.flatMap(cs => cs.stages.map(st => ({ ...st, case_id: cs.id })));
-    const sessions = stages.flatMap(st => st.sessions.map(s => ({ ...s, stage_id: st.id })));
-    const invoice_items = data.invoices.flatMap(inv => inv.items.map(item => ({ ...item, invoice_id: inv.id })));
-
-    return {
-        clients: data.clients.map(({ cases, ...client }) => client),
-        cases: cases.map(({ stages, ...caseItem }) => caseItem),
-        stages: stages.map(({ sessions, ...stage }) => stage),
-        sessions,
-        admin_tasks: data.adminTasks,
-        appointments: data.appointments,
-        accounting_entries: data.accountingEntries,
-        assistants: data.assistants.map(name => ({ name })),
-        invoices: data.invoices.map(({ items, ...inv }) => inv),
-        invoice_items,
-        case_documents: data.documents,
-        profiles: data.profiles,
-        site_finances: data.siteFinances,
-    };
-};
-
-const constructData = (flatData: Partial<FlatData>): AppData => {
+export const constructData = (flatData: Partial<FlatData>): AppData => {
     const sessionMap = new Map<string, Session[]>();
     (flatData.sessions || []).forEach(s => {
         const stageId = (s as any).stage_id;
@@ -60,9 +46,16 @@ const constructData = (flatData: Partial<FlatData>): AppData => {
         stageMap.get(caseId)!.push(stage);
     });
 
+    const partyMap = new Map<string, CaseParty[]>();
+    (flatData.case_parties || []).forEach(party => {
+        const caseId = (party as any).case_id;
+        if (!partyMap.has(caseId)) partyMap.set(caseId, []);
+        partyMap.get(caseId)!.push(party as CaseParty);
+    });
+
     const caseMap = new Map<string, Case[]>();
     (flatData.cases || []).forEach(cs => {
-        const caseItem = { ...cs, stages: stageMap.get(cs.id) || [] } as Case;
+        const caseItem = { ...cs, parties: partyMap.get(cs.id) || [], stages: stageMap.get(cs.id) || [] } as Case;
         const clientId = (cs as any).client_id;
         if (!caseMap.has(clientId)) caseMap.set(clientId, []);
         caseMap.get(clientId)!.push(caseItem);
@@ -77,6 +70,13 @@ const constructData = (flatData: Partial<FlatData>): AppData => {
 
     return {
         clients: (flatData.clients || []).map(c => ({ ...c, cases: caseMap.get(c.id) || [] } as Client)),
+        contacts: (flatData.contacts || []) as any,
+        courts: (flatData.courts || []) as any,
+        caseTypes: (flatData.case_types || []) as any,
+        customFieldDefinitions: (flatData.custom_field_definitions || []) as any,
+        deadlineRules: (flatData.deadline_rules || []) as any,
+        deadlines: (flatData.deadlines || []) as any,
+        notes: (flatData.notes || []) as any,
         adminTasks: (flatData.admin_tasks || []) as any,
         appointments: (flatData.appointments || []) as any,
         accountingEntries: (flatData.accounting_entries || []) as any,
@@ -88,13 +88,108 @@ const constructData = (flatData: Partial<FlatData>): AppData => {
     };
 };
 
-const mergeForRefresh = <T extends { id: any; updated_at?: Date | string }>(local: T[], remote: T[]): T[] => {
+/**
+ * Lays the rows edited, added or deleted in the UI while a sync was running over its result.
+ * `syncedFrom` is the local data the sync started from and `current` the data as it is now; their
+ * outbox operations were queued after the sync took its snapshot, so they are still pending.
+ */
+export const rebaseLocalEdits = (merged: AppData, syncedFrom: AppData, current: AppData): AppData => {
+    if (current === syncedFrom) return merged;
+    const mergedFlat = flattenData(merged);
+    const beforeFlat = flattenData(syncedFrom);
+    const afterFlat = flattenData(current);
+    const rebased: Partial<FlatData> = {};
+    for (const key of Object.keys(mergedFlat) as (keyof FlatData)[]) {
+        const rows = new Map<string, any>((mergedFlat[key] as any[]).map(row => [getRowKey(row), row]));
+        const before = new Map<string, any>((beforeFlat[key] as any[]).map(row => [getRowKey(row), row]));
+        const after = new Map<string, any>((afterFlat[key] as any[]).map(row => [getRowKey(row), row]));
+        for (const [id, row] of after) {
+            const previous = before.get(id);
+            if (!previous || hasRowChanged(previous, row)) rows.set(id, row);
+        }
+        for (const id of before.keys()) {
+            if (!after.has(id)) rows.delete(id);
+        }
+        (rebased as any)[key] = Array.from(rows.values());
+    }
+    return constructData(rebased);
+};
+
+// Bookkeeping and local-only fields that never take part in a field-level merge.
+const NON_MERGEABLE_FIELDS = new Set(['id', 'updated_at', 'updated_by', 'user_id', 'userId', 'created_at', 'localState', 'isLocalOnly', 'stageId', 'stageDecisionDate']);
+
+const isSameFieldValue = (a: any, b: any) => normalizeFieldValue(a) === normalizeFieldValue(b);
+
+const getOutboxKey = (table: string, id: any) => `${table}:${id}`;
+
+// Same-field conflicts on these tables are queued for the user instead of being resolved automatically.
+const REVIEWED_CONFLICT_TABLES = new Set<string>(['clients', 'cases', 'stages', 'sessions']);
+
+/**
+ * Three-way merge of a single row against its last-synced base.
+ * Fields changed on only one side are taken from that side; fields changed on both sides to
+ * different values are true conflicts and fall back to last-write-wins on the row's updated_at,
+ * unless `deferConflicts` is set, in which case the remote value is kept until the user decides.
+ * `hasLocalChanges` tells whether the merged row differs from the remote one and must be pushed.
+ */
+const mergeRowThreeWay = (base: any, local: any, remote: any, deferConflicts = false) => {
+    const localWinsConflicts = new Date(local.updated_at || 0).getTime() > new Date(remote.updated_at || 0).getTime();
+    const merged = { ...remote };
+    const conflicts: string[] = [];
+    let hasLocalChanges = false;
+
+    for (const field of Object.keys(local)) {
+        // Lists of plain values (tags, phones) merge like any field; lists of rows are never part of a flat row.
+        if (NON_MERGEABLE_FIELDS.has(field) || (Array.isArray(local[field]) && local[field].some((v: any) => typeof v === 'object'))) continue;
+        const localChanged = !isSameFieldValue(local[field], base[field]);
+        const remoteChanged = !isSameFieldValue(remote[field], base[field]);
+        if (!localChanged || isSameFieldValue(local[field], remote[field])) continue;
+
+        if (remoteChanged) {
+            conflicts.push(field);
+            if (deferConflicts || !localWinsConflicts) continue;
+        }
+        merged[field] = local[field];
+        hasLocalChanges = true;
+    }
+    return { merged, hasLocalChanges, conflicts };
+};
+
+const getConflictRecordLabel = (table: ConflictTable, item: any): string => {
+    switch (table) {
+        case 'clients': return item.name || '';
+        case 'cases': return `${item.subject || ''} (${item.clientName || ''} ضد ${item.opponentName || ''})`;
+        case 'stages': return `${item.court || ''} - ${item.caseNumber || ''}`;
+        case 'sessions': return `${item.clientName || ''} ضد ${item.opponentName || ''} - ${item.date ? formatDate(new Date(item.date)) : ''}`;
+    }
+};
+
+const toSyncConflicts = (table: string, local: any, remote: any, fields: string[]): SyncConflict[] => {
+    if (!REVIEWED_CONFLICT_TABLES.has(table)) return [];
+    return fields.map(field => ({
+        id: `${table}:${local.id}:${field}`,
+        table: table as ConflictTable,
+        recordId: String(local.id),
+        recordLabel: getConflictRecordLabel(table as ConflictTable, local),
+        field,
+        localValue: local[field],
+        remoteValue: remote[field],
+        detectedAt: new Date(),
+    }));
+};
+
+const mergeForRefresh = <T extends { id: any; updated_at?: Date | string }>(local: T[], remote: T[], base: Record<string, any> = {}, table = '', detectedConflicts: SyncConflict[] = []): T[] => {
     const finalItems = new Map<any, T>();
     for (const localItem of local) { finalItems.set(localItem.id ?? (localItem as any).name, localItem); }
     for (const remoteItem of remote) {
         const id = remoteItem.id ?? (remoteItem as any).name;
         const existingItem = finalItems.get(id);
-        if (existingItem) {
+        if (existingItem && base[id]) {
+            // Keep the local updated_at when local edits survive so the next sync still pushes them.
+            const { merged, hasLocalChanges, conflicts } = mergeRowThreeWay(base[id], existingItem, remoteItem, REVIEWED_CONFLICT_TABLES.has(table));
+            detectedConflicts.push(...toSyncConflicts(table, existingItem, remoteItem, conflicts));
+            finalItems.set(id, hasLocalChanges ? { ...merged, updated_at: existingItem.updated_at } : merged);
+        } else if (existingItem) {
             const remoteDate = new Date(remoteItem.updated_at || 0);
             const localDate = new Date(existingItem.updated_at || 0);
             if (remoteDate > localDate) finalItems.set(id, remoteItem);
@@ -103,6 +198,49 @@ const mergeForRefresh = <T extends { id: any; updated_at?: Date | string }>(loca
     return Array.from(finalItems.values());
 };
 
+const buildSyncBase = (flatData: Partial<FlatData>): SyncBase => {
+    const base: SyncBase = {};
+    for (const key of Object.keys(flatData) as (keyof FlatData)[]) {
+        if (key === 'assistants') continue;
+        base[key] = {};
+        for (const item of ((flatData as any)[key] || []) as any[]) base[key][item.id] = item;
+    }
+    return base;
+};
+
+const isFlatDataEmpty = (flatData: FlatData) => (flatData.clients.length === 0 && flatData.admin_tasks.length === 0 && flatData.appointments.length === 0 && flatData.accounting_entries.length === 0 && flatData.invoices.length === 0 && flatData.case_documents.length === 0);
+
+// The stored cursors may only seed an incremental sync if they belong to the current format and
+// the local dataset they describe is still there. Otherwise we fall back to a full resync.
+const canSyncIncrementally = (syncState: SyncState | null, localFlatData: FlatData): syncState is SyncState => {
+    if (!syncState || syncState.version !== SYNC_STATE_VERSION || !syncState.lastSyncedAt) return false;
+    const lastSyncedAt = Date.parse(syncState.lastSyncedAt);
+    if (isNaN(lastSyncedAt) || lastSyncedAt > Date.now()) return false;
+    return !isFlatDataEmpty(localFlatData);
+};
+
+const getLatestDeletionTime = (deletions: SyncDeletion[], previous: string | null): string | null => {
+    return deletions.reduce((latest, d) => (!latest || Date.parse(d.deleted_at) > Date.parse(latest)) ? d.deleted_at : latest, previous);
+};
+
+// Non-empty row counts per table, for the sync journal.
+const countRowsByTable = (flatData: Partial<Record<string, any[]>> | null | undefined): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    for (const [table, rows] of Object.entries(flatData || {})) {
+        if (Array.isArray(rows) && rows.length > 0) counts[table] = rows.length;
+    }
+    return counts;
+};
+
+const countRemovedRows = (before: FlatData, after: FlatData): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    for (const table of Object.keys(before) as (keyof FlatData)[]) {
+        const removed = (before[table]?.length || 0) - (after[table]?.length || 0);
+        if (removed > 0) counts[table] = removed;
+    }
+    return counts;
+};
+
 // Filters local items against remote deletion log to prevent "Zombie" data resurrection.
 // Also performs cascading filtering: if a parent item is deleted, its children are also filtered out.
 const applyDeletionsToLocal = (localFlatData: FlatData, deletions: SyncDeletion[]): FlatData => {
@@ -147,6 +285,10 @@ const applyDeletionsToLocal = (localFlatData: FlatData, deletions: SyncDeletion[
     
     const caseIds = new Set(filteredCases.map(c => c.id));
     
+    // Parties depend on Cases
+    let filteredParties = filterItems(localFlatData.case_parties, 'case_parties');
+    filteredParties = filteredParties.filter(p => caseIds.has(p.case_id));
+    
     // Stages depend on Cases
     let filteredStages = filterItems(localFlatData.stages, 'stages');
     filteredStages = filteredStages.filter(s => caseIds.has(s.case_id));
@@ -180,6 +322,7 @@ const applyDeletionsToLocal = (localFlatData: FlatData, deletions: SyncDeletion[
         ...localFlatData,
         clients: filteredClients,
         cases: filteredCases,
+        case_parties: filteredParties,
         stages: filteredStages,
         sessions: filteredSessions,
         invoices: filteredInvoices,
@@ -187,6 +330,13 @@ const applyDeletionsToLocal = (localFlatData: FlatData, deletions: SyncDeletion[
         case_documents: filteredDocs,
         accounting_entries: filteredEntries,
         // Entities without parent dependencies in this context:
+        contacts: filterItems(localFlatData.contacts, 'contacts'),
+        courts: filterItems(localFlatData.courts, 'courts'),
+        case_types: filterItems(localFlatData.case_types, 'case_types'),
+        custom_field_definitions: filterItems(localFlatData.custom_field_definitions, 'custom_field_definitions'),
+        deadline_rules: filterItems(localFlatData.deadline_rules, 'deadline_rules'),
+        deadlines: filterItems(localFlatData.deadlines, 'deadlines'),
+        notes: filterItems(localFlatData.notes, 'notes'),
         admin_tasks: filterItems(localFlatData.admin_tasks, 'admin_tasks'),
         appointments: filterItems(localFlatData.appointments, 'appointments'),
         assistants: filterItems(localFlatData.assistants, 'assistants'),
@@ -196,12 +346,20 @@ const applyDeletionsToLocal = (localFlatData: FlatData, deletions: SyncDeletion[
 };
 
 
-export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletionsSynced, onSyncStatusChange, isOnline, isAuthLoading, syncStatus, locallyDeletedDocIds }: UseSyncProps) => {
+export const useSync = ({ user, localData, outbox, syncState, syncBase, onDataSynced, onOperationsSynced, onSyncStateChange, onSyncBaseChange, onConflictsDetected, onSyncStatusChange, onSyncRunRecorded, onRowsPushed, isOnline, isAuthLoading, syncStatus, locallyDeletedDocIds }: UseSyncProps) => {
     const userRef = React.useRef(user);
     userRef.current = user;
 
     const setStatus = (status: SyncStatus, error: string | null = null) => { onSyncStatusChange(status, error); };
 
+    const recordRun = (entry: SyncJournalEntry, error?: { table?: string | null; message: string }) => {
+        if (error) entry.errors.push({ table: error.table ?? null, message: error.message });
+        const hasProgress = [entry.pulled, entry.pushed, entry.deletionsApplied, entry.deletionsPushed].some(counts => Object.keys(counts).length > 0);
+        entry.status = entry.errors.length === 0 ? 'success' : (hasProgress && !error ? 'partial' : 'failed');
+        entry.finishedAt = new Date().toISOString();
+        onSyncRunRecorded(entry);
+    };
+
     const manualSync = React.useCallback(async () => {
         if (syncStatus === 'syncing') return;
         if (isAuthLoading) return;
@@ -211,137 +369,145 @@ export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletions
             return;
         }
     
+        const journalEntry = createSyncJournalEntry('sync');
         setStatus('syncing', 'التحقق من الخادم...');
         const schemaCheck = await checkSupabaseSchema();
         if (!schemaCheck.success) {
             if (schemaCheck.error === 'unconfigured') setStatus('unconfigured');
             else if (schemaCheck.error === 'uninitialized') setStatus('uninitialized', `قاعدة البيانات غير مهيأة: ${schemaCheck.message}`);
             else setStatus('error', `فشل الاتصال: ${schemaCheck.message}`);
+            recordRun(journalEntry, { message: schemaCheck.message || schemaCheck.error || 'schema check failed' });
             return;
         }
     
         try {
-            // 1. Fetch Remote Data AND Deletions Log to prevent zombie data
-            setStatus('syncing', 'جاري جلب البيانات من السحابة...');
-            const [remoteDataRaw, remoteDeletions] = await Promise.all([
-                fetchDataFromSupabase(),
-                fetchDeletionsFromSupabase()
+            const syncStartedAt = new Date().toISOString();
+            let localFlatData = flattenData(localData);
+            const isIncremental = canSyncIncrementally(syncState, localFlatData);
+            journalEntry.mode = isIncremental ? 'incremental' : 'full';
+
+            // 1. Fetch Remote Changes AND Deletions Log to prevent zombie data
+            setStatus('syncing', isIncremental ? 'جاري جلب التغييرات من السحابة...' : 'جاري جلب البيانات من السحابة...');
+            const [remoteChanges, remoteDeletions] = await Promise.all([
+                fetchChangesFromSupabase(isIncremental ? syncState.cursors : null),
+                fetchDeletionsFromSupabase(isIncremental ? syncState.deletionsSince : null)
             ]);
+            const remoteDataRaw = remoteChanges.data;
             const remoteFlatData = transformRemoteToLocal(remoteDataRaw);
+            journalEntry.pulled = countRowsByTable(remoteDataRaw);
+            const nextSyncState: SyncState = {
+                version: SYNC_STATE_VERSION,
+                lastSyncedAt: syncStartedAt,
+                cursors: remoteChanges.cursors,
+                deletionsSince: getLatestDeletionTime(remoteDeletions, isIncremental ? syncState.deletionsSince : null),
+            };
 
-            // 2. Prepare Local Data
-            let localFlatData = flattenData(localData);
-            
-            // 3. Apply Remote Deletions to Local Data (The Zombie & Orphan Fix)
+            // 2. Apply Remote Deletions to Local Data (The Zombie & Orphan Fix)
+            const localBeforeDeletions = localFlatData;
             localFlatData = applyDeletionsToLocal(localFlatData, remoteDeletions);
+            journalEntry.deletionsApplied = countRemovedRows(localBeforeDeletions, localFlatData);
 
-            const isLocalEffectivelyEmpty = (localFlatData.clients.length === 0 && localFlatData.admin_tasks.length === 0 && localFlatData.appointments.length === 0 && localFlatData.accounting_entries.length === 0 && localFlatData.invoices.length === 0 && localFlatData.case_documents.length === 0);
-            const hasPendingDeletions = Object.values(deletedIds).some(arr => arr.length > 0);
+            const isLocalEffectivelyEmpty = isFlatDataEmpty(localFlatData);
+            const pendingOps = outbox.filter(op => op.seq !== undefined);
+            const pendingUpserts = new Set(pendingOps.filter(op => op.type === 'upsert').map(op => getOutboxKey(op.table, op.recordId)));
+            const pendingDeletes = new Set(pendingOps.filter(op => op.type === 'delete').map(op => getOutboxKey(op.table, op.recordId)));
             const isRemoteEffectivelyEmpty = !remoteDataRaw || Object.values(remoteDataRaw).every(arr => arr?.length === 0);
 
-            if (isLocalEffectivelyEmpty && !isRemoteEffectivelyEmpty && !hasPendingDeletions) {
+            if (isLocalEffectivelyEmpty && !isRemoteEffectivelyEmpty && pendingOps.length === 0) {
                 const freshData = constructData(remoteFlatData);
-                onDataSynced(freshData);
+                onDataSynced(freshData, localData);
+                onSyncStateChange(nextSyncState);
+                onSyncBaseChange(buildSyncBase(remoteFlatData));
                 setStatus('synced');
+                recordRun(journalEntry);
                 return;
             }
             
             const flatUpserts: Partial<FlatData> = {};
             const mergedFlatData: Partial<FlatData> = {};
-
-            const deletedIdsSets = {
-                clients: new Set(deletedIds.clients), cases: new Set(deletedIds.cases), stages: new Set(deletedIds.stages),
-                sessions: new Set(deletedIds.sessions), adminTasks: new Set(deletedIds.adminTasks), appointments: new Set(deletedIds.appointments),
-                accountingEntries: new Set(deletedIds.accountingEntries), invoices: new Set(deletedIds.invoices),
-                invoiceItems: new Set(deletedIds.invoiceItems), assistants: new Set(deletedIds.assistants),
-                documents: new Set(deletedIds.documents), profiles: new Set(deletedIds.profiles), siteFinances: new Set(deletedIds.siteFinances),
-            };
+            const detectedConflicts: SyncConflict[] = [];
 
             for (const key of Object.keys(localFlatData) as (keyof FlatData)[]) {
                 const localItems = (localFlatData as any)[key] as any[];
                 const remoteItems = (remoteFlatData as any)[key] as any[] || [];
                 const localMap = new Map(localItems.map(i => [i.id ?? i.name, i]));
                 const remoteMap = new Map(remoteItems.map(i => [i.id ?? i.name, i]));
+                const baseItems = syncBase[key] || {};
                 const finalMergedItems = new Map<string, any>();
                 const itemsToUpsert: any[] = [];
 
                 for (const localItem of localItems) {
                     const id = localItem.id ?? localItem.name;
-                    let isParentDeleted = false;
-                    if (key === 'cases' && deletedIdsSets.clients.has(localItem.client_id)) isParentDeleted = true;
-                    if (key === 'stages' && deletedIdsSets.cases.has(localItem.case_id)) isParentDeleted = true;
-                    if (key === 'sessions' && deletedIdsSets.stages.has(localItem.stage_id)) isParentDeleted = true;
-                    if (key === 'invoice_items' && deletedIdsSets.invoices.has(localItem.invoice_id)) isParentDeleted = true;
-                    if (key === 'case_documents' && deletedIdsSets.cases.has(localItem.caseId)) isParentDeleted = true;
-                    if (isParentDeleted) continue; 
+                    const isPendingUpsert = pendingUpserts.has(getOutboxKey(key, id));
+                    // Only rows with a pending outbox operation carry local edits. A full resync
+                    // still reconciles every row, since data from older versions has no outbox.
+                    const hasLocalEdit = isPendingUpsert || !isIncremental;
+                    const isSyncedDocument = key === 'case_documents' && localItem.localState === 'synced';
 
                     const remoteItem = remoteMap.get(id);
-                    if (remoteItem) {
+                    if (remoteItem && !hasLocalEdit) {
+                        finalMergedItems.set(id, remoteItem);
+                    } else if (remoteItem && baseItems[id]) {
+                        const { merged, hasLocalChanges, conflicts } = mergeRowThreeWay(baseItems[id], localItem, remoteItem, REVIEWED_CONFLICT_TABLES.has(key));
+                        detectedConflicts.push(...toSyncConflicts(key, localItem, remoteItem, conflicts));
+                        if (hasLocalChanges) {
+                            const mergedItem = { ...merged, updated_at: new Date() };
+                            itemsToUpsert.push(mergedItem);
+                            finalMergedItems.set(id, mergedItem);
+                        } else { finalMergedItems.set(id, merged); }
+                    } else if (remoteItem) {
                         const localDate = new Date(localItem.updated_at || 0).getTime();
                         const remoteDate = new Date(remoteItem.updated_at || 0).getTime();
                         if (localDate > remoteDate) {
                             itemsToUpsert.push(localItem);
                             finalMergedItems.set(id, localItem);
                         } else { finalMergedItems.set(id, remoteItem); }
-                    } else {
-                        // Special Handling for Documents: 
-                        // If it's local but missing remote, AND not in deleted list, AND it was synced before -> it was auto-cleaned.
-                        if (key === 'case_documents' && localItem.localState === 'synced' && !deletedIdsSets.documents.has(id)) {
-                             // Mark as local-only, do NOT upsert to bring it back to cloud
-                             const localOnlyDoc = { ...localItem, isLocalOnly: true };
-                             finalMergedItems.set(id, localOnlyDoc);
-                        } else {
-                             // Standard new item logic
-                             itemsToUpsert.push(localItem);
-                             finalMergedItems.set(id, localItem);
-                        }
+                    } else if (isPendingUpsert || (hasLocalEdit && !isSyncedDocument)) {
+                        // New locally, or edited locally since it was last seen in the cloud.
+                        itemsToUpsert.push(localItem);
+                        finalMergedItems.set(id, localItem);
+                    } else if (isSyncedDocument) {
+                        // Synced before but missing remotely -> it was auto-cleaned from the cloud.
+                        // Mark as local-only, do NOT upsert to bring it back to cloud.
+                        finalMergedItems.set(id, { ...localItem, isLocalOnly: true });
+                    } else if (!remoteChanges.fullTables.has(key)) {
+                        // Incremental pull: unchanged on both sides since the last sync, nothing to push.
+                        finalMergedItems.set(id, localItem);
                     }
+                    // Otherwise the row is gone from a fully fetched table and nothing local is pending: drop it.
                 }
 
                 for (const remoteItem of remoteItems) {
                     const id = remoteItem.id ?? remoteItem.name;
-                    if (!localMap.has(id)) {
-                        let isDeleted = false;
-                        const entityKey = key === 'admin_tasks' ? 'adminTasks' : key === 'accounting_entries' ? 'accountingEntries' : key === 'invoice_items' ? 'invoiceItems' : key === 'case_documents' ? 'documents' : key === 'site_finances' ? 'siteFinances' : key;
-                        const deletedSet = (deletedIdsSets as any)[entityKey];
-                        if (deletedSet) isDeleted = deletedSet.has(id);
-                        
-                        // NEW: Ignore if deleted locally (prevent resurrection of local deleted docs)
-                        if (key === 'case_documents' && locallyDeletedDocIds.has(id)) {
-                            isDeleted = true;
-                        }
-
-                        if (!isDeleted) finalMergedItems.set(id, remoteItem);
-                    }
+                    if (localMap.has(id) || pendingDeletes.has(getOutboxKey(key, id))) continue;
+                    // Ignore if deleted locally (prevent resurrection of local deleted docs)
+                    if (key === 'case_documents' && locallyDeletedDocIds.has(id)) continue;
+                    finalMergedItems.set(id, remoteItem);
                 }
                 (flatUpserts as any)[key] = itemsToUpsert;
                 (mergedFlatData as any)[key] = Array.from(finalMergedItems.values());
             }
             
             // --- SAFETY NET FOR ORPHAN RECORDS ---
+            // Parents are validated against the merged set, since an incremental pull only
+            // contains the remote rows that changed.
             
-            const validClientIds = new Set([
-                ...(remoteFlatData.clients || []).map(c => c.id),
-                ...(flatUpserts.clients || []).map(c => c.id)
-            ]);
+            const validClientIds = new Set((mergedFlatData.clients || []).map(c => c.id));
             
             if (flatUpserts.cases) {
                 flatUpserts.cases = flatUpserts.cases.filter(c => validClientIds.has(c.client_id));
             }
             
-            const validCaseIds = new Set([
-                ...(remoteFlatData.cases || []).map(c => c.id),
-                ...(flatUpserts.cases || []).map(c => c.id)
-            ]);
+            const validCaseIds = new Set((mergedFlatData.cases || []).filter(c => validClientIds.has(c.client_id)).map(c => c.id));
             
             if (flatUpserts.stages) {
                 flatUpserts.stages = flatUpserts.stages.filter(s => validCaseIds.has(s.case_id));
             }
+            if (flatUpserts.case_parties) {
+                flatUpserts.case_parties = flatUpserts.case_parties.filter(p => validCaseIds.has(p.case_id));
+            }
             
-            const validStageIds = new Set([
-                ...(remoteFlatData.stages || []).map(s => s.id),
-                ...(flatUpserts.stages || []).map(s => s.id)
-            ]);
+            const validStageIds = new Set((mergedFlatData.stages || []).filter(s => validCaseIds.has(s.case_id)).map(s => s.id));
             
             if (flatUpserts.sessions) {
                 flatUpserts.sessions = flatUpserts.sessions.filter(s => validStageIds.has(s.stage_id));
@@ -349,6 +515,7 @@ export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletions
             
             // Also filter mergedData for consistency
             if (mergedFlatData.cases) mergedFlatData.cases = mergedFlatData.cases.filter(c => validClientIds.has(c.client_id));
+            if (mergedFlatData.case_parties) mergedFlatData.case_parties = mergedFlatData.case_parties.filter(p => validCaseIds.has(p.case_id));
             if (mergedFlatData.stages) mergedFlatData.stages = mergedFlatData.stages.filter(s => validCaseIds.has(s.case_id));
             if (mergedFlatData.sessions) mergedFlatData.sessions = mergedFlatData.sessions.filter(s => validStageIds.has(s.stage_id));
             
@@ -356,55 +523,111 @@ export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletions
             if (mergedFlatData.case_documents) mergedFlatData.case_documents = mergedFlatData.case_documents.filter(doc => validCaseIds.has(doc.caseId));
             if (flatUpserts.case_documents) flatUpserts.case_documents = flatUpserts.case_documents.filter(doc => validCaseIds.has(doc.caseId));
 
-            let successfulDeletions = getInitialDeletedIds();
+            // 3. Replay the outbox: file removals, then row deletions (children first), then upserts (parents first).
+            // Each step succeeds or fails on its own; operations of failed steps stay queued for the next sync.
+            const failedSteps = new Map<string, string>(); // `${op.type}:${op.table}` -> error message
 
-            if (deletedIds.documentPaths && deletedIds.documentPaths.length > 0) {
+            const fileOps = pendingOps.filter(op => op.type === 'delete_file');
+            if (fileOps.length > 0) {
                 setStatus('syncing', 'جاري حذف الملفات من السحابة...');
-                const supabase = getSupabaseClient();
-                if (supabase) {
-                    const { error: storageError } = await supabase.storage.from('documents').remove(deletedIds.documentPaths);
-                    if (!storageError) successfulDeletions.documentPaths = deletedIds.documentPaths;
-                }
+                const { error: storageError } = await getSupabaseClient()!.storage.from('documents').remove(fileOps.map(op => op.recordId));
+                if (storageError) failedSteps.set('delete_file:storage', storageError.message);
+                else journalEntry.documents.filesDeleted = fileOps.length;
             }
-            
-            const flatDeletes: Partial<FlatData> = {
-                clients: deletedIds.clients.map(id => ({ id })) as any,
-                cases: deletedIds.cases.map(id => ({ id })) as any,
-                stages: deletedIds.stages.map(id => ({ id })) as any,
-                sessions: deletedIds.sessions.map(id => ({ id })) as any,
-                admin_tasks: deletedIds.adminTasks.map(id => ({ id })) as any,
-                appointments: deletedIds.appointments.map(id => ({ id })) as any,
-                accounting_entries: deletedIds.accountingEntries.map(id => ({ id })) as any,
-                assistants: deletedIds.assistants.map(name => ({ name })),
-                invoices: deletedIds.invoices.map(id => ({ id })) as any,
-                invoice_items: deletedIds.invoiceItems.map(id => ({ id })) as any,
-                case_documents: deletedIds.documents.map(id => ({ id })) as any,
-                site_finances: deletedIds.siteFinances.map(id => ({ id })) as any,
-            };
 
-            if (Object.values(flatDeletes).some(arr => arr && arr.length > 0)) {
+            const pushedVersionKeys: string[] = [];
+            const deleteOps = pendingOps.filter(op => op.type === 'delete');
+            if (deleteOps.length > 0) {
                 setStatus('syncing', 'جاري حذف البيانات من السحابة...');
-                await deleteDataFromSupabase(flatDeletes, currentUser);
-                successfulDeletions = { ...successfulDeletions, ...deletedIds };
+                for (const table of [...OUTBOX_UPSERT_ORDER].reverse()) {
+                    const ids = deleteOps.filter(op => op.table === table).map(op => op.recordId);
+                    if (ids.length === 0) continue;
+                    const primaryKeyColumn = table === 'assistants' ? 'name' : 'id';
+                    try {
+                        await deleteDataFromSupabase({ [table]: ids.map(id => ({ [primaryKeyColumn]: id })) } as Partial<FlatData>, currentUser);
+                        journalEntry.deletionsPushed[table] = ids.length;
+                        pushedVersionKeys.push(...ids.map(id => getChangeVersionKey('sync_deletions', { table_name: table, record_id: id })));
+                    } catch (err: any) {
+                        failedSteps.set(`delete:${table}`, err.message || String(err));
+                    }
+                }
             }
 
             setStatus('syncing', 'جاري رفع البيانات إلى السحابة...');
             // NOTE: currentUser here might have an overridden ID (effectiveUserId) if passed from useSupabaseData
-            const upsertedDataRaw = await upsertDataToSupabase(flatUpserts as FlatData, currentUser);
+            const { results: upsertedDataRaw, failures: upsertFailures } = await upsertDataToSupabase(flatUpserts, currentUser);
+            upsertFailures.forEach(({ table, message }) => failedSteps.set(`upsert:${table}`, message));
+            for (const [table, rows] of Object.entries(upsertedDataRaw)) {
+                (rows || []).forEach(row => pushedVersionKeys.push(getChangeVersionKey(table, row)));
+            }
+            onRowsPushed(pushedVersionKeys);
+            // Rows stored before their table failed count as pushed, so the next sync resumes after them.
+            const upsertedDataMap = new Map<string, any>();
             const upsertedFlatData = transformRemoteToLocal(upsertedDataRaw);
-            const upsertedDataMap = new Map();
-            Object.values(upsertedFlatData).forEach(arr => (arr as any[])?.forEach(item => upsertedDataMap.set(item.id ?? item.name, item)));
+            for (const table of OUTBOX_UPSERT_ORDER) {
+                const upsertedItems = ((upsertedFlatData as any)[table] || []) as any[];
+                upsertedItems.forEach(item => upsertedDataMap.set(getOutboxKey(table, item.id ?? item.name), item));
+                if (upsertedItems.length > 0) journalEntry.pushed[table] = upsertedItems.length;
+            }
 
             for (const key of Object.keys(mergedFlatData) as (keyof FlatData)[]) {
                 const mergedItems = (mergedFlatData as any)[key];
-                if (Array.isArray(mergedItems)) (mergedFlatData as any)[key] = mergedItems.map((item: any) => upsertedDataMap.get(item.id ?? item.name) || item);
+                if (Array.isArray(mergedItems)) (mergedFlatData as any)[key] = mergedItems.map((item: any) => upsertedDataMap.get(getOutboxKey(key, item.id ?? item.name)) || item);
+            }
+
+            // Operations resolved without a push (remote already up to date, orphaned rows) are acknowledged too.
+            const ackedSeqs: number[] = [];
+            const pushedSeqs = new Set<number>();
+            const failedOps: { seq: number; error: string }[] = [];
+            for (const op of pendingOps) {
+                const error = failedSteps.get(`${op.type}:${op.table}`);
+                const wasPushed = op.type === 'upsert' ? upsertedDataMap.has(getOutboxKey(op.table, op.recordId)) : !error;
+                if (wasPushed) pushedSeqs.add(op.seq!);
+                if (error && !wasPushed) failedOps.push({ seq: op.seq!, error });
+                else ackedSeqs.push(op.seq!);
+            }
+
+            // Who changed what, for the case history. Best effort: the changes themselves are already stored.
+            // Operations acknowledged without a push changed nothing in the cloud, so they are not recorded.
+            const auditRows = pendingOps.filter(op => op.auditRow && pushedSeqs.has(op.seq!)).map(op => op.auditRow!);
+            try {
+                await writeAuditLog(auditRows);
+            } catch (err: any) {
+                console.warn('Could not write the audit log:', err.message);
+                journalEntry.errors.push({ table: 'audit_log', message: err.message });
+            }
+
+            // Tables whose upsert failed keep their previous base, so the unpushed edits still count as local changes.
+            // Only the rows that did reach the cloud move their base forward.
+            const nextSyncBase = buildSyncBase(mergedFlatData);
+            for (const step of failedSteps.keys()) {
+                const [type, table] = step.split(':');
+                if (type !== 'upsert') continue;
+                const tableBase = { ...(syncBase[table] || {}) };
+                for (const item of ((mergedFlatData as any)[table] || []) as any[]) {
+                    if (upsertedDataMap.has(getOutboxKey(table, item.id ?? item.name))) tableBase[item.id] = item;
+                }
+                nextSyncBase[table] = tableBase;
             }
 
+            // Edits made while the push was running are laid over this result by the caller, see rebaseLocalEdits.
             const finalMergedData = constructData(mergedFlatData as FlatData);
-            onDataSynced(finalMergedData);
-            onDeletionsSynced(successfulDeletions);
-            setStatus('synced');
+            onDataSynced(finalMergedData, localData);
+            onOperationsSynced(ackedSeqs, failedOps);
+            onSyncStateChange(nextSyncState);
+            onSyncBaseChange(nextSyncBase);
+            if (detectedConflicts.length > 0) onConflictsDetected(detectedConflicts);
+
+            if (failedSteps.size > 0) {
+                const messages = Array.from(failedSteps.entries()).map(([step, message]) => `[جدول: ${step.split(':')[1]}] ${message}`);
+                setStatus('error', `فشل المزامنة: ${messages.join(' | ')}`);
+            } else {
+                setStatus('synced');
+            }
+            failedSteps.forEach((message, step) => journalEntry.errors.push({ table: step.split(':')[1], message }));
+            recordRun(journalEntry);
         } catch (err: any) {
+            recordRun(journalEntry, { table: err.table, message: err.message || String(err) });
             let errorMessage = err.message || 'حدث خطأ غير متوقع.';
             if (String(errorMessage).toLowerCase().includes('failed to fetch')) errorMessage = 'فشل الاتصال بالخادم.';
             else console.error("Error during sync:", err);
@@ -415,39 +638,49 @@ export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletions
             if (err.table) errorMessage = `[جدول: ${err.table}] ${errorMessage}`;
             setStatus('error', `فشل المزامنة: ${errorMessage}`);
         }
-    }, [localData, deletedIds, userRef, isOnline, onDataSynced, isAuthLoading, syncStatus, locallyDeletedDocIds]);
+    }, [localData, outbox, syncState, syncBase, userRef, isOnline, onDataSynced, onOperationsSynced, onSyncStateChange, onSyncBaseChange, onConflictsDetected, onSyncRunRecorded, onRowsPushed, isAuthLoading, syncStatus, locallyDeletedDocIds]);
 
-    const fetchAndRefresh = React.useCallback(async () => {
+    // Without arguments, pulls the remote changes since the stored cursors. When realtime changes are
+    // passed in, only those rows are merged, without a round trip and without touching the sync status.
+    const fetchAndRefresh = React.useCallback(async (incoming?: RealtimeChange[]) => {
         if (syncStatus === 'syncing' || isAuthLoading) return;
         const currentUser = userRef.current;
         if (!isOnline || !currentUser) return;
     
-        setStatus('syncing', 'جاري تحديث البيانات...');
+        if (!incoming) setStatus('syncing', 'جاري تحديث البيانات...');
+        const journalEntry = createSyncJournalEntry(incoming ? 'realtime' : 'refresh');
         
         try {
-            const [remoteDataRaw, remoteDeletions] = await Promise.all([
-                fetchDataFromSupabase(),
-                fetchDeletionsFromSupabase()
-            ]);
+            let remoteDataRaw: Partial<Record<keyof FlatData, any[]>> = {};
+            let remoteDeletions: SyncDeletion[] = [];
+            if (incoming) {
+                for (const change of incoming) {
+                    if (change.table === 'sync_deletions') remoteDeletions.push(change.row);
+                    else (remoteDataRaw as any)[change.table] = [...((remoteDataRaw as any)[change.table] || []), change.row];
+                }
+            } else {
+                // Refresh pulls from the stored cursors but does not advance them: nothing is pushed here,
+                // so the next manualSync must still see these rows to reconcile them with local edits.
+                const isIncremental = canSyncIncrementally(syncState, flattenData(localData));
+                const [remoteChanges, deletions] = await Promise.all([
+                    fetchChangesFromSupabase(isIncremental ? syncState.cursors : null),
+                    fetchDeletionsFromSupabase(isIncremental ? syncState.deletionsSince : null)
+                ]);
+                remoteDataRaw = remoteChanges.data;
+                remoteDeletions = deletions;
+            }
+            journalEntry.pulled = countRowsByTable(remoteDataRaw);
             const remoteFlatDataUntyped = transformRemoteToLocal(remoteDataRaw);
     
-            const deletedIdsSets = {
-                clients: new Set(deletedIds.clients), cases: new Set(deletedIds.cases), stages: new Set(deletedIds.stages),
-                sessions: new Set(deletedIds.sessions), adminTasks: new Set(deletedIds.adminTasks), appointments: new Set(deletedIds.appointments),
-                accountingEntries: new Set(deletedIds.accountingEntries), invoices: new Set(deletedIds.invoices), invoiceItems: new Set(deletedIds.invoiceItems),
-                assistants: new Set(deletedIds.assistants), documents: new Set(deletedIds.documents), profiles: new Set(deletedIds.profiles), siteFinances: new Set(deletedIds.siteFinances),
-            };
+            const pendingDeletes = new Set(outbox.filter(op => op.type === 'delete').map(op => getOutboxKey(op.table, op.recordId)));
     
             const remoteFlatData: Partial<FlatData> = {};
             for (const key of Object.keys(remoteFlatDataUntyped) as (keyof FlatData)[]) {
-                const entityKey = key === 'admin_tasks' ? 'adminTasks' : key === 'accounting_entries' ? 'accountingEntries' : key === 'invoice_items' ? 'invoiceItems' : key === 'case_documents' ? 'documents' : key === 'site_finances' ? 'siteFinances' : key;
-                const deletedSet = (deletedIdsSets as any)[entityKey];
-                
                 let filteredItems = ((remoteFlatDataUntyped as any)[key] || []);
                 
                 // Filter items that are pending deletion globally
-                if (deletedSet && deletedSet.size > 0) {
-                    filteredItems = filteredItems.filter((item: any) => !deletedSet.has(item.id ?? item.name));
+                if (pendingDeletes.size > 0) {
+                    filteredItems = filteredItems.filter((item: any) => !pendingDeletes.has(getOutboxKey(key, item.id ?? item.name)));
                 }
                 
                 // NEW: Filter items that are deleted locally (prevent resurrection)
@@ -458,38 +691,52 @@ export const useSync = ({ user, localData, deletedIds, onDataSynced, onDeletions
                 (remoteFlatData as any)[key] = filteredItems;
             }
     
-            let localFlatData = flattenData(localData);
+            const localBeforeDeletions = flattenData(localData);
             // Apply deletions to local view before merge for refresh
-            localFlatData = applyDeletionsToLocal(localFlatData, remoteDeletions);
+            const localFlatData = applyDeletionsToLocal(localBeforeDeletions, remoteDeletions);
+            journalEntry.deletionsApplied = countRemovedRows(localBeforeDeletions, localFlatData);
 
+            const detectedConflicts: SyncConflict[] = [];
             const mergedAssistants = Array.from(new Set([...localFlatData.assistants.map(a => a.name), ...(remoteFlatData.assistants || []).map(a => a.name)])).map(name => ({ name }));
     
             const mergedFlatData: FlatData = {
-                clients: mergeForRefresh(localFlatData.clients, remoteFlatData.clients || []),
-                cases: mergeForRefresh(localFlatData.cases, remoteFlatData.cases || []),
-                stages: mergeForRefresh(localFlatData.stages, remoteFlatData.stages || []),
-                sessions: mergeForRefresh(localFlatData.sessions, remoteFlatData.sessions || []),
-                admin_tasks: mergeForRefresh(localFlatData.admin_tasks, remoteFlatData.admin_tasks || []),
-                appointments: mergeForRefresh(localFlatData.appointments, remoteFlatData.appointments || []),
-                accounting_entries: mergeForRefresh(localFlatData.accounting_entries, remoteFlatData.accounting_entries || []),
+                clients: mergeForRefresh(localFlatData.clients, remoteFlatData.clients || [], syncBase.clients, 'clients', detectedConflicts),
+                contacts: mergeForRefresh(localFlatData.contacts, remoteFlatData.contacts || [], syncBase.contacts),
+                courts: mergeForRefresh(localFlatData.courts, remoteFlatData.courts || [], syncBase.courts),
+                case_types: mergeForRefresh(localFlatData.case_types, remoteFlatData.case_types || [], syncBase.case_types),
+                custom_field_definitions: mergeForRefresh(localFlatData.custom_field_definitions, remoteFlatData.custom_field_definitions || [], syncBase.custom_field_definitions),
+                deadline_rules: mergeForRefresh(localFlatData.deadline_rules, remoteFlatData.deadline_rules || [], syncBase.deadline_rules),
+                deadlines: mergeForRefresh(localFlatData.deadlines, remoteFlatData.deadlines || [], syncBase.deadlines),
+                notes: mergeForRefresh(localFlatData.notes, remoteFlatData.notes || [], syncBase.notes),
+                cases: mergeForRefresh(localFlatData.cases, remoteFlatData.cases || [], syncBase.cases, 'cases', detectedConflicts),
+                case_parties: mergeForRefresh(localFlatData.case_parties, remoteFlatData.case_parties || [], syncBase.case_parties),
+                stages: mergeForRefresh(localFlatData.stages, remoteFlatData.stages || [], syncBase.stages, 'stages', detectedConflicts),
+                sessions: mergeForRefresh(localFlatData.sessions, remoteFlatData.sessions || [], syncBase.sessions, 'sessions', detectedConflicts),
+                admin_tasks: mergeForRefresh(localFlatData.admin_tasks, remoteFlatData.admin_tasks || [], syncBase.admin_tasks),
+                appointments: mergeForRefresh(localFlatData.appointments, remoteFlatData.appointments || [], syncBase.appointments),
+                accounting_entries: mergeForRefresh(localFlatData.accounting_entries, remoteFlatData.accounting_entries || [], syncBase.accounting_entries),
                 assistants: mergedAssistants,
-                invoices: mergeForRefresh(localFlatData.invoices, remoteFlatData.invoices || []),
-                invoice_items: mergeForRefresh(localFlatData.invoice_items, remoteFlatData.invoice_items || []),
-                case_documents: mergeForRefresh(localFlatData.case_documents, remoteFlatData.case_documents || []),
-                profiles: mergeForRefresh(localFlatData.profiles, remoteFlatData.profiles || []),
-                site_finances: mergeForRefresh(localFlatData.site_finances, remoteFlatData.site_finances || []),
+                invoices: mergeForRefresh(localFlatData.invoices, remoteFlatData.invoices || [], syncBase.invoices),
+                invoice_items: mergeForRefresh(localFlatData.invoice_items, remoteFlatData.invoice_items || [], syncBase.invoice_items),
+                case_documents: mergeForRefresh(localFlatData.case_documents, remoteFlatData.case_documents || [], syncBase.case_documents),
+                profiles: mergeForRefresh(localFlatData.profiles, remoteFlatData.profiles || [], syncBase.profiles),
+                site_finances: mergeForRefresh(localFlatData.site_finances, remoteFlatData.site_finances || [], syncBase.site_finances),
             };
     
             const mergedData = constructData(mergedFlatData);
-            onDataSynced(mergedData);
-            setStatus('synced');
+            onDataSynced(mergedData, localData);
+            if (detectedConflicts.length > 0) onConflictsDetected(detectedConflicts);
+            if (!incoming) setStatus('synced');
+            recordRun(journalEntry);
         } catch (err: any) {
+            recordRun(journalEntry, { table: err.table, message: err.message || String(err) });
+            if (incoming) { console.error("Error applying realtime changes:", err); return; }
             let errorMessage = err.message || 'حدث خطأ غير متوقع.';
             if (String(errorMessage).toLowerCase().includes('failed to fetch')) errorMessage = 'فشل الاتصال بالخادم.';
             else console.error("Error during realtime refresh:", err);
             setStatus('error', `فشل تحديث البيانات: ${errorMessage}`);
         }
-    }, [localData, deletedIds, userRef, isOnline, onDataSynced, isAuthLoading, syncStatus, locallyDeletedDocIds]);
+    }, [localData, outbox, syncState, syncBase, userRef, isOnline, onDataSynced, onConflictsDetected, onSyncRunRecorded, isAuthLoading, syncStatus, locallyDeletedDocIds]);
 
     return { manualSync, fetchAndRefresh };
 };
\ No newline at end of file
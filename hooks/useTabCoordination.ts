@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { SyncStatus } from './useSync';
+
+export type SharedStateKey = 'data' | 'outbox' | 'syncState' | 'syncBase' | 'conflicts' | 'trash';
+
+export type TabMessage =
+    | { type: 'state-changed'; keys: SharedStateKey[] } // Stored in IndexedDB, re-read it
+    | { type: 'sync-status'; status: SyncStatus; error: string | null }
+    | { type: 'request-status' }
+    | { type: 'request-sync' }
+    | { type: 'request-refresh' };
+
+const CHANNEL_NAME = 'lawyer-app-tabs';
+const LEADER_LOCK_PREFIX = 'lawyer-app-sync-leader-';
+
+interface UseTabCoordinationProps {
+    ownerId: string | null;
+    onMessage: (message: TabMessage) => void;
+}
+
+/**
+ * Elects one leader among the tabs of the same data owner through the Web Locks API. Only the leader
+ * syncs and runs the document queues; the lock is released when its tab closes and another tab takes over.
+ * Tabs keep each other up to date over a BroadcastChannel. Without these APIs every tab acts as the leader.
+ */
+export const useTabCoordination = ({ ownerId, onMessage }: UseTabCoordinationProps) => {
+    const [isLeader, setIsLeader] = React.useState(false);
+    const channelRef = React.useRef<BroadcastChannel | null>(null);
+    const onMessageRef = React.useRef(onMessage);
+    onMessageRef.current = onMessage;
+
+    React.useEffect(() => {
+        if (!ownerId) return;
+        if (typeof navigator === 'undefined' || !navigator.locks) {
+            setIsLeader(true);
+            return;
+        }
+        const controller = new AbortController();
+        let releaseLock: (() => void) | null = null;
+        navigator.locks.request(`${LEADER_LOCK_PREFIX}${ownerId}`, { signal: controller.signal }, () => new Promise<void>(resolve => {
+            releaseLock = resolve;
+            setIsLeader(true);
+        })).catch(e => {
+            if (e?.name !== 'AbortError') console.error('Tab leader election failed:', e);
+        });
+        return () => {
+            controller.abort();
+            releaseLock?.();
+            setIsLeader(false);
+        };
+    }, [ownerId]);
+
+    React.useEffect(() => {
+        if (!ownerId || typeof BroadcastChannel === 'undefined') return;
+        const channel = new BroadcastChannel(CHANNEL_NAME);
+        channel.onmessage = (event: MessageEvent) => {
+            const { ownerId: senderOwnerId, message } = event.data || {};
+            if (senderOwnerId === ownerId && message) onMessageRef.current(message as TabMessage);
+        };
+        channelRef.current = channel;
+        return () => {
+            channelRef.current = null;
+            channel.close();
+        };
+    }, [ownerId]);
+
+    const broadcast = React.useCallback((message: TabMessage) => {
+        try {
+            channelRef.current?.postMessage({ ownerId, message });
+        } catch (e) {
+            console.warn('Failed to notify other tabs:', e);
+        }
+    }, [ownerId]);
+
+    return { isLeader, broadcast };
+};
@@ -6,6 +6,7 @@ import { PlusIcon, PencilIcon, TrashIcon, SearchIcon, ExclamationTriangleIcon, P
 import { useData } from '../context/DataContext';
 import PrintableInvoice from '../components/PrintableInvoice';
 import { printElement } from '../utils/printUtils';
+import { getCaseSubtypes, getRootCaseType } from '../utils/caseTypes';
 import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 // --- TAB: ENTRIES ---
@@ -418,8 +419,51 @@ const InvoiceModal: React.FC<{ isOpen: boolean; onClose: () => void; initialData
 };
 
 // --- TAB: REPORTS ---
+const CASE_TYPE_COLORS = ['#6366F1', '#F59E0B', '#10B981', '#EF4444', '#3B82F6', '#EC4899', '#14B8A6', '#8B5CF6'];
+
+interface CaseTypeReportRow {
+    id: string;
+    name: string;
+    isSubtype: boolean;
+    total: number;
+    active: number;
+    closed: number;
+    income: number;
+    expense: number;
+}
+
 const ReportsTab: React.FC = () => {
-    const { accountingEntries } = useData();
+    const { accountingEntries, clients, caseTypes } = useData();
+
+    // Cases and their money per top-level type, each followed by its subtypes.
+    const caseTypeRows = React.useMemo(() => {
+        const rows = new Map<string, CaseTypeReportRow>();
+        const rowFor = (id: string, name: string, isSubtype: boolean) =>
+            rows.get(id) || rows.set(id, { id, name, isSubtype, total: 0, active: 0, closed: 0, income: 0, expense: 0 }).get(id)!;
+        const entriesByCase = new Map<string, AccountingEntry[]>();
+        accountingEntries.forEach(e => e.caseId && entriesByCase.set(e.caseId, [...(entriesByCase.get(e.caseId) || []), e]));
+
+        for (const caseItem of clients.flatMap(c => c.cases)) {
+            const root = getRootCaseType(caseTypes, caseItem.caseTypeId);
+            const targets = [root ? rowFor(root.id, root.name, false) : rowFor('none', 'بدون تصنيف', false)];
+            if (root && caseItem.caseTypeId !== root.id) {
+                const subtype = caseTypes.find(t => t.id === caseItem.caseTypeId)!;
+                targets.push(rowFor(subtype.id, subtype.name, true));
+            }
+            const entries = entriesByCase.get(caseItem.id) || [];
+            for (const row of targets) {
+                row.total++;
+                if (caseItem.status === 'active') row.active++;
+                if (caseItem.status === 'closed') row.closed++;
+                entries.forEach(e => { if (e.type === 'income') row.income += e.amount; else row.expense += e.amount; });
+            }
+        }
+
+        const topLevel = [...rows.values()].filter(r => !r.isSubtype).sort((a, b) => (a.id === 'none' ? 1 : 0) - (b.id === 'none' ? 1 : 0) || b.total - a.total);
+        return topLevel.flatMap(row => [row, ...getCaseSubtypes(caseTypes, row.id).map(t => rows.get(t.id)).filter((r): r is CaseTypeReportRow => !!r)]);
+    }, [clients, caseTypes, accountingEntries]);
+    const caseTypeChartData = caseTypeRows.filter(r => !r.isSubtype).map(r => ({ name: r.name, value: r.total }));
+
     const reportsData = React.useMemo(() => {
         const income = accountingEntries.filter(e => e.type === 'income').reduce((sum, e) => sum + e.amount, 0);
         const expense = accountingEntries.filter(e => e.type === 'expense').reduce((sum, e) => sum + e.amount, 0);
@@ -461,6 +505,51 @@ const ReportsTab: React.FC = () => {
                     </ResponsiveContainer>
                 </div>
             </div>
+            <h2 className="text-xl font-bold text-gray-800">القضايا حسب النوع</h2>
+            {caseTypeRows.length === 0 ? (
+                <p className="text-gray-500">لا توجد قضايا بعد.</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                    <div className="bg-white p-6 rounded-lg shadow overflow-x-auto">
+                        <table className="w-full text-sm text-right">
+                            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2">النوع</th>
+                                    <th className="px-4 py-2">القضايا</th>
+                                    <th className="px-4 py-2">نشطة</th>
+                                    <th className="px-4 py-2">مغلقة</th>
+                                    <th className="px-4 py-2">الإيرادات</th>
+                                    <th className="px-4 py-2">المصروفات</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {caseTypeRows.map(row => (
+                                    <tr key={row.id} className={`border-b ${row.isSubtype ? 'text-gray-600' : 'font-semibold'}`}>
+                                        <td className={`px-4 py-2 ${row.isSubtype ? 'ps-8' : ''}`}>{row.name}</td>
+                                        <td className="px-4 py-2">{row.total}</td>
+                                        <td className="px-4 py-2">{row.active}</td>
+                                        <td className="px-4 py-2">{row.closed}</td>
+                                        <td className="px-4 py-2 text-green-600">{row.income.toLocaleString()}</td>
+                                        <td className="px-4 py-2 text-red-600">{row.expense.toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="bg-white p-6 rounded-lg shadow h-[400px]">
+                        <h3 className="text-lg font-semibold mb-4 text-center">توزيع القضايا حسب النوع</h3>
+                        <ResponsiveContainer width="100%" height="100%">
+                            <PieChart>
+                                <Pie data={caseTypeChartData} cx="50%" cy="50%" outerRadius={100} dataKey="value" label>
+                                    {caseTypeChartData.map((entry, index) => <Cell key={`cell-${index}`} fill={CASE_TYPE_COLORS[index % CASE_TYPE_COLORS.length]} />)}
+                                </Pie>
+                                <Tooltip />
+                                <Legend />
+                            </PieChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -2,14 +2,29 @@
 import * as React from 'react';
 import ClientsTreeView from '../components/ClientsTreeView';
 import ClientsListView from '../components/ClientsListView';
-import { PlusIcon, SearchIcon, ListBulletIcon, ViewColumnsIcon, ExclamationTriangleIcon, PrintIcon, ScaleIcon, FolderOpenIcon, GavelIcon, AddressBookIcon } from '../components/icons';
-import { Client, Case, Stage, Session, AccountingEntry } from '../types';
+import { PlusIcon, SearchIcon, ListBulletIcon, ViewColumnsIcon, ExclamationTriangleIcon, PrintIcon, ScaleIcon, FolderOpenIcon, AddressBookIcon } from '../components/icons';
+import { Client, Contact, Case, CaseParty, Stage, Session, AccountingEntry, ChallengeKind } from '../types';
 import { formatDate, toInputDateString, parseInputDateString } from '../utils/dateUtils';
 import PrintableClientReport from '../components/PrintableClientReport';
 import { printElement } from '../utils/printUtils';
 import { MenuItem } from '../components/ContextMenu';
 import { useDebounce } from '../hooks/useDebounce';
 import { useData } from '../context/DataContext';
+import CasePartiesEditor from '../components/CasePartiesEditor';
+import CourtInput from '../components/CourtInput';
+import { getEditableParties, summarizeParties } from '../utils/caseParties';
+import ContactFields, { DuplicateContactsWarning } from '../components/ContactFields';
+import { cleanContactFields, findDuplicateContacts, formatContactInfo, getEditableContactFields, linkPartiesToContacts } from '../utils/contacts';
+import { WEEKDAY_LABELS, findCourtByName, isCourtWorkingDay } from '../utils/courts';
+import CaseClassificationFields from '../components/CaseClassificationFields';
+import CustomFieldInputs from '../components/CustomFieldInputs';
+import { cleanCustomFieldValues, getCustomFieldsSearchText, validateCustomFields } from '../utils/customFields';
+import { CaseClassificationFilter, EMPTY_CASE_FILTER, collectCaseTags, getCaseTypeLabel, normalizeTags } from '../utils/caseTypes';
+import { StageOutcomeSelect } from '../components/StageFollowUpFields';
+import StageDecisionModal from '../components/StageDecisionModal';
+import { CHALLENGE_KIND_LABELS, getStageDescendantIds } from '../utils/stageChain';
+import { findStageRef, getChallengeDeadline, reconcileStageDeadlines } from '../utils/deadlines';
+import { buildNotesSearchIndex } from '../utils/notes';
 
 interface ClientsPageProps {
     onOpenAdminTaskModal: (initialData?: any) => void;
@@ -21,6 +36,8 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
     const { 
         clients, 
         setClients, 
+        contacts,
+        setContacts,
         accountingEntries, 
         setAccountingEntries, 
         assistants, 
@@ -30,13 +47,22 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
         deleteStage, 
         deleteSession,
         postponeSession,
+        courts,
+        caseTypes,
+        customFieldDefinitions,
+        deadlineRules,
+        setDeadlines,
+        notes,
         permissions // Destructure permissions
     } = useData();
     const [modal, setModal] = React.useState<{ type: 'client' | 'case' | 'stage' | 'session' | null, context?: any, isEditing: boolean }>({ type: null, isEditing: false });
     const [formData, setFormData] = React.useState<any>({});
+    const [customFieldErrors, setCustomFieldErrors] = React.useState<Record<string, string>>({});
     const [searchQuery, setSearchQuery] = React.useState('');
     const debouncedSearchQuery = useDebounce(searchQuery, 300);
     const [viewMode, setViewMode] = React.useState<'tree' | 'list'>('tree');
+    const [caseFilter, setCaseFilter] = React.useState<CaseClassificationFilter>(EMPTY_CASE_FILTER);
+    const caseTags = React.useMemo(() => collectCaseTags(clients), [clients]);
     const [isDeleteSessionModalOpen, setIsDeleteSessionModalOpen] = React.useState(false);
     const [sessionToDelete, setSessionToDelete] = React.useState<{ sessionId: string, stageId: string, caseId: string, clientId: string, message: string } | null>(null);
     const [isDeleteCaseModalOpen, setIsDeleteCaseModalOpen] = React.useState(false);
@@ -63,20 +89,26 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
 
     // State for Decide Session Modal
     const [decideModal, setDecideModal] = React.useState<{ isOpen: boolean; session?: Session, stage?: Stage }>({ isOpen: false });
-    const [decideFormData, setDecideFormData] = React.useState({ decisionNumber: '', decisionSummary: '', decisionNotes: '' });
 
 
     const filteredClients = React.useMemo(() => {
         if (!debouncedSearchQuery) return clients;
         const lowercasedQuery = debouncedSearchQuery.toLowerCase();
+        const notesIndex = buildNotesSearchIndex(notes);
 
         return clients.map(client => {
             const matchingCases = client.cases.filter(c => 
                 c.subject.toLowerCase().includes(lowercasedQuery) ||
+                getCaseTypeLabel(caseTypes, c.caseTypeId).toLowerCase().includes(lowercasedQuery) ||
+                getCustomFieldsSearchText(customFieldDefinitions, c.customFields).includes(lowercasedQuery) ||
+                (c.tags || []).some(tag => tag.toLowerCase().includes(lowercasedQuery.replace(/^#/, ''))) ||
+                (notesIndex.byCase.get(c.id) || '').includes(lowercasedQuery) ||
                 c.opponentName.toLowerCase().includes(lowercasedQuery) ||
+                (c.parties || []).some(p => p.name.toLowerCase().includes(lowercasedQuery) || (p.representative || '').toLowerCase().includes(lowercasedQuery)) ||
                 c.stages.some(s => 
                     s.court.toLowerCase().includes(lowercasedQuery) ||
                     s.caseNumber.toLowerCase().includes(lowercasedQuery) ||
+                    getCustomFieldsSearchText(customFieldDefinitions, s.customFields).includes(lowercasedQuery) ||
                     s.sessions.some(session => 
                         (session.postponementReason && session.postponementReason.toLowerCase().includes(lowercasedQuery)) ||
                         (session.nextPostponementReason && session.nextPostponementReason.toLowerCase().includes(lowercasedQuery)) ||
@@ -85,7 +117,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                 )
             );
 
-            if (client.name.toLowerCase().includes(lowercasedQuery) || client.contactInfo.toLowerCase().includes(lowercasedQuery)) {
+            if (client.name.toLowerCase().includes(lowercasedQuery) || client.contactInfo.toLowerCase().includes(lowercasedQuery) || getCustomFieldsSearchText(customFieldDefinitions, client.customFields).includes(lowercasedQuery) || (notesIndex.byClient.get(client.id) || '').includes(lowercasedQuery)) {
                 return client;
             }
             
@@ -95,25 +127,39 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
 
             return null;
         }).filter((client): client is Client => client !== null);
-    }, [clients, debouncedSearchQuery]);
+    }, [clients, debouncedSearchQuery, caseTypes, customFieldDefinitions, notes]);
 
 
     const handleOpenModal = (type: 'client' | 'case' | 'stage' | 'session', isEditing = false, context: any = {}) => {
         setModal({ type, context, isEditing });
+        setCustomFieldErrors({});
         if (isEditing && context.item) {
             const item = context.item;
             if (type === 'session') {
                  setFormData({ ...item, date: toInputDateString(item.date), nextSessionDate: toInputDateString(item.nextSessionDate) });
             } else if (type === 'stage') {
-                const { firstSessionDate, decisionDate, ...restOfStage } = item;
+                const { firstSessionDate, decisionDate, notificationDate, filingDeadline, ...restOfStage } = item;
                 setFormData({ 
                     ...restOfStage, 
                     firstSessionDate: toInputDateString(firstSessionDate),
-                    decisionDate: toInputDateString(decisionDate)
+                    decisionDate: toInputDateString(decisionDate),
+                    notificationDate: toInputDateString(notificationDate),
+                    filingDeadline: toInputDateString(filingDeadline)
                 });
+            } else if (type === 'case') {
+                setFormData({ ...item, parties: getEditableParties(item, context.client) });
+            } else if (type === 'client') {
+                setFormData({ name: item.name, contactId: item.contactId || null, customFields: item.customFields, ...getEditableContactFields(item, contacts) });
             } else {
                 setFormData(item);
             }
+        } else if (type === 'case') {
+            setFormData({ parties: getEditableParties(undefined, clients.find(c => c.id === context.clientId)) });
+        } else if (type === 'client') {
+            setFormData({ phones: [''], contactId: null });
+        } else if (type === 'session') {
+            const stage = clients.find(c => c.id === context.clientId)?.cases.find(cs => cs.id === context.caseId)?.stages.find(st => st.id === context.stageId);
+            setFormData({ court: stage?.court || '' });
         } else {
             setFormData(context.id ? { [`${type}Id`]: context.id } : {});
         }
@@ -147,7 +193,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                 setFormData((prev: any) => ({
                     ...prev,
                     name: name || prev.name,
-                    contactInfo: phone || prev.contactInfo
+                    phones: phone ? [...(prev.phones || []).filter((p: string) => p.trim()), phone] : prev.phones
                 }));
             }
         } catch (ex) {
@@ -191,6 +237,16 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
         e.preventDefault();
         const { type, context, isEditing } = modal;
 
+        if (type === 'client' || type === 'case' || type === 'stage') {
+            const createsFirstStage = type === 'case' && !isEditing && (formData.court || formData.caseNumber || formData.firstSessionDate);
+            const errors = {
+                ...validateCustomFields(customFieldDefinitions, type, formData.customFields),
+                ...(createsFirstStage ? validateCustomFields(customFieldDefinitions, 'stage', formData.stageCustomFields) : {}),
+            };
+            setCustomFieldErrors(errors);
+            if (Object.keys(errors).length > 0) return;
+        }
+
         if (type === 'client') {
             const clientName = formData.name?.trim();
             if (!clientName) {
@@ -212,26 +268,63 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                 }
             }
             
+            // The client's details live in its contact; one found in the directory is reused, otherwise one is added.
+            const linkedContact: Contact | undefined = contacts.find(c => c.id === formData.contactId);
+            const contact: Contact = {
+                ...(linkedContact || { id: `contact-${Date.now()}`, type: 'client' as const }),
+                name: linkedContact && linkedContact.type !== 'client' ? linkedContact.name : clientName,
+                ...cleanContactFields({ phones: formData.phones || [], address: formData.address, nationalId: formData.nationalId, notes: formData.notes }),
+                updated_at: new Date(),
+            };
+            setContacts(prev => linkedContact ? prev.map(c => c.id === contact.id ? contact : c) : [...prev, contact]);
+            const contactInfo = formatContactInfo(contact);
+
             if (isEditing) {
                  if (context?.item?.id) {
-                    setClients(prev => prev.map(c => c.id === context.item.id ? { ...c, ...formData, name: clientName, updated_at: new Date() } : c));
+                    setClients(prev => prev.map(c => c.id === context.item.id ? { ...c, name: clientName, contactId: contact.id, contactInfo, customFields: cleanCustomFieldValues(customFieldDefinitions, 'client', formData.customFields), updated_at: new Date() } : c));
                 }
             } else {
                 const newClient: Client = { 
                     id: `client-${Date.now()}`, 
                     name: clientName, 
-                    contactInfo: formData.contactInfo || '', 
+                    contactInfo,
+                    contactId: contact.id,
+                    customFields: cleanCustomFieldValues(customFieldDefinitions, 'client', formData.customFields),
                     cases: [],
                     updated_at: new Date(),
                 };
                 setClients(prev => [...prev, newClient]);
             }
         } else if (type === 'case') {
+            const { parties, newContacts } = linkPartiesToContacts((formData.parties || [])
+                .filter((p: CaseParty) => p.name.trim())
+                .map((p: CaseParty) => ({ ...p, name: p.name.trim(), representative: p.representative?.trim() || undefined, updated_at: new Date() })), contacts, clients);
+            if (newContacts.length > 0) setContacts(prev => [...prev, ...newContacts]);
+            const summary = summarizeParties(parties);
             if (isEditing) {
+                const previous: Case = context.item;
+                const clientName = summary.clientName || context.client.name;
+                // Sessions copy the names when they are created; those still showing the old ones follow the parties.
+                const renameSession = (s: Session): Session => {
+                    const fields: Partial<Session> = {};
+                    if (s.clientName === previous.clientName && s.clientName !== clientName) fields.clientName = clientName;
+                    if (s.opponentName === previous.opponentName && s.opponentName !== summary.opponentName) fields.opponentName = summary.opponentName;
+                    return Object.keys(fields).length > 0 ? { ...s, ...fields, updated_at: new Date() } : s;
+                };
                 setClients(prev => prev.map(c => c.id === context.client.id ? {
                     ...c,
                     updated_at: new Date(),
-                    cases: c.cases.map(cs => cs.id === context.item.id ? { ...cs, ...formData, updated_at: new Date() } : cs)
+                    cases: c.cases.map(cs => cs.id === context.item.id ? {
+                        ...cs,
+                        ...formData,
+                        parties,
+                        clientName,
+                        opponentName: summary.opponentName,
+                        tags: normalizeTags(formData.tags || []),
+                        customFields: cleanCustomFieldValues(customFieldDefinitions, 'case', formData.customFields),
+                        stages: cs.stages.map(st => ({ ...st, sessions: st.sessions.map(renameSession) })),
+                        updated_at: new Date(),
+                    } : cs)
                 } : c));
             } else {
                 const clientForCase = clients.find(c => c.id === context.clientId);
@@ -239,10 +332,14 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                     const newCase: Case = {
                         id: `case-${Date.now()}`,
                         subject: formData.subject || 'قضية بدون موضوع',
-                        opponentName: formData.opponentName || '',
+                        opponentName: summary.opponentName,
                         feeAgreement: formData.feeAgreement || '',
                         status: formData.status || 'active',
-                        clientName: clientForCase.name,
+                        caseTypeId: formData.caseTypeId || null,
+                        tags: normalizeTags(formData.tags || []),
+                        customFields: cleanCustomFieldValues(customFieldDefinitions, 'case', formData.customFields),
+                        clientName: summary.clientName || clientForCase.name,
+                        parties,
                         stages: [],
                         updated_at: new Date(),
                     };
@@ -255,6 +352,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                             court: court || 'غير محدد',
                             caseNumber: caseNumber || '',
                             firstSessionDate: parsedFirstSessionDate || undefined,
+                            customFields: cleanCustomFieldValues(customFieldDefinitions, 'stage', formData.stageCustomFields),
                             sessions: [],
                             updated_at: new Date(),
                         };
@@ -265,7 +363,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                                 court: newStage.court,
                                 caseNumber: newStage.caseNumber,
                                 date: parsedFirstSessionDate,
-                                clientName: clientForCase.name,
+                                clientName: newCase.clientName,
                                 opponentName: newCase.opponentName,
                                 isPostponed: false,
                                 postponementReason: firstSessionReason || undefined,
@@ -286,6 +384,12 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                 const stageData = { ...formData };
                 stageData.firstSessionDate = parseInputDateString(stageData.firstSessionDate) || undefined;
                 stageData.decisionDate = parseInputDateString(stageData.decisionDate) || undefined;
+                stageData.notificationDate = stageData.decisionDate ? parseInputDateString(stageData.notificationDate) || undefined : undefined;
+                stageData.decisionOutcome = stageData.decisionOutcome || null;
+                stageData.parentStageId = stageData.parentStageId || null;
+                stageData.challengeKind = stageData.parentStageId ? stageData.challengeKind || 'appeal' : null;
+                stageData.filingDeadline = stageData.parentStageId ? parseInputDateString(stageData.filingDeadline) || undefined : undefined;
+                stageData.customFields = cleanCustomFieldValues(customFieldDefinitions, 'stage', stageData.customFields);
                 
                 setClients(prev => prev.map(c => c.id === context.client.id ? {
                     ...c,
@@ -293,9 +397,18 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                     cases: c.cases.map(cs => cs.id === context.case.id ? {
                         ...cs,
                         updated_at: new Date(),
-                        stages: cs.stages.map(st => st.id === context.item.id ? { ...st, ...stageData, updated_at: new Date() } : st)
+                        stages: cs.stages.map(st => st.id === context.item.id ? {
+                            ...st,
+                            ...stageData,
+                            // Sessions still held at the stage's old court move with it.
+                            sessions: st.sessions.map(s => stageData.court !== st.court && s.court === st.court ? { ...s, court: stageData.court, updated_at: new Date() } : s),
+                            updated_at: new Date(),
+                        } : st)
                     } : cs)
                 } : c));
+                // A decision entered or corrected here moves the deadlines it opened just as the decide modal does.
+                const editedStage = { clientId: context.client.id, caseItem: context.case, stage: { ...context.item, ...stageData } };
+                setDeadlines(prev => reconcileStageDeadlines(prev, deadlineRules, caseTypes, courts, editedStage));
             } else {
                 const stageData = { ...formData };
                 const parsedFirstSessionDate = parseInputDateString(stageData.firstSessionDate);
@@ -304,6 +417,10 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                     court: stageData.court || 'غير محدد',
                     caseNumber: stageData.caseNumber || '',
                     firstSessionDate: parsedFirstSessionDate || undefined,
+                    parentStageId: stageData.parentStageId || null,
+                    challengeKind: stageData.parentStageId ? stageData.challengeKind || 'appeal' : null,
+                    filingDeadline: stageData.parentStageId ? parseInputDateString(stageData.filingDeadline) || undefined : undefined,
+                    customFields: cleanCustomFieldValues(customFieldDefinitions, 'stage', stageData.customFields),
                     sessions: [],
                     updated_at: new Date(),
                 };
@@ -316,7 +433,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                             court: newStage.court,
                             caseNumber: newStage.caseNumber,
                             date: newStage.firstSessionDate,
-                            clientName: client.name,
+                            clientName: caseItem.clientName || client.name,
                             opponentName: caseItem.opponentName,
                             isPostponed: false,
                             postponementReason: stageData.firstSessionReason || undefined,
@@ -368,9 +485,9 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                     const newSession: Session = {
                         id: `session-${Date.now()}`,
                         date: parsedDate,
-                        court: stage.court,
+                        court: formData.court?.trim() || stage.court,
                         caseNumber: stage.caseNumber,
-                        clientName: client.name,
+                        clientName: caseItem.clientName || client.name,
                         opponentName: caseItem.opponentName,
                         isPostponed: false,
                         assignee: formData.assignee || 'بدون تخصيص',
@@ -497,42 +614,11 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
 
         if (!foundStage) return;
 
-        setDecideFormData({ decisionNumber: foundStage.decisionNumber || '', decisionSummary: foundStage.decisionSummary || '', decisionNotes: foundStage.decisionNotes || '' });
         setDecideModal({ isOpen: true, session, stage: foundStage });
     };
 
     const handleCloseDecideModal = () => setDecideModal({ isOpen: false });
 
-    const handleDecideSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        const { session, stage } = decideModal;
-        if (!session || !stage) return;
-
-        setClients(currentClients => currentClients.map(client => ({
-            ...client,
-            updated_at: new Date(),
-            cases: client.cases.map(c => ({
-                ...c,
-                updated_at: new Date(),
-                stages: c.stages.map(st => {
-                    if (st.id === stage.id) {
-                        return {
-                            ...st,
-                            decisionDate: session.date,
-                            decisionNumber: decideFormData.decisionNumber,
-                            decisionSummary: decideFormData.decisionSummary,
-                            decisionNotes: decideFormData.decisionNotes,
-                            updated_at: new Date(),
-                        };
-                    }
-                    return st;
-                })
-            }))
-        })));
-        
-        handleCloseDecideModal();
-    };
-    
     const getModalTitle = () => {
         const { type, isEditing } = modal;
         if (!type) return '';
@@ -546,6 +632,36 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
         }
     };
 
+    // A session set on a day its court does not sit is most likely a typo in the date.
+    const sessionCourtClosedDay = (() => {
+        if (modal.type !== 'session') return null;
+        const court = findCourtByName(courts, formData.court || '');
+        const date = parseInputDateString(formData.date);
+        if (!court || !date || isCourtWorkingDay(court, date)) return null;
+        return `تنبيه: يوم ${WEEKDAY_LABELS[date.getDay()]} ليس من أيام دوام ${court.name}.`;
+    })();
+
+    // Stages of the case whose decision the stage being edited may challenge.
+    const parentStageOptions = (() => {
+        if (modal.type !== 'stage') return [];
+        const { context } = modal;
+        const caseId = context.case?.id || context.caseId;
+        const stages = clients.flatMap(c => c.cases).find(cs => cs.id === caseId)?.stages || [];
+        const excluded = context.item ? getStageDescendantIds(stages, context.item.id) : new Set<string>();
+        return stages.filter(st => !excluded.has(st.id));
+    })();
+
+    const handleParentStageChange = (parentStageId: string, challengeKind: ChallengeKind) => {
+        const parentRef = parentStageId ? findStageRef(clients, parentStageId) : null;
+        const deadline = parentRef ? getChallengeDeadline(deadlineRules, caseTypes, courts, parentRef, challengeKind) : undefined;
+        setFormData((prev: any) => ({
+            ...prev,
+            parentStageId,
+            challengeKind,
+            filingDeadline: deadline ? toInputDateString(deadline) : prev.filingDeadline,
+        }));
+    };
+
     return (
         <div className="space-y-6">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -579,6 +695,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                 {viewMode === 'tree' ? (
                     <ClientsTreeView 
                         clients={filteredClients} 
+                        contacts={contacts}
                         setClients={setClients} 
                         accountingEntries={accountingEntries} 
                         setAccountingEntries={setAccountingEntries} 
@@ -602,10 +719,15 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                         onOpenAdminTaskModal={onOpenAdminTaskModal} 
                         onCreateInvoice={onCreateInvoice}
                         permissions={permissions} 
+                        caseTypes={caseTypes}
+                        caseTags={caseTags}
+                        caseFilter={caseFilter}
+                        onCaseFilterChange={setCaseFilter}
                     />
                 ) : (
                     <ClientsListView 
                         clients={filteredClients} 
+                        contacts={contacts}
                         setClients={setClients} 
                         accountingEntries={accountingEntries} 
                         setAccountingEntries={setAccountingEntries} 
@@ -629,6 +751,10 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                         onOpenAdminTaskModal={onOpenAdminTaskModal} 
                         onCreateInvoice={onCreateInvoice}
                         permissions={permissions}
+                        caseTypes={caseTypes}
+                        caseTags={caseTags}
+                        caseFilter={caseFilter}
+                        onCaseFilterChange={setCaseFilter}
                     />
                 )}
             </div>
@@ -651,36 +777,76 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
                                                 className="text-xs flex items-center gap-1 text-blue-600 hover:text-blue-800 transition-colors"
                                             >
                                                 <AddressBookIcon className="w-4 h-4" />
-                                                استيراد من جهات الاتصال
+                                                استيراد من جهات اتصال الجهاز
                                             </button>
                                         )}
                                     </div>
                                     <input type="text" name="name" value={formData.name || ''} onChange={handleFormChange} className="w-full p-2 border rounded mt-1" required />
                                 </div>
-                                <div><label className="block text-sm font-medium">معلومات الاتصال</label><input type="text" name="contactInfo" value={formData.contactInfo || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>
+                                {formData.contactId && contacts.some(c => c.id === formData.contactId) ? (
+                                    <p className="flex justify-between items-center text-xs text-gray-600">
+                                        <span>مرتبط بجهة الاتصال «{contacts.find(c => c.id === formData.contactId)!.name}» في دليل جهات الاتصال</span>
+                                        <button type="button" onClick={() => setFormData((prev: any) => ({ ...prev, contactId: null }))} className="text-blue-600 hover:text-blue-800">فك الربط</button>
+                                    </p>
+                                ) : (
+                                    <DuplicateContactsWarning
+                                        duplicates={findDuplicateContacts(contacts, { name: formData.name || '', phones: formData.phones || [] })}
+                                        actionLabel="ربط بها"
+                                        onPick={picked => setFormData((prev: any) => ({ ...prev, contactId: picked.id, phones: picked.phones, address: picked.address, nationalId: picked.nationalId, notes: picked.notes }))}
+                                    />
+                                )}
+                                <ContactFields value={{ phones: formData.phones || [], address: formData.address, nationalId: formData.nationalId, notes: formData.notes }} onChange={fields => setFormData((prev: any) => ({ ...prev, ...fields }))} />
+                                <CustomFieldInputs definitions={customFieldDefinitions} entity="client" values={formData.customFields} errors={customFieldErrors} onChange={customFields => setFormData((prev: any) => ({ ...prev, customFields }))} />
                                 </>
                             )}
                             {modal.type === 'case' && (
                                 <>
                                 <div><label className="block text-sm font-medium">موضوع القضية</label><input type="text" name="subject" value={formData.subject || ''} onChange={handleFormChange} className="w-full p-2 border rounded" required /></div>
-                                <div><label className="block text-sm font-medium">اسم الخصم</label><input type="text" name="opponentName" value={formData.opponentName || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>
+                                <CaseClassificationFields caseTypeId={formData.caseTypeId} tags={formData.tags || []} onChange={fields => setFormData((prev: any) => ({ ...prev, ...fields }))} caseTypes={caseTypes} knownTags={caseTags} />
+                                <CasePartiesEditor parties={formData.parties || []} onChange={parties => setFormData((prev: any) => ({ ...prev, parties }))} contacts={contacts} clients={clients} />
                                 <div><label className="block text-sm font-medium">اتفاقية الأتعاب</label><textarea name="feeAgreement" value={formData.feeAgreement || ''} onChange={handleFormChange} className="w-full p-2 border rounded" rows={3}></textarea></div>
                                 <div><label className="block text-sm font-medium">حالة القضية</label><select name="status" value={formData.status || 'active'} onChange={handleFormChange} className="w-full p-2 border rounded"><option value="active">نشطة</option><option value="closed">مغلقة</option><option value="on_hold">معلقة</option></select></div>
-                                {!modal.isEditing && <div className="p-4 bg-gray-50 border rounded-lg space-y-4"><h3 className="font-semibold text-gray-700">إضافة المرحلة الأولى (اختياري)</h3><div><label className="block text-xs font-medium">المحكمة</label><input type="text" name="court" value={formData.court || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium">رقم الأساس</label><input type="text" name="caseNumber" value={formData.caseNumber || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div><label className="block text-xs font-medium">تاريخ أول جلسة</label><input type="date" name="firstSessionDate" value={formData.firstSessionDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div></div><div><label className="block text-xs font-medium">سبب التأجيل (إن وجد)</label><input type="text" name="firstSessionReason" value={formData.firstSessionReason || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div></div>}
+                                <CustomFieldInputs definitions={customFieldDefinitions} entity="case" values={formData.customFields} errors={customFieldErrors} onChange={customFields => setFormData((prev: any) => ({ ...prev, customFields }))} />
+                                {!modal.isEditing && <div className="p-4 bg-gray-50 border rounded-lg space-y-4"><h3 className="font-semibold text-gray-700">إضافة المرحلة الأولى (اختياري)</h3><div><label className="block text-xs font-medium">المحكمة</label><CourtInput value={formData.court || ''} onChange={court => setFormData((prev: any) => ({ ...prev, court }))} courts={courts} /></div><div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium">رقم الأساس</label><input type="text" name="caseNumber" value={formData.caseNumber || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div><label className="block text-xs font-medium">تاريخ أول جلسة</label><input type="date" name="firstSessionDate" value={formData.firstSessionDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div></div><div><label className="block text-xs font-medium">سبب التأجيل (إن وجد)</label><input type="text" name="firstSessionReason" value={formData.firstSessionReason || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><CustomFieldInputs definitions={customFieldDefinitions} entity="stage" values={formData.stageCustomFields} errors={customFieldErrors} onChange={stageCustomFields => setFormData((prev: any) => ({ ...prev, stageCustomFields }))} /></div>}
                                 </>
                             )}
                             {modal.type === 'stage' && (
                                 <>
-                                <div><label className="block text-sm font-medium">المحكمة</label><input type="text" name="court" value={formData.court || ''} onChange={handleFormChange} className="w-full p-2 border rounded" required/></div>
+                                <div><label className="block text-sm font-medium">المحكمة</label><CourtInput value={formData.court || ''} onChange={court => setFormData((prev: any) => ({ ...prev, court }))} courts={courts} required /></div>
                                 <div><label className="block text-sm font-medium">رقم الأساس</label><input type="text" name="caseNumber" value={formData.caseNumber || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>
+                                <CustomFieldInputs definitions={customFieldDefinitions} entity="stage" values={formData.customFields} errors={customFieldErrors} onChange={customFields => setFormData((prev: any) => ({ ...prev, customFields }))} />
+                                {parentStageOptions.length > 0 && (
+                                    <div className="p-4 bg-gray-50 border rounded-lg space-y-3">
+                                        <div>
+                                            <label className="block text-sm font-medium">طعن في قرار مرحلة سابقة</label>
+                                            <select value={formData.parentStageId || ''} onChange={e => handleParentStageChange(e.target.value, formData.challengeKind || 'appeal')} className="w-full p-2 border rounded">
+                                                <option value="">لا، مرحلة مستقلة</option>
+                                                {parentStageOptions.map(st => <option key={st.id} value={st.id}>{st.court}{st.caseNumber && ` (${st.caseNumber})`}</option>)}
+                                            </select>
+                                        </div>
+                                        {formData.parentStageId && (
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div>
+                                                    <label className="block text-xs font-medium">طريق الطعن</label>
+                                                    <select value={formData.challengeKind || 'appeal'} onChange={e => handleParentStageChange(formData.parentStageId, e.target.value as ChallengeKind)} className="w-full p-2 border rounded">
+                                                        {(Object.keys(CHALLENGE_KIND_LABELS) as ChallengeKind[]).map(kind => <option key={kind} value={kind}>{CHALLENGE_KIND_LABELS[kind]}</option>)}
+                                                    </select>
+                                                </div>
+                                                <div><label className="block text-xs font-medium">آخر موعد لتقديم الطعن</label><input type="date" name="filingDeadline" value={formData.filingDeadline || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                                 {!modal.isEditing && <div><label className="block text-sm font-medium">تاريخ أول جلسة (اختياري)</label><input type="date" name="firstSessionDate" value={formData.firstSessionDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>}
                                 {!modal.isEditing && <div><label className="block text-sm font-medium">سبب التأجيل الأول (إن وجد)</label><input type="text" name="firstSessionReason" value={formData.firstSessionReason || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>}
-                                {modal.isEditing && <div className="p-4 bg-gray-50 border rounded-lg space-y-4"><h3 className="font-semibold">قرار الحسم (إن وجد)</h3><div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium">تاريخ الحسم</label><input type="date" name="decisionDate" value={formData.decisionDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div><label className="block text-xs font-medium">رقم القرار</label><input type="text" name="decisionNumber" value={formData.decisionNumber || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div></div><div><label className="block text-xs font-medium">ملخص القرار</label><textarea name="decisionSummary" value={formData.decisionSummary || ''} onChange={handleFormChange} className="w-full p-2 border rounded" rows={2}></textarea></div><div><label className="block text-xs font-medium">ملاحظات</label><textarea name="decisionNotes" value={formData.decisionNotes || ''} onChange={handleFormChange} className="w-full p-2 border rounded" rows={2}></textarea></div></div>}
+                                {modal.isEditing && <div className="p-4 bg-gray-50 border rounded-lg space-y-4"><h3 className="font-semibold">قرار الحسم (إن وجد)</h3><div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium">تاريخ الحسم</label><input type="date" name="decisionDate" value={formData.decisionDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div><label className="block text-xs font-medium">تاريخ التبليغ</label><input type="date" name="notificationDate" value={formData.notificationDate || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div></div><div><label className="block text-xs font-medium">رقم القرار</label><input type="text" name="decisionNumber" value={formData.decisionNumber || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div><div><label className="block text-xs font-medium">ملخص القرار</label><textarea name="decisionSummary" value={formData.decisionSummary || ''} onChange={handleFormChange} className="w-full p-2 border rounded" rows={2}></textarea></div><div><label className="block text-xs font-medium">ملاحظات</label><textarea name="decisionNotes" value={formData.decisionNotes || ''} onChange={handleFormChange} className="w-full p-2 border rounded" rows={2}></textarea></div><StageOutcomeSelect value={formData.decisionOutcome} onChange={decisionOutcome => setFormData((prev: any) => ({ ...prev, decisionOutcome }))} /></div>}
                                 </>
                             )}
                             {modal.type === 'session' && (
                                 <>
                                 <div><label className="block text-sm font-medium">تاريخ الجلسة</label><input type="date" name="date" value={formData.date || ''} onChange={handleFormChange} className="w-full p-2 border rounded" required /></div>
+                                <div><label className="block text-sm font-medium">المحكمة</label><CourtInput value={formData.court || ''} onChange={court => setFormData((prev: any) => ({ ...prev, court }))} courts={courts} required /></div>
+                                {sessionCourtClosedDay && <p className="text-xs text-amber-700">{sessionCourtClosedDay}</p>}
                                 {modal.isEditing && <div><label className="block text-sm font-medium">سبب التأجيل (السابق)</label><input type="text" name="postponementReason" value={formData.postponementReason || ''} onChange={handleFormChange} className="w-full p-2 border rounded" /></div>}
                                 <div><label className="block text-sm font-medium">المكلف بالحضور</label><select name="assignee" value={formData.assignee || 'بدون تخصيص'} onChange={handleFormChange} className="w-full p-2 border rounded">{assistants.map(a => <option key={a} value={a}>{a}</option>)}</select></div>
                                 </>
@@ -692,7 +858,7 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
             )}
             
             {/* ... (Delete modals remain same) ... */}
-            {isDeleteClientModalOpen && clientToDelete && (<div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setIsDeleteClientModalOpen(false)}><div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}><div className="text-center"><div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4"><ExclamationTriangleIcon className="h-8 w-8 text-red-600" /></div><h3 className="text-2xl font-bold">تأكيد حذف الموكل</h3><p className="my-4">هل أنت متأكد من حذف الموكل "{clientToDelete.name}"؟ سيتم حذف جميع القضايا والبيانات المرتبطة به بشكل نهائي.</p></div><div className="mt-6 flex justify-center gap-4"><button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setIsDeleteClientModalOpen(false)}>إلغاء</button><button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDeleteClient}>نعم، قم بالحذف</button></div></div></div>)}
+            {isDeleteClientModalOpen && clientToDelete && (<div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setIsDeleteClientModalOpen(false)}><div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}><div className="text-center"><div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4"><ExclamationTriangleIcon className="h-8 w-8 text-red-600" /></div><h3 className="text-2xl font-bold">تأكيد حذف الموكل</h3><p className="my-4">هل أنت متأكد من حذف الموكل "{clientToDelete.name}"؟ سيتم نقله مع جميع القضايا والبيانات المرتبطة به إلى سلة المحذوفات.</p></div><div className="mt-6 flex justify-center gap-4"><button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setIsDeleteClientModalOpen(false)}>إلغاء</button><button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDeleteClient}>نعم، قم بالحذف</button></div></div></div>)}
             {isDeleteCaseModalOpen && caseToDelete && (<div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setIsDeleteCaseModalOpen(false)}><div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}><div className="text-center"><div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4"><ExclamationTriangleIcon className="h-8 w-8 text-red-600" /></div><h3 className="text-2xl font-bold">تأكيد حذف القضية</h3><p className="my-4">هل أنت متأكد من حذف قضية "{caseToDelete.caseSubject}"؟</p></div><div className="mt-6 flex justify-center gap-4"><button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setIsDeleteCaseModalOpen(false)}>إلغاء</button><button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDeleteCase}>نعم، قم بالحذف</button></div></div></div>)}
             {isDeleteStageModalOpen && stageToDelete && (<div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setIsDeleteStageModalOpen(false)}><div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}><div className="text-center"><div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4"><ExclamationTriangleIcon className="h-8 w-8 text-red-600" /></div><h3 className="text-2xl font-bold">تأكيد حذف المرحلة</h3><p className="my-4">هل أنت متأكد من حذف مرحلة "{stageToDelete.stageInfo}"؟</p></div><div className="mt-6 flex justify-center gap-4"><button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setIsDeleteStageModalOpen(false)}>إلغاء</button><button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDeleteStage}>نعم، قم بالحذف</button></div></div></div>)}
             {isDeleteSessionModalOpen && sessionToDelete && (<div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setIsDeleteSessionModalOpen(false)}><div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}><div className="text-center"><div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4"><ExclamationTriangleIcon className="h-8 w-8 text-red-600" /></div><h3 className="text-2xl font-bold">تأكيد حذف الجلسة</h3><p className="my-4">هل أنت متأكد من حذف "{sessionToDelete.message}"؟</p></div><div className="mt-6 flex justify-center gap-4"><button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setIsDeleteSessionModalOpen(false)}>إلغاء</button><button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDeleteSession}>نعم، قم بالحذف</button></div></div></div>)}
@@ -710,25 +876,12 @@ const ClientsPage: React.FC<ClientsPageProps> = ({ showContextMenu, onOpenAdminT
             {isPrintModalOpen && printData && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[100] no-print" onClick={() => setIsPrintModalOpen(false)}>
                     <div className="bg-white p-2 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
-                        <div className="overflow-y-auto" ref={printClientReportRef}><PrintableClientReport client={printData.client} caseData={printData.caseData} entries={printData.entries} totals={printData.totals} /></div>
+                        <div className="overflow-y-auto" ref={printClientReportRef}><PrintableClientReport client={printData.client} caseData={printData.caseData} entries={printData.entries} totals={printData.totals} customFieldDefinitions={customFieldDefinitions} /></div>
                         <div className="mt-4 flex justify-end gap-4 border-t p-4"><button onClick={() => setIsPrintModalOpen(false)} className="px-6 py-2 bg-gray-200 rounded-lg">إغلاق</button><button onClick={() => printElement(printClientReportRef.current)} className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg"><PrintIcon className="w-5 h-5"/>طباعة</button></div>
                     </div>
                 </div>
             )}
-            {decideModal.isOpen && decideModal.session && (
-                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={handleCloseDecideModal}>
-                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
-                        <h2 className="text-xl font-bold mb-4 flex items-center gap-2"><GavelIcon className="w-6 h-6"/> تسجيل قرار الحسم</h2>
-                        <form onSubmit={handleDecideSubmit} className="space-y-4">
-                            <div><label className="block text-sm font-medium">تاريخ الحسم</label><input type="date" value={toInputDateString(decideModal.session.date)} readOnly className="w-full p-2 border rounded bg-gray-100" /></div>
-                            <div><label className="block text-sm font-medium">رقم القرار</label><input type="text" value={decideFormData.decisionNumber} onChange={e => setDecideFormData(p => ({...p, decisionNumber: e.target.value}))} className="w-full p-2 border rounded" /></div>
-                            <div><label className="block text-sm font-medium">ملخص القرار</label><textarea value={decideFormData.decisionSummary} onChange={e => setDecideFormData(p => ({...p, decisionSummary: e.target.value}))} className="w-full p-2 border rounded" rows={3}></textarea></div>
-                            <div><label className="block text-sm font-medium">ملاحظات</label><textarea value={decideFormData.decisionNotes} onChange={e => setDecideFormData(p => ({...p, decisionNotes: e.target.value}))} className="w-full p-2 border rounded" rows={2}></textarea></div>
-                            <div className="mt-6 flex justify-end gap-4"><button type="button" onClick={handleCloseDecideModal} className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">إلغاء</button><button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">حفظ القرار</button></div>
-                        </form>
-                    </div>
-                </div>
-            )}
+            {decideModal.isOpen && decideModal.session && decideModal.stage && <StageDecisionModal session={decideModal.session} stage={decideModal.stage} onClose={handleCloseDecideModal} />}
         </div>
     );
 };
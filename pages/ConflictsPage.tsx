@@ -0,0 +1,176 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { SyncConflict, ConflictTable, CustomFieldDefinition } from '../types';
+import { formatDate, toInputDateString, parseInputDateString } from '../utils/dateUtils';
+import { formatCustomFieldValue } from '../utils/customFields';
+import { CHALLENGE_KIND_LABELS, STAGE_OUTCOME_LABELS } from '../utils/stageChain';
+import { ExclamationTriangleIcon, CheckCircleIcon, PencilIcon } from '../components/icons';
+
+const TABLE_LABELS: Record<ConflictTable, string> = {
+    clients: 'موكل',
+    cases: 'قضية',
+    stages: 'مرحلة',
+    sessions: 'جلسة',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+    name: 'اسم الموكل',
+    contactInfo: 'معلومات الاتصال',
+    subject: 'موضوع القضية',
+    clientName: 'اسم الموكل',
+    opponentName: 'اسم الخصم',
+    feeAgreement: 'اتفاقية الأتعاب',
+    status: 'حالة القضية',
+    caseTypeId: 'نوع القضية',
+    tags: 'الوسوم',
+    customFields: 'الحقول المخصصة',
+    court: 'المحكمة',
+    caseNumber: 'رقم الأساس',
+    firstSessionDate: 'تاريخ أول جلسة',
+    decisionDate: 'تاريخ الحسم',
+    notificationDate: 'تاريخ التبليغ',
+    decisionNumber: 'رقم القرار',
+    decisionSummary: 'ملخص القرار',
+    decisionNotes: 'ملاحظات القرار',
+    decisionOutcome: 'نتيجة القرار',
+    challengeKind: 'طريق الطعن',
+    filingDeadline: 'آخر موعد للطعن',
+    date: 'تاريخ الجلسة',
+    postponementReason: 'سبب التأجيل',
+    nextPostponementReason: 'سبب التأجيل القادم',
+    isPostponed: 'حالة التأجيل',
+    nextSessionDate: 'تاريخ الجلسة القادمة',
+    assignee: 'المكلف بالحضور',
+};
+
+const DATE_FIELDS = new Set(['date', 'nextSessionDate', 'firstSessionDate', 'decisionDate', 'notificationDate', 'filingDeadline']);
+const TEXTAREA_FIELDS = new Set(['feeAgreement', 'decisionSummary', 'decisionNotes']);
+const STATUS_LABELS: Record<string, string> = { active: 'نشطة', closed: 'مغلقة', on_hold: 'معلقة' };
+
+const formatFieldValue = (field: string, value: any, customFieldDefinitions: CustomFieldDefinition[]): string => {
+    if (value === undefined || value === null || value === '') return '(فارغ)';
+    if (DATE_FIELDS.has(field)) {
+        const d = new Date(value);
+        return isNaN(d.getTime()) ? String(value) : formatDate(d);
+    }
+    if (field === 'isPostponed') return value ? 'مؤجلة' : 'غير مؤجلة';
+    if (field === 'status') return STATUS_LABELS[value] || String(value);
+    if (field === 'decisionOutcome') return (STAGE_OUTCOME_LABELS as Record<string, string>)[value] || String(value);
+    if (field === 'challengeKind') return (CHALLENGE_KIND_LABELS as Record<string, string>)[value] || String(value);
+    if (Array.isArray(value)) return value.join('، ');
+    if (field === 'customFields') {
+        return customFieldDefinitions.filter(d => d.id in value).map(d => `${d.label}: ${formatCustomFieldValue(d, value[d.id])}`).join('\n') || '(فارغ)';
+    }
+    return String(value);
+};
+
+const ConflictCard: React.FC<{ conflict: SyncConflict; onResolve: (resolution: 'local' | 'remote' | { value: any }) => void }> = ({ conflict, onResolve }) => {
+    const { assistants, customFieldDefinitions } = useData();
+    const [isEditing, setIsEditing] = React.useState(false);
+    const [editValue, setEditValue] = React.useState<any>(() => DATE_FIELDS.has(conflict.field) ? toInputDateString(conflict.localValue) : (conflict.localValue ?? ''));
+    const { field } = conflict;
+
+    const handleSaveEdit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = DATE_FIELDS.has(field) ? (editValue ? parseInputDateString(editValue) : undefined) : editValue;
+        onResolve({ value });
+    };
+
+    const renderEditor = () => {
+        if (DATE_FIELDS.has(field)) {
+            return <input type="date" value={editValue} onChange={e => setEditValue(e.target.value)} className="w-full p-2 border rounded" />;
+        }
+        if (field === 'isPostponed') {
+            return (
+                <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={!!editValue} onChange={e => setEditValue(e.target.checked)} />
+                    <span>مؤجلة</span>
+                </label>
+            );
+        }
+        if (field === 'status') {
+            return <select value={editValue || 'active'} onChange={e => setEditValue(e.target.value)} className="w-full p-2 border rounded"><option value="active">نشطة</option><option value="closed">مغلقة</option><option value="on_hold">معلقة</option></select>;
+        }
+        if (field === 'decisionOutcome' || field === 'challengeKind') {
+            const labels: Record<string, string> = field === 'decisionOutcome' ? STAGE_OUTCOME_LABELS : CHALLENGE_KIND_LABELS;
+            return <select value={editValue || ''} onChange={e => setEditValue(e.target.value || null)} className="w-full p-2 border rounded"><option value="">(فارغ)</option>{Object.entries(labels).map(([key, label]) => <option key={key} value={key}>{label}</option>)}</select>;
+        }
+        if (field === 'assignee') {
+            return <select value={editValue || 'بدون تخصيص'} onChange={e => setEditValue(e.target.value)} className="w-full p-2 border rounded">{assistants.map(a => <option key={a} value={a}>{a}</option>)}</select>;
+        }
+        if (TEXTAREA_FIELDS.has(field)) {
+            return <textarea value={editValue} onChange={e => setEditValue(e.target.value)} className="w-full p-2 border rounded" rows={3}></textarea>;
+        }
+        return <input type="text" value={editValue} onChange={e => setEditValue(e.target.value)} className="w-full p-2 border rounded" />;
+    };
+
+    return (
+        <div className="bg-white p-4 rounded-lg shadow space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2 border-b pb-2">
+                <div>
+                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-amber-100 text-amber-800 me-2">{TABLE_LABELS[conflict.table]}</span>
+                    <span className="font-semibold text-gray-800">{conflict.recordLabel}</span>
+                </div>
+                <span className="text-xs text-gray-500">اكتُشف في {formatDate(new Date(conflict.detectedAt))}</span>
+            </div>
+            <p className="text-sm text-gray-700">الحقل: <strong>{FIELD_LABELS[field] || field}</strong></p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="p-3 rounded border border-blue-200 bg-blue-50">
+                    <h4 className="text-sm font-bold text-blue-800 mb-1">نسختي (هذا الجهاز)</h4>
+                    <p className="text-sm whitespace-pre-wrap">{formatFieldValue(field, conflict.localValue, customFieldDefinitions)}</p>
+                    <button onClick={() => onResolve('local')} className="mt-3 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700">اعتماد نسختي</button>
+                </div>
+                <div className="p-3 rounded border border-green-200 bg-green-50">
+                    <h4 className="text-sm font-bold text-green-800 mb-1">نسخة السحابة</h4>
+                    <p className="text-sm whitespace-pre-wrap">{formatFieldValue(field, conflict.remoteValue, customFieldDefinitions)}</p>
+                    <button onClick={() => onResolve('remote')} className="mt-3 px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700">اعتماد نسخة السحابة</button>
+                </div>
+            </div>
+            {isEditing ? (
+                <form onSubmit={handleSaveEdit} className="p-3 bg-gray-50 border rounded space-y-2">
+                    <label className="block text-sm font-medium">القيمة الجديدة</label>
+                    {renderEditor()}
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setIsEditing(false)} className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300">إلغاء</button>
+                        <button type="submit" className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700">حفظ</button>
+                    </div>
+                </form>
+            ) : field !== 'customFields' && (
+                <button onClick={() => setIsEditing(true)} className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-600">
+                    <PencilIcon className="w-4 h-4" />
+                    <span>تعديل يدوي</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
+const ConflictsPage: React.FC = () => {
+    const { syncConflicts, resolveSyncConflict } = useData();
+
+    const sortedConflicts = React.useMemo(() => [...syncConflicts].sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime()), [syncConflicts]);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-3">
+                <ExclamationTriangleIcon className="w-8 h-8 text-amber-500" />
+                <h1 className="text-3xl font-bold text-gray-800">تعارضات المزامنة</h1>
+            </div>
+            <p className="text-gray-600 text-sm">تم تعديل هذه الحقول على هذا الجهاز وعلى جهاز آخر منذ آخر مزامنة. تم الإبقاء مؤقتاً على نسخة السحابة؛ اختر النسخة الصحيحة أو عدّل القيمة يدوياً، وسيتم رفع اختيارك في المزامنة التالية.</p>
+            {sortedConflicts.length === 0 ? (
+                <div className="bg-white p-6 rounded-lg shadow flex items-center gap-3 text-green-700">
+                    <CheckCircleIcon className="w-6 h-6" />
+                    <span>لا توجد تعارضات بانتظار المراجعة.</span>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {sortedConflicts.map(conflict => (
+                        <ConflictCard key={conflict.id} conflict={conflict} onResolve={(resolution) => resolveSyncConflict(conflict.id, resolution)} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ConflictsPage;
@@ -0,0 +1,182 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { Contact, ContactType } from '../types';
+import { CONTACT_TYPE_LABELS, cleanContactFields, findDuplicateContacts, formatContactInfo, getPartyContact, getWhatsAppUrl, normalizeArabicText, normalizePhone } from '../utils/contacts';
+import { useDebounce } from '../hooks/useDebounce';
+import ContactFields, { ContactFieldValues, DuplicateContactsWarning } from '../components/ContactFields';
+import { AddressBookIcon, PencilIcon, PhoneIcon, PlusIcon, SearchIcon, ShareIcon, TrashIcon } from '../components/icons';
+
+type ContactForm = ContactFieldValues & { id?: string; name: string };
+
+const emptyForm = (): ContactForm => ({ name: '', type: 'opponent', phones: [''] });
+
+const ContactsPage: React.FC = () => {
+    const { contacts, setContacts, deleteContact, clients, setClients, permissions } = useData();
+    const [searchQuery, setSearchQuery] = React.useState('');
+    const [typeFilter, setTypeFilter] = React.useState<ContactType | 'all'>('all');
+    const [form, setForm] = React.useState<ContactForm | null>(null);
+    const [contactToDelete, setContactToDelete] = React.useState<Contact | null>(null);
+    const debouncedSearchQuery = useDebounce(searchQuery, 300);
+
+    // Where each contact is used, so edits and deletions can say what they affect.
+    const usage = React.useMemo(() => {
+        const map = new Map<string, { clients: number; cases: number }>();
+        const entry = (id: string) => map.get(id) || map.set(id, { clients: 0, cases: 0 }).get(id)!;
+        for (const client of clients) {
+            if (client.contactId) entry(client.contactId).clients++;
+            for (const caseItem of client.cases) {
+                const ids = new Set((caseItem.parties || []).map(p => getPartyContact(p, contacts, clients)?.id).filter(Boolean) as string[]);
+                ids.forEach(id => entry(id).cases++);
+            }
+        }
+        return map;
+    }, [clients, contacts]);
+
+    const filteredContacts = React.useMemo(() => {
+        const name = normalizeArabicText(debouncedSearchQuery);
+        const digits = debouncedSearchQuery.replace(/\D/g, '');
+        return contacts
+            .filter(c => typeFilter === 'all' || c.type === typeFilter)
+            .filter(c => !name
+                || normalizeArabicText(c.name).includes(name)
+                || (digits.length > 2 && (c.phones.some(p => normalizePhone(p).includes(digits.replace(/^0+/, ''))) || c.nationalId?.includes(digits))))
+            .sort((a, b) => a.name.localeCompare(b.name, 'ar'));
+    }, [contacts, debouncedSearchQuery, typeFilter]);
+
+    const duplicates = form ? findDuplicateContacts(contacts, { id: form.id, name: form.name, phones: form.phones }) : [];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const name = form.name.trim();
+        if (!name) return;
+        const contact: Contact = {
+            ...(form.id ? contacts.find(c => c.id === form.id) : undefined),
+            id: form.id || `contact-${Date.now()}`,
+            name,
+            type: form.type || 'other',
+            ...cleanContactFields(form),
+            updated_at: new Date(),
+        };
+        if (form.id) {
+            setContacts(prev => prev.map(c => c.id === contact.id ? contact : c));
+            // Clients show their contact's phones and address as their contact info.
+            const contactInfo = formatContactInfo(contact);
+            if (clients.some(c => c.contactId === contact.id && c.contactInfo !== contactInfo)) {
+                setClients(prev => prev.map(c => c.contactId === contact.id && c.contactInfo !== contactInfo ? { ...c, contactInfo, updated_at: new Date() } : c));
+            }
+        } else {
+            setContacts(prev => [...prev, contact]);
+        }
+        setForm(null);
+    };
+
+    const handleConfirmDelete = () => {
+        if (contactToDelete) deleteContact(contactToDelete.id);
+        setContactToDelete(null);
+    };
+
+    const describeUsage = (id: string) => {
+        const used = usage.get(id);
+        if (!used) return '';
+        return [used.clients > 0 && 'ملف موكل', used.cases > 0 && `طرف في ${used.cases} قضية`].filter(Boolean).join(' · ');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <div className="flex items-center gap-3">
+                    <AddressBookIcon className="w-8 h-8 text-gray-500" />
+                    <h1 className="text-3xl font-bold text-gray-800">جهات الاتصال</h1>
+                </div>
+                {permissions.can_add_client && (
+                    <button onClick={() => setForm(emptyForm())} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors">
+                        <PlusIcon className="w-5 h-5" />
+                        <span>جهة اتصال جديدة</span>
+                    </button>
+                )}
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow flex flex-wrap gap-3">
+                <div className="relative flex-grow">
+                    <input type="search" placeholder="ابحث بالاسم أو الهاتف أو الرقم الوطني..." value={searchQuery} onChange={e => setSearchQuery(e.target.value)} className="w-full p-2 ps-10 border rounded-lg bg-gray-50" />
+                    <div className="absolute inset-y-0 start-0 flex items-center ps-3 pointer-events-none"><SearchIcon className="w-4 h-4 text-gray-500" /></div>
+                </div>
+                <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as ContactType | 'all')} className="p-2 border rounded-lg bg-gray-50">
+                    <option value="all">كل الأنواع</option>
+                    {(Object.keys(CONTACT_TYPE_LABELS) as ContactType[]).map(type => <option key={type} value={type}>{CONTACT_TYPE_LABELS[type]}</option>)}
+                </select>
+            </div>
+            {filteredContacts.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{contacts.length === 0 ? 'لا توجد جهات اتصال بعد. تُضاف تلقائياً عند إنشاء الموكلين وأطراف القضايا.' : 'لا توجد نتائج مطابقة.'}</p>
+            ) : (
+                <ul className="grid gap-3 md:grid-cols-2">
+                    {filteredContacts.map(contact => (
+                        <li key={contact.id} className="bg-white p-4 rounded-lg shadow space-y-2">
+                            <div className="flex justify-between items-start gap-2">
+                                <div>
+                                    <span className="font-semibold text-gray-800">{contact.name}</span>
+                                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-gray-100 text-gray-700 ms-2">{CONTACT_TYPE_LABELS[contact.type]}</span>
+                                </div>
+                                <div className="flex gap-1">
+                                    {permissions.can_edit_client && (
+                                        <button onClick={() => setForm({ ...contact, phones: contact.phones.length > 0 ? contact.phones : [''] })} className="p-2 text-gray-500 hover:text-blue-600" aria-label="تعديل"><PencilIcon className="w-4 h-4" /></button>
+                                    )}
+                                    {permissions.can_delete_client && (
+                                        <button onClick={() => setContactToDelete(contact)} className="p-2 text-gray-500 hover:text-red-600" aria-label="حذف"><TrashIcon className="w-4 h-4" /></button>
+                                    )}
+                                </div>
+                            </div>
+                            {contact.phones.map(phone => (
+                                <div key={phone} className="flex items-center gap-3 text-sm">
+                                    <a href={`tel:${phone}`} dir="ltr" className="flex items-center gap-1 text-blue-600 hover:underline"><PhoneIcon className="w-4 h-4" />{phone}</a>
+                                    <a href={getWhatsAppUrl('', phone)} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-green-600 hover:underline"><ShareIcon className="w-4 h-4" />واتساب</a>
+                                </div>
+                            ))}
+                            {contact.address && <p className="text-sm text-gray-600">العنوان: {contact.address}</p>}
+                            {contact.nationalId && <p className="text-sm text-gray-600">الرقم الوطني: {contact.nationalId}</p>}
+                            {contact.notes && <p className="text-sm text-gray-500 whitespace-pre-wrap">{contact.notes}</p>}
+                            {describeUsage(contact.id) && <p className="text-xs text-gray-400">{describeUsage(contact.id)}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {form && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={() => setForm(null)}>
+                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                        <h2 className="text-xl font-bold mb-4">{form.id ? 'تعديل جهة اتصال' : 'إضافة جهة اتصال'}</h2>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div><label className="block text-sm font-medium">الاسم</label><input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full p-2 border rounded" required /></div>
+                            <DuplicateContactsWarning
+                                duplicates={duplicates}
+                                actionLabel="تعديلها بدلاً من ذلك"
+                                onPick={contact => setForm({ ...contact, phones: contact.phones.length > 0 ? contact.phones : [''] })}
+                            />
+                            <ContactFields value={form} onChange={fields => setForm({ ...form, ...fields })} showType />
+                            <div className="flex justify-end gap-4 pt-4">
+                                <button type="button" onClick={() => setForm(null)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button>
+                                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">حفظ</button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+            {contactToDelete && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={() => setContactToDelete(null)}>
+                    <div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-2xl font-bold text-center">تأكيد الحذف</h3>
+                        <p className="my-4 text-center">
+                            سيتم حذف جهة الاتصال "{contactToDelete.name}" من الدليل.
+                            {describeUsage(contactToDelete.id) && ` هي مستخدمة حالياً (${describeUsage(contactToDelete.id)}) وستبقى الأسماء فيها كما هي.`}
+                        </p>
+                        <div className="mt-6 flex justify-center gap-4">
+                            <button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setContactToDelete(null)}>إلغاء</button>
+                            <button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmDelete}>نعم، احذف</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ContactsPage;
@@ -2,14 +2,20 @@
 import * as React from 'react';
 import Calendar from '../components/Calendar';
 import { Session, AdminTask, Appointment, Stage, Client } from '../types';
-import { formatDate, isSameDay, isBeforeToday, toInputDateString } from '../utils/dateUtils';
-import { PrintIcon, PlusIcon, PencilIcon, TrashIcon, SearchIcon, ExclamationTriangleIcon, CalendarIcon, ChevronLeftIcon, ScaleIcon, BuildingLibraryIcon, ShareIcon, UserIcon, ClipboardDocumentIcon, ClipboardDocumentCheckIcon, HomeIcon, ListBulletIcon, ViewColumnsIcon } from '../components/icons';
+import { formatDate, isSameDay, isBeforeToday, toInputDateString, parseInputDateString } from '../utils/dateUtils';
+import { PrintIcon, PlusIcon, PencilIcon, TrashIcon, SearchIcon, ExclamationTriangleIcon, CalendarIcon, ChevronLeftIcon, ScaleIcon, BuildingLibraryIcon, ShareIcon, UserIcon, ClipboardDocumentIcon, ClipboardDocumentCheckIcon, HomeIcon, ListBulletIcon, ViewColumnsIcon, ArrowPathIcon } from '../components/icons';
 import SessionsTable from '../components/SessionsTable';
 import PrintableReport from '../components/PrintableReport';
 import { printElement } from '../utils/printUtils';
-import { MenuItem } from '../components/ContextMenu';
+import { MenuItem, createWhatsAppMenuItems } from '../components/ContextMenu';
+import { getWhatsAppRecipients } from '../utils/contacts';
 import { useDebounce } from '../hooks/useDebounce';
 import { useData } from '../context/DataContext';
+import StageDecisionModal from '../components/StageDecisionModal';
+import DeadlinesTable from '../components/DeadlinesTable';
+import { getDeadlineEntries, getDeadlineStatus } from '../utils/deadlines';
+import RecurrenceFields, { RecurrenceScopeSelect, createRecurrenceForm, toRecurrenceRule } from '../components/RecurrenceFields';
+import { RecurrenceEditScope, applyOccurrenceEdit, describeRecurrence, detachOccurrence, expandAdminTasks, expandAppointments, getRuleFromOccurrence, getSeriesId, parseOccurrenceId, removeOccurrences } from '../utils/recurrence';
 
 // ... (Constants importanceMap, importanceMapAdminTasks, formatTime, and AppointmentsTable remain the same)
 const importanceMap: { [key: string]: { text: string, className: string } } = {
@@ -93,7 +99,10 @@ const AppointmentsTable: React.FC<{ appointments: Appointment[], onAddAppointmen
                                             aria-label={`Mark appointment ${a.title} as ${a.completed ? 'incomplete' : 'complete'}`}
                                         />
                                     </td>
-                                    <td className={`px-6 py-4 ${a.completed ? 'line-through' : ''}`}>{a.title}</td>
+                                    <td className={`px-6 py-4 ${a.completed ? 'line-through' : ''}`}>
+                                        {a.title}
+                                        {a.recurrence && <span className="inline-block ms-1 align-middle text-blue-500" title={describeRecurrence(a.recurrence)}><ArrowPathIcon className="w-3.5 h-3.5" /></span>}
+                                    </td>
                                     <td className={`px-6 py-4 ${a.completed ? 'line-through' : ''}`}>{formatTime(a.time)}</td>
                                     <td className={`px-6 py-4 ${a.completed ? 'line-through' : ''}`}>{a.assignee}</td>
                                     <td className="px-6 py-4">
@@ -143,6 +152,9 @@ const HomePage: React.FC<HomePageProps> = ({
         postponeSession,
         setClients,
         clients,
+        contacts,
+        deadlines,
+        setDeadlines,
         adminTasksLayout,
         setAdminTasksLayout,
         locationOrder: savedLocationOrder,
@@ -152,12 +164,15 @@ const HomePage: React.FC<HomePageProps> = ({
 
     // ... (State variables and effects remain the same)
     const [calendarViewDate, setCalendarViewDate] = React.useState(selectedDate);
-    type ViewMode = 'daily' | 'unpostponed' | 'upcoming';
+    type ViewMode = 'daily' | 'unpostponed' | 'upcoming' | 'deadlines';
     const [viewMode, setViewMode] = React.useState<ViewMode>('daily');
     const [isAppointmentModalOpen, setIsAppointmentModalOpen] = React.useState(false);
     const [editingAppointment, setEditingAppointment] = React.useState<Appointment | null>(null);
     const [newAppointment, setNewAppointment] = React.useState<{ title: string; date: string; time: string; importance: 'normal' | 'important' | 'urgent'; reminderTimeInMinutes: number; assignee: string; }>({ title: '', date: '', time: '', importance: 'normal', reminderTimeInMinutes: 15, assignee: 'بدون تخصيص' });
     const [dateWarning, setDateWarning] = React.useState<string | null>(null);
+    const [appointmentRecurrence, setAppointmentRecurrence] = React.useState(createRecurrenceForm());
+    const [appointmentEditScope, setAppointmentEditScope] = React.useState<RecurrenceEditScope>('single');
+    const [deleteScope, setDeleteScope] = React.useState<RecurrenceEditScope>('single');
 
     const [activeTaskTab, setActiveTaskTab] = React.useState<'pending' | 'completed'>('pending');
     const [adminTaskSearch, setAdminTaskSearch] = React.useState('');
@@ -180,7 +195,6 @@ const HomePage: React.FC<HomePageProps> = ({
     const [editingAssigneeTaskId, setEditingAssigneeTaskId] = React.useState<string | null>(null);
     
     const [decideModal, setDecideModal] = React.useState<{ isOpen: boolean; session?: Session, stage?: Stage }>({ isOpen: false });
-    const [decideFormData, setDecideFormData] = React.useState({ decisionNumber: '', decisionSummary: '', decisionNotes: '' });
     
     React.useEffect(() => {
         setCalendarViewDate(selectedDate);
@@ -190,6 +204,7 @@ const HomePage: React.FC<HomePageProps> = ({
     const handleOpenAddAppointmentModal = () => {
         setEditingAppointment(null);
         setNewAppointment({ title: '', date: toInputDateString(selectedDate), time: '', importance: 'normal', reminderTimeInMinutes: 15, assignee: 'بدون تخصيص' });
+        setAppointmentRecurrence(createRecurrenceForm());
         setIsAppointmentModalOpen(true);
         setDateWarning(null);
     };
@@ -204,6 +219,10 @@ const HomePage: React.FC<HomePageProps> = ({
             reminderTimeInMinutes: apt.reminderTimeInMinutes ?? 15,
             assignee: apt.assignee ?? 'بدون تخصيص',
         });
+        const occurrence = parseOccurrenceId(apt.id);
+        const series = occurrence ? appointments.find(a => a.id === occurrence.seriesId) : undefined;
+        setAppointmentRecurrence(createRecurrenceForm(series?.recurrence && occurrence ? getRuleFromOccurrence(series.recurrence, series.date, occurrence.dateKey) : apt.recurrence));
+        setAppointmentEditScope('single');
         setIsAppointmentModalOpen(true);
     }
 
@@ -214,6 +233,14 @@ const HomePage: React.FC<HomePageProps> = ({
     }
     
     const handleToggleAppointmentComplete = (id: string) => {
+        const occurrence = parseOccurrenceId(id);
+        if (occurrence) {
+            // A done occurrence is kept as an appointment of its own so the series carries on.
+            setAppointments(prev => prev.flatMap(apt => apt.id === occurrence.seriesId
+                ? detachOccurrence(apt, occurrence.dateKey, { id: `apt-${Date.now()}`, date: parseInputDateString(occurrence.dateKey)!, completed: true })
+                : [apt]));
+            return;
+        }
         setAppointments(prev => 
             prev.map(apt => 
                 apt.id === id ? { ...apt, completed: !apt.completed, updated_at: new Date() } : apt
@@ -244,18 +271,27 @@ const HomePage: React.FC<HomePageProps> = ({
         const [year, month, day] = newAppointment.date.split('-').map(Number);
         const appointmentDate = new Date(year, month - 1, day);
 
+        const recurrence = toRecurrenceRule(appointmentRecurrence);
+        const occurrence = editingAppointment ? parseOccurrenceId(editingAppointment.id) : null;
         if (editingAppointment) {
-            setAppointments(prev => prev.map(apt => apt.id === editingAppointment.id ? {
-                ...apt,
+            const editedFields = {
                 title: newAppointment.title,
                 date: appointmentDate,
                 time: newAppointment.time,
                 importance: newAppointment.importance,
                 reminderTimeInMinutes: newAppointment.reminderTimeInMinutes,
                 assignee: newAppointment.assignee,
+                recurrence,
                 notified: false,
                 updated_at: new Date(),
-            } : apt));
+            };
+            if (occurrence) {
+                setAppointments(prev => prev.flatMap(apt => apt.id === occurrence.seriesId
+                    ? applyOccurrenceEdit(apt, apt.date, occurrence.dateKey, appointmentEditScope, { ...apt, ...editedFields, id: `apt-${Date.now()}`, completed: false })
+                    : [apt]));
+            } else {
+                setAppointments(prev => prev.map(apt => apt.id === editingAppointment.id ? { ...apt, ...editedFields, excludedDates: recurrence ? apt.excludedDates : [] } : apt));
+            }
         } else {
             const newAppointmentObject: Appointment = {
                 id: `apt-${Date.now()}`,
@@ -266,6 +302,8 @@ const HomePage: React.FC<HomePageProps> = ({
                 completed: false,
                 reminderTimeInMinutes: newAppointment.reminderTimeInMinutes,
                 assignee: newAppointment.assignee,
+                recurrence,
+                excludedDates: [],
                 notified: false,
                 updated_at: new Date(),
             };
@@ -276,6 +314,7 @@ const HomePage: React.FC<HomePageProps> = ({
     
     const openDeleteAppointmentModal = (appointment: Appointment) => {
         setAppointmentToDelete(appointment);
+        setDeleteScope('single');
         setIsDeleteAppointmentModalOpen(true);
     };
 
@@ -285,14 +324,23 @@ const HomePage: React.FC<HomePageProps> = ({
     };
 
     const handleConfirmDeleteAppointment = () => {
-        if (appointmentToDelete) {
+        if (!appointmentToDelete) return;
+        const occurrence = parseOccurrenceId(appointmentToDelete.id);
+        if (occurrence) {
+            setAppointments(prev => prev.flatMap(apt => {
+                if (apt.id !== occurrence.seriesId) return [apt];
+                const remaining = removeOccurrences(apt, apt.date, occurrence.dateKey, deleteScope);
+                return remaining ? [remaining] : [];
+            }));
+        } else {
             deleteAppointment(appointmentToDelete.id);
-            closeDeleteAppointmentModal();
         }
+        closeDeleteAppointmentModal();
     };
 
     const openDeleteTaskModal = (task: AdminTask) => {
         setTaskToDelete(task);
+        setDeleteScope('single');
         setIsDeleteTaskModalOpen(true);
     };
 
@@ -302,17 +350,40 @@ const HomePage: React.FC<HomePageProps> = ({
     };
 
     const handleConfirmDeleteTask = () => {
-        if (taskToDelete) {
+        if (!taskToDelete) return;
+        const occurrence = parseOccurrenceId(taskToDelete.id);
+        if (occurrence) {
+            setAdminTasks(prev => prev.flatMap(task => {
+                if (task.id !== occurrence.seriesId) return [task];
+                const remaining = removeOccurrences(task, task.dueDate, occurrence.dateKey, deleteScope);
+                return remaining ? [remaining] : [];
+            }));
+        } else {
             deleteAdminTask(taskToDelete.id);
-            closeDeleteTaskModal();
         }
+        closeDeleteTaskModal();
+    };
+
+    // Changing one occurrence of a recurring task turns it into a task of its own, leaving the rest of the series as it was.
+    const updateTaskOccurrence = (id: string, changes: Partial<AdminTask>) => {
+        const occurrence = parseOccurrenceId(id);
+        if (!occurrence) return false;
+        setAdminTasks(prev => prev.flatMap(t => t.id === occurrence.seriesId
+            ? detachOccurrence(t, occurrence.dateKey, { id: `task-${Date.now()}`, dueDate: parseInputDateString(occurrence.dateKey)!, completed: false, ...changes })
+            : [t]));
+        return true;
     };
 
     const handleToggleTaskComplete = (id: string) => {
+        if (updateTaskOccurrence(id, { completed: true })) return;
         setAdminTasks(prev => prev.map(t => t.id === id ? { ...t, completed: !t.completed, updated_at: new Date() } : t));
     };
 
     const handleAssigneeChange = (taskId: string, newAssignee: string) => {
+        if (updateTaskOccurrence(taskId, { assignee: newAssignee })) {
+            setEditingAssigneeTaskId(null);
+            return;
+        }
         setAdminTasks(prevTasks =>
             prevTasks.map(t =>
                 t.id === taskId ? { ...t, assignee: newAssignee, updated_at: new Date() } : t
@@ -340,8 +411,10 @@ const HomePage: React.FC<HomePageProps> = ({
     const handleDragEnd = () => { document.body.classList.remove('grabbing'); draggedTaskId.current = null; setDraggedGroupLocation(null); setIsDragging(false); setDragOverTaskId(null); setDropPosition(null); setDragOverLocation(null); };
 
     const handleTaskDrop = (targetTaskId: string | null, targetLocation: string, position: 'before' | 'after') => {
-        const currentDraggedId = draggedTaskId.current;
+        // Dragging an occurrence moves its whole series.
+        const currentDraggedId = draggedTaskId.current && getSeriesId(draggedTaskId.current);
         if (!currentDraggedId) return;
+        if (targetTaskId) targetTaskId = getSeriesId(targetTaskId);
     
         setAdminTasks(currentTasks => {
             const updatedTasks = currentTasks.map(t => ({...t}));
@@ -406,16 +479,22 @@ const HomePage: React.FC<HomePageProps> = ({
     // Session Handlers
     const handlePostponeSession = (sessionId: string, newDate: Date, newReason: string) => { postponeSession(sessionId, newDate, newReason); };
     const handleUpdateSession = (sessionId: string, updatedFields: Partial<Session>) => { setClients(currentClients => { return currentClients.map(client => ({ ...client, updated_at: new Date(), cases: client.cases.map(caseItem => ({ ...caseItem, updated_at: new Date(), stages: caseItem.stages.map(stage => { const sessionIndex = stage.sessions.findIndex(s => s.id === sessionId); if (sessionIndex === -1) { return stage; } const updatedSessions = [...stage.sessions]; updatedSessions[sessionIndex] = { ...updatedSessions[sessionIndex], ...updatedFields, updated_at: new Date(), }; return { ...stage, sessions: updatedSessions, updated_at: new Date(), }; }), })), })); }); };
-    const handleOpenDecideModal = (session: Session) => { if (!session.stageId) { console.error("Cannot decide session: stageId is missing.", session); return; } let foundStage: Stage | null = null; for (const client of clients) { for (const caseItem of client.cases) { const stage = caseItem.stages.find(st => st.id === session.stageId); if (stage) { foundStage = stage; break; } } if (foundStage) break; } if (!foundStage) { console.error("Cannot decide session: Corresponding stage not found for stageId:", session.stageId); return; } setDecideFormData({ decisionNumber: '', decisionSummary: '', decisionNotes: '' }); setDecideModal({ isOpen: true, session, stage: foundStage }); };
+    const handleOpenDecideModal = (session: Session) => { if (!session.stageId) { console.error("Cannot decide session: stageId is missing.", session); return; } let foundStage: Stage | null = null; for (const client of clients) { for (const caseItem of client.cases) { const stage = caseItem.stages.find(st => st.id === session.stageId); if (stage) { foundStage = stage; break; } } if (foundStage) break; } if (!foundStage) { console.error("Cannot decide session: Corresponding stage not found for stageId:", session.stageId); return; } setDecideModal({ isOpen: true, session, stage: foundStage }); };
     const handleCloseDecideModal = () => { setDecideModal({ isOpen: false }); };
-    const handleDecideSubmit = (e: React.FormEvent) => { e.preventDefault(); const { session, stage } = decideModal; if (!session || !stage) return; setClients(currentClients => currentClients.map(client => ({ ...client, updated_at: new Date(), cases: client.cases.map(c => ({ ...c, updated_at: new Date(), stages: c.stages.map(st => { if (st.id === stage.id) { return { ...st, decisionDate: session.date, decisionNumber: decideFormData.decisionNumber, decisionSummary: decideFormData.decisionSummary, decisionNotes: decideFormData.decisionNotes, updated_at: new Date(), }; } return st; }) })) }))); handleCloseDecideModal(); };
 
     // Memos
-    const dailyData = React.useMemo(() => ({ dailySessions: allSessions.filter(s => isSameDay(s.date, selectedDate)), dailyAppointments: appointments.filter(a => isSameDay(a.date, selectedDate)) }), [selectedDate, allSessions, appointments]);
+    const deadlineEntries = React.useMemo(() => getDeadlineEntries(deadlines, clients), [deadlines, clients]);
+    const dailyData = React.useMemo(() => ({ dailySessions: allSessions.filter(s => isSameDay(s.date, selectedDate)), dailyAppointments: expandAppointments(appointments, selectedDate, selectedDate).filter(a => isSameDay(a.date, selectedDate)), dailyDeadlines: deadlineEntries.filter(e => isSameDay(new Date(e.deadline.dueDate), selectedDate)) }), [selectedDate, allSessions, appointments, deadlineEntries]);
+    // Pending deadlines first; the ones already filed stay listed below them for reference.
+    const sortedDeadlineEntries = React.useMemo(() => [...deadlineEntries].sort((a, b) => Number(a.deadline.completed) - Number(b.deadline.completed)), [deadlineEntries]);
+    const pressingDeadlinesCount = React.useMemo(() => deadlineEntries.filter(e => ['missed', 'urgent'].includes(getDeadlineStatus(e.deadline))).length, [deadlineEntries]);
+    const handleToggleDeadlineComplete = (id: string) => setDeadlines(prev => prev.map(d => d.id === id ? { ...d, completed: !d.completed, updated_at: new Date() } : d));
     const upcomingSessions = React.useMemo(() => { const tomorrow = new Date(selectedDate); tomorrow.setDate(tomorrow.getDate() + 1); tomorrow.setHours(0, 0, 0, 0); return allSessions.filter(s => new Date(s.date) >= tomorrow).sort((a, b) => a.date.getTime() - b.date.getTime()); }, [allSessions, selectedDate]);
+    // Recurring tasks are listed as their occurrences due so far plus the next one.
+    const listedTasks = React.useMemo(() => expandAdminTasks(adminTasks, new Date()), [adminTasks]);
     const groupedTasks: Record<string, AdminTask[]> = React.useMemo(() => {
         const isCompleted = activeTaskTab === 'completed';
-        const filtered = adminTasks.filter(task => {
+        const filtered = listedTasks.filter(task => {
             const searchLower = debouncedAdminTaskSearch.toLowerCase();
             const matchesSearch = searchLower === '' || task.task.toLowerCase().includes(searchLower) || (task.assignee && task.assignee.toLowerCase().includes(searchLower)) || (task.location && task.location.toLowerCase().includes(searchLower));
             return task.completed === isCompleted && matchesSearch;
@@ -431,25 +510,25 @@ const HomePage: React.FC<HomePageProps> = ({
             acc[location].push(task);
             return acc;
         }, {} as Record<string, AdminTask[]>);
-    }, [adminTasks, activeTaskTab, debouncedAdminTaskSearch]);
+    }, [listedTasks, activeTaskTab, debouncedAdminTaskSearch]);
     
     React.useEffect(() => { const allKnownLocations = new Set(Object.keys(groupedTasks)); const currentSavedOrder = savedLocationOrder || []; const ordered = currentSavedOrder.filter(loc => allKnownLocations.has(loc)); const orderedSet = new Set(ordered); let changed = false; allKnownLocations.forEach(loc => { if (!orderedSet.has(loc)) { ordered.push(loc); changed = true; } }); if (changed || ordered.length !== currentSavedOrder.length) { setSavedLocationOrder(ordered); } setLocationOrder(ordered); }, [groupedTasks, savedLocationOrder, setSavedLocationOrder]);
     React.useEffect(() => { if (activeLocationTab && locationOrder.includes(activeLocationTab)) { return; } if (locationOrder.length > 0) { setActiveLocationTab(locationOrder[0]); } else { setActiveLocationTab(''); } }, [locationOrder, activeLocationTab]);
 
     const handleDateSelect = (date: Date) => { setSelectedDate(date); setViewMode('daily'); };
     const handleShowTodaysAgenda = () => { const today = new Date(); setSelectedDate(today); setCalendarViewDate(today); setViewMode('daily'); };
-    const getTitle = () => { switch(viewMode) { case 'unpostponed': return "الجلسات غير المرحلة"; case 'upcoming': return `الجلسات القادمة (بعد ${formatDate(selectedDate)})`; case 'daily': default: return `جدول أعمال يوم: ${formatDate(selectedDate)}`; } };
+    const getTitle = () => { switch(viewMode) { case 'unpostponed': return "الجلسات غير المرحلة"; case 'upcoming': return `الجلسات القادمة (بعد ${formatDate(selectedDate)})`; case 'deadlines': return "المهل القانونية"; case 'daily': default: return `جدول أعمال يوم: ${formatDate(selectedDate)}`; } };
     
     // ... (ContextMenu Handlers remain same)
     const handleAppointmentContextMenu = (event: React.MouseEvent, appointment: Appointment) => { const menuItems: MenuItem[] = [ { label: 'إرسال إلى المهام الإدارية', icon: <BuildingLibraryIcon className="w-4 h-4" />, onClick: () => { const description = `متابعة موعد "${appointment.title}" يوم ${formatDate(appointment.date)} الساعة ${formatTime(appointment.time)}.\nالمكلف: ${appointment.assignee || 'غير محدد'}.\nالأهمية: ${importanceMap[appointment.importance]?.text}.`; onOpenAdminTaskModal({ task: description, assignee: appointment.assignee, importance: appointment.importance, }); } }, { label: 'مشاركة عبر واتساب', icon: <ShareIcon className="w-4 h-4" />, onClick: () => { const message = [ `*موعد:* ${appointment.title}`, `*التاريخ:* ${formatDate(appointment.date)}`, `*الوقت:* ${formatTime(appointment.time)}`, `*المسؤول:* ${appointment.assignee || 'غير محدد'}`, `*الأهمية:* ${importanceMap[appointment.importance]?.text}` ].join('\n'); const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`; window.open(whatsappUrl, '_blank'); } } ]; showContextMenu(event, menuItems); }
-    const handleSessionContextMenu = (event: React.MouseEvent, session: Session) => { let client, caseItem, stage; for (const c of clients) { for (const cs of c.cases) { const s = cs.stages.find(st => st.id === session.stageId); if (s) { client = c; caseItem = cs; stage = s; break; } } if (stage) break; } let description = ''; let message = ''; if (client && caseItem && stage) { const details = [ `*الموكل:* ${client.name}`, `*الخصم:* ${caseItem.opponentName}`, `*القضية:* ${caseItem.subject}`, `*المحكمة:* ${stage.court}`, `*رقم الأساس:* ${stage.caseNumber}`, `*تاريخ الجلسة:* ${formatDate(session.date)}`, `*المكلف بالحضور:* ${session.assignee || 'غير محدد'}`, `*سبب التأجيل السابق:* ${session.postponementReason || 'لا يوجد'}` ]; if (session.stageDecisionDate) { details.push('---'); details.push(`*تم حسم المرحلة:*`); details.push(`*تاريخ الحسم:* ${formatDate(new Date(session.stageDecisionDate))}`); if (stage.decisionNumber) details.push(`*رقم القرار:* ${stage.decisionNumber}`); if (stage.decisionSummary) details.push(`*ملخص القرار:* ${stage.decisionSummary}`); } description = `متابعة جلسة قضائية:\n- ${details.join('\n- ')}`; message = `*ملخص جلسة قضائية:*\n${details.join('\n')}`; } else { description = `متابعة جلسة قضية (${session.clientName} ضد ${session.opponentName}) يوم ${formatDate(session.date)} في محكمة ${session.court} (أساس: ${session.caseNumber}).\nسبب التأجيل السابق: ${session.postponementReason || 'لا يوجد'}.\nالمكلف بالحضور: ${session.assignee}.`; message = [ `*جلسة قضائية:*`, `*القضية:* ${session.clientName} ضد ${session.opponentName}`, `*المحكمة:* ${session.court} (أساس: ${session.caseNumber})`, `*التاريخ:* ${formatDate(session.date)}`, `*المسؤول:* ${session.assignee || 'غير محدد'}`, `*سبب التأجيل السابق:* ${session.postponementReason || 'لا يوجد'}` ].join('\n'); } const menuItems: MenuItem[] = [ { label: 'إرسال إلى المهام الإدارية', icon: <BuildingLibraryIcon className="w-4 h-4" />, onClick: () => { onOpenAdminTaskModal({ task: description, assignee: session.assignee, }); } }, { label: 'مشاركة عبر واتساب', icon: <ShareIcon className="w-4 h-4" />, onClick: () => { const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(message)}`; window.open(whatsappUrl, '_blank'); } } ]; showContextMenu(event, menuItems); }
+    const handleSessionContextMenu = (event: React.MouseEvent, session: Session) => { let client, caseItem, stage; for (const c of clients) { for (const cs of c.cases) { const s = cs.stages.find(st => st.id === session.stageId); if (s) { client = c; caseItem = cs; stage = s; break; } } if (stage) break; } let description = ''; let message = ''; if (client && caseItem && stage) { const details = [ `*الموكل:* ${client.name}`, `*الخصم:* ${caseItem.opponentName}`, `*القضية:* ${caseItem.subject}`, `*المحكمة:* ${stage.court}`, `*رقم الأساس:* ${stage.caseNumber}`, `*تاريخ الجلسة:* ${formatDate(session.date)}`, `*المكلف بالحضور:* ${session.assignee || 'غير محدد'}`, `*سبب التأجيل السابق:* ${session.postponementReason || 'لا يوجد'}` ]; if (session.stageDecisionDate) { details.push('---'); details.push(`*تم حسم المرحلة:*`); details.push(`*تاريخ الحسم:* ${formatDate(new Date(session.stageDecisionDate))}`); if (stage.decisionNumber) details.push(`*رقم القرار:* ${stage.decisionNumber}`); if (stage.decisionSummary) details.push(`*ملخص القرار:* ${stage.decisionSummary}`); } description = `متابعة جلسة قضائية:\n- ${details.join('\n- ')}`; message = `*ملخص جلسة قضائية:*\n${details.join('\n')}`; } else { description = `متابعة جلسة قضية (${session.clientName} ضد ${session.opponentName}) يوم ${formatDate(session.date)} في محكمة ${session.court} (أساس: ${session.caseNumber}).\nسبب التأجيل السابق: ${session.postponementReason || 'لا يوجد'}.\nالمكلف بالحضور: ${session.assignee}.`; message = [ `*جلسة قضائية:*`, `*القضية:* ${session.clientName} ضد ${session.opponentName}`, `*المحكمة:* ${session.court} (أساس: ${session.caseNumber})`, `*التاريخ:* ${formatDate(session.date)}`, `*المسؤول:* ${session.assignee || 'غير محدد'}`, `*سبب التأجيل السابق:* ${session.postponementReason || 'لا يوجد'}` ].join('\n'); } const menuItems: MenuItem[] = [ { label: 'إرسال إلى المهام الإدارية', icon: <BuildingLibraryIcon className="w-4 h-4" />, onClick: () => { onOpenAdminTaskModal({ task: description, assignee: session.assignee, caseId: caseItem?.id }); } }, ...createWhatsAppMenuItems(message, client ? getWhatsAppRecipients(client, caseItem, contacts, clients) : []) ]; showContextMenu(event, menuItems); }
     const handleAdminTaskContextMenu = (event: React.MouseEvent, task: AdminTask) => { const menuItems: MenuItem[] = [ { label: 'مشاركة عبر واتساب', icon: <ShareIcon className="w-4 h-4" />, onClick: () => handleShareTask(task), }, ]; showContextMenu(event, menuItems); };
 
     const adminTaskLongPressTimer = React.useRef<number | null>(null);
     const handleAdminTaskTouchStart = (e: React.TouchEvent, task: AdminTask) => { adminTaskLongPressTimer.current = window.setTimeout(() => { const touch = e.touches[0]; const mockEvent = { preventDefault: () => e.preventDefault(), clientX: touch.clientX, clientY: touch.clientY }; handleAdminTaskContextMenu(mockEvent as any, task); }, 500); };
     const handleAdminTaskTouchEnd = () => { if (adminTaskLongPressTimer.current !== null) { window.clearTimeout(adminTaskLongPressTimer.current); adminTaskLongPressTimer.current = null; } };
 
-    const renderTaskItem = (task: AdminTask, location: string) => ( <div key={task.id} draggable={activeTaskTab === 'pending'} onDragStart={e => handleDragStart(e, 'task', task.id)} onDragEnd={handleDragEnd} onDragOver={e => { if (activeTaskTab !== 'pending' || !draggedTaskId.current || draggedTaskId.current === task.id) return; e.preventDefault(); setDragOverTaskId(task.id); const rect = e.currentTarget.getBoundingClientRect(); const midpoint = rect.top + rect.height / 2; setDropPosition(e.clientY < midpoint ? 'before' : 'after'); }} onDragLeave={() => { setDragOverTaskId(null); setDropPosition(null); }} onDrop={e => { if (activeTaskTab !== 'pending' || !dropPosition) return; e.preventDefault(); e.stopPropagation(); handleTaskDrop(task.id, location, dropPosition); setDragOverTaskId(null); setDropPosition(null); }} onContextMenu={(e) => handleAdminTaskContextMenu(e, task)} onTouchStart={(e) => handleAdminTaskTouchStart(e, task)} onTouchEnd={handleAdminTaskTouchEnd} onTouchMove={handleAdminTaskTouchEnd} className={`relative p-3 border rounded-lg transition-all duration-150 ${draggedTaskId.current === task.id ? 'opacity-40 scale-95' : 'opacity-100 scale-100'} ${task.completed ? 'bg-green-50/70 border-green-200' : 'bg-white border-gray-200 hover:bg-gray-50 hover:shadow-sm'} ${activeTaskTab === 'pending' ? 'cursor-move' : ''}`} > {dragOverTaskId === task.id && dropPosition === 'before' && <div className="absolute top-0 left-0 right-0 h-1 bg-blue-500 rounded-full z-10"></div>} <div className="flex items-start gap-3"> <div className="flex-shrink-0 pt-1"> <input type="checkbox" checked={task.completed} onChange={() => handleToggleTaskComplete(task.id)} className="w-5 h-5 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500" /> </div> <div className="flex-grow min-w-0"> <p className={`font-medium text-base whitespace-pre-wrap ${task.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>{task.task}</p> <div className="mt-2 flex items-center gap-x-4 gap-y-2 text-sm text-gray-600"> <div className="flex items-center gap-1.5" onClick={() => activeTaskTab === 'pending' && setEditingAssigneeTaskId(task.id)}> <UserIcon className="w-4 h-4 text-gray-400" /> {editingAssigneeTaskId === task.id ? ( <select value={task.assignee} onChange={(e) => handleAssigneeChange(task.id, e.target.value)} onBlur={() => setEditingAssigneeTaskId(null)} className="p-1 border rounded bg-white text-sm focus:ring-blue-500 focus:border-blue-500" autoFocus> {assistants.map(name => ( <option key={name} value={name}> {name} </option> ))} </select> ) : ( <span className={activeTaskTab === 'pending' ? 'cursor-pointer hover:text-blue-600' : ''}> {task.assignee || '-'} </span> )} </div> <div className="flex items-center gap-1.5"> <CalendarIcon className="w-4 h-4 text-gray-400" /> <span>{formatDate(task.dueDate)}</span> </div> <div className="flex items-center gap-1.5"> <span className={`px-2 py-1 text-xs font-semibold rounded-full ${importanceMapAdminTasks[task.importance]?.className}`}> {importanceMapAdminTasks[task.importance]?.text} </span> </div> </div> </div> <div className="flex flex-col sm:flex-row items-center gap-0 sm:gap-1 flex-shrink-0"> <button onClick={() => handleShareTask(task)} className="p-2 text-gray-500 hover:bg-gray-100 hover:text-green-600 rounded-full" title="مشاركة عبر واتساب"><ShareIcon className="w-4 h-4" /></button> 
+    const renderTaskItem = (task: AdminTask, location: string) => ( <div key={task.id} draggable={activeTaskTab === 'pending'} onDragStart={e => handleDragStart(e, 'task', task.id)} onDragEnd={handleDragEnd} onDragOver={e => { if (activeTaskTab !== 'pending' || !draggedTaskId.current || draggedTaskId.current === task.id) return; e.preventDefault(); setDragOverTaskId(task.id); const rect = e.currentTarget.getBoundingClientRect(); const midpoint = rect.top + rect.height / 2; setDropPosition(e.clientY < midpoint ? 'before' : 'after'); }} onDragLeave={() => { setDragOverTaskId(null); setDropPosition(null); }} onDrop={e => { if (activeTaskTab !== 'pending' || !dropPosition) return; e.preventDefault(); e.stopPropagation(); handleTaskDrop(task.id, location, dropPosition); setDragOverTaskId(null); setDropPosition(null); }} onContextMenu={(e) => handleAdminTaskContextMenu(e, task)} onTouchStart={(e) => handleAdminTaskTouchStart(e, task)} onTouchEnd={handleAdminTaskTouchEnd} onTouchMove={handleAdminTaskTouchEnd} className={`relative p-3 border rounded-lg transition-all duration-150 ${draggedTaskId.current === task.id ? 'opacity-40 scale-95' : 'opacity-100 scale-100'} ${task.completed ? 'bg-green-50/70 border-green-200' : 'bg-white border-gray-200 hover:bg-gray-50 hover:shadow-sm'} ${activeTaskTab === 'pending' ? 'cursor-move' : ''}`} > {dragOverTaskId === task.id && dropPosition === 'before' && <div className="absolute top-0 left-0 right-0 h-1 bg-blue-500 rounded-full z-10"></div>} <div className="flex items-start gap-3"> <div className="flex-shrink-0 pt-1"> <input type="checkbox" checked={task.completed} onChange={() => handleToggleTaskComplete(task.id)} className="w-5 h-5 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500" /> </div> <div className="flex-grow min-w-0"> <p className={`font-medium text-base whitespace-pre-wrap ${task.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>{task.task}</p> <div className="mt-2 flex items-center gap-x-4 gap-y-2 text-sm text-gray-600"> <div className="flex items-center gap-1.5" onClick={() => activeTaskTab === 'pending' && setEditingAssigneeTaskId(task.id)}> <UserIcon className="w-4 h-4 text-gray-400" /> {editingAssigneeTaskId === task.id ? ( <select value={task.assignee} onChange={(e) => handleAssigneeChange(task.id, e.target.value)} onBlur={() => setEditingAssigneeTaskId(null)} className="p-1 border rounded bg-white text-sm focus:ring-blue-500 focus:border-blue-500" autoFocus> {assistants.map(name => ( <option key={name} value={name}> {name} </option> ))} </select> ) : ( <span className={activeTaskTab === 'pending' ? 'cursor-pointer hover:text-blue-600' : ''}> {task.assignee || '-'} </span> )} </div> <div className="flex items-center gap-1.5"> <CalendarIcon className="w-4 h-4 text-gray-400" /> <span>{formatDate(task.dueDate)}</span> {task.recurrence && <span className="text-blue-500" title={describeRecurrence(task.recurrence)}><ArrowPathIcon className="w-3.5 h-3.5" /></span>} </div> <div className="flex items-center gap-1.5"> <span className={`px-2 py-1 text-xs font-semibold rounded-full ${importanceMapAdminTasks[task.importance]?.className}`}> {importanceMapAdminTasks[task.importance]?.text} </span> </div> </div> </div> <div className="flex flex-col sm:flex-row items-center gap-0 sm:gap-1 flex-shrink-0"> <button onClick={() => handleShareTask(task)} className="p-2 text-gray-500 hover:bg-gray-100 hover:text-green-600 rounded-full" title="مشاركة عبر واتساب"><ShareIcon className="w-4 h-4" /></button> 
         {permissions.can_edit_admin_task && <button onClick={() => onOpenAdminTaskModal(task)} className="p-2 text-gray-500 hover:bg-gray-100 hover:text-blue-600 rounded-full"><PencilIcon className="w-4 h-4" /></button>} 
         {permissions.can_delete_admin_task && <button onClick={() => openDeleteTaskModal(task)} className="p-2 text-gray-500 hover:bg-gray-100 hover:text-red-600 rounded-full"><TrashIcon className="w-4 h-4" /></button>} 
     </div> </div> {dragOverTaskId === task.id && dropPosition === 'after' && <div className="absolute bottom-0 left-0 right-0 h-1 bg-blue-500 rounded-full z-10"></div>} </div> );
@@ -468,7 +547,7 @@ const HomePage: React.FC<HomePageProps> = ({
                             currentDate={calendarViewDate}
                             setCurrentDate={setCalendarViewDate}
                         />
-                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                             <div className="relative">
                                 <button
                                     onClick={() => setViewMode('unpostponed')}
@@ -497,6 +576,20 @@ const HomePage: React.FC<HomePageProps> = ({
                                 <ChevronLeftIcon className="w-5 h-5" />
                                 <span>القادمة</span>
                             </button>
+                            <div className="relative">
+                                <button
+                                    onClick={() => setViewMode('deadlines')}
+                                    className={`w-full flex items-center justify-center gap-2 px-4 py-2 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-opacity-50 text-sm font-semibold ${viewMode === 'deadlines' ? 'bg-amber-700' : 'bg-amber-600 hover:bg-amber-700'}`}
+                                >
+                                    <ScaleIcon className="w-5 h-5" />
+                                    <span>المهل</span>
+                                </button>
+                                {pressingDeadlinesCount > 0 && (
+                                     <span className="absolute -top-2 -start-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-600 text-white text-xs font-bold ring-2 ring-white animate-pulse" title={`${pressingDeadlinesCount} مهل فائتة أو عاجلة`}>
+                                        {pressingDeadlinesCount}
+                                    </span>
+                                )}
+                            </div>
                         </div>
                     </div>
 
@@ -530,6 +623,9 @@ const HomePage: React.FC<HomePageProps> = ({
                                             onContextMenu={handleAppointmentContextMenu} 
                                             onToggleComplete={handleToggleAppointmentComplete} 
                                         />
+                                        {dailyData.dailyDeadlines.length > 0 && (
+                                            <DeadlinesTable entries={dailyData.dailyDeadlines} onToggleComplete={permissions.can_decide_session ? handleToggleDeadlineComplete : undefined} title="المهل المنتهية في هذا اليوم" />
+                                        )}
                                     </>
                                 )}
                                 {viewMode === 'unpostponed' && (
@@ -546,6 +642,9 @@ const HomePage: React.FC<HomePageProps> = ({
                                         />
                                     </div>
                                 )}
+                                {viewMode === 'deadlines' && (
+                                    <DeadlinesTable entries={sortedDeadlineEntries} onToggleComplete={permissions.can_decide_session ? handleToggleDeadlineComplete : undefined} emptyMessage="لا توجد مهل قانونية. تُنشأ المهل تلقائياً عند تسجيل قرار الحسم." />
+                                )}
                                 {viewMode === 'upcoming' && (
                                     <div className="bg-white rounded-lg shadow overflow-hidden">
                                         <SessionsTable 
@@ -811,6 +910,15 @@ const HomePage: React.FC<HomePageProps> = ({
                                         <option value="urgent">عاجل</option>
                                     </select>
                                 </div>
+                                {editingAppointment && parseOccurrenceId(editingAppointment.id) && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">تطبيق التعديل على</label>
+                                        <RecurrenceScopeSelect value={appointmentEditScope} onChange={setAppointmentEditScope} kind="appointment" />
+                                    </div>
+                                )}
+                                {!(editingAppointment && parseOccurrenceId(editingAppointment.id) && appointmentEditScope === 'single') && (
+                                    <RecurrenceFields value={appointmentRecurrence} onChange={setAppointmentRecurrence} />
+                                )}
                                 <div>
                                     <label htmlFor="reminderTimeInMinutes" className="block text-sm font-medium text-gray-700">تذكير قبل</label>
                                     <select id="reminderTimeInMinutes" name="reminderTimeInMinutes" value={newAppointment.reminderTimeInMinutes} onChange={handleAppointmentFormChange} className="mt-1 w-full p-2 border rounded" required>
@@ -845,6 +953,9 @@ const HomePage: React.FC<HomePageProps> = ({
                                 هل أنت متأكد من حذف موعد "{appointmentToDelete.title}"؟<br />
                                 هذا الإجراء لا يمكن التراجع عنه.
                             </p>
+                            {parseOccurrenceId(appointmentToDelete.id) && (
+                                <div className="flex justify-center"><RecurrenceScopeSelect value={deleteScope} onChange={setDeleteScope} kind="appointment" /></div>
+                            )}
                         </div>
                         <div className="mt-6 flex justify-center gap-4">
                             <button
@@ -880,6 +991,9 @@ const HomePage: React.FC<HomePageProps> = ({
                                 هل أنت متأكد من حذف مهمة "{taskToDelete.task}"؟<br />
                                 هذا الإجراء لا يمكن التراجع عنه.
                             </p>
+                            {parseOccurrenceId(taskToDelete.id) && (
+                                <div className="flex justify-center"><RecurrenceScopeSelect value={deleteScope} onChange={setDeleteScope} kind="task" /></div>
+                            )}
                         </div>
                         <div className="mt-6 flex justify-center gap-4">
                             <button
@@ -901,35 +1015,7 @@ const HomePage: React.FC<HomePageProps> = ({
                 </div>
             )}
             
-            {decideModal.isOpen && decideModal.session && (
-                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 no-print p-4 overflow-y-auto" onClick={handleCloseDecideModal}>
-                    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
-                        <h2 className="text-xl font-bold mb-4">تسجيل قرار الحسم</h2>
-                        <form onSubmit={handleDecideSubmit} className="space-y-4">
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700">تاريخ الحسم</label>
-                                <input type="date" value={toInputDateString(decideModal.session.date)} readOnly className="w-full p-2 border rounded bg-gray-100" />
-                            </div>
-                             <div>
-                                <label className="block text-sm font-medium text-gray-700">رقم القرار</label>
-                                <input type="text" value={decideFormData.decisionNumber} onChange={e => setDecideFormData(p => ({...p, decisionNumber: e.target.value}))} className="w-full p-2 border rounded" />
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700">ملخص القرار</label>
-                                <textarea value={decideFormData.decisionSummary} onChange={e => setDecideFormData(p => ({...p, decisionSummary: e.target.value}))} className="w-full p-2 border rounded" rows={3}></textarea>
-                            </div>
-                             <div>
-                                <label className="block text-sm font-medium text-gray-700">ملاحظات</label>
-                                <textarea value={decideFormData.decisionNotes} onChange={e => setDecideFormData(p => ({...p, decisionNotes: e.target.value}))} className="w-full p-2 border rounded" rows={2}></textarea>
-                            </div>
-                            <div className="mt-6 flex justify-end gap-4">
-                                <button type="button" onClick={handleCloseDecideModal} className="px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300">إلغاء</button>
-                                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">حفظ القرار</button>
-                            </div>
-                        </form>
-                    </div>
-                </div>
-            )}
+            {decideModal.isOpen && decideModal.session && decideModal.stage && <StageDecisionModal session={decideModal.session} stage={decideModal.stage} onClose={handleCloseDecideModal} />}
         </div>
     );
 };
@@ -1,16 +1,33 @@
 
 import * as React from 'react';
-import { TrashIcon, ExclamationTriangleIcon, CloudArrowUpIcon, ArrowPathIcon, PlusIcon, CheckCircleIcon, XCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, ShieldCheckIcon, UserGroupIcon } from '../components/icons';
-import { Client, AdminTask, Appointment, AccountingEntry } from '../types';
+import { TrashIcon, ExclamationTriangleIcon, CloudArrowUpIcon, ArrowPathIcon, PlusIcon, CheckCircleIcon, XCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, ShieldCheckIcon, UserGroupIcon, BuildingLibraryIcon, FolderIcon, ClipboardDocumentIcon, ClockIcon, CalendarDaysIcon } from '../components/icons';
+import { Client, AdminTask, Appointment, AccountingEntry, OutboxOperation } from '../types';
 import { APP_DATA_KEY } from '../hooks/useSupabaseData';
 import { useData } from '../context/DataContext';
-import { openDB } from 'idb';
+import { getDb, getDataVersion, DB_VERSION } from '../utils/localDb';
+import { formatDate } from '../utils/dateUtils';
 import AssistantsManager from '../components/AssistantsManager';
+import CourtsManager from '../components/CourtsManager';
+import CaseTypesManager from '../components/CaseTypesManager';
+import CustomFieldsManager from '../components/CustomFieldsManager';
+import DeadlineRulesManager from '../components/DeadlineRulesManager';
+import CalendarFeedsManager from '../components/CalendarFeedsManager';
+import SyncDiagnosticsPanel from '../components/SyncDiagnosticsPanel';
 
 interface SettingsPageProps {}
 
+const OUTBOX_TABLE_LABELS: Record<string, string> = {
+    clients: 'موكل', contacts: 'جهة اتصال', courts: 'محكمة', case_types: 'نوع قضية', custom_field_definitions: 'حقل مخصص', deadline_rules: 'قاعدة مهلة', deadlines: 'مهلة قانونية', notes: 'ملاحظة', cases: 'قضية', case_parties: 'طرف في قضية', stages: 'مرحلة', sessions: 'جلسة', admin_tasks: 'مهمة إدارية', appointments: 'موعد',
+    accounting_entries: 'قيد محاسبي', assistants: 'مساعد', invoices: 'فاتورة', invoice_items: 'بند فاتورة',
+    case_documents: 'وثيقة', profiles: 'مستخدم', site_finances: 'قيد مالي', storage: 'ملف',
+};
+
+const OUTBOX_REASON_LABELS: Record<OutboxOperation['reason'], string> = { create: 'إضافة', update: 'تعديل', delete: 'حذف', postpone: 'تأجيل' };
+
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
 const SettingsPage: React.FC<SettingsPageProps> = () => {
-    const { setFullData, assistants, setAssistants, userId, isAutoSyncEnabled, setAutoSyncEnabled, isAutoBackupEnabled, setAutoBackupEnabled, adminTasksLayout, setAdminTasksLayout, deleteAssistant, exportData, permissions } = useData();
+    const { setFullData, assistants, setAssistants, userId, isAutoSyncEnabled, setAutoSyncEnabled, isAutoBackupEnabled, setAutoBackupEnabled, adminTasksLayout, setAdminTasksLayout, deleteAssistant, exportData, permissions, pendingOperations, migrationFailure, dismissMigrationFailure, trashRetentionDays, setTrashRetentionDays, trashItems, courts, caseTypes, customFieldDefinitions, deadlineRules } = useData();
     const [feedback, setFeedback] = React.useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const [isConfirmModalOpen, setIsConfirmModalOpen] = React.useState(false);
     const [isDeleteAssistantModalOpen, setIsDeleteAssistantModalOpen] = React.useState(false);
@@ -18,6 +35,11 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
     const [newAssistant, setNewAssistant] = React.useState('');
     const [dbStats, setDbStats] = React.useState<string | null>(null);
     const [isAssistantsManagerOpen, setIsAssistantsManagerOpen] = React.useState(false);
+    const [isCourtsManagerOpen, setIsCourtsManagerOpen] = React.useState(false);
+    const [isCaseTypesManagerOpen, setIsCaseTypesManagerOpen] = React.useState(false);
+    const [isCustomFieldsManagerOpen, setIsCustomFieldsManagerOpen] = React.useState(false);
+    const [isDeadlineRulesManagerOpen, setIsDeadlineRulesManagerOpen] = React.useState(false);
+    const [isCalendarFeedsManagerOpen, setIsCalendarFeedsManagerOpen] = React.useState(false);
 
     const showFeedback = (message: string, type: 'success' | 'error') => {
         setFeedback({ message, type });
@@ -43,7 +65,7 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
     const handleAddAssistant = (e: React.FormEvent) => { e.preventDefault(); if (newAssistant && !assistants.includes(newAssistant) && newAssistant !== 'بدون تخصيص') { setAssistants(prev => [...prev, newAssistant.trim()]); setNewAssistant(''); } };
     const handleDeleteAssistant = (name: string) => { if (name !== 'بدون تخصيص') { setAssistantToDelete(name); setIsDeleteAssistantModalOpen(true); } };
     const handleConfirmDeleteAssistant = () => { if (assistantToDelete) { deleteAssistant(assistantToDelete); showFeedback(`تم حذف المساعد "${assistantToDelete}" بنجاح.`, 'success'); } setIsDeleteAssistantModalOpen(false); setAssistantToDelete(null); };
-    const handleInspectDb = async () => { setDbStats('جاري الفحص...'); try { const db = await openDB('LawyerAppData', 2); let stats = ''; const stores = ['appData', 'caseDocumentMetadata', 'caseDocumentFiles']; for (const s of stores) { if (db.objectStoreNames.contains(s)) { const count = await db.count(s); stats += `- ${s}: ${count} سجل\n`; } } setDbStats(stats); } catch (e:any) { setDbStats('فشل: ' + e.message); } };
+    const handleInspectDb = async () => { setDbStats('جاري الفحص...'); try { const db = await getDb(); let stats = `إصدار قاعدة البيانات: ${db.version} (البيانات: ${await getDataVersion(db)} من ${DB_VERSION})\n`; for (const s of Array.from(db.objectStoreNames)) { const count = await db.count(s); stats += `- ${s}: ${count} سجل\n`; } setDbStats(stats); } catch (e:any) { setDbStats('فشل: ' + e.message); } };
 
     const ToggleSwitch: React.FC<{ enabled: boolean; onChange: (enabled: boolean) => void; label: string }> = ({ enabled, onChange, label }) => (
         <div className="flex items-center">
@@ -67,6 +89,33 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
                 </div>
             )}
 
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><BuildingLibraryIcon className="w-6 h-6 text-blue-600" />سجل المحاكم ({courts.length})</h2>
+                <p className="text-gray-600 text-sm">بيانات المحاكم التي تُقترح عند كتابة اسم المحكمة في المراحل والجلسات، مع أداة لتوحيد الأسماء المكتوبة بأكثر من طريقة.</p>
+                <button onClick={() => setIsCourtsManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><BuildingLibraryIcon className="w-5 h-5" /><span>فتح سجل المحاكم</span></button>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><FolderIcon className="w-6 h-6 text-blue-600" />أنواع القضايا ({caseTypes.length})</h2>
+                <p className="text-gray-600 text-sm">الأنواع والأنواع الفرعية التي تُصنّف بها القضايا، وتُستخدم في تصفية قائمة الموكلين وفي تقارير القضايا.</p>
+                <button onClick={() => setIsCaseTypesManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><FolderIcon className="w-5 h-5" /><span>إدارة أنواع القضايا</span></button>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><ClipboardDocumentIcon className="w-6 h-6 text-blue-600" />الحقول المخصصة ({customFieldDefinitions.length})</h2>
+                <p className="text-gray-600 text-sm">حقول إضافية خاصة بمكتبك للموكلين والقضايا والمراحل، مثل رقم الوكالة أو رقم الإضبارة، تظهر في نوافذ التعديل والبحث والتقارير المطبوعة.</p>
+                <button onClick={() => setIsCustomFieldsManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><ClipboardDocumentIcon className="w-5 h-5" /><span>إدارة الحقول المخصصة</span></button>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><ClockIcon className="w-6 h-6 text-blue-600" />المهل القانونية ({deadlineRules.length || 'افتراضية'})</h2>
+                <p className="text-gray-600 text-sm">قواعد مهل الطعن والاعتراض التي تُضاف إلى جدول الأعمال عند تسجيل قرار الحسم، حسب نوع القضية ودرجة المحكمة، مع التذكير بها قبل انتهائها.</p>
+                <button onClick={() => setIsDeadlineRulesManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><ClockIcon className="w-5 h-5" /><span>إدارة قواعد المهل</span></button>
+            </div>
+            {permissions?.can_view_agenda && (
+                <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                    <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><CalendarDaysIcon className="w-6 h-6 text-blue-600" />الاشتراك في التقويم</h2>
+                    <p className="text-gray-600 text-sm">رابط خاص بك يضيف الجلسات والمواعيد والمهام إلى تقويم Google أو Outlook أو الهاتف، ويبقى محدّثاً دون تصدير يدوي. يمكن حصره بمهام مساعد واحد.</p>
+                    <button onClick={() => setIsCalendarFeedsManagerOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"><CalendarDaysIcon className="w-5 h-5" /><span>إدارة روابط الاشتراك</span></button>
+                </div>
+            )}
             <div className="bg-white p-6 rounded-lg shadow space-y-4">
                 <h2 className="text-xl font-bold text-gray-800 border-b pb-3">إعدادات المزامنة</h2>
                 <div className="pt-2"><ToggleSwitch label="المزامنة التلقائية" enabled={isAutoSyncEnabled} onChange={setAutoSyncEnabled} /></div>
@@ -75,9 +124,49 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
                 <h2 className="text-xl font-bold text-gray-800 border-b pb-3">النسخ الاحتياطي</h2>
                 <div className="pt-2"><ToggleSwitch label="النسخ الاحتياطي اليومي التلقائي" enabled={isAutoBackupEnabled} onChange={setAutoBackupEnabled} /></div>
             </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><TrashIcon className="w-6 h-6 text-blue-600" />سلة المحذوفات ({trashItems.length})</h2>
+                <p className="text-sm text-gray-600">الموكلون والقضايا والمراحل والجلسات المحذوفة تبقى في السلة قابلة للاستعادة، ثم تُحذف نهائياً مع وثائقها بعد المدة المحددة.</p>
+                <label className="flex items-center gap-3 text-sm">
+                    <span>مدة الاحتفاظ</span>
+                    <select value={trashRetentionDays} onChange={e => setTrashRetentionDays(Number(e.target.value))} className="p-2 border rounded">
+                        {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} يوماً</option>)}
+                    </select>
+                </label>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><CloudArrowUpIcon className="w-6 h-6 text-blue-600" />العمليات بانتظار الرفع ({pendingOperations.length})</h2>
+                {pendingOperations.length === 0 ? (
+                    <p className="text-sm text-green-700 flex items-center gap-2"><CheckCircleIcon className="w-5 h-5" />جميع التغييرات مرفوعة إلى السحابة.</p>
+                ) : (
+                    <ul className="space-y-2 max-h-64 overflow-y-auto">
+                        {pendingOperations.map(op => (
+                            <li key={op.seq ?? op.opId} className="p-2 bg-gray-50 border rounded text-sm">
+                                <div className="flex justify-between gap-2">
+                                    <span><strong>{OUTBOX_REASON_LABELS[op.reason]}</strong> {OUTBOX_TABLE_LABELS[op.table] || op.table} <span className="text-gray-500 text-xs" dir="ltr">{op.recordId}</span></span>
+                                    <span className="text-xs text-gray-500">{formatDate(new Date(op.createdAt))}</span>
+                                </div>
+                                {op.lastError && <p className="mt-1 text-xs text-red-600">فشلت {op.attempts} محاولة: {op.lastError}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4">
+                <h2 className="text-xl font-bold text-gray-800 border-b pb-3 flex items-center gap-2"><ArrowPathIcon className="w-6 h-6 text-blue-600" />سجل المزامنة والتشخيص</h2>
+                <p className="text-gray-600 text-sm">آخر عمليات المزامنة على هذا الجهاز مع عدد السجلات المسحوبة والمرفوعة والأخطاء. يمكن تصدير السجل وإرساله للدعم الفني عند حدوث مشكلة.</p>
+                <SyncDiagnosticsPanel />
+            </div>
             {/* ... (Other sections: Layout, DB Inspect, Export/Import, Assistants List, Clear Data) ... */}
             <div className="bg-white p-6 rounded-lg shadow space-y-4"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">تخطيط المهام</h2><div className="pt-2 flex gap-4"><button onClick={() => setAdminTasksLayout('horizontal')} className={`px-4 py-2 rounded ${adminTasksLayout === 'horizontal' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}>أفقي</button><button onClick={() => setAdminTasksLayout('vertical')} className={`px-4 py-2 rounded ${adminTasksLayout === 'vertical' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}>عمودي</button></div></div>
-            <div className="bg-white p-6 rounded-lg shadow space-y-4"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">فحص البيانات</h2><button onClick={handleInspectDb} className="px-4 py-2 bg-gray-600 text-white rounded">فحص</button>{dbStats && <pre className="mt-4 bg-gray-100 p-4 rounded text-xs">{dbStats}</pre>}</div>
+            <div className="bg-white p-6 rounded-lg shadow space-y-4"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">فحص البيانات</h2>{migrationFailure && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800 space-y-1">
+                    <p className="font-semibold flex items-center gap-2"><ExclamationTriangleIcon className="w-5 h-5" />تعذر تحديث قاعدة البيانات المحلية من الإصدار {migrationFailure.fromVersion} إلى {migrationFailure.toVersion}</p>
+                    <p>تمت استعادة البيانات من النسخة المأخوذة تلقائياً قبل التحديث ({formatDate(new Date(migrationFailure.occurredAt))})، وستتم إعادة المحاولة عند التشغيل التالي.</p>
+                    <p className="text-xs text-red-600 break-all">{migrationFailure.failedVersion !== null && `خطوة الإصدار ${migrationFailure.failedVersion}: `}{migrationFailure.error}</p>
+                    <button onClick={dismissMigrationFailure} className="text-xs text-red-700 underline">إخفاء</button>
+                </div>
+            )}<button onClick={handleInspectDb} className="px-4 py-2 bg-gray-600 text-white rounded">فحص</button>{dbStats && <pre className="mt-4 bg-gray-100 p-4 rounded text-xs">{dbStats}</pre>}</div>
             <div className="bg-white p-6 rounded-lg shadow space-y-4"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">نقل البيانات</h2><div className="flex gap-4"><button onClick={handleExportData} className="px-4 py-2 bg-gray-600 text-white rounded">تصدير</button><label className="px-4 py-2 bg-gray-600 text-white rounded cursor-pointer">استيراد<input type="file" className="hidden" onChange={handleImportData}/></label></div></div>
             <div className="bg-white p-6 rounded-lg shadow space-y-6"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">قائمة المساعدين (للقوائم المنسدلة)</h2><div className="space-y-4"><form onSubmit={handleAddAssistant} className="flex gap-2"><input type="text" value={newAssistant} onChange={e => setNewAssistant(e.target.value)} className="flex-grow p-2 border rounded" placeholder="اسم" /><button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded">إضافة</button></form><ul className="space-y-2">{assistants.map(a => <li key={a} className="flex justify-between p-2 bg-gray-50 border rounded">{a}{a !== 'بدون تخصيص' && <button onClick={() => handleDeleteAssistant(a)}><TrashIcon className="w-4 h-4 text-red-500"/></button>}</li>)}</ul></div></div>
             <div className="bg-white p-6 rounded-lg shadow space-y-4"><h2 className="text-xl font-bold text-gray-800 border-b pb-3">خطر</h2><button onClick={() => setIsConfirmModalOpen(true)} className="px-4 py-2 bg-red-600 text-white rounded">مسح كافة البيانات</button></div>
@@ -86,6 +175,11 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
             {isDeleteAssistantModalOpen && <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"><div className="bg-white p-8 rounded shadow-lg"><p className="mb-4">حذف المساعد؟</p><div className="flex gap-4"><button onClick={() => setIsDeleteAssistantModalOpen(false)} className="px-4 py-2 bg-gray-200 rounded">إلغاء</button><button onClick={handleConfirmDeleteAssistant} className="px-4 py-2 bg-red-600 text-white rounded">نعم</button></div></div></div>}
             
             {isAssistantsManagerOpen && <AssistantsManager onClose={() => setIsAssistantsManagerOpen(false)} />}
+            {isCourtsManagerOpen && <CourtsManager onClose={() => setIsCourtsManagerOpen(false)} />}
+            {isCaseTypesManagerOpen && <CaseTypesManager onClose={() => setIsCaseTypesManagerOpen(false)} />}
+            {isCustomFieldsManagerOpen && <CustomFieldsManager onClose={() => setIsCustomFieldsManagerOpen(false)} />}
+            {isDeadlineRulesManagerOpen && <DeadlineRulesManager onClose={() => setIsDeadlineRulesManagerOpen(false)} />}
+            {isCalendarFeedsManagerOpen && <CalendarFeedsManager onClose={() => setIsCalendarFeedsManagerOpen(false)} />}
         </div>
     );
 };
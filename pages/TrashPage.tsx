@@ -0,0 +1,126 @@
+import * as React from 'react';
+import { useData } from '../context/DataContext';
+import { TrashItem, TrashEntityType, Client, Case, Stage, Permissions } from '../types';
+import { getTrashExpiry } from '../utils/trash';
+import { formatDate, formatDateTime } from '../utils/dateUtils';
+import { TrashIcon, ArrowPathIcon, CheckCircleIcon } from '../components/icons';
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+    client: 'موكل',
+    case: 'قضية',
+    stage: 'مرحلة',
+    session: 'جلسة',
+};
+
+// Whoever may delete an entity may also restore it or delete it for good.
+const ENTITY_PERMISSIONS: Record<TrashEntityType, keyof Permissions> = {
+    client: 'can_delete_client',
+    case: 'can_delete_case',
+    stage: 'can_delete_case',
+    session: 'can_delete_session',
+};
+
+const describeContents = (item: TrashItem): string => {
+    const cases = item.entityType === 'client' ? (item.entity as Client).cases : item.entityType === 'case' ? [item.entity as Case] : [];
+    const stages = item.entityType === 'stage' ? [item.entity as Stage] : cases.flatMap(cs => cs.stages);
+    const sessionCount = stages.reduce((sum, st) => sum + st.sessions.length, 0);
+    const parts = [
+        item.entityType === 'client' && cases.length > 0 && `${cases.length} قضية`,
+        item.entityType !== 'stage' && item.entityType !== 'session' && stages.length > 0 && `${stages.length} مرحلة`,
+        item.entityType !== 'session' && sessionCount > 0 && `${sessionCount} جلسة`,
+        item.documents.length > 0 && `${item.documents.length} وثيقة`,
+        item.accountingEntries.length > 0 && `${item.accountingEntries.length} قيد مالي`,
+        item.invoices.length > 0 && `${item.invoices.length} فاتورة`,
+    ].filter(Boolean);
+    return parts.join(' · ');
+};
+
+const TrashPage: React.FC = () => {
+    const { trashItems, restoreTrashItem, purgeTrashItems, trashRetentionDays, permissions, profiles } = useData();
+    const [message, setMessage] = React.useState<{ text: string; isError: boolean } | null>(null);
+    const [itemsToPurge, setItemsToPurge] = React.useState<TrashItem[] | null>(null);
+
+    const canManage = (item: TrashItem) => !!permissions[ENTITY_PERMISSIONS[item.entityType]];
+    const manageableItems = trashItems.filter(canManage);
+
+    const handleRestore = (item: TrashItem) => {
+        if (restoreTrashItem(item.id)) {
+            setMessage({ text: `تمت استعادة ${ENTITY_LABELS[item.entityType]} "${item.label}" وستتم مزامنتها مع الأجهزة الأخرى.`, isError: false });
+        } else {
+            setMessage({ text: `تعذرت استعادة "${item.label}" لأن العنصر الذي يتبع له محذوف أيضاً. استعد العنصر الأعلى أولاً.`, isError: true });
+        }
+    };
+
+    const handleConfirmPurge = async () => {
+        if (!itemsToPurge) return;
+        await purgeTrashItems(itemsToPurge.map(item => item.id));
+        setItemsToPurge(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-3">
+                <div className="flex items-center gap-3">
+                    <TrashIcon className="w-8 h-8 text-gray-500" />
+                    <h1 className="text-3xl font-bold text-gray-800">سلة المحذوفات</h1>
+                </div>
+                {manageableItems.length > 0 && (
+                    <button onClick={() => setItemsToPurge(manageableItems)} className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700">إفراغ السلة</button>
+                )}
+            </div>
+            <p className="text-gray-600 text-sm">تبقى العناصر المحذوفة هنا مع كل ما يتبع لها من قضايا وجلسات ووثائق وقيود مالية لمدة {trashRetentionDays} يوماً، ثم تُحذف نهائياً. يمكن تغيير هذه المدة من الإعدادات.</p>
+            {message && (
+                <div className={`p-3 rounded text-sm ${message.isError ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>{message.text}</div>
+            )}
+            {trashItems.length === 0 ? (
+                <div className="bg-white p-6 rounded-lg shadow flex items-center gap-3 text-green-700">
+                    <CheckCircleIcon className="w-6 h-6" />
+                    <span>سلة المحذوفات فارغة.</span>
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {trashItems.map(item => {
+                        const deletedBy = item.deletedBy ? profiles.find(p => p.id === item.deletedBy)?.full_name : null;
+                        const contents = describeContents(item);
+                        return (
+                            <li key={item.id} className="bg-white p-4 rounded-lg shadow flex flex-wrap justify-between items-center gap-3">
+                                <div className="space-y-1">
+                                    <div>
+                                        <span className="text-xs font-semibold px-2 py-1 rounded-full bg-gray-100 text-gray-700 me-2">{ENTITY_LABELS[item.entityType]}</span>
+                                        <span className="font-semibold text-gray-800">{item.label}</span>
+                                    </div>
+                                    {contents && <p className="text-sm text-gray-600">{contents}</p>}
+                                    <p className="text-xs text-gray-500">
+                                        حُذف في {formatDateTime(new Date(item.deletedAt))}{deletedBy && ` بواسطة ${deletedBy}`} · يُحذف نهائياً في {formatDate(getTrashExpiry(item, trashRetentionDays))}
+                                    </p>
+                                </div>
+                                {canManage(item) && (
+                                    <div className="flex gap-2">
+                                        <button onClick={() => handleRestore(item)} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"><ArrowPathIcon className="w-4 h-4" />استعادة</button>
+                                        <button onClick={() => setItemsToPurge([item])} className="flex items-center gap-1 px-3 py-1.5 text-sm bg-red-50 text-red-700 rounded hover:bg-red-100"><TrashIcon className="w-4 h-4" />حذف نهائي</button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {itemsToPurge && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={() => setItemsToPurge(null)}>
+                    <div className="bg-white p-8 rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                        <h3 className="text-2xl font-bold text-center">تأكيد الحذف النهائي</h3>
+                        <p className="my-4 text-center">
+                            {itemsToPurge.length === 1 ? `سيتم حذف "${itemsToPurge[0].label}" ووثائقه نهائياً.` : `سيتم حذف ${itemsToPurge.length} عنصراً ووثائقها نهائياً.`} لا يمكن التراجع عن هذا الإجراء.
+                        </p>
+                        <div className="mt-6 flex justify-center gap-4">
+                            <button className="px-6 py-2 bg-gray-200 rounded-lg" onClick={() => setItemsToPurge(null)}>إلغاء</button>
+                            <button className="px-6 py-2 bg-red-600 text-white rounded-lg" onClick={handleConfirmPurge}>نعم، احذف نهائياً</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TrashPage;
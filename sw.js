@@ -136,4 +136,335 @@ self.addEventListener('fetch', event => {
       });
     })
   );
-});
\ No newline at end of file
+});
+// --- Background sync of the outbox ---
+// Pushes the changes recorded while offline (the 'syncOutbox' store) and the pending document uploads
+// once connectivity returns, even if the app was closed in the meantime. Names below must match
+// utils/localDb.ts, hooks/useSupabaseData.ts and hooks/useTabCoordination.ts.
+const BACKGROUND_SYNC_TAG = 'sync-outbox';
+const DB_NAME = 'LawyerAppData';
+const DATA_STORE_NAME = 'appData';
+const OUTBOX_STORE_NAME = 'syncOutbox';
+const SYNC_JOURNAL_STORE_NAME = 'syncJournal';
+const MAX_SYNC_JOURNAL_ENTRIES = 300; // As in utils/syncJournal.ts
+const DOCS_FILES_STORE_NAME = 'caseDocumentFiles';
+const DOCS_METADATA_STORE_NAME = 'caseDocumentMetadata';
+const BACKGROUND_SYNC_SESSION_KEY = 'backgroundSyncSession';
+const LEADER_LOCK_PREFIX = 'lawyer-app-sync-leader-';
+// Same order as OUTBOX_UPSERT_ORDER in hooks/useOnlineData.ts; deletions run in reverse.
+const UPSERT_ORDER = [
+  'profiles', 'assistants', 'contacts', 'courts', 'case_types', 'custom_field_definitions', 'deadline_rules', 'clients', 'cases', 'case_parties', 'stages', 'sessions', 'deadlines', 'notes', 'invoices', 'invoice_items',
+  'case_documents', 'admin_tasks', 'appointments', 'accounting_entries', 'site_finances',
+];
+
+const promisifyRequest = request => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Opens the app's database at whatever version the app created; never creates or upgrades it.
+const openAppDb = () => new Promise(resolve => {
+  const request = indexedDB.open(DB_NAME);
+  request.onupgradeneeded = () => request.transaction.abort();
+  request.onsuccess = () => {
+    const db = request.result;
+    // Let the app upgrade the schema while the worker still holds a connection.
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => resolve(null);
+});
+
+const readAll = (db, storeName) => promisifyRequest(db.transaction(storeName).objectStore(storeName).getAll());
+const readKey = (db, storeName, key) => promisifyRequest(db.transaction(storeName).objectStore(storeName).get(key));
+
+const transactionDone = tx => new Promise((resolve, reject) => {
+  tx.oncomplete = resolve;
+  tx.onerror = () => reject(tx.error);
+});
+
+// Only the operation that was pushed is removed; a newer one for the same record has another seq.
+const acknowledgeOperations = async (db, ackedSeqs, failures) => {
+  const tx = db.transaction(OUTBOX_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE_NAME);
+  ackedSeqs.forEach(seq => store.delete(seq));
+  for (const { seq, error } of failures) {
+    const op = await promisifyRequest(store.get(seq));
+    if (op) store.put({ ...op, attempts: (op.attempts || 0) + 1, lastError: error });
+  }
+  await transactionDone(tx);
+};
+
+// Network failures are retried by the browser; an error response from Supabase is recorded on the operation.
+class NetworkError extends Error {}
+
+const callSupabase = async (session, path, init) => {
+  let response;
+  try {
+    response = await fetch(`${session.url}${path}`, {
+      ...init,
+      headers: { apikey: session.anonKey, Authorization: `Bearer ${session.accessToken}`, ...init.headers },
+    });
+  } catch (error) {
+    throw new NetworkError(error.message);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error((body && (body.message || body.error)) || `HTTP ${response.status}`);
+  }
+  // Empty with return=minimal, the affected rows with return=representation.
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+};
+
+// Access tokens last about an hour, so after a longer time offline the stored one has expired. It is renewed
+// here with the refresh token; refresh tokens are single-use, so the new pair is stored for the app to
+// continue from (see supabaseClient.ts). Returns null when the session cannot be renewed.
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const ensureFreshSession = async (db, session) => {
+  if (!session.expiresAt || session.expiresAt * 1000 > Date.now() + TOKEN_EXPIRY_MARGIN_MS) return session;
+  if (!session.refreshToken) return null;
+  let response;
+  try {
+    response = await fetch(`${session.url}/auth/v1/token?grant_type=refresh_token`, {
+      method: 'POST',
+      headers: { apikey: session.anonKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: session.refreshToken }),
+    });
+  } catch (error) {
+    throw new NetworkError(error.message);
+  }
+  if (!response.ok) return null;
+  const body = await response.json();
+  const refreshed = {
+    ...session,
+    accessToken: body.access_token,
+    refreshToken: body.refresh_token,
+    expiresAt: body.expires_at || Math.floor(Date.now() / 1000) + body.expires_in,
+    refreshedInBackground: true,
+  };
+  const tx = db.transaction(DATA_STORE_NAME, 'readwrite');
+  tx.objectStore(DATA_STORE_NAME).put(refreshed, BACKGROUND_SYNC_SESSION_KEY);
+  await transactionDone(tx);
+  return refreshed;
+};
+
+const quoteFilterValue = value => `"${String(value).replace(/"/g, '\\"')}"`;
+
+// Replays one owner's outbox in the same order as the app: files, deletions child-first, then upserts parent-first.
+const pushOutbox = async (session, ownerId, ops) => {
+  const ackedSeqs = [];
+  const failures = [];
+  const runStep = async (stepOps, request) => {
+    if (stepOps.length === 0) return;
+    try {
+      await request();
+      ackedSeqs.push(...stepOps.map(op => op.seq));
+    } catch (error) {
+      if (error instanceof NetworkError) throw error;
+      failures.push(...stepOps.map(op => ({ seq: op.seq, error: error.message })));
+    }
+  };
+  const jsonHeaders = { 'Content-Type': 'application/json' };
+
+  const fileOps = ops.filter(op => op.type === 'delete_file');
+  await runStep(fileOps, () => callSupabase(session, '/storage/v1/object/documents', {
+    method: 'DELETE', headers: jsonHeaders, body: JSON.stringify({ prefixes: fileOps.map(op => op.recordId) }),
+  }));
+
+  for (const table of [...UPSERT_ORDER].reverse()) {
+    const deleteOps = ops.filter(op => op.type === 'delete' && op.table === table);
+    if (deleteOps.length === 0) continue;
+    const primaryKey = table === 'assistants' ? 'name' : 'id';
+    await runStep(deleteOps, async () => {
+      // Logged first so other devices do not resurrect the rows; a failure here is not fatal, as in the app.
+      await callSupabase(session, '/rest/v1/sync_deletions', {
+        method: 'POST', headers: { ...jsonHeaders, Prefer: 'return=minimal' },
+        body: JSON.stringify(deleteOps.map(op => ({ table_name: table, record_id: op.recordId, user_id: ownerId }))),
+      }).catch(error => {
+        if (error instanceof NetworkError) throw error;
+        console.warn('Service Worker: Could not log deletion:', error.message);
+      });
+      const ids = deleteOps.map(op => quoteFilterValue(op.recordId)).join(',');
+      await callSupabase(session, `/rest/v1/${table}?${primaryKey}=in.(${encodeURIComponent(ids)})`, { method: 'DELETE' });
+    });
+  }
+
+  // The worker cannot merge: a creation is only inserted while the row is not in the cloud yet, and an update
+  // only sends the columns it changed, on condition that nobody changed the row since the version it was made on.
+  // Anything else stays queued for the app, whose sync merges it with the other changes or asks the user.
+  const leftToApp = [];
+  const recordFailure = (op, error) => {
+    if (error instanceof NetworkError) throw error;
+    failures.push({ seq: op.seq, error: error.message });
+  };
+  for (const table of UPSERT_ORDER) {
+    const upsertOps = ops.filter(op => op.type === 'upsert' && op.table === table);
+    const createOps = upsertOps.filter(op => op.reason === 'create' && op.remoteRow);
+    if (createOps.length > 0) {
+      const primaryKey = table === 'assistants' ? 'name' : 'id';
+      const onConflict = table === 'assistants' ? '?on_conflict=user_id,name' : '';
+      try {
+        const inserted = await callSupabase(session, `/rest/v1/${table}${onConflict}`, {
+          method: 'POST', headers: { ...jsonHeaders, Prefer: 'resolution=ignore-duplicates,return=representation' },
+          body: JSON.stringify(createOps.map(op => op.remoteRow)),
+        });
+        const insertedKeys = new Set((inserted || []).map(row => String(row[primaryKey])));
+        createOps.forEach(op => (insertedKeys.has(String(op.recordId)) ? ackedSeqs : leftToApp).push(op.seq));
+      } catch (error) {
+        createOps.forEach(op => recordFailure(op, error));
+      }
+    }
+
+    for (const op of upsertOps.filter(op => !createOps.includes(op))) {
+      // Operations recorded by older versions lack the changed columns and the base version. An update with no
+      // changed column is never acknowledged here either: the app's sync decides whether there is anything to push.
+      if (!op.remoteRow || !op.changedColumns || op.changedColumns.length === 0 || !op.baseUpdatedAt) {
+        leftToApp.push(op.seq);
+        continue;
+      }
+      const changes = Object.fromEntries(op.changedColumns.map(column => [column, op.remoteRow[column] ?? null]));
+      // updated_at is stored to the microsecond but known here to the millisecond, hence "before the next millisecond".
+      const unchangedBefore = new Date(Date.parse(op.baseUpdatedAt) + 1).toISOString();
+      try {
+        const updated = await callSupabase(session, `/rest/v1/${table}?id=eq.${encodeURIComponent(op.recordId)}&updated_at=lt.${encodeURIComponent(unchangedBefore)}`, {
+          method: 'PATCH', headers: { ...jsonHeaders, Prefer: 'return=representation' }, body: JSON.stringify(changes),
+        });
+        (updated && updated.length > 0 ? ackedSeqs : leftToApp).push(op.seq);
+      } catch (error) {
+        recordFailure(op, error);
+      }
+    }
+  }
+
+  // Rows prepared by the app when it queued the operations; like in the app, a failure only costs the log entry.
+  const ackedSeqSet = new Set(ackedSeqs);
+  const auditRows = ops.filter(op => op.auditRow && ackedSeqSet.has(op.seq)).map(op => op.auditRow);
+  if (auditRows.length > 0) {
+    await callSupabase(session, '/rest/v1/audit_log?on_conflict=id', {
+      method: 'POST', headers: { ...jsonHeaders, Prefer: 'resolution=ignore-duplicates,return=minimal' }, body: JSON.stringify(auditRows),
+    }).catch(error => console.warn('Service Worker: Could not write the audit log:', error.message));
+  }
+
+  return { ackedSeqs, failures, leftToApp };
+};
+
+const readPendingUploads = async db => (await readAll(db, DOCS_METADATA_STORE_NAME))
+  .filter(doc => doc.localState === 'pending_upload' && !doc.isLocalOnly);
+
+const uploadPendingDocuments = async (db, session, pendingUploads) => {
+  let uploaded = 0;
+  for (const doc of pendingUploads) {
+    const file = await readKey(db, DOCS_FILES_STORE_NAME, doc.id);
+    if (!file) continue;
+    try {
+      await callSupabase(session, `/storage/v1/object/documents/${doc.storagePath}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream', 'cache-control': 'max-age=3600', 'x-upsert': 'true' },
+        body: file,
+      });
+    } catch (error) {
+      if (error instanceof NetworkError) throw error;
+      console.error(`Service Worker: Upload failed for ${doc.name}:`, error.message);
+      continue;
+    }
+    // Only the state changes: the app may have edited the document while it was uploading.
+    const tx = db.transaction(DOCS_METADATA_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(DOCS_METADATA_STORE_NAME);
+    const current = await promisifyRequest(store.get(doc.id));
+    if (current) store.put({ ...current, localState: 'synced' }, doc.id);
+    await transactionDone(tx);
+    if (current) uploaded++;
+  }
+  return uploaded;
+};
+
+// Records the run next to the app's own runs (see SyncJournalEntry in types.ts), dropping the oldest beyond the limit.
+const appendJournalEntry = async (db, entry) => {
+  if (!db.objectStoreNames.contains(SYNC_JOURNAL_STORE_NAME)) return;
+  const tx = db.transaction(SYNC_JOURNAL_STORE_NAME, 'readwrite');
+  const store = tx.objectStore(SYNC_JOURNAL_STORE_NAME);
+  store.add(entry);
+  let excess = (await promisifyRequest(store.count())) - MAX_SYNC_JOURNAL_ENTRIES;
+  if (excess > 0) {
+    const keys = await promisifyRequest(store.getAllKeys(null, excess));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+const buildJournalEntry = (ownerId, startedAt, ops, ackedSeqs, failures, uploaded) => {
+  const countByTable = type => ops
+    .filter(op => op.type === type && ackedSeqs.includes(op.seq))
+    .reduce((counts, op) => ({ ...counts, [op.table]: (counts[op.table] || 0) + 1 }), {});
+  const errors = failures.map(({ seq, error }) => ({ table: (ops.find(op => op.seq === seq) || {}).table || null, message: error }));
+  return {
+    ownerId, kind: 'background', startedAt, finishedAt: new Date().toISOString(),
+    status: errors.length === 0 ? 'success' : ackedSeqs.length > 0 ? 'partial' : 'failed',
+    pulled: {}, pushed: countByTable('upsert'), deletionsApplied: {}, deletionsPushed: countByTable('delete'),
+    documents: { uploaded, downloaded: 0, filesDeleted: ops.filter(op => op.type === 'delete_file' && ackedSeqs.includes(op.seq)).length },
+    errors,
+  };
+};
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Runs `task` unless a tab of this owner currently leads the syncing, in which case the tab handles it.
+const withOwnerLock = (ownerId, task) => {
+  if (!self.navigator.locks) return task();
+  return self.navigator.locks.request(`${LEADER_LOCK_PREFIX}${ownerId}`, { ifAvailable: true }, lock => lock ? task() : 'busy');
+};
+
+const runBackgroundSync = async () => {
+  const db = await openAppDb();
+  if (!db) return;
+  try {
+    if (!db.objectStoreNames.contains(OUTBOX_STORE_NAME)) return;
+    const storedSession = await readKey(db, DATA_STORE_NAME, BACKGROUND_SYNC_SESSION_KEY);
+    if (!storedSession) {
+      console.log('Service Worker: No session for background sync, leaving the outbox to the app.');
+      return;
+    }
+
+    const outbox = await readAll(db, OUTBOX_STORE_NAME);
+    const pendingUploads = await readPendingUploads(db);
+    // Documents are stored under their owner's id, like the operations.
+    const ownerIds = [...new Set([...outbox.map(op => op.ownerId), ...pendingUploads.map(doc => doc.userId)].filter(Boolean))];
+    let session = storedSession;
+    let isAnyOwnerBusy = false;
+    for (const ownerId of ownerIds) {
+      const result = await withOwnerLock(ownerId, async () => {
+        // Renewed under the lock, so a syncing tab never refreshes the same token at the same time.
+        session = session && await ensureFreshSession(db, session);
+        if (!session) {
+          console.log('Service Worker: The session could not be renewed, leaving the outbox to the app.');
+          return;
+        }
+        const startedAt = new Date().toISOString();
+        const ops = outbox.filter(op => op.ownerId === ownerId).sort((a, b) => a.seq - b.seq);
+        const { ackedSeqs, failures, leftToApp } = await pushOutbox(session, ownerId, ops);
+        await acknowledgeOperations(db, ackedSeqs, failures);
+        const uploaded = await uploadPendingDocuments(db, session, pendingUploads.filter(doc => doc.userId === ownerId));
+        await appendJournalEntry(db, buildJournalEntry(ownerId, startedAt, ops, ackedSeqs, failures, uploaded));
+        console.log(`Service Worker: Background sync pushed ${ackedSeqs.length} operations and ${uploaded} documents, left ${leftToApp.length} to the app.`);
+        await notifyClients({ type: 'BACKGROUND_SYNC_RESULT', ownerId, pushed: ackedSeqs.length, failed: failures.length, uploaded });
+      });
+      if (result === 'busy') isAnyOwnerBusy = true;
+    }
+    // Rejecting makes the browser retry later, by which time the syncing tab may have closed.
+    if (isAnyOwnerBusy) throw new Error('A tab is syncing, retrying later.');
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('sync', event => {
+  if (event.tag === BACKGROUND_SYNC_TAG) {
+    console.log('Service Worker: Background sync triggered.');
+    event.waitUntil(runBackgroundSync());
+  }
+});
@@ -130,6 +130,29 @@ export interface Stage {
   decisionNumber?: string;
   decisionSummary?: string;
   decisionNotes?: string;
+  decisionOutcome?: StageOutcome | null;
+  notificationDate?: Date; // When the decision was served; statutory deadlines usually run from it
+  // Set on an appeal or cassation stage: the stage whose decision it challenges, and the last day to file.
+  parentStageId?: string | null;
+  challengeKind?: ChallengeKind | null;
+  filingDeadline?: Date;
+  customFields?: CustomFieldValues;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+export type StageOutcome = 'won' | 'lost' | 'partial';
+export type ChallengeKind = 'appeal' | 'cassation';
+
+export type CasePartyRole = 'plaintiff' | 'defendant' | 'intervener' | 'other';
+
+export interface CaseParty {
+  id: string;
+  name: string;
+  role: CasePartyRole;
+  isClient: boolean; // Represented by the office; every other party counts as an opponent
+  contactId?: string | null; // Entry of the contacts directory; older parties may still hold a client id
+  representative?: string; // The party's lawyer, i.e. opposing counsel for opponents
   updated_at?: Date;
   user_id?: string;
 }
@@ -137,11 +160,16 @@ export interface Stage {
 export interface Case {
   id: string;
   subject: string;
+  // Summaries of the parties, kept in step with them for older data and the places that show a single name.
   clientName: string;
   opponentName: string;
+  parties?: CaseParty[];
   stages: Stage[];
   feeAgreement: string;
   status: 'active' | 'closed' | 'on_hold';
+  caseTypeId?: string | null; // A top-level case type or one of its subtypes
+  tags?: string[];
+  customFields?: CustomFieldValues;
   updated_at?: Date;
   user_id?: string;
 }
@@ -149,12 +177,131 @@ export interface Case {
 export interface Client {
   id: string;
   name: string;
-  contactInfo: string;
+  contactInfo: string; // Summary of the linked contact's phones and address, or free text for older clients
+  contactId?: string | null;
+  customFields?: CustomFieldValues;
   cases: Case[];
   updated_at?: Date;
   user_id?: string;
 }
 
+export type ContactType = 'client' | 'opponent' | 'judge' | 'expert' | 'clerk' | 'lawyer' | 'other';
+
+// An entry of the office's contacts directory, shared by clients, case parties and sharing actions.
+export interface Contact {
+  id: string;
+  name: string;
+  type: ContactType;
+  phones: string[];
+  address?: string;
+  nationalId?: string;
+  notes?: string;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+export type CustomFieldEntity = 'client' | 'case' | 'stage';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+// A field the office added to its clients, cases or stages, e.g. a power-of-attorney number.
+export interface CustomFieldDefinition {
+  id: string;
+  entity: CustomFieldEntity;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // The choices of a select field
+  required?: boolean;
+  order: number;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+// Values keyed by definition id; dates are kept as YYYY-MM-DD.
+export type CustomFieldValues = Record<string, string | number | boolean>;
+
+// Case types are configured per office as a two-level taxonomy, e.g. مدني > عقاري.
+export interface CaseType {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+export type CourtLevel = 'magistrate' | 'first_instance' | 'appeal' | 'cassation' | 'other';
+
+// An entry of the courts registry. Stages and sessions refer to a court by its name, which the registry keeps consistent.
+export interface Court {
+  id: string;
+  name: string;
+  city?: string;
+  courtType?: string; // e.g. مدنية، جزائية، شرعية
+  level: CourtLevel;
+  address?: string;
+  workingDays: number[]; // Weekday indexes as returned by Date.getDay()
+  hall?: string; // Floor or hall
+  updated_at?: Date;
+  user_id?: string;
+}
+
+// Statutory deadlines are configured per office, e.g. "appeal within 15 days of notification".
+export type DeadlineTrigger = 'decision' | 'notification';
+
+export interface DeadlineRule {
+  id: string;
+  name: string; // The step to take, e.g. استئناف، اعتراض
+  caseTypeId?: string | null; // Null for every case type; a top-level type also covers its subtypes
+  stageLevel?: CourtLevel | null; // Level of the decided stage; null for any
+  challengeKind?: ChallengeKind | null; // The follow-up stage the step opens, if any
+  days: number;
+  trigger: DeadlineTrigger;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+// A deadline opened by a decided stage. The id is derived from the stage and rule, so devices deciding the same stage agree.
+export interface Deadline {
+  id: string;
+  title: string;
+  dueDate: Date;
+  trigger: DeadlineTrigger; // What the due date was counted from: 'decision' while the notification date is still unknown
+  ruleId: string;
+  clientId: string;
+  caseId: string;
+  stageId: string;
+  completed: boolean;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+// A running note on a client, a case or one of its stages; the narrowest id it carries says which.
+export interface Note {
+  id: string;
+  clientId: string;
+  caseId?: string | null;
+  stageId?: string | null;
+  body: string; // Light markup: **bold**, *italic*, "- " list items and @mentions of assistants
+  authorId?: string | null;
+  authorName: string;
+  pinned: boolean;
+  mentions: string[]; // Assistants mentioned in the body, each given an admin task when the note was saved
+  createdAt: Date;
+  updated_at?: Date;
+  user_id?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Stored as JSON on the appointment or admin task it repeats; the record's own date is the first occurrence.
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number; // Every N days, weeks, months or years
+    weekdays?: number[]; // Weekly only: Date.getDay() indexes; empty means the weekday of the first occurrence
+    until?: string | null; // 'YYYY-MM-DD', inclusive
+    count?: number | null; // Total number of occurrences
+    skipHolidays: boolean;
+}
+
 export interface AdminTask {
     id: string;
     task: string;
@@ -163,6 +310,9 @@ export interface AdminTask {
     importance: 'normal' | 'important' | 'urgent';
     assignee?: string;
     location?: string;
+    caseId?: string | null;
+    recurrence?: RecurrenceRule | null;
+    excludedDates?: string[]; // 'YYYY-MM-DD' occurrences taken out of the series: deleted, or kept as records of their own
     updated_at?: Date;
     orderIndex?: number;
 }
@@ -177,6 +327,8 @@ export interface Appointment {
     notified?: boolean;
     reminderTimeInMinutes?: number;
     assignee?: string;
+    recurrence?: RecurrenceRule | null;
+    excludedDates?: string[]; // Same as AdminTask.excludedDates
     updated_at?: Date;
 }
 
@@ -244,6 +396,13 @@ export interface CaseDocument {
 
 export interface AppData {
     clients: Client[];
+    contacts: Contact[];
+    courts: Court[];
+    caseTypes: CaseType[];
+    customFieldDefinitions: CustomFieldDefinition[];
+    deadlineRules: DeadlineRule[];
+    deadlines: Deadline[];
+    notes: Note[];
     adminTasks: AdminTask[];
     appointments: Appointment[];
     accountingEntries: AccountingEntry[];
@@ -279,6 +438,148 @@ export interface SyncDeletion {
     deleted_at: string;
 }
 
+export type OutboxReason = 'create' | 'update' | 'delete' | 'postpone';
+
+// Old and new value per changed field; only edits carry them, a creation or deletion is logged as a whole.
+export type AuditChanges = Record<string, { from: any; to: any }>;
+
+export interface OutboxAuditInfo {
+    caseId: string;
+    label: string | null;
+    changes: AuditChanges | null;
+}
+
+// One change to a case record as stored in the cloud 'audit_log' table.
+export interface AuditLogEntry {
+    id: string; // The outbox operation id, so a push that is replayed logs the change once
+    user_id: string; // Data owner
+    actor_id: string; // Profile of whoever made the change: the owner or one of their assistants
+    table_name: string;
+    record_id: string;
+    case_id: string;
+    action: OutboxReason;
+    record_label: string | null;
+    changes: AuditChanges | null;
+    created_at: string;
+}
+
+// A calendar subscription in the cloud 'calendar_feeds' table. Whoever holds the token can read the feed,
+// so revoking it means deleting the row.
+export interface CalendarFeed {
+    id: string;
+    user_id: string; // Data owner
+    created_by: string; // Profile that created the feed; only they and the owner see its token
+    token: string;
+    name: string;
+    assignee: string | null; // Only this assistant's sessions, appointments and tasks; null for everyone's
+    time_zone: string; // IANA zone the feed's dates and times are read in
+    created_at: string;
+}
+
+// A local mutation waiting to be replayed against Supabase, kept in the 'syncOutbox' store.
+// Operations are ordered by seq and coalesced per record, so replaying one twice is harmless.
+export interface OutboxOperation {
+    seq?: number; // Assigned by IndexedDB
+    ownerId?: string;
+    opId: string;
+    table: string; // Flat table name, or 'storage' for document files
+    recordId: string; // Row id (assistant name, storage path for files)
+    type: 'upsert' | 'delete' | 'delete_file';
+    reason: OutboxReason;
+    payload?: any; // Flat row as it was when the operation was recorded
+    remoteRow?: any; // The same row as sent to Supabase, used by the service worker's background sync
+    changedColumns?: string[]; // Updates: the database columns they changed, all the background sync sends
+    baseUpdatedAt?: string; // Updates: updated_at of the row they were made on; the background sync leaves rows changed since to the app
+    audit?: OutboxAuditInfo; // Set for rows that belong to a case
+    auditRow?: AuditLogEntry; // Written to the audit log once the operation is pushed
+    createdAt: string;
+    attempts: number;
+    lastError: string | null;
+}
+
+export type SyncRunKind = 'sync' | 'refresh' | 'realtime' | 'documents' | 'background';
+
+// One sync run as recorded in the 'syncJournal' store, a ring buffer of the most recent runs.
+export interface SyncJournalEntry {
+    id?: number; // Assigned by IndexedDB
+    ownerId?: string;
+    kind: SyncRunKind;
+    mode?: 'full' | 'incremental';
+    startedAt: string;
+    finishedAt: string;
+    status: 'success' | 'partial' | 'failed';
+    pulled: Record<string, number>; // Rows received per table
+    pushed: Record<string, number>; // Rows upserted per table
+    deletionsApplied: Record<string, number>; // Local rows removed because they were deleted remotely
+    deletionsPushed: Record<string, number>;
+    documents: { uploaded: number; downloaded: number; filesDeleted: number };
+    errors: { table: string | null; message: string }[];
+}
+
+export const createSyncJournalEntry = (kind: SyncRunKind): SyncJournalEntry => ({
+    kind, startedAt: new Date().toISOString(), finishedAt: '', status: 'success',
+    pulled: {}, pushed: {}, deletionsApplied: {}, deletionsPushed: {},
+    documents: { uploaded: 0, downloaded: 0, filesDeleted: 0 },
+    errors: [],
+});
+
+export type TrashEntityType = 'client' | 'case' | 'stage' | 'session';
+
+// A deleted client, case, stage or session kept in the 'trash' store together with everything removed along with it.
+export interface TrashItem {
+    id: string;
+    ownerId?: string;
+    entityType: TrashEntityType;
+    entityId: string;
+    label: string;
+    // Where the entity hung in the tree; a case is restored into its client, a session into its stage, and so on.
+    parentIds: { clientId?: string; caseId?: string; stageId?: string };
+    entity: Client | Case | Stage | Session; // With its nested children as they were
+    documents: CaseDocument[];
+    accountingEntries: AccountingEntry[];
+    invoices: Invoice[];
+    deletedAt: string;
+    deletedBy: string | null;
+}
+
+// Legacy pending-deletions list, only read to migrate it into the outbox.
 export const getInitialDeletedIds = (): DeletedIds => ({
     clients: [], cases: [], stages: [], sessions: [], adminTasks: [], appointments: [], accountingEntries: [], invoices: [], invoiceItems: [], assistants: [], documents: [], documentPaths: [], profiles: [], siteFinances: []
-});
\ No newline at end of file
+});
+
+// High-water mark of the last row pulled from a table, ordered by (updated_at, id).
+export interface SyncCursor {
+    updated_at: string;
+    id: string | number;
+}
+
+export interface SyncState {
+    version: number;
+    lastSyncedAt: string | null; // Client time at which the last successful sync started
+    cursors: Record<string, SyncCursor>;
+    deletionsSince: string | null; // Latest sync_deletions.deleted_at already applied
+}
+
+// Flat table name -> row id -> row as it was after the last successful sync.
+// Used as the common ancestor when merging local and remote edits field by field.
+export type SyncBase = Record<string, Record<string, any>>;
+
+export type ConflictTable = 'clients' | 'cases' | 'stages' | 'sessions';
+
+// A field changed both locally and remotely since the last sync, awaiting the user's decision.
+export interface SyncConflict {
+    id: string; // `${table}:${recordId}:${field}`
+    table: ConflictTable;
+    recordId: string;
+    recordLabel: string;
+    field: string;
+    localValue: any;
+    remoteValue: any;
+    detectedAt: Date;
+}
+
+export const SYNC_STATE_VERSION = 1;
+
+export const getInitialSyncState = (): SyncState => ({
+    version: SYNC_STATE_VERSION, lastSyncedAt: null, cursors: {}, deletionsSince: null
+});
@@ -0,0 +1,58 @@
+import { Case, CaseParty, CasePartyRole, Client } from '../types';
+
+export const CASE_PARTY_ROLE_LABELS: Record<CasePartyRole, string> = {
+    plaintiff: 'مدعٍ',
+    defendant: 'مدعى عليه',
+    intervener: 'متدخل',
+    other: 'طرف آخر',
+};
+
+const PARTY_NAME_SEPARATOR = '، ';
+
+// The single-name fields of cases and sessions, as derived from the parties.
+export const summarizeParties = (parties: CaseParty[]): { clientName: string; opponentName: string } => ({
+    clientName: parties.filter(p => p.isClient).map(p => p.name).join(PARTY_NAME_SEPARATOR),
+    opponentName: parties.filter(p => !p.isClient).map(p => p.name).join(PARTY_NAME_SEPARATOR),
+});
+
+// A case saved before parties existed is described by its two name fields; this turns them into parties to edit.
+export const getEditableParties = (caseItem: Partial<Case> | undefined, client: Client | undefined): CaseParty[] => {
+    if (caseItem?.parties && caseItem.parties.length > 0) return caseItem.parties;
+    const now = Date.now();
+    const parties: CaseParty[] = [];
+    const clientName = caseItem?.clientName || client?.name;
+    if (clientName) parties.push({ id: `party-${now}-0`, name: clientName, role: 'plaintiff', isClient: true, contactId: client?.contactId || null });
+    if (caseItem?.opponentName) parties.push({ id: `party-${now}-1`, name: caseItem.opponentName, role: 'defendant', isClient: false, contactId: null });
+    return parties;
+};
+
+// The same parties for a case stored before they existed, with ids derived from the case so that every
+// device upgrading its local data derives the very same rows.
+export const derivePartiesFromNames = (caseItem: Pick<Case, 'id' | 'clientName' | 'opponentName'>, client: Pick<Client, 'name' | 'contactId'>): CaseParty[] => {
+    const parties: CaseParty[] = [];
+    const clientName = caseItem.clientName || client.name;
+    if (clientName) parties.push({ id: `party-${caseItem.id}-client`, name: clientName, role: 'plaintiff', isClient: true, contactId: client.contactId || null });
+    if (caseItem.opponentName) parties.push({ id: `party-${caseItem.id}-opponent`, name: caseItem.opponentName, role: 'defendant', isClient: false, contactId: null });
+    return parties;
+};
+
+// "Name (مدعٍ، وكيله: Lawyer)" per party on one side, for tables and printouts.
+export const formatPartySide = (parties: CaseParty[], isClient: boolean): string => parties
+    .filter(p => p.isClient === isClient)
+    .map(p => {
+        const details = [CASE_PARTY_ROLE_LABELS[p.role], p.representative && `وكيله: ${p.representative}`].filter(Boolean);
+        return `${p.name} (${details.join(PARTY_NAME_SEPARATOR)})`;
+    })
+    .join(' - ');
+
+// Sessions only know their stage, so lists of sessions look their case's parties up by stage id.
+export const buildPartiesByStageId = (clients: Client[]): Map<string, CaseParty[]> => {
+    const map = new Map<string, CaseParty[]>();
+    for (const client of clients) {
+        for (const caseItem of client.cases) {
+            if (!caseItem.parties || caseItem.parties.length === 0) continue;
+            for (const stage of caseItem.stages) map.set(stage.id, caseItem.parties);
+        }
+    }
+    return map;
+};
@@ -0,0 +1,93 @@
+import { AccountingEntry, AdminTask, Case, CaseDocument, Deadline, Invoice } from '../types';
+import { formatDate } from './dateUtils';
+import { STAGE_OUTCOME_LABELS } from './stageChain';
+
+export type CaseTimelineEventType = 'session' | 'decision' | 'deadline' | 'document' | 'accounting' | 'invoice' | 'task';
+
+export const CASE_TIMELINE_EVENT_LABELS: Record<CaseTimelineEventType, string> = {
+    session: 'الجلسات',
+    decision: 'القرارات',
+    deadline: 'المهل',
+    document: 'الوثائق',
+    accounting: 'الدفعات والمصاريف',
+    invoice: 'الفواتير',
+    task: 'المهام الإدارية',
+};
+
+export interface CaseTimelineEvent {
+    id: string;
+    type: CaseTimelineEventType;
+    date: Date;
+    title: string;
+    details: string[];
+}
+
+export interface CaseTimelineSources {
+    accountingEntries: AccountingEntry[];
+    invoices: Invoice[];
+    documents: CaseDocument[];
+    adminTasks: AdminTask[];
+    deadlines: Deadline[];
+}
+
+const INVOICE_STATUS_LABELS: Record<Invoice['status'], string> = { draft: 'مسودة', sent: 'مرسلة', paid: 'مدفوعة', overdue: 'متأخرة' };
+
+const getInvoiceTotal = (invoice: Invoice) => {
+    const subtotal = invoice.items.reduce((sum, item) => sum + item.amount, 0);
+    return subtotal + (subtotal * invoice.taxRate / 100) - invoice.discount;
+};
+
+/** Everything that happened in a case, oldest first; events on the same day keep the order they are listed in here. */
+export const buildCaseTimeline = (caseItem: Case, sources: CaseTimelineSources): CaseTimelineEvent[] => {
+    const events: CaseTimelineEvent[] = [];
+    const stageIds = new Set(caseItem.stages.map(st => st.id));
+
+    for (const stage of caseItem.stages) {
+        const stageLabel = `${stage.court}${stage.caseNumber ? ` (أساس ${stage.caseNumber})` : ''}`;
+        for (const session of stage.sessions) {
+            const details = [
+                session.postponementReason && `سبب التأجيل السابق: ${session.postponementReason}`,
+                session.isPostponed && `أُجّلت${session.nextSessionDate ? ` إلى ${formatDate(new Date(session.nextSessionDate))}` : ''}${session.nextPostponementReason ? ` بسبب: ${session.nextPostponementReason}` : ''}`,
+                session.assignee && `المكلف بالحضور: ${session.assignee}`,
+            ].filter(Boolean) as string[];
+            events.push({ id: `session-${session.id}`, type: 'session', date: new Date(session.date), title: `جلسة في ${stageLabel}`, details });
+        }
+        if (stage.decisionDate) {
+            const details = [
+                stage.decisionNumber && `رقم القرار: ${stage.decisionNumber}`,
+                stage.decisionOutcome && `النتيجة: ${STAGE_OUTCOME_LABELS[stage.decisionOutcome]}`,
+                stage.decisionSummary,
+                stage.decisionNotes && `ملاحظات: ${stage.decisionNotes}`,
+                stage.notificationDate && `تاريخ التبليغ: ${formatDate(new Date(stage.notificationDate))}`,
+            ].filter(Boolean) as string[];
+            events.push({ id: `decision-${stage.id}`, type: 'decision', date: new Date(stage.decisionDate), title: `قرار الحسم في ${stageLabel}`, details });
+        }
+    }
+
+    for (const deadline of sources.deadlines) {
+        if (!stageIds.has(deadline.stageId)) continue;
+        events.push({ id: `deadline-${deadline.id}`, type: 'deadline', date: new Date(deadline.dueDate), title: `آخر موعد: ${deadline.title}`, details: [deadline.completed ? 'تم التقديم' : 'لم تُقدَّم بعد'] });
+    }
+    for (const doc of sources.documents) {
+        if (doc.caseId !== caseItem.id) continue;
+        events.push({ id: `document-${doc.id}`, type: 'document', date: new Date(doc.addedAt), title: `إضافة وثيقة: ${doc.name}`, details: [] });
+    }
+    for (const entry of sources.accountingEntries) {
+        if (entry.caseId !== caseItem.id) continue;
+        const title = `${entry.type === 'income' ? 'دفعة مقبوضة' : 'مصروف'}: ${entry.amount.toLocaleString()} ل.س`;
+        events.push({ id: `accounting-${entry.id}`, type: 'accounting', date: new Date(entry.date), title, details: entry.description ? [entry.description] : [] });
+    }
+    for (const invoice of sources.invoices) {
+        if (invoice.caseId !== caseItem.id) continue;
+        const details = [`الحالة: ${INVOICE_STATUS_LABELS[invoice.status]}`, `تاريخ الاستحقاق: ${formatDate(new Date(invoice.dueDate))}`];
+        events.push({ id: `invoice-${invoice.id}`, type: 'invoice', date: new Date(invoice.issueDate), title: `فاتورة ${invoice.id}: ${getInvoiceTotal(invoice).toLocaleString()} ل.س`, details });
+    }
+    for (const task of sources.adminTasks) {
+        if (task.caseId !== caseItem.id) continue;
+        const details = [task.completed ? 'منجزة' : 'قيد التنفيذ', task.assignee && `المكلف: ${task.assignee}`].filter(Boolean) as string[];
+        events.push({ id: `task-${task.id}`, type: 'task', date: new Date(task.dueDate), title: task.task, details });
+    }
+
+    // A stable sort keeps same-day events in the order above: sessions before the decision they led to.
+    return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
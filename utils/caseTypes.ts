@@ -0,0 +1,88 @@
+import { Case, CaseType, Client } from '../types';
+import { normalizeArabicText } from './contacts';
+
+// Offered to offices that have not set up their own types yet.
+const DEFAULT_CASE_TYPES: { name: string; subtypes: string[] }[] = [
+    { name: 'مدني', subtypes: ['عقاري', 'إيجارات', 'عقود', 'تعويض'] },
+    { name: 'جزائي', subtypes: ['جناية', 'جنحة', 'مخالفة'] },
+    { name: 'شرعي', subtypes: ['طلاق', 'نفقة', 'حضانة', 'إرث'] },
+    { name: 'عمل', subtypes: ['فصل تعسفي', 'أجور وتعويضات'] },
+    { name: 'تجاري', subtypes: ['شركات', 'أوراق تجارية'] },
+    { name: 'إداري', subtypes: [] },
+];
+
+export const createDefaultCaseTypes = (): CaseType[] => {
+    const now = Date.now();
+    return DEFAULT_CASE_TYPES.flatMap((type, i) => {
+        const parent: CaseType = { id: `casetype-${now}-${i}`, name: type.name, parentId: null, updated_at: new Date() };
+        return [parent, ...type.subtypes.map((name, j) => ({ id: `casetype-${now}-${i}-${j}`, name, parentId: parent.id, updated_at: new Date() }))];
+    });
+};
+
+export const getTopLevelCaseTypes = (caseTypes: CaseType[]): CaseType[] =>
+    caseTypes.filter(t => !t.parentId || !caseTypes.some(p => p.id === t.parentId)).sort((a, b) => a.name.localeCompare(b.name, 'ar'));
+
+export const getCaseSubtypes = (caseTypes: CaseType[], parentId: string): CaseType[] =>
+    caseTypes.filter(t => t.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name, 'ar'));
+
+// The top-level type a case is filed under, whether it points at the type itself or at one of its subtypes.
+export const getRootCaseType = (caseTypes: CaseType[], caseTypeId: string | null | undefined): CaseType | undefined => {
+    const type = caseTypeId ? caseTypes.find(t => t.id === caseTypeId) : undefined;
+    return type?.parentId ? caseTypes.find(t => t.id === type.parentId) || type : type;
+};
+
+/** "مدني › عقاري" for a subtype, the type's name for a top-level type, '' when unknown. */
+export const getCaseTypeLabel = (caseTypes: CaseType[], caseTypeId: string | null | undefined): string => {
+    const type = caseTypeId ? caseTypes.find(t => t.id === caseTypeId) : undefined;
+    if (!type) return '';
+    const root = getRootCaseType(caseTypes, type.id);
+    return root && root.id !== type.id ? `${root.name} › ${type.name}` : type.name;
+};
+
+// Trimmed, without '#', with spelling variants of the same tag kept once.
+export const normalizeTags = (tags: string[]): string[] => {
+    const seen = new Set<string>();
+    return tags.map(t => t.replace(/^#+/, '').trim()).filter(tag => {
+        const key = normalizeArabicText(tag);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Every tag in use, most used first.
+export const collectCaseTags = (clients: Client[]): string[] => {
+    const counts = new Map<string, number>();
+    clients.forEach(client => client.cases.forEach(cs => (cs.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'ar')).map(([tag]) => tag);
+};
+
+export interface CaseClassificationFilter {
+    caseTypeId: string | 'all' | 'none';
+    tags: string[];
+}
+
+export const EMPTY_CASE_FILTER: CaseClassificationFilter = { caseTypeId: 'all', tags: [] };
+
+export const isCaseFilterActive = (filter: CaseClassificationFilter) => filter.caseTypeId !== 'all' || filter.tags.length > 0;
+
+/** A top-level type also matches the cases filed under its subtypes; a case must carry all the selected tags. */
+export const matchesCaseFilter = (caseItem: Case, filter: CaseClassificationFilter, caseTypes: CaseType[]): boolean => {
+    if (filter.caseTypeId === 'none' && caseItem.caseTypeId && caseTypes.some(t => t.id === caseItem.caseTypeId)) return false;
+    if (filter.caseTypeId !== 'all' && filter.caseTypeId !== 'none'
+        && caseItem.caseTypeId !== filter.caseTypeId
+        && getRootCaseType(caseTypes, caseItem.caseTypeId)?.id !== filter.caseTypeId) return false;
+    const tags = new Set((caseItem.tags || []).map(normalizeArabicText));
+    return filter.tags.every(tag => tags.has(normalizeArabicText(tag)));
+};
+
+// Clients are kept with only their matching cases, and dropped when none match.
+export const filterClientsByCase = (clients: Client[], filter: CaseClassificationFilter, caseTypes: CaseType[]): Client[] => {
+    if (!isCaseFilterActive(filter)) return clients;
+    return clients
+        .map(client => {
+            const cases = client.cases.filter(cs => matchesCaseFilter(cs, filter, caseTypes));
+            return cases.length === client.cases.length ? client : { ...client, cases };
+        })
+        .filter(client => client.cases.length > 0);
+};
@@ -0,0 +1,154 @@
+import { Case, CaseParty, Client, Contact, ContactType } from '../types';
+
+export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
+    client: 'موكل',
+    opponent: 'خصم',
+    judge: 'قاضٍ',
+    expert: 'خبير',
+    clerk: 'كاتب محكمة',
+    lawyer: 'محامٍ',
+    other: 'أخرى',
+};
+
+// Numbers typed without a country code are Syrian, as for the verification codes sent from the admin page.
+const DEFAULT_COUNTRY_CODE = '963';
+const PHONE_PATTERN = /\+?[\d٠-٩۰-۹][\d٠-٩۰-۹\s\-()]{5,}[\d٠-٩۰-۹]/g;
+
+export const toLatinDigits = (value: string) => value
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0));
+
+/** International digits without '+' or leading zeros (e.g. "0933 123 456" -> "963933123456"), '' when there are none. */
+export const normalizePhone = (phone: string): string => {
+    const trimmed = toLatinDigits(phone).trim();
+    const digits = trimmed.replace(/\D/g, '');
+    if (!digits) return '';
+    if (trimmed.startsWith('+')) return digits;
+    if (digits.startsWith('00')) return digits.slice(2);
+    if (digits.startsWith('0')) return DEFAULT_COUNTRY_CODE + digits.replace(/^0+/, '');
+    return digits.length <= 9 ? DEFAULT_COUNTRY_CODE + digits : digits;
+};
+
+// Spelling variants that should not make two names differ (hamza forms, taa marbuta, alef maqsura, spacing).
+export const normalizeArabicText = (name: string): string => name
+    .trim()
+    .toLowerCase()
+    .replace(/[ً-ْـ]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/\s+/g, ' ');
+
+// Phone numbers found in a free-text contact field, as kept by clients created before the directory.
+export const extractPhones = (text: string): string[] => (text.match(PHONE_PATTERN) || []).map(p => p.trim());
+
+/** Contacts that are probably the same person as the candidate: same name, or a phone number in common. */
+export const findDuplicateContacts = (contacts: Contact[], candidate: Pick<Contact, 'name' | 'phones'> & { id?: string }): Contact[] => {
+    const name = normalizeArabicText(candidate.name);
+    const phones = new Set(candidate.phones.map(normalizePhone).filter(Boolean));
+    if (!name && phones.size === 0) return [];
+    return contacts.filter(c => c.id !== candidate.id && (
+        (name && normalizeArabicText(c.name) === name) || c.phones.some(p => phones.has(normalizePhone(p)))
+    ));
+};
+
+// Form values as stored: blank and repeated phone numbers dropped, empty texts left out.
+export const cleanContactFields = (fields: Pick<Contact, 'phones'> & Partial<Pick<Contact, 'address' | 'nationalId' | 'notes'>>) => {
+    const seen = new Set<string>();
+    const phones = fields.phones.map(p => p.trim()).filter(p => {
+        const key = normalizePhone(p);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    return {
+        phones,
+        address: fields.address?.trim() || undefined,
+        nationalId: fields.nationalId?.trim() || undefined,
+        notes: fields.notes?.trim() || undefined,
+    };
+};
+
+// The client's contactInfo as shown wherever a single line is expected.
+export const formatContactInfo = (contact: Pick<Contact, 'phones' | 'address'>): string =>
+    [...contact.phones.filter(p => p.trim()), contact.address?.trim()].filter(Boolean).join(' - ');
+
+export const getClientContact = (client: Client, contacts: Contact[]): Contact | undefined =>
+    client.contactId ? contacts.find(c => c.id === client.contactId) : undefined;
+
+// Parties linked before the directory existed point at a client; those resolve through the client's contact.
+export const getPartyContact = (party: CaseParty, contacts: Contact[], clients: Client[]): Contact | undefined => {
+    if (!party.contactId) return undefined;
+    const contact = contacts.find(c => c.id === party.contactId);
+    if (contact) return contact;
+    const client = clients.find(c => c.id === party.contactId);
+    return client ? getClientContact(client, contacts) : undefined;
+};
+
+// A client saved before the directory keeps everything in contactInfo; its phones are picked out and the rest kept as notes.
+export const getEditableContactFields = (client: Client, contacts: Contact[]) => {
+    const contact = getClientContact(client, contacts);
+    if (contact) return { phones: contact.phones, address: contact.address, nationalId: contact.nationalId, notes: contact.notes };
+    const phones = extractPhones(client.contactInfo);
+    const rest = phones.reduce((text, phone) => text.replace(phone, ' '), client.contactInfo).replace(/^[\s\-،,]+|[\s\-،,]+$/g, '');
+    return { phones, notes: rest || undefined };
+};
+
+export const getClientPhones = (client: Client, contacts: Contact[]): string[] => {
+    const contact = getClientContact(client, contacts);
+    return contact && contact.phones.length > 0 ? contact.phones : extractPhones(client.contactInfo);
+};
+
+/** Opens a chat with the phone when one is known, otherwise lets the user pick the recipient in WhatsApp. */
+export const getWhatsAppUrl = (message: string, phone?: string): string => {
+    const number = phone ? normalizePhone(phone) : '';
+    return `https://wa.me/${number}?text=${encodeURIComponent(message)}`;
+};
+
+export interface WhatsAppRecipient {
+    name: string;
+    phone: string;
+}
+
+/**
+ * Who a client's file or one of its cases can be sent to: the client and, for a case, the parties on the
+ * client's side. Opponents are left out so a case summary is never offered to the other side.
+ */
+export const getWhatsAppRecipients = (client: Client, caseItem: Case | undefined, contacts: Contact[], clients: Client[]): WhatsAppRecipient[] => {
+    const recipients: WhatsAppRecipient[] = getClientPhones(client, contacts).map(phone => ({ name: client.name, phone }));
+    for (const party of caseItem?.parties || []) {
+        if (!party.isClient) continue;
+        const contact = getPartyContact(party, contacts, clients);
+        for (const phone of contact?.phones || []) recipients.push({ name: party.name, phone });
+    }
+    const seen = new Set<string>();
+    return recipients.filter(r => {
+        const key = normalizePhone(r.phone);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * Links each party to a contact, matching by name the ones typed freely and adding a contact for each new
+ * name, so an opponent typed once is offered in every later case.
+ */
+export const linkPartiesToContacts = (parties: CaseParty[], contacts: Contact[], clients: Client[]): { parties: CaseParty[]; newContacts: Contact[] } => {
+    const newContacts: Contact[] = [];
+    const linked = parties.map((party, index) => {
+        const existing = getPartyContact(party, contacts, clients)
+            || findDuplicateContacts([...contacts, ...newContacts], { name: party.name, phones: [] })[0];
+        if (existing) return { ...party, contactId: existing.id };
+        const contact: Contact = {
+            id: `contact-${Date.now()}-${index}`,
+            name: party.name,
+            type: party.isClient ? 'client' : 'opponent',
+            phones: [],
+            updated_at: new Date(),
+        };
+        newContacts.push(contact);
+        return { ...party, contactId: contact.id };
+    });
+    return { parties: linked, newContacts };
+};
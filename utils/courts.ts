@@ -0,0 +1,178 @@
+import { Case, Client, Court, CourtLevel, Stage } from '../types';
+import { normalizeArabicText, toLatinDigits } from './contacts';
+
+export const COURT_LEVEL_LABELS: Record<CourtLevel, string> = {
+    magistrate: 'صلح',
+    first_instance: 'بداية',
+    appeal: 'استئناف',
+    cassation: 'نقض',
+    other: 'أخرى',
+};
+
+// Indexed like Date.getDay().
+export const WEEKDAY_LABELS = ['الأحد', 'الإثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+export const DEFAULT_WORKING_DAYS = [0, 1, 2, 3, 4];
+
+const ORDINAL_DIGITS: Record<string, string> = {
+    '1': 'اول', '2': 'ثاني', '3': 'ثالث', '4': 'رابع', '5': 'خامس', '6': 'سادس', '7': 'سابع', '8': 'ثامن', '9': 'تاسع', '10': 'عاشر',
+};
+const IGNORED_WORDS = new Set(['محكمه', 'في', 'ب']);
+
+/**
+ * Reduces a court name to what tells courts apart, so "محكمة البداية المدنية الأولى" and "بداية مدنية 1"
+ * give the same key: spelling variants, the word "محكمة", articles, feminine endings and word order are ignored.
+ */
+export const getCourtNameKey = (name: string): string => normalizeArabicText(toLatinDigits(name))
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .map(word => ORDINAL_DIGITS[word] || word)
+    .map(word => word.length > 3 && word.startsWith('ال') ? word.slice(2) : word)
+    .map(word => word.length > 2 && word.endsWith('ه') ? word.slice(0, -1) : word)
+    .map(word => word === 'اولي' ? 'اول' : word)
+    .filter(word => word && !IGNORED_WORDS.has(word))
+    .sort()
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Keys this close are taken for typos of each other; short keys must match exactly.
+const areSimilarKeys = (a: string, b: string): boolean => {
+    if (a === b) return true;
+    const length = Math.min(a.length, b.length);
+    const tolerance = length >= 12 ? 2 : length >= 6 ? 1 : 0;
+    return tolerance > 0 && Math.abs(a.length - b.length) <= tolerance && levenshtein(a, b) <= tolerance;
+};
+
+export const findCourtByName = (courts: Court[], name: string): Court | undefined => {
+    const trimmed = name.trim();
+    return courts.find(c => c.name === trimmed) || courts.find(c => getCourtNameKey(c.name) === getCourtNameKey(trimmed));
+};
+
+/** Registry courts the typed name probably means, for a "did you mean" hint while it is not in the registry. */
+export const findSimilarCourts = (courts: Court[], name: string): Court[] => {
+    const key = getCourtNameKey(name);
+    if (!key || courts.some(c => c.name === name.trim())) return [];
+    return courts.filter(c => areSimilarKeys(getCourtNameKey(c.name), key));
+};
+
+// How many stages and sessions use each spelling.
+export const collectCourtUsage = (clients: Client[]): Map<string, number> => {
+    const usage = new Map<string, number>();
+    const count = (name: string | undefined) => {
+        const trimmed = name?.trim();
+        if (trimmed) usage.set(trimmed, (usage.get(trimmed) || 0) + 1);
+    };
+    for (const client of clients) {
+        for (const caseItem of client.cases) {
+            for (const stage of caseItem.stages) {
+                count(stage.court);
+                stage.sessions.forEach(s => count(s.court));
+            }
+        }
+    }
+    return usage;
+};
+
+export interface CourtNameCluster {
+    variants: { name: string; count: number; court?: Court }[];
+    suggested: string; // The registry's spelling if there is one, otherwise the most used
+}
+
+/** Groups the spellings in use (and the registry's names) that refer to the same court; only groups with several spellings are returned. */
+export const clusterCourtNames = (usage: Map<string, number>, courts: Court[]): CourtNameCluster[] => {
+    const names = [...new Set([...usage.keys(), ...courts.map(c => c.name)])];
+    const keys = names.map(getCourtNameKey);
+    const parent = names.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    for (let i = 0; i < names.length; i++) {
+        for (let j = i + 1; j < names.length; j++) {
+            if (keys[i] && areSimilarKeys(keys[i], keys[j])) parent[find(j)] = find(i);
+        }
+    }
+
+    const groups = new Map<number, number[]>();
+    names.forEach((_, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    return [...groups.values()]
+        .filter(indexes => indexes.length > 1)
+        .map(indexes => {
+            const variants = indexes
+                .map(i => ({ name: names[i], count: usage.get(names[i]) || 0, court: courts.find(c => c.name === names[i]) }))
+                .sort((a, b) => Number(!!b.court) - Number(!!a.court) || b.count - a.count);
+            return { variants, suggested: variants[0].name };
+        })
+        .sort((a, b) => b.variants.reduce((sum, v) => sum + v.count, 0) - a.variants.reduce((sum, v) => sum + v.count, 0));
+};
+
+/** Renames the court of every stage and session using one of `from`. Only those rows change; their clients and cases keep their identity. */
+export const renameCourts = (clients: Client[], from: Set<string>, to: string): Client[] => {
+    const now = new Date();
+    const matches = (court: string | undefined) => !!court && from.has(court.trim()) && court !== to;
+    const stageMatches = (stage: Stage) => matches(stage.court) || stage.sessions.some(s => matches(s.court));
+    const caseMatches = (caseItem: Case) => caseItem.stages.some(stageMatches);
+    return clients.map(client => {
+        if (!client.cases.some(caseMatches)) return client;
+        return {
+            ...client,
+            cases: client.cases.map(caseItem => {
+                if (!caseMatches(caseItem)) return caseItem;
+                return {
+                    ...caseItem,
+                    stages: caseItem.stages.map(stage => {
+                        if (!stageMatches(stage)) return stage;
+                        return {
+                            ...(matches(stage.court) ? { ...stage, court: to, updated_at: now } : stage),
+                            sessions: stage.sessions.map(s => matches(s.court) ? { ...s, court: to, updated_at: now } : s),
+                        };
+                    }),
+                };
+            }),
+        };
+    });
+};
+
+// One line of the registry details shown next to a court name.
+export const describeCourt = (court: Court): string => [
+    COURT_LEVEL_LABELS[court.level],
+    court.courtType,
+    court.city,
+    court.hall,
+    court.workingDays.length > 0 && court.workingDays.length < 7 && `الدوام: ${court.workingDays.map(d => WEEKDAY_LABELS[d]).join('، ')}`,
+].filter(Boolean).join(' · ');
+
+export const isCourtWorkingDay = (court: Court, date: Date): boolean =>
+    court.workingDays.length === 0 || court.workingDays.includes(date.getDay());
+
+const LEVEL_WORDS: [string, CourtLevel][] = [['صلح', 'magistrate'], ['بداي', 'first_instance'], ['استئناف', 'appeal'], ['نقض', 'cassation']];
+
+export const guessCourtLevel = (name: string): CourtLevel =>
+    LEVEL_WORDS.find(([word]) => getCourtNameKey(name).includes(word))?.[1] || 'other';
+
+export const createCourt = (name: string, index = 0): Court => ({
+    id: `court-${Date.now()}-${index}`,
+    name,
+    level: guessCourtLevel(name),
+    workingDays: [...DEFAULT_WORKING_DAYS],
+    updated_at: new Date(),
+});
+
+/** Folds the registry entries of a cluster's spellings into one entry named `canonical`, keeping the details of the entry that already had that name. */
+export const mergeCourtEntries = (courts: Court[], variants: string[], canonical: string): Court[] => {
+    const inCluster = courts.filter(c => variants.includes(c.name));
+    const kept = inCluster.find(c => c.name === canonical) || inCluster[0];
+    const merged = kept ? { ...kept, name: canonical, updated_at: new Date() } : createCourt(canonical);
+    return [...courts.filter(c => !inCluster.includes(c)), merged];
+};
@@ -0,0 +1,80 @@
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldType, CustomFieldValues } from '../types';
+import { formatDate, parseInputDateString } from './dateUtils';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+    text: 'نص',
+    number: 'رقم',
+    date: 'تاريخ',
+    select: 'قائمة خيارات',
+    boolean: 'نعم / لا',
+};
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+    client: 'الموكلين',
+    case: 'القضايا',
+    stage: 'المراحل',
+};
+
+export const getEntityFields = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity): CustomFieldDefinition[] =>
+    definitions.filter(d => d.entity === entity).sort((a, b) => a.order - b.order);
+
+const isEmptyValue = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+/** An error message per field id for the values that do not fit their definition; empty when all is well. */
+export const validateCustomFields = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity, values: CustomFieldValues | undefined): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    for (const field of getEntityFields(definitions, entity)) {
+        const value = values?.[field.id];
+        // An unticked box is an answer, so required only applies to the other types.
+        if (isEmptyValue(value)) {
+            if (field.required && field.type !== 'boolean') errors[field.id] = 'هذا الحقل مطلوب.';
+            continue;
+        }
+        if (field.type === 'number' && isNaN(Number(value))) errors[field.id] = 'يجب إدخال رقم.';
+        if (field.type === 'date' && !parseInputDateString(String(value))) errors[field.id] = 'تاريخ غير صالح.';
+        if (field.type === 'select' && !(field.options || []).includes(String(value))) errors[field.id] = 'اختر قيمة من القائمة.';
+    }
+    return errors;
+};
+
+/** Values as stored: typed per definition, empty ones and those of deleted fields dropped; undefined when none are left. */
+export const cleanCustomFieldValues = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity, values: CustomFieldValues | undefined): CustomFieldValues | undefined => {
+    const cleaned: CustomFieldValues = {};
+    for (const field of getEntityFields(definitions, entity)) {
+        const value = values?.[field.id];
+        if (isEmptyValue(value)) continue;
+        if (field.type === 'number') cleaned[field.id] = Number(value);
+        else if (field.type === 'boolean') { if (value === true) cleaned[field.id] = true; }
+        else cleaned[field.id] = String(value).trim();
+    }
+    return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValues[string] | undefined): string => {
+    if (isEmptyValue(value)) return '';
+    switch (field.type) {
+        case 'boolean': return value ? 'نعم' : 'لا';
+        case 'date': {
+            const date = parseInputDateString(String(value));
+            return date ? formatDate(date) : String(value);
+        }
+        case 'number': return Number(value).toLocaleString();
+        default: return String(value);
+    }
+};
+
+// The filled-in fields of a record, in the office's order, as label/value pairs for display and printing.
+export const describeCustomFields = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity, values: CustomFieldValues | undefined): { label: string; value: string }[] =>
+    getEntityFields(definitions, entity)
+        .map(field => ({ label: field.label, value: formatCustomFieldValue(field, values?.[field.id]) }))
+        .filter(item => item.value);
+
+// Raw and formatted values together, so a search matches "1234" as well as "1,234" or a date as typed.
+export const getCustomFieldsSearchText = (definitions: CustomFieldDefinition[], values: CustomFieldValues | undefined): string => {
+    if (!values) return '';
+    return definitions
+        .filter(field => !isEmptyValue(values[field.id]) && field.type !== 'boolean')
+        .map(field => `${values[field.id]} ${formatCustomFieldValue(field, values[field.id])}`)
+        .join(' ')
+        .toLowerCase();
+};
@@ -38,6 +38,16 @@ export const formatDate = (date: Date): string => {
     }).format(date);
 };
 
+export const formatDateTime = (date: Date): string => {
+    return new Intl.DateTimeFormat('ar-SY', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    }).format(date);
+};
+
 /**
  * A robust helper function to format a Date object or string into a 'YYYY-MM-DD' string for input fields.
  * It handles null, undefined, empty, and invalid date strings gracefully.
@@ -0,0 +1,176 @@
+import { Case, CaseType, Client, ChallengeKind, Court, CourtLevel, Deadline, DeadlineRule, DeadlineTrigger, Stage } from '../types';
+import { getPublicHoliday, isWeekend } from './dateUtils';
+import { getRootCaseType } from './caseTypes';
+import { getStageLevel } from './stageChain';
+
+export const DEADLINE_TRIGGER_LABELS: Record<DeadlineTrigger, string> = {
+    decision: 'من تاريخ صدور القرار',
+    notification: 'من تاريخ التبليغ',
+};
+
+/**
+ * Applied while an office has not set up its own rules, and copied as-is when it asks for them.
+ * The ids are fixed so that every device derives the same deadline ids from them.
+ */
+export const DEFAULT_DEADLINE_RULES: DeadlineRule[] = [
+    { id: 'deadline-rule-magistrate-appeal', name: 'استئناف', caseTypeId: null, stageLevel: 'magistrate', challengeKind: 'appeal', days: 15, trigger: 'notification' },
+    { id: 'deadline-rule-first-instance-appeal', name: 'استئناف', caseTypeId: null, stageLevel: 'first_instance', challengeKind: 'appeal', days: 15, trigger: 'notification' },
+    { id: 'deadline-rule-appeal-cassation', name: 'طعن بالنقض', caseTypeId: null, stageLevel: 'appeal', challengeKind: 'cassation', days: 30, trigger: 'notification' },
+];
+
+export const getEffectiveDeadlineRules = (rules: DeadlineRule[]): DeadlineRule[] => rules.length > 0 ? rules : DEFAULT_DEADLINE_RULES;
+
+export const isNonWorkingDay = (date: Date): boolean => isWeekend(date) || getPublicHoliday(date) !== null;
+
+// Counted in calendar days; a deadline that ends on a weekend or public holiday runs to the next working day.
+export const computeDeadlineDate = (from: Date, days: number): Date => {
+    const date = new Date(from);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + days);
+    while (isNonWorkingDay(date)) date.setDate(date.getDate() + 1);
+    return date;
+};
+
+/**
+ * The rules that apply to a decision of a stage at `level` in a case of the given type. When several rules
+ * describe the same step, the most specific one wins: the exact case type over its top-level type over any type,
+ * then a given stage level over any level.
+ */
+export const getApplicableRules = (rules: DeadlineRule[], caseTypes: CaseType[], caseTypeId: string | null | undefined, level: CourtLevel): DeadlineRule[] => {
+    const rootTypeId = getRootCaseType(caseTypes, caseTypeId)?.id;
+    const score = (rule: DeadlineRule): number | null => {
+        if (rule.stageLevel && rule.stageLevel !== level) return null;
+        const typeScore = !rule.caseTypeId ? 0 : rule.caseTypeId === caseTypeId ? 4 : rule.caseTypeId === rootTypeId ? 2 : null;
+        return typeScore === null ? null : typeScore + (rule.stageLevel ? 1 : 0);
+    };
+    const best = new Map<string, { rule: DeadlineRule; score: number }>();
+    for (const rule of getEffectiveDeadlineRules(rules)) {
+        const ruleScore = score(rule);
+        if (ruleScore === null) continue;
+        const key = `${rule.name.trim()}|${rule.challengeKind || ''}`;
+        const current = best.get(key);
+        if (!current || ruleScore > current.score) best.set(key, { rule, score: ruleScore });
+    }
+    return [...best.values()].map(entry => entry.rule);
+};
+
+export interface StageRef {
+    clientId: string;
+    caseItem: Case;
+    stage: Stage;
+}
+
+export const findStageRef = (clients: Client[], stageId: string): StageRef | null => {
+    for (const client of clients) {
+        for (const caseItem of client.cases) {
+            const stage = caseItem.stages.find(st => st.id === stageId);
+            if (stage) return { clientId: client.id, caseItem, stage };
+        }
+    }
+    return null;
+};
+
+// A notification-based deadline is counted from the decision until the notification date is known.
+const computeStageDeadline = (rule: DeadlineRule, { clientId, caseItem, stage }: StageRef, decisionDate: Date): Deadline => {
+    const trigger: DeadlineTrigger = rule.trigger === 'notification' && stage.notificationDate ? 'notification' : 'decision';
+    return {
+        id: `deadline-${stage.id}-${rule.id}`,
+        title: rule.name,
+        dueDate: computeDeadlineDate(trigger === 'notification' ? new Date(stage.notificationDate!) : decisionDate, rule.days),
+        trigger,
+        ruleId: rule.id,
+        clientId,
+        caseId: caseItem.id,
+        stageId: stage.id,
+        completed: false,
+        updated_at: new Date(),
+    };
+};
+
+/** The deadlines a decided stage opens, as they would be created now. */
+export const getStageDeadlines = (rules: DeadlineRule[], caseTypes: CaseType[], courts: Court[], ref: StageRef): Deadline[] => {
+    if (!ref.stage.decisionDate) return [];
+    const decisionDate = new Date(ref.stage.decisionDate);
+    return getApplicableRules(rules, caseTypes, ref.caseItem.caseTypeId, getStageLevel(ref.stage, courts))
+        .map(rule => computeStageDeadline(rule, ref, decisionDate));
+};
+
+/** The filing deadline of a follow-up stage of the given kind, from the rule that opens it. */
+export const getChallengeDeadline = (rules: DeadlineRule[], caseTypes: CaseType[], courts: Court[], ref: StageRef, kind: ChallengeKind): Date | undefined => {
+    const rule = ref.stage.decisionDate && getApplicableRules(rules, caseTypes, ref.caseItem.caseTypeId, getStageLevel(ref.stage, courts)).find(r => r.challengeKind === kind);
+    return rule ? computeStageDeadline(rule, ref, new Date(ref.stage.decisionDate!)).dueDate : undefined;
+};
+
+/**
+ * Brings the deadlines of one stage in line with its decision: missing ones are created, pending ones follow a
+ * changed decision or notification date, and pending ones that no longer apply are dropped. Deadlines already
+ * marked done are left alone.
+ */
+export const reconcileStageDeadlines = (deadlines: Deadline[], rules: DeadlineRule[], caseTypes: CaseType[], courts: Court[], ref: StageRef): Deadline[] => {
+    const expected = getStageDeadlines(rules, caseTypes, courts, ref);
+    const existingIds = new Set(deadlines.map(d => d.id));
+    const updated = deadlines.flatMap(deadline => {
+        if (deadline.stageId !== ref.stage.id || deadline.completed) return [deadline];
+        const next = expected.find(e => e.id === deadline.id);
+        if (!next) return [];
+        const unchanged = next.dueDate.getTime() === new Date(deadline.dueDate).getTime() && next.trigger === deadline.trigger && next.title === deadline.title;
+        return [unchanged ? deadline : { ...deadline, title: next.title, dueDate: next.dueDate, trigger: next.trigger, updated_at: new Date() }];
+    });
+    return [...updated, ...expected.filter(e => !existingIds.has(e.id))];
+};
+
+export type DeadlineStatus = 'done' | 'missed' | 'urgent' | 'soon' | 'upcoming';
+
+// Whole days from today to the due date; negative once it has passed.
+export const getDaysLeft = (deadline: Deadline, today = new Date()): number => {
+    const start = new Date(today);
+    start.setHours(0, 0, 0, 0);
+    const due = new Date(deadline.dueDate);
+    due.setHours(0, 0, 0, 0);
+    return Math.round((due.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+export const getDeadlineStatus = (deadline: Deadline, today = new Date()): DeadlineStatus => {
+    if (deadline.completed) return 'done';
+    const daysLeft = getDaysLeft(deadline, today);
+    if (daysLeft < 0) return 'missed';
+    if (daysLeft <= 2) return 'urgent';
+    if (daysLeft <= 7) return 'soon';
+    return 'upcoming';
+};
+
+// Reminders get more frequent as the deadline nears: a week before, three days before, the day before and on the day.
+export const DEADLINE_REMINDER_DAYS = [7, 3, 1, 0];
+
+/** The reminder step a pending deadline has reached: an entry of DEADLINE_REMINDER_DAYS, -1 once missed, null before the first one. */
+export const getReminderStep = (deadline: Deadline, today = new Date()): number | null => {
+    if (deadline.completed) return null;
+    const daysLeft = getDaysLeft(deadline, today);
+    if (daysLeft < 0) return -1;
+    const steps = DEADLINE_REMINDER_DAYS.filter(days => daysLeft <= days);
+    return steps.length > 0 ? Math.min(...steps) : null;
+};
+
+export interface DeadlineEntry {
+    deadline: Deadline;
+    client: Client;
+    caseItem: Case;
+    stage: Stage;
+}
+
+/**
+ * Deadlines with the stage they belong to, earliest first. Deadlines of a stage that was deleted are left out
+ * rather than removed, so that restoring the stage from the trash brings them back.
+ */
+export const getDeadlineEntries = (deadlines: Deadline[], clients: Client[]): DeadlineEntry[] => {
+    const stages = new Map<string, Omit<DeadlineEntry, 'deadline'>>();
+    for (const client of clients) {
+        for (const caseItem of client.cases) {
+            for (const stage of caseItem.stages) stages.set(stage.id, { client, caseItem, stage });
+        }
+    }
+    return deadlines.flatMap(deadline => {
+        const owner = stages.get(deadline.stageId);
+        return owner ? [{ deadline, ...owner }] : [];
+    }).sort((a, b) => new Date(a.deadline.dueDate).getTime() - new Date(b.deadline.dueDate).getTime());
+};
@@ -0,0 +1,486 @@
+import { AdminTask, Appointment, RecurrenceRule, Session } from '../types';
+import { expandAppointments, getOccurrenceId, getOccurrencesBetween, toDateKey } from './recurrence';
+import { normalizeArabicText } from './contacts';
+
+export interface CalendarExportOptions {
+    assignee: string | null; // null: everyone's items
+    from: Date;
+    to: Date;
+    includeSessions: boolean;
+    includeAppointments: boolean;
+    includeTasks: boolean;
+}
+
+interface CalendarEvent {
+    uid: string;
+    summary: string;
+    start: Date;
+    allDay: boolean;
+    location?: string;
+    description?: string;
+    alarmMinutes?: number;
+}
+
+// The subscription feed (the 'calendar_feed' database function) writes a repeating item as one event with an
+// RRULE under `<id>@lawyer-app`, without the holiday shifts it can't express. An export is a snapshot of the
+// occurrences themselves, shifts applied, so its events get UIDs of their own: importing a file next to a
+// subscription adds a separate calendar instead of overwriting, or half-matching, the feed's events.
+const EXPORT_UID_DOMAIN = 'export.lawyer-app';
+const PRODUCT_ID = '-//Lawyer Office//Agenda//AR';
+const APPOINTMENT_DURATION_MINUTES = 60;
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/** Escapes a TEXT value (RFC 5545 §3.3.11). */
+export const escapeIcalText = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space; Arabic letters take two octets each,
+// so the split is counted in bytes and never falls inside a character.
+const foldLine = (line: string): string => {
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toIcalDate = (date: Date) => toDateKey(date).replace(/-/g, '');
+
+const toIcalUtcDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// An appointment without a valid time is kept as an all-day event.
+const getAppointmentStart = (apt: Appointment): Date | null => {
+    const match = apt.time?.match(/^(\d{1,2}):(\d{2})/);
+    if (!match) return null;
+    const start = new Date(apt.date);
+    start.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    return start;
+};
+
+const describeLines = (lines: [string, string | undefined | null][]) =>
+    lines.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}`).join('\n');
+
+const sessionToEvent = (session: Session): CalendarEvent => ({
+    uid: session.id,
+    summary: `جلسة: ${session.clientName}${session.opponentName ? ` ضد ${session.opponentName}` : ''}`,
+    start: new Date(session.date),
+    allDay: true,
+    location: session.court,
+    description: describeLines([
+        ['المحكمة', session.court],
+        ['رقم الأساس', session.caseNumber],
+        ['الموكل', session.clientName],
+        ['الخصم', session.opponentName],
+        ['سبب التأجيل', session.postponementReason],
+        ['المكلف بالحضور', session.assignee],
+    ]),
+});
+
+const appointmentToEvent = (apt: Appointment): CalendarEvent => {
+    const start = getAppointmentStart(apt);
+    return {
+        uid: apt.id,
+        summary: apt.title,
+        start: start || new Date(apt.date),
+        allDay: !start,
+        description: describeLines([['المكلف', apt.assignee]]),
+        alarmMinutes: start && apt.reminderTimeInMinutes ? apt.reminderTimeInMinutes : undefined,
+    };
+};
+
+const taskToEvent = (task: AdminTask): CalendarEvent => ({
+    uid: task.id,
+    summary: `مهمة: ${task.task}`,
+    start: new Date(task.dueDate),
+    allDay: true,
+    location: task.location,
+    description: describeLines([['المكلف', task.assignee]]),
+});
+
+const eventToLines = (event: CalendarEvent, stamp: string): string[] => {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}@${EXPORT_UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+    ];
+    if (event.allDay) {
+        const nextDay = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1);
+        lines.push(`DTSTART;VALUE=DATE:${toIcalDate(event.start)}`, `DTEND;VALUE=DATE:${toIcalDate(nextDay)}`);
+    } else {
+        const end = new Date(event.start.getTime() + APPOINTMENT_DURATION_MINUTES * 60000);
+        lines.push(`DTSTART:${toIcalUtcDateTime(event.start)}`, `DTEND:${toIcalUtcDateTime(end)}`);
+    }
+    lines.push(`SUMMARY:${escapeIcalText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcalText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+    if (event.alarmMinutes) {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeIcalText(event.summary)}`, `TRIGGER:-PT${event.alarmMinutes}M`, 'END:VALARM');
+    }
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+const serializeCalendar = (events: CalendarEvent[], name: string): string => {
+    const stamp = toIcalUtcDateTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeIcalText(name)}`,
+        ...events.flatMap(event => eventToLines(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Sessions, appointments and pending task due dates between two days (both included) as an iCalendar file.
+ * Recurring appointments and tasks are written out occurrence by occurrence, holidays already accounted for.
+ */
+export const buildCalendarExport = (
+    data: { sessions: Session[]; appointments: Appointment[]; adminTasks: AdminTask[] },
+    options: CalendarExportOptions,
+    name: string
+): string => {
+    const fromKey = toDateKey(options.from);
+    const toKey = toDateKey(options.to);
+    const inRange = (date: Date) => {
+        const key = toDateKey(date);
+        return key >= fromKey && key <= toKey;
+    };
+    const forAssignee = (item: { assignee?: string }) => !options.assignee || item.assignee === options.assignee;
+
+    const events: CalendarEvent[] = [];
+    if (options.includeSessions) {
+        events.push(...data.sessions.filter(s => forAssignee(s) && inRange(new Date(s.date))).map(sessionToEvent));
+    }
+    if (options.includeAppointments) {
+        events.push(...expandAppointments(data.appointments.filter(forAssignee), options.from, options.to)
+            .filter(apt => inRange(new Date(apt.date)))
+            .map(appointmentToEvent));
+    }
+    if (options.includeTasks) {
+        const tasks = data.adminTasks.filter(task => !task.completed && forAssignee(task)).flatMap(task => task.recurrence
+            ? getOccurrencesBetween(task.recurrence, task.dueDate, options.from, options.to, task.excludedDates)
+                .map(date => ({ ...task, id: getOccurrenceId(task.id, date), dueDate: date }))
+            : inRange(new Date(task.dueDate)) ? [task] : []);
+        events.push(...tasks.map(taskToEvent));
+    }
+    events.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return serializeCalendar(events, name);
+};
+
+// --- Import ---
+
+/** An appointment read from an .ics file, with what the import preview needs to know about it. */
+export interface CalendarImportItem {
+    appointment: Appointment;
+    allDay: boolean; // Appointments need a time, so all-day events get ALL_DAY_IMPORT_TIME
+    unsupportedRecurrence: boolean; // The event repeats in a way appointments can't, so only its first occurrence is kept
+}
+
+export const ALL_DAY_IMPORT_TIME = '09:00';
+
+// The reminder times the appointment form offers; imported alarms snap to the nearest one.
+const REMINDER_OPTIONS = [5, 10, 15, 30, 60];
+const DEFAULT_REMINDER_MINUTES = 15;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+interface Component {
+    name: string;
+    lines: ContentLine[];
+    children: Component[];
+}
+
+// Turns a wall-clock time (as Date.UTC of its fields) into the instant it denotes in some time zone.
+type ZoneResolver = (wallTime: number) => number;
+
+const parseContentLine = (line: string): ContentLine | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length && colon === -1; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) colon = i;
+    }
+    if (colon === -1) return null;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+        const eq = part.indexOf('=');
+        if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseComponents = (text: string): Component[] => {
+    const root: Component = { name: 'ROOT', lines: [], children: [] };
+    const stack = [root];
+    // Continuation lines start with a space or a tab (RFC 5545 §3.1).
+    for (const raw of text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n')) {
+        const line = parseContentLine(raw);
+        if (!line) continue;
+        const current = stack[stack.length - 1];
+        if (line.name === 'BEGIN') {
+            const component: Component = { name: line.value.trim().toUpperCase(), lines: [], children: [] };
+            current.children.push(component);
+            stack.push(component);
+        } else if (line.name === 'END') {
+            if (stack.length > 1) stack.pop();
+        } else {
+            current.lines.push(line);
+        }
+    }
+    return root.children;
+};
+
+const findComponents = (components: Component[], name: string): Component[] =>
+    components.flatMap(c => [...(c.name === name ? [c] : []), ...findComponents(c.children, name)]);
+
+const getLine = (component: Component, name: string) => component.lines.find(l => l.name === name);
+
+const unescapeIcalText = (value: string) => value.replace(/\\([\\;,nN])/g, (_, char: string) => char === 'n' || char === 'N' ? '\n' : char);
+
+const zoneOffsetMinutes = (instant: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return (Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant) / 60000;
+};
+
+const isKnownTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const parseUtcOffset = (value: string): number | null => {
+    const match = value.trim().match(/^([+-])(\d{2})(\d{2})/);
+    return match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : null;
+};
+
+/**
+ * How to read times given with a TZID. Google writes IANA names, which the browser knows; Outlook writes
+ * Windows names ("Arab Standard Time") defined by a VTIMEZONE in the file, whose standard offset is used.
+ */
+const buildZoneResolvers = (components: Component[]): Map<string, ZoneResolver> => {
+    const resolvers = new Map<string, ZoneResolver>();
+    for (const vtimezone of findComponents(components, 'VTIMEZONE')) {
+        const tzid = getLine(vtimezone, 'TZID')?.value;
+        const standard = vtimezone.children.find(c => c.name === 'STANDARD') || vtimezone.children[0];
+        const offset = standard ? parseUtcOffset(getLine(standard, 'TZOFFSETTO')?.value || '') : null;
+        if (tzid && offset !== null) resolvers.set(tzid, wallTime => wallTime - offset * 60000);
+    }
+    return resolvers;
+};
+
+const getZoneResolver = (tzid: string, resolvers: Map<string, ZoneResolver>): ZoneResolver | null => {
+    const name = tzid.replace(/^\//, '');
+    if (isKnownTimeZone(name)) {
+        // A second pass settles times close to a daylight saving change.
+        return wallTime => {
+            const guess = wallTime - zoneOffsetMinutes(wallTime, name) * 60000;
+            return wallTime - zoneOffsetMinutes(guess, name) * 60000;
+        };
+    }
+    return resolvers.get(tzid) || null;
+};
+
+/** A DATE or DATE-TIME value as a local Date. Floating times, and zones that can't be resolved, are read as local time. */
+const parseIcalDate = (value: string, params: Record<string, string>, resolvers: Map<string, ZoneResolver>): { date: Date; allDay: boolean } | null => {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second, utc] = match;
+    if (hour === undefined || params.VALUE === 'DATE') {
+        return { date: new Date(Number(year), Number(month) - 1, Number(day)), allDay: true };
+    }
+    const wallTime = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second || 0));
+    const resolver = utc ? (wall: number) => wall : params.TZID ? getZoneResolver(params.TZID, resolvers) : null;
+    if (resolver) return { date: new Date(resolver(wallTime)), allDay: false };
+    return { date: new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second || 0)), allDay: false };
+};
+
+const parseIcalDates = (component: Component, name: string, resolvers: Map<string, ZoneResolver>): Date[] => component.lines
+    .filter(l => l.name === name)
+    .flatMap(l => l.value.split(',').map(value => parseIcalDate(value, l.params, resolvers)?.date))
+    .filter((date): date is Date => !!date);
+
+const toTimeString = (date: Date) => `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * The part of an RRULE that appointments can repeat by: a frequency with an interval, plain weekdays for
+ * weekly repeats (a daily repeat limited to some weekdays is the same thing) and an end. Anything else,
+ * like "the second Monday of the month", returns null.
+ */
+const parseRRule = (value: string, start: Date, resolvers: Map<string, ZoneResolver>): RecurrenceRule | null => {
+    const parts = new Map(value.split(';').map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.toUpperCase(), rest.join('=')] as [string, string];
+    }));
+    let frequency = parts.get('FREQ')?.toLowerCase();
+    if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly' && frequency !== 'yearly') return null;
+    const interval = Math.max(1, parseInt(parts.get('INTERVAL') || '1', 10) || 1);
+
+    const supported = new Set(['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST', 'BYDAY', 'BYMONTHDAY', 'BYMONTH']);
+    if ([...parts.keys()].some(key => !supported.has(key))) return null;
+    // A month day or month equal to the start's is only restating it.
+    if (parts.has('BYMONTHDAY') && (frequency === 'daily' || frequency === 'weekly' || parts.get('BYMONTHDAY') !== String(start.getDate()))) return null;
+    if (parts.has('BYMONTH') && (frequency !== 'yearly' || parts.get('BYMONTH') !== String(start.getMonth() + 1))) return null;
+
+    let weekdays: number[] = [];
+    if (parts.has('BYDAY')) {
+        weekdays = (parts.get('BYDAY') || '').split(',').map(code => WEEKDAY_CODES.indexOf(code.trim().toUpperCase()));
+        if (weekdays.some(day => day === -1)) return null; // Ordinal days such as "2MO"
+        if (frequency === 'daily' && interval === 1) frequency = 'weekly';
+        else if (frequency !== 'weekly') return null;
+    }
+
+    // A date-time UNTIL that falls before the event's time of day ends the series the day before.
+    const until = parts.get('UNTIL') ? parseIcalDate(parts.get('UNTIL') || '', {}, resolvers) : null;
+    const untilDate = until && !until.allDay && toTimeString(until.date) < toTimeString(start)
+        ? new Date(until.date.getFullYear(), until.date.getMonth(), until.date.getDate() - 1)
+        : until?.date;
+    const count = parseInt(parts.get('COUNT') || '', 10);
+    return {
+        frequency,
+        interval,
+        weekdays,
+        until: untilDate ? toDateKey(untilDate) : null,
+        count: count > 0 ? count : null,
+        skipHolidays: false,
+    };
+};
+
+const parseDurationMinutes = (value: string): number | null => {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total = Number(weeks || 0) * 10080 + Number(days || 0) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0) + Number(seconds || 0) / 60;
+    return sign === '-' ? -total : total;
+};
+
+// A trigger is either a duration relative to the start ("-PT15M") or a moment of its own.
+const getMinutesBefore = (trigger: ContentLine, start: Date, resolvers: Map<string, ZoneResolver>): number | null => {
+    if (trigger.params.VALUE === 'DATE-TIME') {
+        const at = parseIcalDate(trigger.value, trigger.params, resolvers)?.date;
+        return at ? (start.getTime() - at.getTime()) / 60000 : null;
+    }
+    const offset = parseDurationMinutes(trigger.value);
+    return offset === null ? null : -offset;
+};
+
+// Minutes before the start of the first alarm that goes off before it, snapped to a reminder the form offers.
+const getReminderMinutes = (event: Component, start: Date, resolvers: Map<string, ZoneResolver>): number => {
+    for (const alarm of event.children.filter(c => c.name === 'VALARM')) {
+        const trigger = getLine(alarm, 'TRIGGER');
+        const before = trigger ? getMinutesBefore(trigger, start, resolvers) : null;
+        if (before !== null && before > 0) {
+            return REMINDER_OPTIONS.reduce((best, option) => Math.abs(option - before) < Math.abs(best - before) ? option : best);
+        }
+    }
+    return DEFAULT_REMINDER_MINUTES;
+};
+
+// PRIORITY runs from 1 (highest) to 9, with 0 meaning none; 5 is the middle (RFC 5545 §3.8.1.9).
+const getImportance = (event: Component): Appointment['importance'] => {
+    const priority = parseInt(getLine(event, 'PRIORITY')?.value || '0', 10);
+    if (priority >= 1 && priority <= 4) return 'urgent';
+    return priority === 5 ? 'important' : 'normal';
+};
+
+/**
+ * The events of an .ics file as appointments. Cancelled events are left out, and an edited occurrence of a
+ * repeating event (one with a RECURRENCE-ID) becomes an appointment of its own taken out of its series,
+ * which is how the app keeps edited occurrences too.
+ */
+export const parseCalendarAppointments = (text: string): CalendarImportItem[] => {
+    const components = parseComponents(text);
+    const resolvers = buildZoneResolvers(components);
+    const stamp = Date.now();
+    const items: (CalendarImportItem & { uid: string })[] = [];
+    const overriddenDates = new Map<string, string[]>();
+
+    findComponents(components, 'VEVENT').forEach((event, index) => {
+        const uid = getLine(event, 'UID')?.value || `event-${index}`;
+        const dtstart = getLine(event, 'DTSTART');
+        const start = dtstart && parseIcalDate(dtstart.value, dtstart.params, resolvers);
+        const recurrenceId = getLine(event, 'RECURRENCE-ID');
+        if (recurrenceId) {
+            const original = parseIcalDate(recurrenceId.value, recurrenceId.params, resolvers);
+            if (original) overriddenDates.set(uid, [...(overriddenDates.get(uid) || []), toDateKey(original.date)]);
+        }
+        if (!start || getLine(event, 'STATUS')?.value.toUpperCase() === 'CANCELLED') return;
+
+        const summary = unescapeIcalText(getLine(event, 'SUMMARY')?.value || '').trim() || 'موعد مستورد';
+        const location = unescapeIcalText(getLine(event, 'LOCATION')?.value || '').trim();
+        const rrule = recurrenceId ? undefined : getLine(event, 'RRULE');
+        const recurrence = rrule ? parseRRule(rrule.value, start.date, resolvers) : null;
+        const date = new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate());
+        items.push({
+            uid,
+            allDay: start.allDay,
+            unsupportedRecurrence: !!rrule && !recurrence,
+            appointment: {
+                id: `apt-${stamp}-${index}`,
+                title: location ? `${summary} (${location})` : summary,
+                time: start.allDay ? ALL_DAY_IMPORT_TIME : toTimeString(start.date),
+                date,
+                importance: getImportance(event),
+                completed: false,
+                notified: false,
+                reminderTimeInMinutes: getReminderMinutes(event, start.date, resolvers),
+                recurrence,
+                excludedDates: recurrence ? parseIcalDates(event, 'EXDATE', resolvers).map(toDateKey) : [],
+                updated_at: new Date(),
+            },
+        });
+    });
+
+    return items.map(({ uid, ...item }) => {
+        const overridden = item.appointment.recurrence ? overriddenDates.get(uid) : undefined;
+        if (!overridden) return item;
+        const excludedDates = [...new Set([...(item.appointment.excludedDates || []), ...overridden])];
+        return { ...item, appointment: { ...item.appointment, excludedDates } };
+    });
+};
+
+const getAppointmentKey = (apt: Appointment) => `${toDateKey(new Date(apt.date))}|${apt.time}|${normalizeArabicText(apt.title)}`;
+
+/**
+ * Whether an appointment to import is already on the agenda: one on the same day at the same time with
+ * the same title (spelling variants aside), counting the occurrences of repeating appointments.
+ */
+export const isDuplicateAppointment = (candidate: Appointment, existing: Appointment[]): boolean => {
+    const day = new Date(candidate.date);
+    const key = getAppointmentKey(candidate);
+    return expandAppointments(existing, day, day).some(apt => getAppointmentKey(apt) === key);
+};
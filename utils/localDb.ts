@@ -0,0 +1,376 @@
+import { openDB, IDBPDatabase, IDBPTransaction } from 'idb';
+import { OutboxOperation } from '../types';
+import { deletedIdsToOutboxOperations, toRemoteRows } from '../hooks/useOnlineData';
+import { derivePartiesFromNames } from './caseParties';
+
+export const DB_NAME = 'LawyerAppData';
+export const DB_VERSION = 15;
+export const DATA_STORE_NAME = 'appData';
+export const DOCS_FILES_STORE_NAME = 'caseDocumentFiles';
+export const DOCS_METADATA_STORE_NAME = 'caseDocumentMetadata';
+export const OUTBOX_STORE_NAME = 'syncOutbox';
+export const SYNC_JOURNAL_STORE_NAME = 'syncJournal';
+export const TRASH_STORE_NAME = 'trash';
+
+// Records kept in the appData store next to the owners' data.
+const DB_META_KEY = 'localDbMeta'; // { dataVersion }: the last version whose data step completed
+export const MIGRATION_FAILURE_KEY = 'migrationFailure';
+// The session mirrored for sw.js, which may refresh it while the app is closed (see supabaseClient.ts).
+export const BACKGROUND_SYNC_SESSION_KEY = 'backgroundSyncSession';
+
+// Snapshots live in a database of their own so a broken upgrade of the main one cannot take them along.
+const SNAPSHOT_DB_NAME = 'LawyerAppDataSnapshots';
+const SNAPSHOT_STORE_NAME = 'snapshots';
+const MAX_SNAPSHOTS = 3;
+// Document files are never transformed and would double the storage used, so they are not snapshotted.
+const SNAPSHOT_EXCLUDED_STORES = [DOCS_FILES_STORE_NAME, SYNC_JOURNAL_STORE_NAME];
+
+type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+type MigrationTransaction = IDBPTransaction<unknown, string[], 'readwrite'>;
+
+interface DbMigration {
+    version: number;
+    description: string;
+    // Store changes, run inside the versionchange transaction when the database is opened at a higher version.
+    upgradeSchema?: (db: IDBPDatabase, tx: UpgradeTransaction) => void;
+    // Record changes, run afterwards in one readwrite transaction. Must be safe to run again on migrated data.
+    migrateData?: (tx: MigrationTransaction) => Promise<void>;
+}
+
+export interface MigrationFailure {
+    fromVersion: number;
+    toVersion: number;
+    failedVersion: number | null; // Step that threw, null when opening the database failed
+    error: string;
+    occurredAt: string;
+    snapshotId: string | null;
+}
+
+interface DbSnapshot {
+    id: string;
+    dbVersion: number;
+    dataVersion: number;
+    createdAt: string;
+    stores: Record<string, { key: IDBValidKey; value: any }[]>;
+}
+
+// Owners' data is stored under their id, next to records of other shapes (sync state, meta, ...).
+const isStoredAppData = (value: any): boolean => !!value && typeof value === 'object' && Array.isArray(value.clients);
+
+const withListDefault = (value: any) => Array.isArray(value) ? value : [];
+
+/**
+ * Gives data stored before the contacts, courts, case types, custom fields, deadlines, notes, case parties and
+ * recurrence features the fields they read. Cases without parties get them from their name fields; those rows
+ * are returned too so they can be queued for the cloud like any new row.
+ */
+const upgradeStoredAppData = (data: any): { data: any; createdParties: any[] } => {
+    const createdParties: any[] = [];
+    const clients = withListDefault(data.clients).map((client: any) => ({
+        ...client,
+        contactId: client.contactId ?? null,
+        cases: withListDefault(client.cases).map((caseItem: any) => {
+            let parties = withListDefault(caseItem.parties);
+            if (parties.length === 0) {
+                parties = derivePartiesFromNames(caseItem, client).map(party => ({ ...party, updated_at: caseItem.updated_at }));
+                createdParties.push(...parties.map(party => ({ ...party, case_id: caseItem.id })));
+            }
+            return {
+                ...caseItem,
+                caseTypeId: caseItem.caseTypeId ?? null,
+                tags: withListDefault(caseItem.tags),
+                parties,
+                stages: withListDefault(caseItem.stages).map((stage: any) => ({
+                    ...stage,
+                    decisionOutcome: stage.decisionOutcome ?? null,
+                    parentStageId: stage.parentStageId ?? null,
+                    challengeKind: stage.challengeKind ?? null,
+                })),
+            };
+        }),
+    }));
+    const withRecurrence = (item: any) => ({ ...item, recurrence: item.recurrence ?? null, excludedDates: withListDefault(item.excludedDates) });
+    return {
+        data: {
+            ...data,
+            clients,
+            contacts: withListDefault(data.contacts),
+            courts: withListDefault(data.courts),
+            caseTypes: withListDefault(data.caseTypes),
+            customFieldDefinitions: withListDefault(data.customFieldDefinitions),
+            deadlineRules: withListDefault(data.deadlineRules),
+            deadlines: withListDefault(data.deadlines),
+            notes: withListDefault(data.notes),
+            adminTasks: withListDefault(data.adminTasks).map(withRecurrence),
+            appointments: withListDefault(data.appointments).map(withRecurrence),
+        },
+        createdParties,
+    };
+};
+
+const MIGRATIONS: DbMigration[] = [
+    {
+        version: 11,
+        description: 'Document metadata keyed by document id',
+        upgradeSchema: db => {
+            if (db.objectStoreNames.contains(DOCS_METADATA_STORE_NAME)) db.deleteObjectStore(DOCS_METADATA_STORE_NAME);
+            db.createObjectStore(DOCS_METADATA_STORE_NAME);
+        },
+    },
+    {
+        version: 12,
+        description: 'Pending deletions moved into the sync outbox',
+        upgradeSchema: db => {
+            if (!db.objectStoreNames.contains(OUTBOX_STORE_NAME)) db.createObjectStore(OUTBOX_STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        },
+        // Older versions kept pending deletions per owner under `deletedIds_${ownerId}`.
+        migrateData: async tx => {
+            const dataStore = tx.objectStore(DATA_STORE_NAME);
+            const outboxStore = tx.objectStore(OUTBOX_STORE_NAME);
+            const legacyKeys = (await dataStore.getAllKeys()).filter(key => typeof key === 'string' && key.startsWith('deletedIds_')) as string[];
+            for (const legacyKey of legacyKeys) {
+                const ownerId = legacyKey.slice('deletedIds_'.length);
+                const legacyDeletedIds = await dataStore.get(legacyKey);
+                for (const op of deletedIdsToOutboxOperations(legacyDeletedIds || {})) {
+                    await outboxStore.add({ ...op, ownerId } as OutboxOperation);
+                }
+                await dataStore.delete(legacyKey);
+            }
+        },
+    },
+    {
+        version: 13,
+        description: 'Sync journal',
+        upgradeSchema: db => {
+            if (!db.objectStoreNames.contains(SYNC_JOURNAL_STORE_NAME)) db.createObjectStore(SYNC_JOURNAL_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        },
+    },
+    {
+        version: 14,
+        description: 'Trash for deleted clients, cases, stages and sessions',
+        upgradeSchema: db => {
+            if (!db.objectStoreNames.contains(TRASH_STORE_NAME)) db.createObjectStore(TRASH_STORE_NAME, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 15,
+        description: 'Stored data given the fields of the later features, and case parties derived from the name fields',
+        migrateData: async tx => {
+            const dataStore = tx.objectStore(DATA_STORE_NAME);
+            const outboxStore = tx.objectStore(OUTBOX_STORE_NAME);
+            const createdAt = new Date().toISOString();
+            for (const key of await dataStore.getAllKeys()) {
+                const stored = await dataStore.get(key);
+                if (typeof key !== 'string' || !isStoredAppData(stored)) continue;
+                const { data, createdParties } = upgradeStoredAppData(stored);
+                await dataStore.put(data, key);
+                // Data is stored under its owner's id. The derived parties are the same on every device, so pushing them twice is harmless.
+                const remoteParties = toRemoteRows({ case_parties: createdParties }, key).case_parties || [];
+                for (const [i, party] of createdParties.entries()) {
+                    await outboxStore.add({
+                        opId: `op-migration-${party.id}`, ownerId: key, table: 'case_parties', recordId: party.id, type: 'upsert', reason: 'create',
+                        payload: party, remoteRow: remoteParties[i], createdAt, attempts: 0, lastError: null,
+                    } as OutboxOperation);
+                }
+            }
+        },
+    },
+];
+
+const ensureBaseStores = (db: IDBPDatabase) => {
+    if (!db.objectStoreNames.contains(DATA_STORE_NAME)) db.createObjectStore(DATA_STORE_NAME);
+    if (!db.objectStoreNames.contains(DOCS_FILES_STORE_NAME)) db.createObjectStore(DOCS_FILES_STORE_NAME);
+    if (!db.objectStoreNames.contains(DOCS_METADATA_STORE_NAME)) db.createObjectStore(DOCS_METADATA_STORE_NAME);
+};
+
+async function getSnapshotDb() {
+    return openDB(SNAPSHOT_DB_NAME, 1, {
+        upgrade(db) {
+            db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+        },
+    });
+}
+
+async function readSnapshot(db: IDBPDatabase, dataVersion: number): Promise<DbSnapshot> {
+    const storeNames = Array.from(db.objectStoreNames).filter(name => !SNAPSHOT_EXCLUDED_STORES.includes(name));
+    const snapshot: DbSnapshot = { id: `snapshot-${Date.now()}`, dbVersion: db.version, dataVersion, createdAt: new Date().toISOString(), stores: {} };
+    const tx = db.transaction(storeNames, 'readonly');
+    for (const name of storeNames) {
+        const store = tx.objectStore(name);
+        const [keys, values] = await Promise.all([store.getAllKeys(), store.getAll()]);
+        snapshot.stores[name] = keys.map((key, i) => ({ key, value: values[i] }));
+    }
+    await tx.done;
+    return snapshot;
+}
+
+async function saveSnapshot(snapshot: DbSnapshot) {
+    const snapshotDb = await getSnapshotDb();
+    try {
+        const tx = snapshotDb.transaction(SNAPSHOT_STORE_NAME, 'readwrite');
+        await tx.store.put(snapshot);
+        const ids = (await tx.store.getAllKeys()) as string[];
+        for (const id of ids.sort().slice(0, Math.max(0, ids.length - MAX_SNAPSHOTS))) await tx.store.delete(id);
+        await tx.done;
+    } finally {
+        snapshotDb.close();
+    }
+}
+
+// Looks at the database as it is now and, when an upgrade or a data step is due, snapshots it first.
+// The connection is closed again so it does not block the upgrade.
+async function takePreMigrationSnapshot(): Promise<DbSnapshot | null> {
+    const db = await openDB(DB_NAME);
+    try {
+        if (!db.objectStoreNames.contains(DATA_STORE_NAME)) return null;
+        const meta = await db.get(DATA_STORE_NAME, DB_META_KEY);
+        const dataVersion = meta?.dataVersion ?? 0;
+        if (db.version >= DB_VERSION && dataVersion >= DB_VERSION) return null;
+        const snapshot = await readSnapshot(db, dataVersion);
+        const hasRecords = Object.values(snapshot.stores).some(entries => entries.length > 0);
+        if (!hasRecords) return null;
+        await saveSnapshot(snapshot);
+        return snapshot;
+    } finally {
+        db.close();
+    }
+}
+
+// Puts every snapshotted store back exactly as it was; stores added by the upgrade stay, emptied unless snapshotted.
+async function restoreSnapshot(db: IDBPDatabase, snapshot: DbSnapshot) {
+    const storeNames = Array.from(db.objectStoreNames).filter(name => !SNAPSHOT_EXCLUDED_STORES.includes(name));
+    const tx = db.transaction(storeNames, 'readwrite');
+    for (const name of storeNames) {
+        const store = tx.objectStore(name);
+        await store.clear();
+        for (const { key, value } of snapshot.stores[name] || []) {
+            if (store.keyPath) await store.put(value);
+            else await store.put(value, key);
+        }
+    }
+    await tx.done;
+}
+
+// Runs the pending data steps all-or-nothing. A thrown error carries `fromVersion` and `failedVersion`.
+async function runDataMigrations(db: IDBPDatabase): Promise<void> {
+    const tx = db.transaction(Array.from(db.objectStoreNames), 'readwrite') as MigrationTransaction;
+    const dataStore = tx.objectStore(DATA_STORE_NAME);
+    const fromVersion = (await dataStore.get(DB_META_KEY))?.dataVersion ?? 0;
+    if (fromVersion >= DB_VERSION) {
+        await tx.done;
+        return;
+    }
+    let currentVersion = fromVersion;
+    try {
+        for (const migration of MIGRATIONS) {
+            if (migration.version <= fromVersion || !migration.migrateData) continue;
+            currentVersion = migration.version;
+            await migration.migrateData(tx);
+        }
+        await dataStore.put({ dataVersion: DB_VERSION, migratedAt: new Date().toISOString() }, DB_META_KEY);
+        await tx.done;
+    } catch (error) {
+        tx.done.catch(() => {}); // Rejects with the abort below
+        try { tx.abort(); } catch {} // Already aborted when the failing request did it
+        const failure = new Error(error instanceof Error ? error.message : String(error));
+        (failure as any).failedVersion = currentVersion;
+        (failure as any).fromVersion = fromVersion;
+        throw failure;
+    }
+}
+
+const connectionCallbacks = {
+    // Another tab opened a newer version: let it upgrade and reconnect on the next getDb().
+    blocking(_currentVersion: number, _blockedVersion: number | null, event: IDBVersionChangeEvent) {
+        (event.target as IDBDatabase).close();
+        dbPromise = null;
+    },
+    terminated() {
+        dbPromise = null;
+    },
+};
+
+// A failed upgrade aborts its transaction, so the database is left as it was. The app goes on with it at its
+// current version, without the data steps, and the upgrade is tried again on the next start.
+async function openAfterFailedUpgrade(error: any, fromVersion: number, failedVersion: number | null, snapshot: DbSnapshot | null): Promise<IDBPDatabase> {
+    const message = `Could not upgrade the local database from version ${fromVersion} to ${DB_VERSION}: ${error?.message || error}`;
+    console.error(message);
+    const db = await openDB(DB_NAME, undefined, connectionCallbacks);
+    if (!db.objectStoreNames.contains(DATA_STORE_NAME)) {
+        // Nothing was stored yet, so there is nothing to go on with either.
+        db.close();
+        throw new Error(message);
+    }
+    const failure: MigrationFailure = {
+        fromVersion,
+        toVersion: DB_VERSION,
+        failedVersion,
+        error: message,
+        occurredAt: new Date().toISOString(),
+        snapshotId: snapshot?.id ?? null,
+    };
+    await db.put(DATA_STORE_NAME, failure, MIGRATION_FAILURE_KEY);
+    return db;
+}
+
+async function openAndMigrate(): Promise<IDBPDatabase> {
+    const snapshot = await takePreMigrationSnapshot();
+    let fromVersion = snapshot?.dbVersion ?? DB_VERSION;
+    let upgradingVersion: number | null = null;
+
+    let db: IDBPDatabase;
+    try {
+        db = await openDB(DB_NAME, DB_VERSION, {
+            upgrade(upgradeDb, oldVersion, _newVersion, tx) {
+                fromVersion = oldVersion;
+                for (const migration of MIGRATIONS) {
+                    if (migration.version <= oldVersion || !migration.upgradeSchema) continue;
+                    upgradingVersion = migration.version;
+                    migration.upgradeSchema(upgradeDb, tx as UpgradeTransaction);
+                }
+                upgradingVersion = null;
+                ensureBaseStores(upgradeDb);
+            },
+            ...connectionCallbacks,
+        });
+    } catch (error) {
+        return openAfterFailedUpgrade(error, fromVersion, upgradingVersion, snapshot);
+    }
+
+    try {
+        await runDataMigrations(db);
+    } catch (error: any) {
+        console.error(`Local database migration to version ${error.failedVersion} failed:`, error);
+        if (snapshot) await restoreSnapshot(db, snapshot);
+        const failure: MigrationFailure = {
+            fromVersion: error.fromVersion ?? snapshot?.dataVersion ?? 0,
+            toVersion: DB_VERSION,
+            failedVersion: error.failedVersion ?? null,
+            error: error.message,
+            occurredAt: new Date().toISOString(),
+            snapshotId: snapshot?.id ?? null,
+        };
+        await db.put(DATA_STORE_NAME, failure, MIGRATION_FAILURE_KEY);
+    }
+    return db;
+}
+
+let dbPromise: Promise<IDBPDatabase> | null = null;
+
+/**
+ * Opens the local database, upgrading it through the migration registry first when needed.
+ * A snapshot is taken before any upgrade; if a data step fails, the snapshot is restored (the steps are
+ * retried on the next start) and a `MigrationFailure` is recorded under MIGRATION_FAILURE_KEY for the UI.
+ * A failed schema upgrade is recorded the same way, and the database is used at the version it had.
+ */
+export function getDb(): Promise<IDBPDatabase> {
+    if (!dbPromise) {
+        dbPromise = openAndMigrate().catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+}
+
+export const getDataVersion = async (db: IDBPDatabase): Promise<number> => (await db.get(DATA_STORE_NAME, DB_META_KEY))?.dataVersion ?? 0;
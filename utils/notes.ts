@@ -0,0 +1,43 @@
+import { Note } from '../types';
+
+export const UNASSIGNED_ASSISTANT = 'بدون تخصيص';
+
+/** Pinned notes first, then the newest. */
+export const compareNotes = (a: Note, b: Note) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+};
+
+/**
+ * The assistants named as "@name" in a note. Names may contain spaces, so the longest
+ * name is tried first and a match must not run on into another letter.
+ */
+export const extractMentions = (body: string, assistants: string[]): string[] => {
+    const names = assistants.filter(name => name && name !== UNASSIGNED_ASSISTANT).sort((a, b) => b.length - a.length);
+    const found = new Set<string>();
+    let index = body.indexOf('@');
+    while (index !== -1) {
+        const rest = body.slice(index + 1);
+        const name = names.find(n => rest.startsWith(n) && !/^[\p{L}\p{N}_]/u.test(rest.slice(n.length)));
+        if (name) found.add(name);
+        index = body.indexOf('@', index + 1);
+    }
+    return [...found];
+};
+
+export interface NotesSearchIndex {
+    byClient: Map<string, string>;
+    byCase: Map<string, string>;
+}
+
+/** Lower-cased note text per client (its own notes) and per case (case and stage notes), for the clients search. */
+export const buildNotesSearchIndex = (notes: Note[]): NotesSearchIndex => {
+    const byClient = new Map<string, string>();
+    const byCase = new Map<string, string>();
+    for (const note of notes) {
+        const text = `${note.body} ${note.authorName}`.toLowerCase();
+        if (note.caseId) byCase.set(note.caseId, `${byCase.get(note.caseId) || ''} ${text}`);
+        else byClient.set(note.clientId, `${byClient.get(note.clientId) || ''} ${text}`);
+    }
+    return { byClient, byCase };
+};
@@ -0,0 +1,226 @@
+import { AdminTask, Appointment, RecurrenceFrequency, RecurrenceRule } from '../types';
+import { formatDate, getPublicHoliday, isWeekend, parseInputDateString } from './dateUtils';
+import { WEEKDAY_LABELS } from './courts';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+    daily: 'يومياً',
+    weekly: 'أسبوعياً',
+    monthly: 'شهرياً',
+    yearly: 'سنوياً',
+};
+
+const INTERVAL_UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+    daily: 'أيام',
+    weekly: 'أسابيع',
+    monthly: 'أشهر',
+    yearly: 'سنوات',
+};
+
+/** Whether an edit or deletion applies to the chosen occurrence only or to it and every later one. */
+export type RecurrenceEditScope = 'single' | 'future';
+
+type RecurringRecord = { id: string; recurrence?: RecurrenceRule | null; excludedDates?: string[]; updated_at?: Date };
+
+// Series are walked from their first occurrence; this stops a runaway rule from freezing the agenda.
+const MAX_STEPS = 5000;
+
+const OCCURRENCE_ID_SEPARATOR = '@';
+
+/** Local 'YYYY-MM-DD' of a date, used to key occurrences. */
+export const toDateKey = (date: Date): string => {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The 31st of a month without one falls on its last day instead.
+const clampedDate = (year: number, month: number, day: number) => {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    return new Date(year, month, Math.min(day, lastDay));
+};
+
+const isHoliday = (date: Date) => getPublicHoliday(date) !== null;
+
+function* naturalDates(rule: RecurrenceRule, start: Date): Generator<Date> {
+    const first = startOfDay(start);
+    const interval = Math.max(1, Math.floor(rule.interval) || 1);
+    if (rule.frequency === 'weekly') {
+        const weekdays = rule.weekdays && rule.weekdays.length > 0 ? [...new Set(rule.weekdays)].sort((a, b) => a - b) : [first.getDay()];
+        const weekStart = addDays(first, -first.getDay());
+        for (let week = 0; ; week += interval) {
+            for (const weekday of weekdays) {
+                const date = addDays(weekStart, week * 7 + weekday);
+                if (date >= first) yield date;
+            }
+        }
+    }
+    for (let step = 0; ; step += interval) {
+        if (rule.frequency === 'daily') yield addDays(first, step);
+        else if (rule.frequency === 'monthly') yield clampedDate(first.getFullYear(), first.getMonth() + step, first.getDate());
+        else yield clampedDate(first.getFullYear() + step, first.getMonth(), first.getDate());
+    }
+}
+
+/** Every occurrence of a series in order, on the day it actually falls once holidays are accounted for. */
+function* occurrenceDates(rule: RecurrenceRule, start: Date): Generator<Date> {
+    const until = parseInputDateString(rule.until);
+    let produced = 0;
+    let steps = 0;
+    for (const natural of naturalDates(rule, start)) {
+        if (++steps > MAX_STEPS || (until && natural > until) || (rule.count && produced >= rule.count)) return;
+        let date = natural;
+        if (rule.skipHolidays && isHoliday(natural)) {
+            // A daily or weekly repeat comes round again soon enough; a monthly or yearly one (a filing, a renewal) moves to the next working day.
+            if (rule.frequency === 'daily' || rule.frequency === 'weekly') continue;
+            while (isHoliday(date) || isWeekend(date)) date = addDays(date, 1);
+        }
+        produced++;
+        yield date;
+    }
+}
+
+/** Occurrences between two days, both included, leaving out those taken out of the series. */
+export const getOccurrencesBetween = (rule: RecurrenceRule, start: Date, from: Date, to: Date, excludedDates: string[] = []): Date[] => {
+    const first = startOfDay(from);
+    const last = startOfDay(to);
+    const excluded = new Set(excludedDates);
+    const dates: Date[] = [];
+    for (const date of occurrenceDates(rule, start)) {
+        if (date > last) break;
+        if (date >= first && !excluded.has(toDateKey(date))) dates.push(date);
+    }
+    return dates;
+};
+
+/** The first occurrence on a later day than `after`, or null once the series has run out. */
+export const getNextOccurrence = (rule: RecurrenceRule, start: Date, after: Date, excludedDates: string[] = []): Date | null => {
+    const day = startOfDay(after);
+    const excluded = new Set(excludedDates);
+    for (const date of occurrenceDates(rule, start)) {
+        if (date > day && !excluded.has(toDateKey(date))) return date;
+    }
+    return null;
+};
+
+const countOccurrencesBefore = (rule: RecurrenceRule, start: Date, date: Date): number => {
+    const day = startOfDay(date);
+    let count = 0;
+    for (const occurrence of occurrenceDates(rule, start)) {
+        if (occurrence >= day) break;
+        count++;
+    }
+    return count;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+    const every = rule.interval > 1 ? `كل ${rule.interval} ${INTERVAL_UNIT_LABELS[rule.frequency]}` : RECURRENCE_FREQUENCY_LABELS[rule.frequency];
+    const weekdays = rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0
+        ? ` (${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join('، ')})`
+        : '';
+    const until = parseInputDateString(rule.until);
+    const end = until ? ` حتى ${formatDate(until)}` : rule.count ? ` لـ ${rule.count} مرات` : '';
+    return `${every}${weekdays}${end}${rule.skipHolidays ? ' · دون العطل الرسمية' : ''}`;
+};
+
+/** Cleans a rule read back from storage; anything unusable means the record doesn't repeat. */
+export const normalizeRecurrenceRule = (raw: any): RecurrenceRule | null => {
+    if (!raw || typeof raw !== 'object' || !(raw.frequency in RECURRENCE_FREQUENCY_LABELS)) return null;
+    const count = Number(raw.count);
+    return {
+        frequency: raw.frequency,
+        interval: Math.max(1, Math.floor(Number(raw.interval)) || 1),
+        weekdays: Array.isArray(raw.weekdays) ? raw.weekdays.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6) : [],
+        until: typeof raw.until === 'string' && parseInputDateString(raw.until) ? raw.until : null,
+        count: Number.isInteger(count) && count > 0 ? count : null,
+        skipHolidays: !!raw.skipHolidays,
+    };
+};
+
+// Occurrences are never stored: their id is the series id and the day, e.g. "apt-1700000000000@2024-05-12".
+export const getOccurrenceId = (seriesId: string, date: Date) => `${seriesId}${OCCURRENCE_ID_SEPARATOR}${toDateKey(date)}`;
+
+export const parseOccurrenceId = (id: string): { seriesId: string; dateKey: string } | null => {
+    const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+    if (index === -1) return null;
+    return { seriesId: id.slice(0, index), dateKey: id.slice(index + 1) };
+};
+
+/** The id of the stored record behind a listed item: the series for an occurrence, the item itself otherwise. */
+export const getSeriesId = (id: string) => parseOccurrenceId(id)?.seriesId ?? id;
+
+/** Recurring appointments replaced by their occurrences between two days; one-off appointments pass through as they are. */
+export const expandAppointments = (appointments: Appointment[], from: Date, to: Date): Appointment[] => appointments.flatMap(apt => {
+    if (!apt.recurrence) return [apt];
+    return getOccurrencesBetween(apt.recurrence, apt.date, from, to, apt.excludedDates)
+        .map(date => ({ ...apt, id: getOccurrenceId(apt.id, date), date, completed: false }));
+});
+
+/**
+ * Recurring tasks replaced by every occurrence due up to `until` plus the next one after it, so the
+ * coming repeat is always listed. Occurrences are pending by definition: completing one takes it out of the series.
+ */
+export const expandAdminTasks = (tasks: AdminTask[], until: Date): AdminTask[] => tasks.flatMap(task => {
+    if (!task.recurrence) return [task];
+    const due = getOccurrencesBetween(task.recurrence, task.dueDate, task.dueDate, until, task.excludedDates);
+    const next = getNextOccurrence(task.recurrence, task.dueDate, until, task.excludedDates);
+    return [...due, ...(next ? [next] : [])]
+        .map(date => ({ ...task, id: getOccurrenceId(task.id, date), dueDate: date, completed: false }));
+});
+
+/** Takes one occurrence out of its series, either to drop it or to keep it as a record of its own. */
+export const excludeOccurrence = <T extends RecurringRecord>(series: T, dateKey: string): T => ({
+    ...series,
+    excludedDates: [...new Set([...(series.excludedDates || []), dateKey])],
+    updated_at: new Date(),
+});
+
+/** Takes one occurrence out of its series and keeps it as a one-off record; returns the series and that record. */
+export const detachOccurrence = <T extends RecurringRecord>(series: T, dateKey: string, occurrence: Partial<T>): T[] => [
+    excludeOccurrence(series, dateKey),
+    { ...series, ...occurrence, recurrence: null, excludedDates: [], updated_at: new Date() },
+];
+
+/**
+ * Ends a series the day before an occurrence so a new series can take over from it.
+ * Returns null when that is the first occurrence, i.e. nothing of the series is left.
+ */
+const endSeriesBefore = <T extends RecurringRecord>(series: T, start: Date, dateKey: string): T | null => {
+    const date = parseInputDateString(dateKey);
+    if (!series.recurrence || !date || date <= startOfDay(start)) return null;
+    return {
+        ...series,
+        recurrence: { ...series.recurrence, until: toDateKey(addDays(date, -1)), count: null },
+        excludedDates: (series.excludedDates || []).filter(key => key < dateKey),
+        updated_at: new Date(),
+    };
+};
+
+/**
+ * The records that replace a series after one of its occurrences is edited. With 'single' the edit
+ * becomes a one-off record; with 'future' the series stops before the occurrence and `edited`,
+ * carrying its own rule, continues from there (keeping the series id if it replaces it entirely).
+ */
+export const applyOccurrenceEdit = <T extends RecurringRecord>(series: T, start: Date, dateKey: string, scope: RecurrenceEditScope, edited: T): T[] => {
+    if (scope === 'single') return detachOccurrence(series, dateKey, edited);
+    const before = endSeriesBefore(series, start, dateKey);
+    const after = { ...edited, excludedDates: edited.recurrence ? (series.excludedDates || []).filter(key => key > dateKey) : [] };
+    return before ? [before, after] : [{ ...after, id: series.id }];
+};
+
+/** What is left of a series once an occurrence, or it and all later ones, is deleted; null when nothing is. */
+export const removeOccurrences = <T extends RecurringRecord>(series: T, start: Date, dateKey: string, scope: RecurrenceEditScope): T | null => (
+    scope === 'single' ? excludeOccurrence(series, dateKey) : endSeriesBefore(series, start, dateKey)
+);
+
+/** The series rule as seen from one of its occurrences: a count limit only covers the occurrences still ahead. */
+export const getRuleFromOccurrence = (rule: RecurrenceRule, start: Date, dateKey: string): RecurrenceRule => {
+    const date = parseInputDateString(dateKey);
+    return rule.count && date ? { ...rule, count: Math.max(1, rule.count - countOccurrencesBefore(rule, start, date)) } : rule;
+};
@@ -0,0 +1,101 @@
+import { ChallengeKind, Client, Court, CourtLevel, Stage, StageOutcome } from '../types';
+import { findCourtByName, guessCourtLevel } from './courts';
+
+export const STAGE_OUTCOME_LABELS: Record<StageOutcome, string> = {
+    won: 'لصالحنا',
+    lost: 'ضدنا',
+    partial: 'لصالحنا جزئياً',
+};
+
+export const CHALLENGE_KIND_LABELS: Record<ChallengeKind, string> = {
+    appeal: 'استئناف',
+    cassation: 'نقض',
+};
+
+/** The court level a stage sits at: what it challenges if it is a follow-up stage, otherwise its court's level. */
+export const getStageLevel = (stage: Stage, courts: Court[]): CourtLevel => {
+    if (stage.challengeKind) return stage.challengeKind;
+    return findCourtByName(courts, stage.court)?.level || guessCourtLevel(stage.court);
+};
+
+// Decisions of a cassation court are final; everything below it goes one level up.
+export const suggestChallengeKind = (level: CourtLevel): ChallengeKind | null =>
+    level === 'cassation' ? null : level === 'appeal' ? 'cassation' : 'appeal';
+
+export interface StageDecision {
+    decisionDate: Date;
+    decisionNumber: string;
+    decisionSummary: string;
+    decisionNotes: string;
+    decisionOutcome: StageOutcome | null;
+    notificationDate?: Date;
+}
+
+export interface FollowUpStageInput {
+    kind: ChallengeKind;
+    court: string;
+    filingDeadline?: Date;
+}
+
+/**
+ * Records the decision of a stage and, when asked, opens the appeal or cassation stage that challenges it
+ * right after it in the same case. Clients that do not hold the stage are returned untouched.
+ */
+export const applyStageDecision = (clients: Client[], stageId: string, decision: StageDecision, followUp?: FollowUpStageInput): Client[] => {
+    const now = new Date();
+    return clients.map(client => {
+        if (!client.cases.some(cs => cs.stages.some(st => st.id === stageId))) return client;
+        return {
+            ...client,
+            updated_at: now,
+            cases: client.cases.map(cs => {
+                const stage = cs.stages.find(st => st.id === stageId);
+                if (!stage) return cs;
+                const stages = cs.stages.map(st => st.id === stageId ? { ...st, ...decision, updated_at: now } : st);
+                if (followUp) {
+                    stages.push({
+                        id: `stage-${Date.now()}`,
+                        court: followUp.court.trim() || 'غير محدد',
+                        caseNumber: '',
+                        parentStageId: stage.id,
+                        challengeKind: followUp.kind,
+                        filingDeadline: followUp.filingDeadline,
+                        sessions: [],
+                        updated_at: now,
+                    });
+                }
+                return { ...cs, updated_at: now, stages };
+            }),
+        };
+    });
+};
+
+/**
+ * The litigation paths of a case, each from a first-instance stage up to its last challenge.
+ * A stage challenged more than once starts a path per challenge; stages whose parent was deleted start their own path.
+ */
+export const getStageChains = (stages: Stage[]): Stage[][] => {
+    const ids = new Set(stages.map(st => st.id));
+    const childrenOf = (stage: Stage) => stages.filter(st => st.parentStageId === stage.id && st.id !== stage.id);
+    const walk = (stage: Stage, path: Stage[]): Stage[][] => {
+        const children = childrenOf(stage).filter(child => !path.includes(child));
+        return children.length === 0 ? [[...path, stage]] : children.flatMap(child => walk(child, [...path, stage]));
+    };
+    return stages.filter(st => !st.parentStageId || !ids.has(st.parentStageId)).flatMap(root => walk(root, []));
+};
+
+// A stage and everything challenging it, directly or further up; none of them can become the stage's parent.
+export const getStageDescendantIds = (stages: Stage[], stageId: string): Set<string> => {
+    const ids = new Set([stageId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const stage of stages) {
+            if (stage.parentStageId && ids.has(stage.parentStageId) && !ids.has(stage.id)) {
+                ids.add(stage.id);
+                grew = true;
+            }
+        }
+    }
+    return ids;
+};
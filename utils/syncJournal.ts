@@ -0,0 +1,40 @@
+import { SyncJournalEntry } from '../types';
+import { getDb, SYNC_JOURNAL_STORE_NAME } from './localDb';
+
+// Oldest runs are dropped beyond this many entries, across all owners on this device.
+export const MAX_SYNC_JOURNAL_ENTRIES = 300;
+
+export async function appendSyncJournalEntry(ownerId: string, entry: SyncJournalEntry) {
+    const db = await getDb();
+    const tx = db.transaction(SYNC_JOURNAL_STORE_NAME, 'readwrite');
+    await tx.store.add({ ...entry, ownerId, finishedAt: entry.finishedAt || new Date().toISOString() });
+    let excess = (await tx.store.count()) - MAX_SYNC_JOURNAL_ENTRIES;
+    // Keys are auto-incremented, so the cursor starts at the oldest run.
+    let cursor = excess > 0 ? await tx.store.openCursor() : null;
+    while (cursor && excess > 0) {
+        await cursor.delete();
+        excess--;
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+}
+
+// Most recent runs first.
+export async function loadSyncJournal(ownerId: string): Promise<SyncJournalEntry[]> {
+    const db = await getDb();
+    // Missing when the schema upgrade that adds it failed
+    if (!db.objectStoreNames.contains(SYNC_JOURNAL_STORE_NAME)) return [];
+    const entries = await db.getAll(SYNC_JOURNAL_STORE_NAME) as SyncJournalEntry[];
+    return entries.filter(entry => entry.ownerId === ownerId).reverse();
+}
+
+export async function clearSyncJournal(ownerId: string) {
+    const db = await getDb();
+    const tx = db.transaction(SYNC_JOURNAL_STORE_NAME, 'readwrite');
+    let cursor = await tx.store.openCursor();
+    while (cursor) {
+        if ((cursor.value as SyncJournalEntry).ownerId === ownerId) await cursor.delete();
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+}
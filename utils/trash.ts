@@ -0,0 +1,160 @@
+import { AppData, TrashItem, TrashEntityType, Client, Case, Stage, Session } from '../types';
+import { getDb, TRASH_STORE_NAME } from './localDb';
+import { formatDate } from './dateUtils';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashTarget {
+    entityType: TrashEntityType;
+    entityId: string;
+    clientId?: string;
+    caseId?: string;
+    stageId?: string;
+}
+
+export const getTrashExpiry = (item: TrashItem, retentionDays: number): Date => new Date(Date.parse(item.deletedAt) + retentionDays * DAY_MS);
+
+// Most recently deleted first.
+export async function loadTrash(ownerId: string): Promise<TrashItem[]> {
+    const db = await getDb();
+    // Missing when the schema upgrade that adds it failed
+    if (!db.objectStoreNames.contains(TRASH_STORE_NAME)) return [];
+    const items = await db.getAll(TRASH_STORE_NAME) as TrashItem[];
+    return items.filter(item => item.ownerId === ownerId).sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt));
+}
+
+export async function putTrashItem(ownerId: string, item: TrashItem) {
+    const db = await getDb();
+    await db.put(TRASH_STORE_NAME, { ...item, ownerId });
+}
+
+export async function deleteTrashItems(ids: string[]) {
+    const db = await getDb();
+    const tx = db.transaction(TRASH_STORE_NAME, 'readwrite');
+    for (const id of ids) await tx.store.delete(id);
+    await tx.done;
+}
+
+/**
+ * Takes a client, case, stage or session out of the data with everything that hangs off it: nested children,
+ * the documents of its cases, its accounting entries and, for a client, its invoices. Returns null when the
+ * entity is not found. The trash item id is derived from the entity so recording it twice is harmless.
+ */
+export const moveToTrash = (data: AppData, target: TrashTarget, deletedBy: string | null): { data: AppData; item: TrashItem } | null => {
+    const { entityType, entityId } = target;
+    const client = data.clients.find(c => c.id === (entityType === 'client' ? entityId : target.clientId));
+    if (!client) return null;
+    const caseItem = entityType === 'client' ? undefined : client.cases.find(cs => cs.id === (entityType === 'case' ? entityId : target.caseId));
+    const stage = entityType === 'stage' || entityType === 'session' ? caseItem?.stages.find(st => st.id === (entityType === 'stage' ? entityId : target.stageId)) : undefined;
+
+    let entity: Client | Case | Stage | Session | undefined;
+    let label = '';
+    let clients = data.clients;
+    let removedCaseIds = new Set<string>();
+    switch (entityType) {
+        case 'client':
+            entity = client;
+            label = client.name;
+            clients = data.clients.filter(c => c.id !== entityId);
+            removedCaseIds = new Set(client.cases.map(cs => cs.id));
+            break;
+        case 'case':
+            entity = caseItem;
+            label = caseItem ? `${caseItem.subject} (${client.name})` : '';
+            clients = data.clients.map(c => c.id === client.id ? { ...c, cases: c.cases.filter(cs => cs.id !== entityId) } : c);
+            removedCaseIds = new Set([entityId]);
+            break;
+        case 'stage':
+            entity = stage;
+            label = stage ? `${stage.court}${stage.caseNumber ? ` (${stage.caseNumber})` : ''} - ${caseItem!.subject}` : '';
+            clients = data.clients.map(c => c.id === client.id ? { ...c, cases: c.cases.map(cs => cs.id === caseItem?.id ? { ...cs, stages: cs.stages.filter(st => st.id !== entityId) } : cs) } : c);
+            break;
+        case 'session': {
+            const session = stage?.sessions.find(s => s.id === entityId);
+            entity = session;
+            label = session ? `جلسة ${formatDate(new Date(session.date))} - ${caseItem!.subject}` : '';
+            clients = data.clients.map(c => c.id === client.id ? { ...c, cases: c.cases.map(cs => cs.id === caseItem?.id ? { ...cs, stages: cs.stages.map(st => st.id === stage?.id ? { ...st, sessions: st.sessions.filter(s => s.id !== entityId) } : st) } : cs) } : c);
+            break;
+        }
+    }
+    if (!entity) return null;
+
+    const documents = data.documents.filter(doc => removedCaseIds.has(doc.caseId));
+    const accountingEntries = data.accountingEntries.filter(entry => entityType === 'client' ? entry.clientId === entityId : removedCaseIds.has(entry.caseId));
+    const invoices = entityType === 'client' ? data.invoices.filter(inv => inv.clientId === entityId) : [];
+
+    const item: TrashItem = {
+        id: `trash-${entityId}`,
+        entityType, entityId, label,
+        parentIds: {
+            clientId: entityType === 'client' ? undefined : client.id,
+            caseId: entityType === 'stage' || entityType === 'session' ? caseItem?.id : undefined,
+            stageId: entityType === 'session' ? stage?.id : undefined,
+        },
+        entity, documents, accountingEntries, invoices,
+        deletedAt: new Date().toISOString(),
+        deletedBy,
+    };
+    return {
+        item,
+        data: {
+            ...data,
+            clients,
+            documents: documents.length > 0 ? data.documents.filter(doc => !documents.includes(doc)) : data.documents,
+            accountingEntries: accountingEntries.length > 0 ? data.accountingEntries.filter(entry => !accountingEntries.includes(entry)) : data.accountingEntries,
+            invoices: invoices.length > 0 ? data.invoices.filter(inv => !invoices.includes(inv)) : data.invoices,
+        },
+    };
+};
+
+const addMissing = <T extends { id: any }>(list: T[], rows: T[]): T[] => {
+    const ids = new Set(list.map(row => row.id));
+    const missing = rows.filter(row => !ids.has(row.id));
+    return missing.length > 0 ? [...list, ...missing] : list;
+};
+
+/**
+ * Puts a trashed entity back under its parent, or returns null when the parent is gone (it has to be restored first).
+ * Every restored row gets a fresh updated_at: it is pushed again as a new row and is newer than the deletion
+ * other devices applied, so their next sync takes it back instead of purging it.
+ */
+export const restoreFromTrash = (data: AppData, item: TrashItem): AppData | null => {
+    const now = new Date();
+    const touch = <T extends object>(row: T): T => ({ ...row, updated_at: now });
+    const touchStage = (stage: Stage): Stage => ({ ...touch(stage), sessions: stage.sessions.map(touch) });
+    const touchCase = (caseItem: Case): Case => ({ ...touch(caseItem), parties: caseItem.parties?.map(touch), stages: caseItem.stages.map(touchStage) });
+    const { clientId, caseId, stageId } = item.parentIds;
+
+    let clients: Client[];
+    switch (item.entityType) {
+        case 'client': {
+            const client = item.entity as Client;
+            clients = addMissing(data.clients, [{ ...touch(client), cases: client.cases.map(touchCase) }]);
+            break;
+        }
+        case 'case': {
+            if (!data.clients.some(c => c.id === clientId)) return null;
+            clients = data.clients.map(c => c.id === clientId ? { ...c, cases: addMissing(c.cases, [touchCase(item.entity as Case)]) } : c);
+            break;
+        }
+        case 'stage': {
+            if (!data.clients.some(c => c.id === clientId && c.cases.some(cs => cs.id === caseId))) return null;
+            clients = data.clients.map(c => c.id === clientId ? { ...c, cases: c.cases.map(cs => cs.id === caseId ? { ...cs, stages: addMissing(cs.stages, [touchStage(item.entity as Stage)]) } : cs) } : c);
+            break;
+        }
+        case 'session': {
+            if (!data.clients.some(c => c.id === clientId && c.cases.some(cs => cs.id === caseId && cs.stages.some(st => st.id === stageId)))) return null;
+            clients = data.clients.map(c => c.id === clientId ? { ...c, cases: c.cases.map(cs => cs.id === caseId ? { ...cs, stages: cs.stages.map(st => st.id === stageId ? { ...st, sessions: addMissing(st.sessions, [touch(item.entity as Session)]) } : st) } : cs) } : c);
+            break;
+        }
+    }
+
+    return {
+        ...data,
+        clients,
+        documents: addMissing(data.documents, item.documents.map(touch)),
+        accountingEntries: addMissing(data.accountingEntries, item.accountingEntries.map(touch)),
+        invoices: addMissing(data.invoices, item.invoices.map(inv => ({ ...touch(inv), items: inv.items.map(touch) }))),
+    };
+};
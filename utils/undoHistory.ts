@@ -0,0 +1,121 @@
+import { AppData, OutboxOperation, OutboxReason, TrashItem } from '../types';
+import { FlatData, flattenData, normalizeFieldValue, OUTBOX_UPSERT_ORDER } from '../hooks/useOnlineData';
+import { constructData } from '../hooks/useSync';
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+// One row as it was before and after a change, null where the row did not exist.
+export interface HistoryChange {
+    table: keyof FlatData;
+    key: string;
+    before: any | null;
+    after: any | null;
+    fields: string[] | null; // The fields an edit changed; null when the row was added or deleted
+}
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    isDestructive: boolean; // Deletions and stage decisions, announced with an undo toast
+    changes: HistoryChange[];
+    // Trash items recorded or restored by the change, so undo and redo keep the trash in step with the data.
+    trashAdded: TrashItem[];
+    trashRemoved: TrashItem[];
+}
+
+const TABLE_LABELS: Record<keyof FlatData, string> = {
+    clients: 'موكل', contacts: 'جهة اتصال', courts: 'محكمة', case_types: 'نوع قضية', custom_field_definitions: 'حقل مخصص', deadline_rules: 'قاعدة مهلة', deadlines: 'مهلة قانونية', notes: 'ملاحظة', cases: 'قضية', case_parties: 'طرف في قضية', stages: 'مرحلة', sessions: 'جلسة', admin_tasks: 'مهمة إدارية', appointments: 'موعد',
+    accounting_entries: 'قيد محاسبي', assistants: 'مساعد', invoices: 'فاتورة', invoice_items: 'بند فاتورة',
+    case_documents: 'وثيقة', profiles: 'مستخدم', site_finances: 'قيد مالي',
+};
+
+// Local bookkeeping kept as it currently is when a row is put back.
+const LOCAL_STATE_FIELDS = ['localState', 'isLocalOnly'];
+const UNTRACKED_FIELDS = new Set(['updated_at', 'updated_by', ...LOCAL_STATE_FIELDS]);
+
+const getRowKey = (row: any) => String(row.id ?? row.name);
+
+const getChangedFields = (before: any, after: any): string[] => Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !UNTRACKED_FIELDS.has(field) && normalizeFieldValue(before[field]) !== normalizeFieldValue(after[field]));
+
+const isDecision = (change: HistoryChange) => change.table === 'stages' && !change.before?.decisionDate && !!change.after?.decisionDate;
+
+const describeChange = (change: HistoryChange, count: number, reason?: OutboxReason): string => {
+    let verb = 'تعديل';
+    if (change.before === null) verb = 'إضافة';
+    else if (change.after === null) verb = 'حذف';
+    else if (reason === 'postpone') verb = 'تأجيل';
+    else if (isDecision(change)) verb = 'حسم';
+    else if (change.table === 'admin_tasks' && count > 1) verb = 'إعادة ترتيب';
+    return `${verb} ${TABLE_LABELS[change.table]}${count > 1 ? ` (${count})` : ''}`;
+};
+
+/**
+ * Records the rows an updateData call changed, taken from the outbox operations it produced so that
+ * bookkeeping-only changes (document download states and the like) never become an undo step.
+ */
+export const createHistoryEntry = (
+    id: number,
+    prev: AppData,
+    next: AppData,
+    ops: Omit<OutboxOperation, 'ownerId'>[],
+    options: { reason?: OutboxReason; trashAdded?: TrashItem[]; trashRemoved?: TrashItem[] } = {},
+): HistoryEntry | null => {
+    const rowOps = ops.filter(op => op.type !== 'delete_file');
+    if (rowOps.length === 0) return null;
+    const prevFlat = flattenData(prev);
+    const nextFlat = flattenData(next);
+    const findRow = (flat: FlatData, table: keyof FlatData, key: string) => (flat[table] as any[]).find(row => getRowKey(row) === key) ?? null;
+    const changes: HistoryChange[] = rowOps.map(op => {
+        const table = op.table as keyof FlatData;
+        const before = findRow(prevFlat, table, op.recordId);
+        const after = findRow(nextFlat, table, op.recordId);
+        return { table, key: op.recordId, before, after, fields: before && after ? getChangedFields(before, after) : null };
+    });
+
+    // Named after the top-most table it touched, e.g. a deleted client rather than its sessions.
+    const mainTable = OUTBOX_UPSERT_ORDER.find(table => changes.some(c => c.table === table))!;
+    const mainChanges = changes.filter(c => c.table === mainTable);
+    return {
+        id,
+        label: describeChange(mainChanges[0], mainChanges.length, options.reason),
+        isDestructive: changes.some(c => c.after === null || isDecision(c)),
+        changes,
+        trashAdded: options.trashAdded || [],
+        trashRemoved: options.trashRemoved || [],
+    };
+};
+
+/**
+ * Puts the recorded rows back to their state before ('undo') or after ('redo') the change. An edited row only
+ * gets the fields the change touched back, so what other tabs or devices changed on it since is kept; added
+ * and deleted rows are removed or put back whole. Rows get a fresh updated_at so the result is pushed as a new
+ * edit, also when the original change already reached the cloud and other devices.
+ */
+export const applyHistoryEntry = (data: AppData, entry: HistoryEntry, direction: 'undo' | 'redo'): AppData => {
+    const flat = flattenData(data);
+    const tables: Partial<Record<keyof FlatData, any[]>> = {};
+    const now = new Date();
+    for (const change of entry.changes) {
+        const rows = tables[change.table] || (tables[change.table] = [...(flat[change.table] as any[])]);
+        const index = rows.findIndex(row => getRowKey(row) === change.key);
+        const target = direction === 'undo' ? change.before : change.after;
+        if (target === null) {
+            if (index !== -1) rows.splice(index, 1);
+            continue;
+        }
+        if (index !== -1 && change.fields) {
+            const restored = Object.fromEntries(change.fields.map(field => [field, target[field]]));
+            rows[index] = { ...rows[index], ...restored, updated_at: now };
+            continue;
+        }
+        const row = { ...target, updated_at: now };
+        if (index !== -1) {
+            for (const field of LOCAL_STATE_FIELDS) if (field in rows[index]) row[field] = rows[index][field];
+            rows[index] = row;
+        } else {
+            rows.push(row);
+        }
+    }
+    return constructData({ ...flat, ...tables });
+};